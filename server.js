@@ -4,27 +4,78 @@ require('dotenv').config({
 
 const express = require('express');
 const cors = require('cors');
-const { S3Client, ListObjectsV2Command, PutObjectCommand, DeleteObjectCommand, GetObjectCommand, HeadObjectCommand } = require('@aws-sdk/client-s3');
+const {
+  S3Client,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
+  ListMultipartUploadsCommand,
+  ListObjectVersionsCommand,
+  CopyObjectCommand,
+  UploadPartCopyCommand,
+  DeleteObjectsCommand,
+} = require('@aws-sdk/client-s3');
 const { STSClient, AssumeRoleCommand } = require('@aws-sdk/client-sts');
 const { getSignedUrl } = require('@aws-sdk/s3-request-presigner');
 const multer = require('multer');
+const { OAuth2Client } = require('google-auth-library');
+const archiver = require('archiver');
 const { spawn } = require('child_process');
 const fs = require('fs');
+const crypto = require('crypto');
+const os = require('os');
 const path = require('path');
 
 const app = express();
 const PORT = process.env.BACKEND_PORT || process.env.PORT || 5001;
 
+// Client addresses (req.ip) come from X-Forwarded-For when the request passed through a trusted proxy, such as
+// nginx on the same host; TRUST_PROXY takes Express' "trust proxy" values, e.g. loopback or 10.0.0.0/8
+app.set('trust proxy', process.env.TRUST_PROXY || 'loopback');
+
+// Runtime state lives in data/; DATA_DIR moves it elsewhere, e.g. a temporary directory in the server tests
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, 'data');
+
 // Path for authorized users JSON file
-const AUTHORIZED_USERS_FILE = path.join(__dirname, 'data', 'authorized-users.json');
+const AUTHORIZED_USERS_FILE = path.join(DATA_DIR, 'authorized-users.json');
 
 // Path for activity logs JSON file
-const ACTIVITY_LOGS_FILE = path.join(__dirname, 'data', 'activity.json');
+const ACTIVITY_LOGS_FILE = path.join(DATA_DIR, 'activity.json');
+
+// Path for recycle bin index JSON file
+const TRASH_FILE = path.join(DATA_DIR, 'trash.json');
+
+// Path for per-project folder layouts
+const PROJECT_LAYOUTS_FILE = path.join(DATA_DIR, 'project-layouts.json');
+
+// Path for per-project input/output reconciliation rules
+const RECONCILIATION_RULES_FILE = path.join(DATA_DIR, 'reconciliation-rules.json');
+
+// Path for shareable download links
+const SHARE_LINKS_FILE = path.join(DATA_DIR, 'share-links.json');
+
+// Path for upload request links
+const UPLOAD_LINKS_FILE = path.join(DATA_DIR, 'upload-links.json');
+
+// Path for signed-in user sessions
+const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json');
+
+// Path for personal API tokens
+const API_TOKENS_FILE = path.join(DATA_DIR, 'api-tokens.json');
+
+// Directory for the object metadata index (one JSON file per project)
+const OBJECT_INDEX_DIR = path.join(DATA_DIR, 'object-index');
 
 // Ensure data directory exists
-const dataDir = path.dirname(AUTHORIZED_USERS_FILE);
-if (!fs.existsSync(dataDir)) {
-  fs.mkdirSync(dataDir, { recursive: true });
+if (!fs.existsSync(DATA_DIR)) {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
 }
 
 // Initialize authorized users file if it doesn't exist
@@ -106,20 +157,204 @@ function saveActivityLogs(activityData) {
   }
 }
 
+// Initialize recycle bin file if it doesn't exist
+function initializeTrashFile() {
+  if (!fs.existsSync(TRASH_FILE)) {
+    fs.writeFileSync(TRASH_FILE, JSON.stringify({ items: [] }, null, 2));
+    console.log('✅ Initialized recycle bin file');
+  }
+}
+
+// Load recycle bin entries from JSON file
+function loadTrash() {
+  try {
+    if (fs.existsSync(TRASH_FILE)) {
+      const data = fs.readFileSync(TRASH_FILE, 'utf8');
+      return JSON.parse(data);
+    }
+    return { items: [] };
+  } catch (error) {
+    console.error('❌ Error loading recycle bin:', error);
+    return { items: [] };
+  }
+}
+
+// Save recycle bin entries to JSON file
+function saveTrash(trashData) {
+  try {
+    fs.writeFileSync(TRASH_FILE, JSON.stringify(trashData, null, 2));
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving recycle bin:', error);
+    return false;
+  }
+}
+
+// Load share links from JSON file
+function loadShareLinks() {
+  try {
+    if (fs.existsSync(SHARE_LINKS_FILE)) {
+      const data = fs.readFileSync(SHARE_LINKS_FILE, 'utf8');
+      return JSON.parse(data);
+    }
+    return { links: [] };
+  } catch (error) {
+    console.error('❌ Error loading share links:', error);
+    return { links: [] };
+  }
+}
+
+// Save share links to JSON file
+function saveShareLinks(linksData) {
+  try {
+    fs.writeFileSync(SHARE_LINKS_FILE, JSON.stringify(linksData, null, 2));
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving share links:', error);
+    return false;
+  }
+}
+
+// Load upload request links from JSON file
+function loadUploadLinks() {
+  try {
+    if (fs.existsSync(UPLOAD_LINKS_FILE)) {
+      const data = fs.readFileSync(UPLOAD_LINKS_FILE, 'utf8');
+      return JSON.parse(data);
+    }
+    return { links: [] };
+  } catch (error) {
+    console.error('❌ Error loading upload links:', error);
+    return { links: [] };
+  }
+}
+
+// Save upload request links to JSON file
+function saveUploadLinks(linksData) {
+  try {
+    fs.writeFileSync(UPLOAD_LINKS_FILE, JSON.stringify(linksData, null, 2));
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving upload links:', error);
+    return false;
+  }
+}
+
+// Load user sessions from JSON file
+function loadSessions() {
+  try {
+    if (fs.existsSync(SESSIONS_FILE)) {
+      const data = fs.readFileSync(SESSIONS_FILE, 'utf8');
+      return JSON.parse(data);
+    }
+    return { sessions: [] };
+  } catch (error) {
+    console.error('❌ Error loading sessions:', error);
+    return { sessions: [] };
+  }
+}
+
+// Save user sessions to JSON file
+function saveSessions(sessionsData) {
+  try {
+    fs.writeFileSync(SESSIONS_FILE, JSON.stringify(sessionsData, null, 2));
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving sessions:', error);
+    return false;
+  }
+}
+
+// Load API tokens from JSON file
+function loadApiTokens() {
+  try {
+    if (fs.existsSync(API_TOKENS_FILE)) {
+      const data = fs.readFileSync(API_TOKENS_FILE, 'utf8');
+      return JSON.parse(data);
+    }
+    return { tokens: [] };
+  } catch (error) {
+    console.error('❌ Error loading API tokens:', error);
+    return { tokens: [] };
+  }
+}
+
+// Save API tokens to JSON file
+function saveApiTokens(tokensData) {
+  try {
+    fs.writeFileSync(API_TOKENS_FILE, JSON.stringify(tokensData, null, 2));
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving API tokens:', error);
+    return false;
+  }
+}
+
+// Load project folder layouts from JSON file
+function loadProjectLayouts() {
+  try {
+    if (fs.existsSync(PROJECT_LAYOUTS_FILE)) {
+      const data = fs.readFileSync(PROJECT_LAYOUTS_FILE, 'utf8');
+      return JSON.parse(data);
+    }
+    return { projects: {} };
+  } catch (error) {
+    console.error('❌ Error loading project layouts:', error);
+    return { projects: {} };
+  }
+}
+
+// Save project folder layouts to JSON file
+function saveProjectLayouts(layoutsData) {
+  try {
+    fs.writeFileSync(PROJECT_LAYOUTS_FILE, JSON.stringify(layoutsData, null, 2));
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving project layouts:', error);
+    return false;
+  }
+}
+
+// Load reconciliation rules from JSON file
+function loadReconciliationRules() {
+  try {
+    if (fs.existsSync(RECONCILIATION_RULES_FILE)) {
+      const data = fs.readFileSync(RECONCILIATION_RULES_FILE, 'utf8');
+      return JSON.parse(data);
+    }
+    return { projects: {} };
+  } catch (error) {
+    console.error('❌ Error loading reconciliation rules:', error);
+    return { projects: {} };
+  }
+}
+
+// Save reconciliation rules to JSON file
+function saveReconciliationRules(rulesData) {
+  try {
+    fs.writeFileSync(RECONCILIATION_RULES_FILE, JSON.stringify(rulesData, null, 2));
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving reconciliation rules:', error);
+    return false;
+  }
+}
+
 // Helper function to log user activity
-function logActivity(userEmail, userName, action, fileName, fileSize, status, details) {
+function logActivity(userEmail, userName, action, fileName, fileSize, status, details, items) {
   try {
     const activityData = loadActivityLogs();
     const newActivity = {
       id: `act_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       userEmail,
       userName,
-      action, // 'upload', 'download', 'delete'
+      action, // 'upload', 'download', 'delete', 'create', 'copy', 'move', 'share'
       fileName,
       fileSize,
       timestamp: new Date().toISOString(),
       status, // 'success', 'failed'
-      details
+      details,
+      ...(items && { items }) // per-file results of bulk operations
     };
     
     activityData.activities.unshift(newActivity); // Add to beginning
@@ -136,26 +371,201 @@ function logActivity(userEmail, userName, action, fileName, fileSize, status, de
   }
 }
 
+// Sign-in ends in a session: once the configured auth provider has verified who the user is, the server
+// answers with an HttpOnly session cookie that authenticates every later request.
+const SESSION_COOKIE = 's3m_session';
+const SESSION_HOURS = Number(process.env.SESSION_HOURS) || 12;
+
+function findAuthorizedUser(email) {
+  const usersData = loadAuthorizedUsers();
+  return usersData.users.find(user => user.email.toLowerCase() === email.toLowerCase());
+}
+
+// Only a hash of the cookie value is stored, so the sessions file cannot be replayed
+function hashSessionToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function getCookie(req, name) {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return null;
+}
+
+// Start a session for a verified Google account and set its cookie on the response
+function createSession(res, { email, name, picture }) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const sessionsData = loadSessions();
+  
+  sessionsData.sessions = sessionsData.sessions.filter(session => new Date(session.expiresAt).getTime() > now);
+  sessionsData.sessions.push({
+    id: hashSessionToken(token),
+    email: email.toLowerCase(),
+    name: name || email,
+    picture: picture || '',
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_HOURS * 60 * 60 * 1000).toISOString(),
+  });
+  saveSessions(sessionsData);
+  
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_HOURS * 60 * 60 * 1000,
+  });
+}
+
+// The unexpired session named by the request's cookie, or null
+function getSession(req) {
+  const token = getCookie(req, SESSION_COOKIE);
+  if (!token) return null;
+  
+  const id = hashSessionToken(token);
+  const session = loadSessions().sessions.find(candidate => candidate.id === id);
+  return session && new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+}
+
+function endSession(req, res) {
+  const token = getCookie(req, SESSION_COOKIE);
+  if (token) {
+    const id = hashSessionToken(token);
+    const sessionsData = loadSessions();
+    sessionsData.sessions = sessionsData.sessions.filter(session => session.id !== id);
+    saveSessions(sessionsData);
+  }
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+// Scripts and CI pipelines authenticate with `Authorization: Bearer <token>` instead of a session. A token acts
+// for the user who created it, never as an admin, and only with the project permissions it was scoped to.
+const API_TOKEN_PREFIX = 's3m_';
+const API_TOKEN_MAX_DAYS = Number(process.env.API_TOKEN_MAX_DAYS) || 365;
+const API_TOKEN_USE_INTERVAL = 60 * 1000;
+
+function getBearerToken(req) {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+  return match ? match[1] : null;
+}
+
+// 'active' or why the token no longer works
+function getApiTokenStatus(apiToken, now = Date.now()) {
+  if (apiToken.revokedAt) return 'revoked';
+  if (new Date(apiToken.expiresAt).getTime() <= now) return 'expired';
+  return 'active';
+}
+
+// The active token matching a bearer value, recording when it was last used (at most once a minute)
+function findActiveApiToken(bearerToken) {
+  if (!bearerToken.startsWith(API_TOKEN_PREFIX)) return null;
+  
+  const tokenHash = hashSessionToken(bearerToken);
+  const tokensData = loadApiTokens();
+  const apiToken = tokensData.tokens.find(candidate => candidate.tokenHash === tokenHash);
+  if (!apiToken || getApiTokenStatus(apiToken) !== 'active') return null;
+  
+  const now = Date.now();
+  if (!apiToken.lastUsedAt || now - new Date(apiToken.lastUsedAt).getTime() > API_TOKEN_USE_INTERVAL) {
+    apiToken.lastUsedAt = new Date(now).toISOString();
+    saveApiTokens(tokensData);
+  }
+  return apiToken;
+}
+
+// Authenticate a request carrying a bearer token; answers 401/403 itself and returns false on failure
+function authorizeApiToken(req, res, bearerToken) {
+  const apiToken = findActiveApiToken(bearerToken);
+  if (!apiToken) {
+    res.status(401).json({
+      error: 'INVALID_TOKEN',
+      message: 'The API token is invalid, expired or revoked.'
+    });
+    return false;
+  }
+  
+  // During local development everyone is an admin, so tokens of unlisted users act for an admin too
+  const owner = findAuthorizedUser(apiToken.createdBy) ||
+    (process.env.NODE_ENV !== 'production' ? { email: apiToken.createdBy, role: 'admin' } : null);
+  if (!owner) {
+    res.status(403).json({
+      error: 'ACCESS_DENIED',
+      message: 'The owner of this API token is no longer authorized to access this application.'
+    });
+    return false;
+  }
+  
+  req.user = {
+    email: owner.email,
+    name: `${apiToken.createdByName} via token ${apiToken.name}`,
+    role: 'user',
+    projects: getProjectGrants(owner),
+    token: { id: apiToken.id, name: apiToken.name, projects: apiToken.projects }
+  };
+  return true;
+}
+
+// During local development nobody signs in for real. Requests act as a fake identity: a role ('admin', or 'user'
+// with the default grants) or any email from authorized-users.json, picked with the identity switcher (a cookie)
+// or configured with DEV_IDENTITY.
+const DEV_IDENTITY_COOKIE = 's3m_dev_identity';
+const DEV_IDENTITY = process.env.DEV_IDENTITY || 'admin';
+const DEV_ROLE_IDENTITIES = {
+  admin: { email: 'admin@turing.com', name: 'Dev Admin', role: 'admin' },
+  user: { email: 'user@turing.com', name: 'Dev User', role: 'user' },
+};
+
+// The user a dev identity stands for, or null if it names no role or authorized user
+function resolveDevIdentity(identity) {
+  if (!identity) return null;
+  if (DEV_ROLE_IDENTITIES[identity]) return { ...DEV_ROLE_IDENTITIES[identity] };
+  const user = findAuthorizedUser(identity);
+  return user ? { ...user, name: user.name || user.email } : null;
+}
+
+// The switcher's choice wins over a sign-in session, which wins over DEV_IDENTITY. A signed-in user keeps
+// the role and grants of their authorized-users.json entry.
+function getDevUser(req) {
+  const switched = resolveDevIdentity(getCookie(req, DEV_IDENTITY_COOKIE));
+  if (switched) return switched;
+  
+  const session = getSession(req);
+  const sessionUser = session && findSignInUser(session.email);
+  if (sessionUser) return { ...sessionUser, name: session.name };
+  
+  return resolveDevIdentity(DEV_IDENTITY) || { ...DEV_ROLE_IDENTITIES.admin };
+}
+
 // Middleware to check if user is authorized
 function checkUserAuthorization(req, res, next) {
-  // For development/testing, allow localhost access
+  const bearerToken = getBearerToken(req);
+  if (bearerToken) {
+    if (authorizeApiToken(req, res, bearerToken)) next();
+    return;
+  }
+  
+  // For development/testing, act as the dev identity
   if (process.env.NODE_ENV !== 'production') {
-    req.user = { email: 'admin@turing.com', role: 'admin' };
+    req.user = getDevUser(req);
     return next();
   }
 
-  // In production, check the user's email from Google OAuth
-  const userEmail = req.headers['x-user-email']; // This should be set by Google OAuth
+  // In production, the user comes from the session started by a verified sign-in
+  const session = getSession(req);
   
-  if (!userEmail) {
+  if (!session) {
     return res.status(401).json({ 
       error: 'UNAUTHORIZED', 
-      message: 'User email not found. Please ensure you are properly authenticated.' 
+      message: 'You are not signed in or your session has expired. Please sign in again.' 
     });
   }
 
-  const usersData = loadAuthorizedUsers();
-  const authorizedUser = usersData.users.find(user => user.email.toLowerCase() === userEmail.toLowerCase());
+  const authorizedUser = findAuthorizedUser(session.email);
   
   if (!authorizedUser) {
     return res.status(403).json({ 
@@ -164,7 +574,7 @@ function checkUserAuthorization(req, res, next) {
     });
   }
 
-  req.user = authorizedUser;
+  req.user = { ...authorizedUser, name: session.name };
   next();
 }
 
@@ -179,12 +589,106 @@ function requireAdmin(req, res, next) {
   next();
 }
 
+// Per-project permissions a user can be granted. Grants live on the user record as
+// `projects: { <project>: [...permissions] }`; the project "*" applies to every project and to
+// files at the bucket root. Admins have every permission everywhere.
+const PROJECT_PERMISSIONS = ['read', 'upload', 'delete', 'manage'];
+const ALL_PROJECTS = '*';
+
+// Users added before per-project grants existed keep what the app let them do then
+const LEGACY_PROJECT_GRANTS = { [ALL_PROJECTS]: ['read', 'upload'] };
+
+function getProjectGrants(user) {
+  if (user.role === 'admin') return { [ALL_PROJECTS]: [...PROJECT_PERMISSIONS] };
+  return user.projects || LEGACY_PROJECT_GRANTS;
+}
+
+function grantsInclude(grants, project, permission) {
+  return [grants[project], grants[ALL_PROJECTS]].some(permissions => permissions?.includes(permission));
+}
+
+function hasProjectPermission(user, project, permission) {
+  // Requests made with an API token are also limited to the token's scope
+  if (user.token && !grantsInclude(user.token.projects, project, permission)) return false;
+  if (user.role === 'admin') return true;
+  return grantsInclude(getProjectGrants(user), project, permission);
+}
+
+// The project a key or prefix belongs to: its first folder, or '' for files at the bucket root
+function getKeyProject(key) {
+  const index = key.indexOf('/');
+  return index === -1 ? '' : key.slice(0, index);
+}
+
+// Objects in the recycle bin are out of reach of every project grant; the recycle bin routes check
+// the original key of a trashed file instead
+function canAccessKey(user, key, permission) {
+  if (key.startsWith(TRASH_PREFIX)) return false;
+  return hasProjectPermission(user, getKeyProject(key), permission);
+}
+
+// Returns an error message for a `projects` grant map, or null if it is valid
+function validateProjectGrants(projects) {
+  if (!projects || typeof projects !== 'object' || Array.isArray(projects)) return 'projects must be an object';
+  for (const [project, permissions] of Object.entries(projects)) {
+    if (!project || project.includes('/')) return `Invalid project name: ${project}`;
+    if (!Array.isArray(permissions) || permissions.some(permission => !PROJECT_PERMISSIONS.includes(permission))) {
+      return `Permissions must be a list of ${PROJECT_PERMISSIONS.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+// Answer 403 unless the user has `permission` on the project of every key or prefix in `keys`,
+// and 400 if `keys` is not a list of non-empty strings
+function checkProjectAccess(req, res, permission, keys) {
+  if (!Array.isArray(keys) || keys.some(key => typeof key !== 'string' || !key)) {
+    res.status(400).json({ error: 'A file key or folder prefix is required', code: 'INVALID_KEY' });
+    return false;
+  }
+  const denied = keys.find(key => !canAccessKey(req.user, key, permission));
+  if (denied === undefined) return true;
+  
+  if (denied.startsWith(TRASH_PREFIX)) {
+    res.status(403).json({ error: 'Deleted files can only be reached through the recycle bin', code: 'PROJECT_ACCESS_DENIED' });
+  } else {
+    sendProjectAccessDenied(res, permission, getKeyProject(denied));
+  }
+  return false;
+}
+
+function sendProjectAccessDenied(res, permission, project) {
+  res.status(403).json({
+    error: project
+      ? `You do not have ${permission} access to the project "${project}"`
+      : `You do not have ${permission} access to files at the bucket root`,
+    code: 'PROJECT_ACCESS_DENIED',
+  });
+}
+
+// Middleware version of checkProjectAccess; `getKeys(req)` returns the list of keys and prefixes the request names
+function requireProjectPermission(permission, getKeys) {
+  return (req, res, next) => {
+    if (checkProjectAccess(req, res, permission, getKeys(req))) {
+      next();
+    }
+  };
+}
+
+// The keys a bulk request names: its folder `prefix`, or else its list of `keys`
+function getRequestedKeys(body) {
+  return body.prefix !== undefined && body.prefix !== null ? [body.prefix] : body.keys ?? [];
+}
+
 // Initialize authorized users file on startup
 initializeAuthorizedUsersFile();
 
 // Initialize activity logs file on startup
 initializeActivityLogsFile();
 
+// Initialize recycle bin file on startup
+initializeTrashFile();
+
 // Log environment and port information
 console.log('🌍 Environment:', process.env.NODE_ENV || 'development');
 console.log('🔌 Port source:', process.env.PORT ? 'Environment variable' : 'Default fallback');
@@ -219,69 +723,822 @@ console.log('📋 Configuration:', {
   accessKeyId: AWS_CONFIG.accessKeyId ? `${AWS_CONFIG.accessKeyId.substring(0, 8)}...` : 'Missing'
 });
 
-// Configure multer for file uploads
+// Configure multer for small in-memory uploads (schema validation)
 const upload = multer({ storage: multer.memoryStorage() });
 
-// Enable CORS with dynamic origins based on environment
-const allowedOrigins = process.env.NODE_ENV === 'production' 
-  ? [
-      'http://localhost:5000', 
-      'http://localhost', 
-      'https://104.198.177.87:5000',
-      'https://104.198.177.87'
-    ]
-  : [
-      'http://localhost:3000',
-      'http://localhost:5000',
-      'http://127.0.0.1:3000',
-      'http://127.0.0.1:5000'
-    ];
+// Configure multer for S3 uploads - spooled to disk so large files never sit in RAM
+const UPLOAD_TEMP_DIR = path.join(os.tmpdir(), 's3-file-manager-uploads');
+if (!fs.existsSync(UPLOAD_TEMP_DIR)) {
+  fs.mkdirSync(UPLOAD_TEMP_DIR, { recursive: true });
+}
+const diskUpload = multer({ dest: UPLOAD_TEMP_DIR });
 
-app.use(cors({
-  origin: allowedOrigins,
-  credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-user-email']
-}));
+// Multipart upload limits (S3 allows at most 10,000 parts of 5 MB - 5 GB each)
+const MULTIPART_MIN_PART_SIZE = 5 * 1024 * 1024;
+const MULTIPART_MAX_PART_SIZE = 5 * 1024 * 1024 * 1024;
+const MULTIPART_MAX_PARTS = 10000;
+// Largest object S3 accepts
+const MULTIPART_MAX_FILE_SIZE = 5 * 1024 * 1024 * 1024 * 1024;
+const MULTIPART_URL_EXPIRY = 3600;
 
-app.use(express.json());
+// Listings are paginated; ListObjectsV2 returns at most 1000 entries per request
+const LIST_MAX_PAGE_SIZE = 1000;
 
-// Serve static files from React build directory
-app.use(express.static(path.join(__dirname, 'build')));
+// Search walks the bucket listing until it has a page of matches or runs out of time;
+// the client resumes from the returned cursor to continue
+const SEARCH_PAGE_SIZE = 200;
+const SEARCH_TIME_BUDGET_MS = 8000;
 
-let s3Client = null;
-let bucketName = AWS_CONFIG.bucketName;
-let tokenExpirationTime = null;
-let isInitialized = false;
+// Upper bound on the number of objects packed into one ZIP download
+const ZIP_MAX_FILES = 10000;
 
-// Helper function to check if tokens are expired
-function areTokensExpired() {
-  if (!tokenExpirationTime) return false;
-  return Date.now() > tokenExpirationTime;
+// CopyObject handles up to 5 GB; larger objects are copied part by part
+const COPY_OBJECT_MAX_SIZE = 5 * 1024 * 1024 * 1024;
+const MULTIPART_COPY_PART_SIZE = 512 * 1024 * 1024;
+
+// Recycle bin: 'prefix' mode moves deleted objects under TRASH_PREFIX, 'versions' mode relies on
+// S3 delete markers and keeps the deleted version in place (versioned buckets only)
+const TRASH_MODE = process.env.TRASH_MODE === 'versions' ? 'versions' : 'prefix';
+const TRASH_PREFIX = (process.env.TRASH_PREFIX || '.trash/').replace(/\/*$/, '/');
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+
+// Share links: `/s/<id>` shows a download page whose button redirects to a presigned URL valid for
+// SHARE_LINK_URL_EXPIRY seconds. Links can be created for up to SHARE_LINK_MAX_DAYS and are forgotten
+// SHARE_LINK_RETENTION after they end.
+const SHARE_LINK_MAX_DAYS = Number(process.env.SHARE_LINK_MAX_DAYS) || 30;
+const SHARE_LINK_URL_EXPIRY = 300;
+const SHARE_LINK_RETENTION = 30 * 24 * 60 * 60 * 1000;
+// Repeated wrong passwords lock a link for the address they came from
+const SHARE_LINK_MIN_PASSWORD_LENGTH = 8;
+const SHARE_LINK_MAX_FAILED_PASSWORDS = 5;
+const SHARE_LINK_LOCKOUT_MINUTES = 15;
+// Upper bound on the failed password and sign-in attempts remembered per kind
+const FAILED_ATTEMPTS_MAX_ENTRIES = 10000;
+// Base of the links handed out, e.g. https://files.example.com; defaults to the host the request came in on
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
+
+// Upload links: `/u/<id>` lets people without an account upload into one folder. A request is received
+// on the server's disk before its files go to S3, so it may carry at most UPLOAD_LINK_MAX_REQUEST_SIZE,
+// and a link stops taking files once it has received its `maxTotalSize`.
+const UPLOAD_LINK_MAX_DAYS = Number(process.env.UPLOAD_LINK_MAX_DAYS) || 30;
+const UPLOAD_LINK_MAX_REQUEST_SIZE = (Number(process.env.UPLOAD_LINK_MAX_REQUEST_MB) || 1024) * 1024 * 1024;
+const UPLOAD_LINK_MAX_FILE_SIZE = UPLOAD_LINK_MAX_REQUEST_SIZE;
+const UPLOAD_LINK_DEFAULT_FILE_SIZE = Math.min(100 * 1024 * 1024, UPLOAD_LINK_MAX_FILE_SIZE);
+const UPLOAD_LINK_MAX_TOTAL_SIZE = 100 * 1024 * 1024 * 1024;
+const UPLOAD_LINK_DEFAULT_TOTAL_SIZE = 10 * 1024 * 1024 * 1024;
+const UPLOAD_LINK_MAX_FILES = 50;
+const UPLOAD_LINK_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+// Object index: listings, search and folder statistics are answered from a local copy of the
+// bucket metadata, updated immediately by our own writes. Each project is re-synced with S3 on its own
+// schedule: every OBJECT_INDEX_REFRESH_INTERVAL while the re-syncs find changes made outside the app,
+// backing off to OBJECT_INDEX_MAX_REFRESH_INTERVAL while they find none.
+const OBJECT_INDEX_REFRESH_INTERVAL = (Number(process.env.OBJECT_INDEX_REFRESH_MINUTES) || 15) * 60 * 1000;
+const OBJECT_INDEX_MAX_REFRESH_INTERVAL = OBJECT_INDEX_REFRESH_INTERVAL * 8;
+const OBJECT_INDEX_CHECK_INTERVAL = 60 * 1000;
+const OBJECT_INDEX_SAVE_DELAY = 2000;
+
+// DeleteObjects accepts at most 1000 keys per request
+const DELETE_OBJECTS_BATCH_SIZE = 1000;
+// Upper bound on the number of objects removed by one bulk delete
+const BULK_DELETE_MAX_FILES = 10000;
+// Copies into the recycle bin (or version lookups in versions mode) run a few at a time so large
+// selections finish within one request
+const BULK_TRASH_COPY_CONCURRENCY = 8;
+
+// Copy/move operations run as background jobs whose progress the client polls
+const TRANSFER_MAX_FILES = 10000;
+const TRANSFER_COPY_CONCURRENCY = 8;
+// Finished jobs are kept this long so the client can read the final result
+const TRANSFER_JOB_TTL = 60 * 60 * 1000;
+
+// Page size requested through ?limit=, capped at what S3 returns per request
+function getListPageSize(limit) {
+  const pageSize = parseInt(limit, 10);
+  return pageSize > 0 ? Math.min(pageSize, LIST_MAX_PAGE_SIZE) : LIST_MAX_PAGE_SIZE;
 }
 
-// Helper function to handle expired token errors
-function handleExpiredTokenError(res, error) {
-  if (error.name === 'TokenRefreshRequired' || 
-      error.message.includes('token has expired') || 
-      error.message.includes('security token included in the request is expired') ||
-      error.Code === 'TokenRefreshRequired' ||
-      error.Code === 'ExpiredToken' ||
-      areTokensExpired()) {
-    console.log('🔒 Tokens have expired, reinitializing...');
-    s3Client = null;
-    isInitialized = false;
-    return res.status(401).json({ 
-      error: 'TOKEN_EXPIRED',
-      message: 'Session has expired. Reinitializing...',
-      expired: true 
+// Convert a glob pattern to a case-insensitive RegExp: `*` matches within one path segment,
+// `**` across segments and `?` one character. Patterns without wildcards match as substrings.
+function globToRegExp(pattern) {
+  const glob = /[*?]/.test(pattern) ? pattern : `*${pattern}*`;
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// Helper function to remove a multer temp file once it has been sent to S3
+function removeTempFile(file) {
+  if (file?.path) {
+    fs.unlink(file.path, (error) => {
+      if (error && error.code !== 'ENOENT') {
+        console.error('Error cleaning up temp upload file:', error);
+      }
     });
   }
-  return null; // Not an expired token error
 }
 
-// Initialize S3 client with environment variables
-async function initializeS3Client() {
+// Conditional writes (If-None-Match: *) fail with 412 when the key already exists
+function isPreconditionFailed(error) {
+  return error.name === 'PreconditionFailed' || error.$metadata?.httpStatusCode === 412;
+}
+
+function sendObjectExists(res, key) {
+  return res.status(409).json({ error: `A file already exists at ${key}`, code: 'OBJECT_EXISTS' });
+}
+
+// Replacing a file destroys its content, so every write path needs delete access to overwrite, as transfers do
+function canOverwriteKey(user, key) {
+  return canAccessKey(user, key, 'delete');
+}
+
+function sendOverwriteDenied(res, key) {
+  const project = getKeyProject(key);
+  return res.status(403).json({
+    error: `A file already exists at ${key} and replacing it needs delete access to ` +
+      (project ? `the project "${project}"` : 'files at the bucket root'),
+    code: 'PROJECT_ACCESS_DENIED',
+  });
+}
+
+// Helper function to check whether an object exists without downloading it
+async function objectExists(key) {
+  try {
+    await s3Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
+    return true;
+  } catch (error) {
+    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Copy an object (optionally a specific version) within the bucket, keeping its content type and metadata.
+// With `onlyIfNew` the copy fails with 412 instead of replacing an object that exists at the target.
+async function copyObject(sourceKey, targetKey, sourceVersionId, { onlyIfNew = false } = {}) {
+  const copySource = `${bucketName}/${encodeURIComponent(sourceKey)}${sourceVersionId ? `?versionId=${encodeURIComponent(sourceVersionId)}` : ''}`;
+  const head = await s3Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: sourceKey, VersionId: sourceVersionId }));
+  
+  if (head.ContentLength <= COPY_OBJECT_MAX_SIZE) {
+    return await s3Client.send(new CopyObjectCommand({
+      Bucket: bucketName,
+      Key: targetKey,
+      CopySource: copySource,
+      MetadataDirective: 'COPY',
+      ...(onlyIfNew && { IfNoneMatch: '*' }),
+    }));
+  }
+  
+  const { UploadId } = await s3Client.send(new CreateMultipartUploadCommand({
+    Bucket: bucketName,
+    Key: targetKey,
+    ContentType: head.ContentType,
+    Metadata: head.Metadata,
+  }));
+  
+  try {
+    const parts = [];
+    for (let start = 0, partNumber = 1; start < head.ContentLength; start += MULTIPART_COPY_PART_SIZE, partNumber++) {
+      const end = Math.min(start + MULTIPART_COPY_PART_SIZE, head.ContentLength) - 1;
+      const response = await s3Client.send(new UploadPartCopyCommand({
+        Bucket: bucketName,
+        Key: targetKey,
+        UploadId,
+        PartNumber: partNumber,
+        CopySource: copySource,
+        CopySourceRange: `bytes=${start}-${end}`,
+      }));
+      parts.push({ PartNumber: partNumber, ETag: response.CopyPartResult.ETag });
+    }
+    
+    return await s3Client.send(new CompleteMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: targetKey,
+      UploadId,
+      MultipartUpload: { Parts: parts },
+      ...(onlyIfNew && { IfNoneMatch: '*' }),
+    }));
+  } catch (error) {
+    await s3Client.send(new AbortMultipartUploadCommand({ Bucket: bucketName, Key: targetKey, UploadId }))
+      .catch(abortError => console.error('Failed to abort multipart copy:', abortError.message));
+    throw error;
+  }
+}
+
+function createTrashEntry(key, size, user, deletedAt = new Date()) {
+  const id = `trash_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  return {
+    id,
+    key,
+    size,
+    mode: TRASH_MODE,
+    deletedAt: deletedAt.toISOString(),
+    deletedBy: user.email,
+    deletedByName: user.name || user.email,
+    expiresAt: new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    ...(TRASH_MODE === 'prefix' && { trashKey: `${TRASH_PREFIX}${id}/${key}` }),
+  };
+}
+
+function addTrashEntries(entries) {
+  const trashData = loadTrash();
+  trashData.items.unshift(...entries);
+  saveTrash(trashData);
+}
+
+// Soft delete: move an object into the recycle bin and record who deleted it
+async function moveToTrash(key, user) {
+  const head = await s3Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
+  const entry = createTrashEntry(key, head.ContentLength || 0, user);
+  
+  if (TRASH_MODE === 'versions') {
+    if (!head.VersionId || head.VersionId === 'null') {
+      throw new Error('Bucket versioning is not enabled; use TRASH_MODE=prefix instead');
+    }
+    // The delete marker hides the object while the deleted version stays restorable
+    const response = await s3Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: key }));
+    entry.versionId = head.VersionId;
+    entry.deleteMarkerVersionId = response.VersionId;
+  } else {
+    await copyObject(key, entry.trashKey);
+    await s3Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: key }));
+  }
+  
+  addTrashEntries([entry]);
+  indexRemoveObjects([key]);
+  return entry;
+}
+
+// Delete keys with DeleteObjects, 1000 per request, collecting per-key results
+async function deleteObjectsInBatches(keys) {
+  const deleted = [];
+  const failed = [];
+  
+  for (let start = 0; start < keys.length; start += DELETE_OBJECTS_BATCH_SIZE) {
+    const response = await s3Client.send(new DeleteObjectsCommand({
+      Bucket: bucketName,
+      Delete: {
+        Objects: keys.slice(start, start + DELETE_OBJECTS_BATCH_SIZE).map(key => ({ Key: key })),
+      },
+    }));
+    deleted.push(...(response.Deleted || []));
+    failed.push(...(response.Errors || []).map(error => ({ key: error.Key, error: error.Message || error.Code })));
+  }
+  
+  indexRemoveObjects(deleted.map(result => result.Key));
+  return { deleted, failed };
+}
+
+// Run `handler` on every item, at most `concurrency` at a time
+async function forEachConcurrently(items, concurrency, handler) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await handler(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+}
+
+// Soft delete many objects at once; the originals are removed with DeleteObjects batches.
+// Files that cannot be kept restorable are reported as failed and left in place.
+async function moveManyToTrash(objects, user) {
+  const deletedAt = new Date();
+  const failed = [];
+  const entries = [];
+  
+  await forEachConcurrently(objects, BULK_TRASH_COPY_CONCURRENCY, async (obj) => {
+    const entry = createTrashEntry(obj.key, obj.size, user, deletedAt);
+    try {
+      if (TRASH_MODE === 'versions') {
+        const head = await s3Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: entry.key }));
+        if (!head.VersionId || head.VersionId === 'null') {
+          throw new Error('Bucket versioning is not enabled; use TRASH_MODE=prefix instead');
+        }
+        entry.versionId = head.VersionId;
+      } else {
+        await copyObject(entry.key, entry.trashKey);
+      }
+      entries.push(entry);
+    } catch (error) {
+      const missing = error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404;
+      failed.push({ key: entry.key, error: missing ? 'File no longer exists' : error.message });
+    }
+  });
+  
+  const { deleted, failed: deleteFailures } = await deleteObjectsInBatches(entries.map(entry => entry.key));
+  failed.push(...deleteFailures);
+  
+  const deletedByKey = new Map(deleted.map(result => [result.Key, result]));
+  const trashed = [];
+  for (const entry of entries) {
+    const result = deletedByKey.get(entry.key);
+    if (result) {
+      if (entry.mode === 'versions') {
+        entry.deleteMarkerVersionId = result.DeleteMarkerVersionId;
+      }
+      trashed.push(entry);
+    } else if (entry.trashKey) {
+      // The original is still in place, so drop its recycle bin copy
+      await s3Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: entry.trashKey }))
+        .catch(error => console.error(`Failed to remove recycle bin copy of ${entry.key}:`, error.message));
+    }
+  }
+  
+  addTrashEntries(trashed);
+  return { deletedKeys: trashed.map(entry => entry.key), failed };
+}
+
+// Resolve a bulk selection (explicit keys or everything under a prefix) to objects with sizes
+async function resolveSelection({ keys, prefix }) {
+  if (prefix) {
+    const objects = await listAllObjects(prefix);
+    return {
+      objects: objects.filter(obj => !obj.key.startsWith(TRASH_PREFIX)),
+      missing: [],
+    };
+  }
+  
+  const requested = new Set(keys);
+  const objects = (await listAllObjects(getCommonFolderPrefix(keys))).filter(obj => requested.has(obj.key));
+  const found = new Set(objects.map(obj => obj.key));
+  return { objects, missing: [...requested].filter(key => !found.has(key)) };
+}
+
+// Put a trashed object back at its original key
+async function restoreFromTrash(entry) {
+  if (entry.mode === 'versions') {
+    await copyObject(entry.key, entry.key, entry.versionId);
+  } else {
+    await copyObject(entry.trashKey, entry.key);
+    await s3Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: entry.trashKey }));
+  }
+  removeTrashEntry(entry.id);
+  await indexRefreshObject(entry.key);
+}
+
+// Permanently delete a trashed object
+async function purgeTrashEntry(entry) {
+  if (entry.mode === 'versions') {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: entry.key, VersionId: entry.versionId }));
+  } else {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: entry.trashKey }));
+  }
+  removeTrashEntry(entry.id);
+}
+
+function removeTrashEntry(id) {
+  const trashData = loadTrash();
+  trashData.items = trashData.items.filter(item => item.id !== id);
+  saveTrash(trashData);
+}
+
+// Purge recycle bin entries whose retention period has passed
+async function purgeExpiredTrash() {
+  const now = Date.now();
+  const expired = loadTrash().items.filter(item => new Date(item.expiresAt).getTime() <= now);
+  if (expired.length === 0) return;
+  
+  await initializeS3Client();
+  for (const entry of expired) {
+    try {
+      await purgeTrashEntry(entry);
+      logActivity('system', 'Retention policy', 'delete', entry.key.split('/').pop(), `${(entry.size / (1024 * 1024)).toFixed(2)} MB`, 'success', `Purged ${entry.key} from the recycle bin after ${TRASH_RETENTION_DAYS} days`);
+    } catch (error) {
+      console.error(`Failed to purge ${entry.key} from the recycle bin:`, error.message);
+    }
+  }
+  console.log(`🗑️ Purged ${expired.length} expired recycle bin entries`);
+}
+
+// ============================================
+// OBJECT INDEX
+// ============================================
+
+// project name -> { ready, refreshedAt, refreshInterval, nextRefreshAt,
+//   objects: Map<key, { size, etag, lastModified }>, sortedKeys }
+const objectIndex = new Map();
+const objectIndexSaveTimers = new Map();
+let objectIndexRefreshing = false;
+let objectIndexProjectsListedAt = 0;
+
+function createIndexPartition(ready, refreshedAt, objects) {
+  return {
+    ready,
+    refreshedAt,
+    refreshInterval: OBJECT_INDEX_REFRESH_INTERVAL,
+    nextRefreshAt: refreshedAt ? new Date(refreshedAt).getTime() + OBJECT_INDEX_REFRESH_INTERVAL : 0,
+    objects,
+    sortedKeys: null,
+  };
+}
+
+function getIndexFile(project) {
+  return path.join(OBJECT_INDEX_DIR, `${encodeURIComponent(project)}.json`);
+}
+
+function loadObjectIndex() {
+  try {
+    fs.mkdirSync(OBJECT_INDEX_DIR, { recursive: true });
+    for (const fileName of fs.readdirSync(OBJECT_INDEX_DIR)) {
+      if (!fileName.endsWith('.json')) continue;
+      const data = JSON.parse(fs.readFileSync(path.join(OBJECT_INDEX_DIR, fileName), 'utf8'));
+      objectIndex.set(data.project, createIndexPartition(true, data.refreshedAt, new Map(Object.entries(data.objects))));
+    }
+    console.log(`✅ Loaded object index for ${objectIndex.size} projects`);
+  } catch (error) {
+    console.error('❌ Error loading object index:', error);
+  }
+}
+
+// Writes are batched so a burst of uploads rewrites each project file once
+function scheduleIndexSave(project) {
+  if (objectIndexSaveTimers.has(project)) return;
+  objectIndexSaveTimers.set(project, setTimeout(() => {
+    objectIndexSaveTimers.delete(project);
+    const partition = objectIndex.get(project);
+    try {
+      if (!partition) {
+        fs.rmSync(getIndexFile(project), { force: true });
+        return;
+      }
+      fs.writeFileSync(getIndexFile(project), JSON.stringify({
+        project,
+        refreshedAt: partition.refreshedAt,
+        objects: Object.fromEntries(partition.objects),
+      }));
+    } catch (error) {
+      console.error(`❌ Error saving object index for ${project}:`, error);
+    }
+  }, OBJECT_INDEX_SAVE_DELAY));
+}
+
+// Only keys inside a project folder are indexed; the recycle bin is kept out
+function getIndexProject(key) {
+  if (!key || key.startsWith(TRASH_PREFIX)) return null;
+  const slash = key.indexOf('/');
+  return slash > 0 ? key.slice(0, slash) : null;
+}
+
+// The index partition that can answer for a prefix, or null if S3 has to be asked directly
+function getReadyPartition(prefix) {
+  const project = getIndexProject(prefix);
+  const partition = project && objectIndex.get(project);
+  return partition && partition.ready ? partition : null;
+}
+
+function isObjectIndexReady() {
+  return objectIndex.size > 0 && [...objectIndex.values()].every(partition => partition.ready);
+}
+
+function getSortedKeys(partition) {
+  if (!partition.sortedKeys) {
+    partition.sortedKeys = [...partition.objects.keys()].sort();
+  }
+  return partition.sortedKeys;
+}
+
+// Index of the first key in the sorted list that is >= target
+function lowerBound(sortedKeys, target) {
+  let low = 0;
+  let high = sortedKeys.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sortedKeys[mid] < target) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Iterate the indexed objects under a prefix in key order, starting after `startAfter`
+function* iterateIndexedObjects(partition, prefix, startAfter) {
+  const sortedKeys = getSortedKeys(partition);
+  let index = lowerBound(sortedKeys, prefix);
+  if (startAfter && startAfter >= prefix) {
+    index = lowerBound(sortedKeys, startAfter);
+    if (sortedKeys[index] === startAfter) index++;
+  }
+  for (; index < sortedKeys.length && sortedKeys[index].startsWith(prefix); index++) {
+    yield { key: sortedKeys[index], ...partition.objects.get(sortedKeys[index]) };
+  }
+}
+
+// Indexed objects across every project in key order
+function* iterateWholeIndex(startAfter) {
+  const projects = [...objectIndex.keys()].sort((a, b) => (`${a}/` < `${b}/` ? -1 : 1));
+  for (const project of projects) {
+    if (startAfter && `${project}/\uffff` < startAfter) continue;
+    yield* iterateIndexedObjects(objectIndex.get(project), `${project}/`, startAfter);
+  }
+}
+
+// Immediate subfolders of a prefix, derived from the indexed keys beneath it
+function listIndexedFolders(partition, prefix) {
+  const sortedKeys = getSortedKeys(partition);
+  const folders = [];
+  let index = lowerBound(sortedKeys, prefix);
+  
+  while (index < sortedKeys.length && sortedKeys[index].startsWith(prefix)) {
+    const rest = sortedKeys[index].slice(prefix.length);
+    const slash = rest.indexOf('/');
+    if (slash === -1) {
+      index++;
+      continue;
+    }
+    const folderPath = `${prefix}${rest.slice(0, slash + 1)}`;
+    folders.push({ name: rest.slice(0, slash), path: folderPath });
+    // Skip everything else inside this subfolder
+    index = lowerBound(sortedKeys, `${folderPath}\uffff`);
+  }
+  
+  return folders;
+}
+
+// Every file under a prefix, from the index when its project is ready, otherwise listed from S3
+async function listFolderObjects(prefix) {
+  const partition = getReadyPartition(prefix);
+  if (!partition) {
+    return listAllObjects(prefix);
+  }
+  return [...iterateIndexedObjects(partition, prefix)].filter(obj => !obj.key.endsWith('/'));
+}
+
+function indexPutObject(key, metadata) {
+  const project = getIndexProject(key);
+  const partition = project && objectIndex.get(project);
+  if (!partition) return;
+  
+  if (!partition.objects.has(key)) {
+    partition.sortedKeys = null;
+  }
+  partition.objects.set(key, {
+    size: metadata.size || 0,
+    etag: metadata.etag,
+    lastModified: new Date(metadata.lastModified || Date.now()).toISOString(),
+  });
+  scheduleIndexSave(project);
+}
+
+function indexRemoveObjects(keys) {
+  for (const key of keys) {
+    const project = getIndexProject(key);
+    const partition = project && objectIndex.get(project);
+    if (partition && partition.objects.delete(key)) {
+      partition.sortedKeys = null;
+      scheduleIndexSave(project);
+    }
+  }
+}
+
+// Re-read one object from S3 after a write whose resulting metadata we do not know (copies, restores)
+async function indexRefreshObject(key) {
+  if (!getIndexProject(key)) return;
+  try {
+    const head = await s3Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
+    indexPutObject(key, { size: head.ContentLength, etag: head.ETag, lastModified: head.LastModified });
+  } catch (error) {
+    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+      indexRemoveObjects([key]);
+    } else {
+      console.error(`Failed to refresh index entry for ${key}:`, error.message);
+    }
+  }
+}
+
+// Re-list a prefix from S3 and reconcile the index with it; returns how many entries changed
+async function syncIndexPrefix(project, prefix) {
+  const live = new Map();
+  let continuationToken;
+  
+  do {
+    const response = await s3Client.send(new ListObjectsV2Command({
+      Bucket: bucketName,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    }));
+    for (const obj of response.Contents || []) {
+      live.set(obj.Key, {
+        size: obj.Size || 0,
+        etag: obj.ETag,
+        lastModified: (obj.LastModified || new Date()).toISOString(),
+      });
+    }
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+  
+  let partition = objectIndex.get(project);
+  if (!partition) {
+    partition = createIndexPartition(false, null, new Map());
+    objectIndex.set(project, partition);
+  }
+  
+  let changes = 0;
+  for (const key of [...partition.objects.keys()]) {
+    if (key.startsWith(prefix) && !live.has(key)) {
+      partition.objects.delete(key);
+      changes++;
+    }
+  }
+  for (const [key, metadata] of live) {
+    const current = partition.objects.get(key);
+    if (!current || current.etag !== metadata.etag || current.lastModified !== metadata.lastModified) {
+      partition.objects.set(key, metadata);
+      changes++;
+    }
+  }
+  
+  if (changes > 0) {
+    partition.sortedKeys = null;
+  }
+  if (prefix === `${project}/`) {
+    partition.ready = true;
+    partition.refreshedAt = new Date().toISOString();
+    // Projects nobody changes outside the app are re-synced less and less often
+    partition.refreshInterval = changes > 0
+      ? OBJECT_INDEX_REFRESH_INTERVAL
+      : Math.min(partition.refreshInterval * 2, OBJECT_INDEX_MAX_REFRESH_INTERVAL);
+    partition.nextRefreshAt = Date.now() + partition.refreshInterval;
+  }
+  if (changes > 0 || prefix === `${project}/`) {
+    scheduleIndexSave(project);
+  }
+  return changes;
+}
+
+// Pick up new projects and drop the ones that disappeared from the bucket
+async function refreshIndexProjects() {
+  const projects = [];
+  let continuationToken;
+  do {
+    const response = await s3Client.send(new ListObjectsV2Command({
+      Bucket: bucketName,
+      Delimiter: '/',
+      ContinuationToken: continuationToken,
+    }));
+    for (const commonPrefix of response.CommonPrefixes || []) {
+      const project = getIndexProject(commonPrefix.Prefix);
+      if (project) projects.push(project);
+    }
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+  
+  for (const project of objectIndex.keys()) {
+    if (!projects.includes(project)) {
+      objectIndex.delete(project);
+      scheduleIndexSave(project);
+    }
+  }
+  for (const project of projects) {
+    if (!objectIndex.has(project)) {
+      objectIndex.set(project, createIndexPartition(false, null, new Map()));
+    }
+  }
+  objectIndexProjectsListedAt = Date.now();
+}
+
+// Re-sync the projects that are due, one at a time
+async function refreshObjectIndex() {
+  if (objectIndexRefreshing) return;
+  objectIndexRefreshing = true;
+  
+  try {
+    await initializeS3Client();
+    if (Date.now() - objectIndexProjectsListedAt >= OBJECT_INDEX_REFRESH_INTERVAL) {
+      await refreshIndexProjects();
+    }
+    
+    const due = [...objectIndex.entries()].filter(([, partition]) => partition.nextRefreshAt <= Date.now());
+    let changes = 0;
+    for (const [project] of due) {
+      try {
+        changes += await syncIndexPrefix(project, `${project}/`);
+      } catch (error) {
+        console.error(`❌ Object index refresh failed for ${project}:`, error.message);
+      }
+    }
+    if (due.length > 0) {
+      console.log(`🗂️ Object index refreshed: ${due.length} projects, ${changes} changes`);
+    }
+  } finally {
+    objectIndexRefreshing = false;
+  }
+}
+
+// Files at the bucket root belong to no project and are not indexed; searches list them from S3
+async function listRootObjects() {
+  const objects = [];
+  let continuationToken;
+  do {
+    const response = await s3Client.send(new ListObjectsV2Command({
+      Bucket: bucketName,
+      Delimiter: '/',
+      ContinuationToken: continuationToken,
+    }));
+    for (const obj of response.Contents || []) {
+      if (obj.Key && !obj.Key.endsWith('/')) {
+        objects.push({ key: obj.Key, size: obj.Size || 0, lastModified: obj.LastModified || new Date(), etag: obj.ETag });
+      }
+    }
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+  return objects;
+}
+
+// Merge two key-ordered sequences into one
+function* mergeByKey(first, second) {
+  const left = first[Symbol.iterator]();
+  const right = second[Symbol.iterator]();
+  let a = left.next();
+  let b = right.next();
+  while (!a.done || !b.done) {
+    if (b.done || (!a.done && a.value.key < b.value.key)) {
+      yield a.value;
+      a = left.next();
+    } else {
+      yield b.value;
+      b = right.next();
+    }
+  }
+}
+
+// Load the object index saved by the previous run
+loadObjectIndex();
+
+// Enable CORS with dynamic origins based on environment
+const allowedOrigins = process.env.NODE_ENV === 'production' 
+  ? [
+      'http://localhost:5000', 
+      'http://localhost', 
+      'https://104.198.177.87:5000',
+      'https://104.198.177.87'
+    ]
+  : [
+      'http://localhost:3000',
+      'http://localhost:5000',
+      'http://127.0.0.1:3000',
+      'http://127.0.0.1:5000'
+    ];
+
+app.use(cors({
+  origin: allowedOrigins,
+  credentials: true,
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization']
+}));
+
+// Bulk operations post long key lists
+app.use(express.json({ limit: '5mb' }));
+
+// Serve static files from React build directory
+app.use(express.static(path.join(__dirname, 'build')));
+
+let s3Client = null;
+let bucketName = AWS_CONFIG.bucketName;
+let tokenExpirationTime = null;
+let isInitialized = false;
+
+// Helper function to check if tokens are expired
+function areTokensExpired() {
+  if (!tokenExpirationTime) return false;
+  return Date.now() > tokenExpirationTime;
+}
+
+// Helper function to handle expired token errors
+function handleExpiredTokenError(res, error) {
+  if (error.name === 'TokenRefreshRequired' || 
+      error.message.includes('token has expired') || 
+      error.message.includes('security token included in the request is expired') ||
+      error.Code === 'TokenRefreshRequired' ||
+      error.Code === 'ExpiredToken' ||
+      areTokensExpired()) {
+    console.log('🔒 Tokens have expired, reinitializing...');
+    s3Client = null;
+    isInitialized = false;
+    return res.status(401).json({ 
+      error: 'TOKEN_EXPIRED',
+      message: 'Session has expired. Reinitializing...',
+      expired: true 
+    });
+  }
+  return null; // Not an expired token error
+}
+
+// Initialize S3 client with environment variables
+async function initializeS3Client() {
   if (isInitialized && s3Client && !areTokensExpired()) {
     console.log('✅ Using existing S3 client');
     return true;
@@ -400,6 +1657,20 @@ initializeS3Client().catch(error => {
   console.error('❌ Failed to initialize S3 client on startup:', error);
 });
 
+// Apply the recycle bin retention policy on startup and then every hour
+const runTrashPurge = () => purgeExpiredTrash().catch(error => {
+  console.error('❌ Recycle bin purge failed:', error);
+});
+setTimeout(runTrashPurge, 60 * 1000);
+setInterval(runTrashPurge, TRASH_PURGE_INTERVAL);
+
+// Build the object index shortly after startup and keep it in sync with S3
+const runObjectIndexRefresh = () => refreshObjectIndex().catch(error => {
+  console.error('❌ Object index refresh failed:', error);
+});
+setTimeout(runObjectIndexRefresh, 5 * 1000);
+setInterval(runObjectIndexRefresh, OBJECT_INDEX_CHECK_INTERVAL);
+
 // Get current configuration endpoint
 app.get('/api/s3/config', (req, res) => {
   res.json({
@@ -412,7 +1683,7 @@ app.get('/api/s3/config', (req, res) => {
 });
 
 // Test connection by listing top-level folders
-app.get('/api/s3/test', ensureS3Client, async (req, res) => {
+app.get('/api/s3/test', checkUserAuthorization, ensureS3Client, async (req, res) => {
   try {
     const command = new ListObjectsV2Command({
       Bucket: bucketName,
@@ -424,7 +1695,8 @@ app.get('/api/s3/test', ensureS3Client, async (req, res) => {
     
     if (response.CommonPrefixes) {
       for (const prefix of response.CommonPrefixes) {
-        if (prefix.Prefix) {
+        // Only the projects the user can read are listed
+        if (prefix.Prefix && canAccessKey(req.user, prefix.Prefix, 'read')) {
           const folderName = prefix.Prefix.replace('/', '');
           folders.push({
             name: folderName,
@@ -450,16 +1722,28 @@ app.get('/api/s3/test', ensureS3Client, async (req, res) => {
   }
 });
 
-// List folders
-app.get('/api/s3/folders', ensureS3Client, async (req, res) => {
+// List folders; at the bucket root only the projects the user can read are listed
+app.get('/api/s3/folders', checkUserAuthorization, ensureS3Client, async (req, res) => {
   try {
-    const { prefix = '' } = req.query;
+    const { prefix = '', cursor } = req.query;
     const normalizedPrefix = prefix && !prefix.endsWith('/') ? prefix + '/' : prefix;
     
+    if (normalizedPrefix && !checkProjectAccess(req, res, 'read', [normalizedPrefix])) return;
+    
+    const partition = getReadyPartition(normalizedPrefix);
+    if (partition) {
+      return res.json({
+        folders: listIndexedFolders(partition, normalizedPrefix).sort((a, b) => a.name.localeCompare(b.name)),
+        nextCursor: null,
+      });
+    }
+    
     const command = new ListObjectsV2Command({
       Bucket: bucketName,
       Prefix: normalizedPrefix,
       Delimiter: '/',
+      MaxKeys: getListPageSize(req.query.limit),
+      ContinuationToken: cursor || undefined,
     });
     
     const response = await s3Client.send(command);
@@ -467,7 +1751,7 @@ app.get('/api/s3/folders', ensureS3Client, async (req, res) => {
     
     if (response.CommonPrefixes) {
       for (const folderPrefix of response.CommonPrefixes) {
-        if (folderPrefix.Prefix) {
+        if (folderPrefix.Prefix && canAccessKey(req.user, folderPrefix.Prefix, 'read')) {
           const folderPath = folderPrefix.Prefix;
           const folderName = folderPath.split('/').slice(-2, -1)[0];
           folders.push({
@@ -478,7 +1762,10 @@ app.get('/api/s3/folders', ensureS3Client, async (req, res) => {
       }
     }
     
-    res.json(folders.sort((a, b) => a.name.localeCompare(b.name)));
+    res.json({
+      folders: folders.sort((a, b) => a.name.localeCompare(b.name)),
+      nextCursor: response.IsTruncated ? response.NextContinuationToken : null,
+    });
   } catch (error) {
     console.error('List folders error:', error);
     
@@ -491,14 +1778,38 @@ app.get('/api/s3/folders', ensureS3Client, async (req, res) => {
 });
 
 // List files
-app.get('/api/s3/files', ensureS3Client, async (req, res) => {
+app.get('/api/s3/files', checkUserAuthorization, ensureS3Client, async (req, res) => {
   try {
-    const { prefix = '' } = req.query;
+    const { prefix = '', cursor } = req.query;
     const normalizedPrefix = prefix && !prefix.endsWith('/') ? prefix + '/' : prefix;
+    const pageSize = getListPageSize(req.query.limit);
+    
+    if (!normalizedPrefix && !hasProjectPermission(req.user, '', 'read')) {
+      return sendProjectAccessDenied(res, 'read', '');
+    }
+    if (normalizedPrefix && !checkProjectAccess(req, res, 'read', [normalizedPrefix])) return;
+    
+    // `cursor` is the last key of the previous page, so pages line up whether they came from the index or S3
+    const partition = getReadyPartition(normalizedPrefix);
+    if (partition) {
+      const indexedFiles = [];
+      let nextCursor = null;
+      for (const obj of iterateIndexedObjects(partition, normalizedPrefix, cursor)) {
+        if (obj.key.endsWith('/')) continue;
+        if (indexedFiles.length === pageSize) {
+          nextCursor = indexedFiles[indexedFiles.length - 1].key;
+          break;
+        }
+        indexedFiles.push(obj);
+      }
+      return res.json({ files: indexedFiles, nextCursor });
+    }
     
     const command = new ListObjectsV2Command({
       Bucket: bucketName,
       Prefix: normalizedPrefix,
+      MaxKeys: pageSize,
+      StartAfter: cursor || undefined,
     });
     
     const response = await s3Client.send(command);
@@ -506,7 +1817,8 @@ app.get('/api/s3/files', ensureS3Client, async (req, res) => {
     
     if (response.Contents) {
       for (const obj of response.Contents) {
-        if (obj.Key && !obj.Key.endsWith('/')) {
+        // Trashed objects only show up in the recycle bin
+        if (obj.Key && !obj.Key.endsWith('/') && !obj.Key.startsWith(TRASH_PREFIX)) {
           files.push({
             key: obj.Key,
             size: obj.Size || 0,
@@ -517,7 +1829,11 @@ app.get('/api/s3/files', ensureS3Client, async (req, res) => {
       }
     }
     
-    res.json(files.sort((a, b) => new Date(b.lastModified) - new Date(a.lastModified)));
+    // Files stay in key order, the order pages are cut in; the client sorts the pages it has loaded
+    res.json({
+      files,
+      nextCursor: response.IsTruncated ? response.Contents[response.Contents.length - 1].Key : null,
+    });
   } catch (error) {
     console.error('List files error:', error);
     
@@ -529,53 +1845,345 @@ app.get('/api/s3/files', ensureS3Client, async (req, res) => {
   }
 });
 
-// Upload file
-app.post('/api/s3/upload', checkUserAuthorization, ensureS3Client, upload.single('file'), async (req, res) => {
+// Search file names (or full keys when the pattern contains "/") across the bucket or one project.
+// Filters: minSize/maxSize in bytes, modifiedAfter/modifiedBefore as ISO dates. `cursor` is the last key scanned.
+app.get('/api/s3/search', checkUserAuthorization, ensureS3Client, async (req, res) => {
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No file provided' });
+    const { q = '', project = '', cursor, minSize, maxSize, modifiedAfter, modifiedBefore } = req.query;
+    const pattern = q.trim();
+    
+    if (!pattern) {
+      return res.status(400).json({ error: 'Search query is required' });
     }
     
-    const { key } = req.body;
-    const fileName = key.split('/').pop() || req.file.originalname || 'unknown-file';
-    const fileSize = `${(req.file.size / (1024 * 1024)).toFixed(2)} MB`;
+    const matcher = globToRegExp(pattern);
+    const matchFullKey = pattern.includes('/');
+    const prefix = project ? `${project.replace(/\/+$/, '')}/` : '';
+    if (prefix && !checkProjectAccess(req, res, 'read', [prefix])) return;
+    const after = modifiedAfter ? new Date(modifiedAfter) : null;
+    const before = modifiedBefore ? new Date(modifiedBefore) : null;
+    const startedAt = Date.now();
     
-    const command = new PutObjectCommand({
-      Bucket: bucketName,
-      Key: key,
-      Body: req.file.buffer,
-      ContentType: req.file.mimetype,
+    // Files of projects the user cannot read are skipped like any other non-match
+    const isMatch = (key, size, lastModified) => !(
+      key.endsWith('/') || !canAccessKey(req.user, key, 'read') ||
+      (minSize && size < Number(minSize)) ||
+      (maxSize && size > Number(maxSize)) ||
+      (after && lastModified < after) ||
+      (before && lastModified > before) ||
+      !matcher.test(matchFullKey ? key : key.split('/').pop())
+    );
+    
+    const results = [];
+    let scanned = 0;
+    let lastKey = cursor || undefined;
+    let exhausted = false;
+    
+    // The index answers without the time budget; only the few files at the bucket root are listed from S3
+    const partition = prefix ? getReadyPartition(prefix) : null;
+    if (partition || (!prefix && isObjectIndexReady())) {
+      let objects;
+      if (partition) {
+        objects = iterateIndexedObjects(partition, prefix, lastKey);
+      } else {
+        const rootObjects = hasProjectPermission(req.user, '', 'read') ? await listRootObjects() : [];
+        objects = mergeByKey(iterateWholeIndex(lastKey), rootObjects.filter(obj => !lastKey || obj.key > lastKey));
+      }
+      exhausted = true;
+      for (const obj of objects) {
+        if (results.length >= SEARCH_PAGE_SIZE) {
+          exhausted = false;
+          break;
+        }
+        lastKey = obj.key;
+        scanned++;
+        if (isMatch(obj.key, obj.size, new Date(obj.lastModified))) {
+          results.push(obj);
+        }
+      }
+      return res.json({ files: results, nextCursor: exhausted ? null : lastKey, scanned, timedOut: false });
+    }
+    
+    while (results.length < SEARCH_PAGE_SIZE && Date.now() - startedAt < SEARCH_TIME_BUDGET_MS) {
+      const response = await s3Client.send(new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: prefix || undefined,
+        StartAfter: lastKey,
+      }));
+      
+      for (const obj of response.Contents || []) {
+        lastKey = obj.Key;
+        scanned++;
+        
+        if (!isMatch(obj.Key, obj.Size, obj.LastModified)) continue;
+        
+        results.push({
+          key: obj.Key,
+          size: obj.Size || 0,
+          lastModified: obj.LastModified || new Date(),
+          etag: obj.ETag,
+        });
+        if (results.length >= SEARCH_PAGE_SIZE) break;
+      }
+      
+      if (!response.IsTruncated && results.length < SEARCH_PAGE_SIZE) {
+        exhausted = true;
+        break;
+      }
+    }
+    
+    res.json({
+      files: results,
+      nextCursor: exhausted ? null : lastKey,
+      scanned,
+      // The page ended because the time budget ran out rather than because it filled up
+      timedOut: !exhausted && results.length < SEARCH_PAGE_SIZE,
     });
+  } catch (error) {
+    console.error('Search error:', error);
     
-    await s3Client.send(command);
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ============================================
+// PROJECT LAYOUTS
+// ============================================
+
+// A layout lists the folder segments below `<project>/`. Fixed segments have one name on the input side
+// and one on the output side (an empty name skips the segment on that side); `date` and `folder`
+// segments are picked by the user, `date` ones listed newest first.
+const DEFAULT_PROJECT_LAYOUT = {
+  segments: [
+    { type: 'fixed', input: 'inputData', output: 'outputData' },
+    { type: 'date', key: 'date', label: 'Date Folder' },
+    { type: 'fixed', input: 'annotation_inputs', output: '' },
+    { type: 'fixed', input: 'input_files', output: '' },
+  ],
+};
+const LAYOUT_SIDES = ['input', 'output'];
+
+function getProjectLayout(project) {
+  // Own keys only: project names like "constructor" must not pick up Object.prototype members
+  const { projects } = loadProjectLayouts();
+  return Object.prototype.hasOwnProperty.call(projects, project) ? projects[project] : DEFAULT_PROJECT_LAYOUT;
+}
+
+// Returns an error message, or null if the segments describe a usable layout
+function validateLayoutSegments(segments) {
+  if (!Array.isArray(segments)) return 'segments must be an array';
+  const keys = new Set();
+  
+  for (const segment of segments) {
+    if (!segment || typeof segment !== 'object' || Array.isArray(segment)) {
+      return 'Every segment must be an object';
+    }
+    if (segment.type === 'fixed') {
+      const names = LAYOUT_SIDES.map(side => segment[side]);
+      if (names.some(name => typeof name !== 'string' || name.includes('/'))) {
+        return 'Fixed segments need input and output folder names without "/"';
+      }
+      if (names.every(name => !name.trim())) {
+        return 'A fixed segment needs a folder name on at least one side';
+      }
+    } else if (segment.type === 'date' || segment.type === 'folder') {
+      if (typeof segment.key !== 'string' || !/^[A-Za-z][\w-]*$/.test(segment.key) || keys.has(segment.key)) {
+        return 'Every picked segment needs a unique key made of letters, digits, "_" or "-"';
+      }
+      if (typeof segment.label !== 'string' || !segment.label.trim()) {
+        return 'Every picked segment needs a label';
+      }
+      keys.add(segment.key);
+    } else {
+      return `Unknown segment type: ${segment.type}`;
+    }
+  }
+  
+  return null;
+}
+
+// `<project>/...` for one side, with picked segments filled from `values` (in segment order).
+// Only the first `segmentCount` segments are used when it is given.
+function buildLayoutPrefix(project, layout, side, values, segmentCount) {
+  const parts = [project];
+  let valueIndex = 0;
+  
+  for (const segment of layout.segments.slice(0, segmentCount)) {
+    if (segment.type === 'fixed') {
+      if (segment[side]) parts.push(segment[side]);
+    } else {
+      parts.push(values[valueIndex++]);
+    }
+  }
+  
+  return `${parts.join('/')}/`;
+}
+
+// Which side a key lies on and the values of its picked segments, or null if it is outside the layout.
+// Fixed segments after the last picked one are not required, so stray files in a date folder still count.
+function matchLayoutKey(layout, key) {
+  const parts = key.split('/').slice(1);
+  const lastPicked = layout.segments.reduce((last, segment, index) => (segment.type === 'fixed' ? last : index), -1);
+  const segmentsToMatch = lastPicked === -1 ? layout.segments : layout.segments.slice(0, lastPicked + 1);
+  
+  for (const side of LAYOUT_SIDES) {
+    const values = [];
+    let position = 0;
+    let matched = true;
+    
+    for (const segment of segmentsToMatch) {
+      if (segment.type === 'fixed') {
+        if (!segment[side]) continue;
+        if (parts[position] !== segment[side]) {
+          matched = false;
+          break;
+        }
+      } else {
+        values.push(parts[position]);
+      }
+      position++;
+    }
+    
+    // At least the file name has to remain below the matched folders
+    if (matched && parts.length > position) {
+      return { side, values };
+    }
+  }
+  
+  return null;
+}
+
+// Layouts of every project that has one saved, plus the default used by all others
+app.get('/api/s3/layouts', checkUserAuthorization, (req, res) => {
+  res.json({ default: DEFAULT_PROJECT_LAYOUT, projects: loadProjectLayouts().projects });
+});
+
+// Save a project's folder layout (needs manage access to the project)
+app.put('/api/s3/layouts/:project', checkUserAuthorization, requireProjectPermission('manage', req => [`${req.params.project}/`]), (req, res) => {
+  const { project } = req.params;
+  const { segments } = req.body;
+  
+  const validationError = validateLayoutSegments(segments);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+  
+  const layoutsData = loadProjectLayouts();
+  // A computed key defines an own property even for names like "__proto__"
+  layoutsData.projects = {
+    ...layoutsData.projects,
+    [project]: {
+      segments: segments.map(segment => (segment.type === 'fixed'
+        ? { type: 'fixed', input: segment.input.trim(), output: segment.output.trim() }
+        : { type: segment.type, key: segment.key, label: segment.label.trim() })),
+      updatedAt: new Date().toISOString(),
+      updatedBy: req.user.email,
+    },
+  };
+  
+  if (!saveProjectLayouts(layoutsData)) {
+    return res.status(500).json({ error: 'Failed to save project layout' });
+  }
+  
+  res.json({ success: true, layout: layoutsData.projects[project] });
+});
+
+// Go back to the default layout for a project (needs manage access to the project)
+app.delete('/api/s3/layouts/:project', checkUserAuthorization, requireProjectPermission('manage', req => [`${req.params.project}/`]), (req, res) => {
+  const layoutsData = loadProjectLayouts();
+  delete layoutsData.projects[req.params.project];
+  
+  if (!saveProjectLayouts(layoutsData)) {
+    return res.status(500).json({ error: 'Failed to save project layout' });
+  }
+  
+  res.json({ success: true, layout: DEFAULT_PROJECT_LAYOUT });
+});
+
+// ============================================
+// PROJECT AND FOLDER CREATION
+// ============================================
+
+const FOLDER_NAME_PATTERN = /^[\w][\w.-]*$/;
+const DATE_FOLDER_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// YYYY-MM-DD that is also a real calendar date
+function isValidDateFolder(name) {
+  if (!DATE_FOLDER_PATTERN.test(name)) return false;
+  const date = new Date(`${name}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(name);
+}
+
+// Prefixes on both sides covering the first `segmentCount` layout segments, without duplicates
+function getLayoutSidePrefixes(project, layout, values, segmentCount) {
+  return [...new Set(LAYOUT_SIDES.map(side => buildLayoutPrefix(project, layout, side, values, segmentCount)))];
+}
+
+async function prefixHasObjects(prefix) {
+  const response = await s3Client.send(new ListObjectsV2Command({
+    Bucket: bucketName,
+    Prefix: prefix,
+    MaxKeys: 1,
+  }));
+  return (response.KeyCount || 0) > 0;
+}
+
+// Empty "folder/" objects make the folders show up before any file is uploaded to them
+async function createFolderMarkers(prefixes) {
+  for (const prefix of prefixes) {
+    const response = await s3Client.send(new PutObjectCommand({
+      Bucket: bucketName,
+      Key: prefix,
+      Body: '',
+      ContentLength: 0,
+    }));
+    indexPutObject(prefix, { size: 0, etag: response.ETag });
+  }
+}
+
+// Create a project with the fixed folders its layout starts with on each side (admin only)
+app.post('/api/s3/projects', checkUserAuthorization, requireAdmin, ensureS3Client, async (req, res) => {
+  const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+  
+  try {
+    if (!FOLDER_NAME_PATTERN.test(name) || `${name}/` === TRASH_PREFIX) {
+      return res.status(400).json({ error: 'Project names may only contain letters, digits, "_", "-" and "."' });
+    }
+    if (await prefixHasObjects(`${name}/`)) {
+      return res.status(409).json({ error: `Project ${name} already exists` });
+    }
+    
+    const layout = getProjectLayout(name);
+    const firstPicked = layout.segments.findIndex(segment => segment.type !== 'fixed');
+    const prefixes = getLayoutSidePrefixes(name, layout, [], firstPicked === -1 ? undefined : firstPicked);
+    await createFolderMarkers(prefixes);
     
-    // Log successful upload activity
     logActivity(
       req.user.email,
       req.user.name || req.user.email,
-      'upload',
-      fileName,
-      fileSize,
+      'create',
+      `${name}/`,
+      '0.00 MB',
       'success',
-      `File uploaded to ${key}`
+      `Created project ${name} with ${prefixes.join(', ')}`
     );
     
-    res.json({ success: true, message: 'File uploaded successfully' });
+    res.json({ success: true, project: name, folders: prefixes });
   } catch (error) {
-    console.error('Upload error:', error);
-    
-    // Log failed upload activity
-    const fileName = req.body?.key?.split('/').pop() || req.file?.originalname || 'unknown-file';
-    const fileSize = req.file ? `${(req.file.size / (1024 * 1024)).toFixed(2)} MB` : 'unknown';
+    console.error('Create project error:', error);
     
     logActivity(
       req.user?.email || 'unknown',
       req.user?.name || req.user?.email || 'unknown',
-      'upload',
-      fileName,
-      fileSize,
+      'create',
+      `${name}/`,
+      'unknown',
       'failed',
-      `Upload failed: ${error.message}`
+      `Project creation failed: ${error.message}`
     );
     
     // Check if this is an expired token error
@@ -586,63 +2194,69 @@ app.post('/api/s3/upload', checkUserAuthorization, ensureS3Client, upload.single
   }
 });
 
-// Delete file
-app.delete('/api/s3/delete', checkUserAuthorization, ensureS3Client, async (req, res) => {
+// Create the folder for a picked layout segment (e.g. a new date) on both sides (needs manage access to the project).
+// `values` are the picked folder names up to and including the new one.
+app.post('/api/s3/projects/:project/folders', checkUserAuthorization, requireProjectPermission('manage', req => [`${req.params.project}/`]), ensureS3Client, async (req, res) => {
+  const { project } = req.params;
+  const values = Array.isArray(req.body.values) ? req.body.values.map(value => String(value).trim()) : [];
+  const target = `${project}/${values.join('/')}`;
+  
   try {
-    const { key } = req.body;
+    const layout = getProjectLayout(project);
+    const segmentIndexes = layout.segments
+      .map((segment, index) => (segment.type === 'fixed' ? -1 : index))
+      .filter(index => index !== -1);
     
-    if (!key) {
-      return res.status(400).json({ error: 'File key is required' });
+    if (values.length === 0 || values.length > segmentIndexes.length) {
+      return res.status(400).json({ error: `Expected between 1 and ${segmentIndexes.length} folder names for this project's layout` });
     }
-    
-    const fileName = key.split('/').pop() || 'unknown-file';
-    
-    // Get file size before deletion (optional - we could skip this to avoid extra API call)
-    let fileSize = 'unknown';
-    try {
-      const headCommand = new HeadObjectCommand({
-        Bucket: bucketName,
-        Key: key,
-      });
-      const headResponse = await s3Client.send(headCommand);
-      fileSize = `${(headResponse.ContentLength / (1024 * 1024)).toFixed(2)} MB`;
-    } catch (headError) {
-      console.log('Could not get file size before deletion:', headError.message);
+    for (const [position, value] of values.entries()) {
+      const segment = layout.segments[segmentIndexes[position]];
+      if (segment.type === 'date' ? !isValidDateFolder(value) : !FOLDER_NAME_PATTERN.test(value)) {
+        return res.status(400).json({
+          error: segment.type === 'date'
+            ? `${segment.label} must be a valid date in YYYY-MM-DD format`
+            : `${segment.label} may only contain letters, digits, "_", "-" and "."`,
+        });
+      }
+    }
+    if (!(await prefixHasObjects(`${project}/`))) {
+      return res.status(404).json({ error: `Project ${project} does not exist` });
     }
     
-    const command = new DeleteObjectCommand({
-      Bucket: bucketName,
-      Key: key,
-    });
-    
-    await s3Client.send(command);
+    // Include the fixed folders up to the next picked segment, e.g. annotation_inputs/input_files/ below a date
+    const segmentCount = segmentIndexes[values.length];
+    const prefixes = [];
+    for (const prefix of getLayoutSidePrefixes(project, layout, values, segmentCount)) {
+      if (!(await prefixHasObjects(prefix))) prefixes.push(prefix);
+    }
+    if (prefixes.length === 0) {
+      return res.status(409).json({ error: `Folder ${values.join('/')} already exists` });
+    }
+    await createFolderMarkers(prefixes);
     
-    // Log successful delete activity
     logActivity(
       req.user.email,
       req.user.name || req.user.email,
-      'delete',
-      fileName,
-      fileSize,
+      'create',
+      `${values[values.length - 1]}/`,
+      '0.00 MB',
       'success',
-      `File deleted from ${key}`
+      `Created ${prefixes.join(', ')}`
     );
     
-    res.json({ success: true, message: 'File deleted successfully' });
+    res.json({ success: true, folders: prefixes });
   } catch (error) {
-    console.error('Delete error:', error);
-    
-    // Log failed delete activity
-    const fileName = req.body?.key?.split('/').pop() || 'unknown-file';
+    console.error('Create folder error:', error);
     
     logActivity(
       req.user?.email || 'unknown',
       req.user?.name || req.user?.email || 'unknown',
-      'delete',
-      fileName,
+      'create',
+      target,
       'unknown',
       'failed',
-      `Delete failed: ${error.message}`
+      `Folder creation failed: ${error.message}`
     );
     
     // Check if this is an expired token error
@@ -653,249 +2267,3151 @@ app.delete('/api/s3/delete', checkUserAuthorization, ensureS3Client, async (req,
   }
 });
 
-// Generate presigned URL
-app.post('/api/s3/presigned', checkUserAuthorization, ensureS3Client, async (req, res) => {
+function emptyUsage() {
+  return { totalSize: 0, objectCount: 0, lastModified: null };
+}
+
+function emptyFolderStats() {
+  return { ...emptyUsage(), input: emptyUsage(), output: emptyUsage() };
+}
+
+function addToUsage(usage, obj) {
+  usage.totalSize += obj.size;
+  usage.objectCount++;
+  const lastModified = new Date(obj.lastModified).toISOString();
+  if (!usage.lastModified || lastModified > usage.lastModified) {
+    usage.lastModified = lastModified;
+  }
+}
+
+function addToFolderStats(stats, obj, side) {
+  addToUsage(stats, obj);
+  if (side) {
+    addToUsage(stats[side], obj);
+  }
+}
+
+// Totals for a project split by layout side, plus one entry per picked folder (e.g. per date),
+// keyed by the picked values joined with "/" and combining the input and output sides
+function summarizeProjectObjects(objects, layout) {
+  const project = emptyFolderStats();
+  const folders = {};
+  const hasPickedSegments = layout.segments.some(segment => segment.type !== 'fixed');
+  
+  for (const obj of objects) {
+    if (obj.key.endsWith('/')) continue;
+    const match = matchLayoutKey(layout, obj.key);
+    
+    addToFolderStats(project, obj, match && match.side);
+    if (match && hasPickedSegments) {
+      const folder = match.values.join('/');
+      folders[folder] = folders[folder] || emptyFolderStats();
+      addToFolderStats(folders[folder], obj, match.side);
+    }
+  }
+  
+  return { project, folders };
+}
+
+// Folder statistics: `?project=` returns that project's totals and per-folder breakdown,
+// without it the totals of every indexed project (projects still being indexed are left out)
+app.get('/api/s3/stats', checkUserAuthorization, ensureS3Client, async (req, res) => {
   try {
-    const { key, expiresIn = 3600 } = req.body;
+    const project = (req.query.project || '').replace(/\/+$/, '');
     
-    if (!key) {
-      return res.status(400).json({ error: 'File key is required' });
+    if (!project) {
+      const projects = {};
+      for (const [name, partition] of objectIndex) {
+        if (partition.ready && hasProjectPermission(req.user, name, 'read')) {
+          projects[name] = summarizeProjectObjects(iterateIndexedObjects(partition, `${name}/`), getProjectLayout(name)).project;
+        }
+      }
+      return res.json({ projects });
     }
     
-    // Extract filename from key for Content-Disposition header
-    const fileName = key.split('/').pop() || 'download';
+    if (!checkProjectAccess(req, res, 'read', [`${project}/`])) return;
+    res.json(summarizeProjectObjects(await listFolderObjects(`${project}/`), getProjectLayout(project)));
+  } catch (error) {
+    console.error('Folder stats error:', error);
     
-    // Get file size for logging
-    let fileSize = 'unknown';
-    try {
-      const headCommand = new HeadObjectCommand({
-        Bucket: bucketName,
-        Key: key,
-      });
-      const headResponse = await s3Client.send(headCommand);
-      fileSize = `${(headResponse.ContentLength / (1024 * 1024)).toFixed(2)} MB`;
-    } catch (headError) {
-      console.log('Could not get file size for download logging:', headError.message);
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Upload file (single request, used for files smaller than one multipart part)
+app.post('/api/s3/upload', checkUserAuthorization, ensureS3Client, diskUpload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file provided' });
     }
     
-    // Sanitize filename to prevent issues
-    const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const { key } = req.body;
+    if (!checkProjectAccess(req, res, 'upload', [key])) return;
+    const fileName = key.split('/').pop() || req.file.originalname || 'unknown-file';
+    const fileSize = `${(req.file.size / (1024 * 1024)).toFixed(2)} MB`;
+    // "Only if not exists" mode lets S3 reject the write if someone else created the key meanwhile;
+    // it is forced for users who may not overwrite
+    const onlyIfNew = req.body.ifNoneMatch === 'true' || !canOverwriteKey(req.user, key);
     
-    const command = new GetObjectCommand({
+    const command = new PutObjectCommand({
       Bucket: bucketName,
       Key: key,
-      ResponseContentDisposition: `attachment; filename="${sanitizedFileName}"`,
-      ResponseCacheControl: 'no-cache, no-store, must-revalidate',
-      ResponseContentType: 'application/octet-stream', // Force download by setting generic binary type
+      Body: fs.createReadStream(req.file.path),
+      ContentLength: req.file.size,
+      ContentType: req.file.mimetype,
+      ...(onlyIfNew && { IfNoneMatch: '*' }),
     });
     
-    const url = await getSignedUrl(s3Client, command, { expiresIn });
-    
-    console.log(`Generated presigned URL for download: ${fileName}`);
+    const response = await s3Client.send(command);
+    indexPutObject(key, { size: req.file.size, etag: response.ETag });
     
-    // Log successful download activity
+    // Log successful upload activity
     logActivity(
       req.user.email,
       req.user.name || req.user.email,
-      'download',
+      'upload',
       fileName,
       fileSize,
       'success',
-      `Download URL generated for ${key} (expires in ${expiresIn}s)`
+      `File uploaded to ${key}`
     );
     
-    res.json({ url });
+    res.json({ success: true, message: 'File uploaded successfully' });
   } catch (error) {
-    console.error('Presigned URL error:', error);
+    console.error('Upload error:', error);
     
-    // Log failed download activity
-    const fileName = req.body?.key?.split('/').pop() || 'unknown-file';
+    // Log failed upload activity
+    const fileName = req.body?.key?.split('/').pop() || req.file?.originalname || 'unknown-file';
+    const fileSize = req.file ? `${(req.file.size / (1024 * 1024)).toFixed(2)} MB` : 'unknown';
     
     logActivity(
       req.user?.email || 'unknown',
       req.user?.name || req.user?.email || 'unknown',
-      'download',
+      'upload',
       fileName,
-      'unknown',
+      fileSize,
       'failed',
-      `Download URL generation failed: ${error.message}`
+      isPreconditionFailed(error) ? 'Upload rejected: file already exists' : `Upload failed: ${error.message}`
+    );
+    
+    if (isPreconditionFailed(error)) {
+      return canOverwriteKey(req.user, req.body.key) ? sendObjectExists(res, req.body.key) : sendOverwriteDenied(res, req.body.key);
+    }
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  } finally {
+    removeTempFile(req.file);
+  }
+});
+
+// ============================================
+// MULTIPART UPLOAD API ENDPOINTS
+// ============================================
+
+// Start a multipart upload and return the upload ID plus the part size to use
+app.post('/api/s3/multipart/initiate', checkUserAuthorization, requireProjectPermission('upload', req => [req.body.key]), ensureS3Client, async (req, res) => {
+  try {
+    const { key, contentType, fileSize, ifNoneMatch } = req.body;
+    
+    if (!key) {
+      return res.status(400).json({ error: 'File key is required' });
+    }
+    
+    // Fail fast instead of uploading every part only to have the completion rejected
+    const canOverwrite = canOverwriteKey(req.user, key);
+    if ((ifNoneMatch === true || !canOverwrite) && await objectExists(key)) {
+      return canOverwrite ? sendObjectExists(res, key) : sendOverwriteDenied(res, key);
+    }
+    
+    const size = Number(fileSize) || 0;
+    if (size > MULTIPART_MAX_FILE_SIZE) {
+      return res.status(400).json({ error: 'Files larger than 5 TB cannot be uploaded to S3' });
+    }
+    // The client may ask for bigger parts, but never outside what S3 accepts
+    const requestedPartSize = Math.floor(Number(req.body.partSize)) || MULTIPART_MIN_PART_SIZE;
+    const partSize = Math.min(
+      MULTIPART_MAX_PART_SIZE,
+      Math.max(MULTIPART_MIN_PART_SIZE, requestedPartSize, Math.ceil(size / MULTIPART_MAX_PARTS))
+    );
+    
+    const command = new CreateMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      ContentType: contentType || 'application/octet-stream',
+    });
+    
+    const response = await s3Client.send(command);
+    
+    console.log(`📦 Multipart upload started: ${key} (${response.UploadId})`);
+    res.json({
+      uploadId: response.UploadId,
+      key,
+      partSize,
+      partCount: Math.max(1, Math.ceil(size / partSize)),
+    });
+  } catch (error) {
+    console.error('Multipart initiate error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Generate presigned URLs for a batch of part numbers
+app.post('/api/s3/multipart/presign', checkUserAuthorization, requireProjectPermission('upload', req => [req.body.key]), ensureS3Client, async (req, res) => {
+  try {
+    const { key, uploadId, partNumbers } = req.body;
+    
+    if (!key || !uploadId || !Array.isArray(partNumbers) || partNumbers.length === 0) {
+      return res.status(400).json({ error: 'key, uploadId and partNumbers are required' });
+    }
+    
+    const invalidPart = partNumbers.find(n => !Number.isInteger(n) || n < 1 || n > MULTIPART_MAX_PARTS);
+    if (invalidPart !== undefined) {
+      return res.status(400).json({ error: `Invalid part number: ${invalidPart}` });
+    }
+    
+    const urls = {};
+    for (const partNumber of partNumbers) {
+      const command = new UploadPartCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+      });
+      urls[partNumber] = await getSignedUrl(s3Client, command, { expiresIn: MULTIPART_URL_EXPIRY });
+    }
+    
+    res.json({ urls });
+  } catch (error) {
+    console.error('Multipart presign error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Complete a multipart upload from the list of uploaded part ETags
+app.post('/api/s3/multipart/complete', checkUserAuthorization, requireProjectPermission('upload', req => [req.body.key]), ensureS3Client, async (req, res) => {
+  const { key, uploadId, parts, fileSize } = req.body;
+  // Users who may not overwrite only ever complete uploads of new files
+  const canOverwrite = typeof key === 'string' && canOverwriteKey(req.user, key);
+  const ifNoneMatch = req.body.ifNoneMatch === true || !canOverwrite;
+  const fileName = key?.split('/').pop() || 'unknown-file';
+  const fileSizeFormatted = fileSize ? `${(Number(fileSize) / (1024 * 1024)).toFixed(2)} MB` : 'unknown';
+  
+  try {
+    if (!key || !uploadId || !Array.isArray(parts) || parts.length === 0) {
+      return res.status(400).json({ error: 'key, uploadId and parts are required' });
+    }
+    
+    const command = new CompleteMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: parts
+          .map(part => ({ PartNumber: Number(part.partNumber), ETag: part.etag }))
+          .sort((a, b) => a.PartNumber - b.PartNumber),
+      },
+      ...(ifNoneMatch && { IfNoneMatch: '*' }),
+    });
+    
+    const response = await s3Client.send(command);
+    indexPutObject(key, { size: Number(fileSize), etag: response.ETag });
+    
+    // Log successful upload activity
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'upload',
+      fileName,
+      fileSizeFormatted,
+      'success',
+      `File uploaded to ${key} (multipart, ${parts.length} parts)`
+    );
+    
+    res.json({ success: true, message: 'File uploaded successfully', etag: response.ETag });
+  } catch (error) {
+    console.error('Multipart complete error:', error);
+    
+    logActivity(
+      req.user?.email || 'unknown',
+      req.user?.name || req.user?.email || 'unknown',
+      'upload',
+      fileName,
+      fileSizeFormatted,
+      'failed',
+      isPreconditionFailed(error) ? 'Upload rejected: file already exists' : `Multipart upload failed: ${error.message}`
     );
     
+    // The multipart upload is left open so the client can still complete it as an overwrite
+    if (isPreconditionFailed(error)) {
+      return canOverwrite ? sendObjectExists(res, key) : sendOverwriteDenied(res, key);
+    }
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Abort a multipart upload so S3 discards the parts already stored
+app.post('/api/s3/multipart/abort', checkUserAuthorization, requireProjectPermission('upload', req => [req.body.key]), ensureS3Client, async (req, res) => {
+  try {
+    const { key, uploadId } = req.body;
+    
+    if (!key || !uploadId) {
+      return res.status(400).json({ error: 'key and uploadId are required' });
+    }
+    
+    const command = new AbortMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      UploadId: uploadId,
+    });
+    
+    await s3Client.send(command);
+    
+    console.log(`🗑️ Multipart upload aborted: ${key} (${uploadId})`);
+    res.json({ success: true, message: 'Multipart upload aborted' });
+  } catch (error) {
+    console.error('Multipart abort error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// List the parts S3 already holds for a multipart upload (used to resume interrupted uploads)
+app.get('/api/s3/multipart/parts', checkUserAuthorization, requireProjectPermission('upload', req => [req.query.key]), ensureS3Client, async (req, res) => {
+  try {
+    const { key, uploadId } = req.query;
+    
+    if (!key || !uploadId) {
+      return res.status(400).json({ error: 'key and uploadId are required' });
+    }
+    
+    const parts = [];
+    let partNumberMarker;
+    
+    do {
+      const response = await s3Client.send(new ListPartsCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: partNumberMarker,
+      }));
+      
+      for (const part of response.Parts || []) {
+        parts.push({
+          partNumber: part.PartNumber,
+          etag: part.ETag,
+          size: part.Size || 0,
+        });
+      }
+      
+      partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (partNumberMarker);
+    
+    res.json({ parts });
+  } catch (error) {
+    if (error.name === 'NoSuchUpload') {
+      return res.status(404).json({ error: 'NO_SUCH_UPLOAD', message: 'Multipart upload no longer exists' });
+    }
+    
+    console.error('Multipart list parts error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Helper function to list all in-progress multipart uploads under a prefix
+async function listMultipartUploads(prefix) {
+  const uploads = [];
+  let keyMarker;
+  let uploadIdMarker;
+  
+  do {
+    const response = await s3Client.send(new ListMultipartUploadsCommand({
+      Bucket: bucketName,
+      Prefix: prefix,
+      KeyMarker: keyMarker,
+      UploadIdMarker: uploadIdMarker,
+    }));
+    
+    for (const upload of response.Uploads || []) {
+      uploads.push({
+        key: upload.Key,
+        uploadId: upload.UploadId,
+        initiated: upload.Initiated,
+        initiator: upload.Initiator?.DisplayName || upload.Initiator?.ID || null,
+      });
+    }
+    
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    uploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined;
+  } while (keyMarker);
+  
+  return uploads;
+}
+
+// List in-progress (possibly dangling) multipart uploads under a project prefix
+app.get('/api/s3/multipart/uploads', checkUserAuthorization, requireProjectPermission('upload', req => [req.query.prefix]), ensureS3Client, async (req, res) => {
+  try {
+    const { prefix = '' } = req.query;
+    const uploads = await listMultipartUploads(prefix);
+    
+    res.json(uploads.sort((a, b) => new Date(a.initiated) - new Date(b.initiated)));
+  } catch (error) {
+    console.error('List multipart uploads error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Abort multipart uploads under a prefix that were started more than `olderThanHours` ago
+app.post('/api/s3/multipart/cleanup', checkUserAuthorization, requireProjectPermission('manage', req => [req.body.prefix]), ensureS3Client, async (req, res) => {
+  try {
+    const { prefix, olderThanHours = 24 } = req.body;
+    
+    if (!prefix) {
+      return res.status(400).json({ error: 'A project prefix is required for cleanup' });
+    }
+    
+    const cutoff = Date.now() - Number(olderThanHours) * 60 * 60 * 1000;
+    const uploads = await listMultipartUploads(prefix);
+    const stale = uploads.filter(upload => new Date(upload.initiated).getTime() < cutoff);
+    
+    const aborted = [];
+    const failed = [];
+    for (const upload of stale) {
+      try {
+        await s3Client.send(new AbortMultipartUploadCommand({
+          Bucket: bucketName,
+          Key: upload.key,
+          UploadId: upload.uploadId,
+        }));
+        aborted.push(upload);
+      } catch (abortError) {
+        console.error(`Failed to abort multipart upload ${upload.key}:`, abortError.message);
+        failed.push({ ...upload, error: abortError.message });
+      }
+    }
+    
+    if (aborted.length > 0 || failed.length > 0) {
+      logActivity(
+        req.user.email,
+        req.user.name || req.user.email,
+        'delete',
+        prefix,
+        'unknown',
+        failed.length === 0 ? 'success' : 'failed',
+        `Aborted ${aborted.length} incomplete multipart upload(s) older than ${olderThanHours}h under ${prefix}` +
+          (failed.length > 0 ? ` (${failed.length} failed)` : '')
+      );
+    }
+    
+    res.json({ success: failed.length === 0, aborted, failed, remaining: uploads.length - aborted.length });
+  } catch (error) {
+    console.error('Multipart cleanup error:', error);
+    
     // Check if this is an expired token error
     const expiredResponse = handleExpiredTokenError(res, error);
     if (expiredResponse) return expiredResponse;
     
     res.status(500).json({ error: error.message });
   }
-});
+});
+
+// Delete file
+app.delete('/api/s3/delete', checkUserAuthorization, requireProjectPermission('delete', req => [req.body.key]), ensureS3Client, async (req, res) => {
+  try {
+    const { key, permanent = false } = req.body;
+    
+    if (!key) {
+      return res.status(400).json({ error: 'File key is required' });
+    }
+    if (permanent && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Only admins can delete files permanently' });
+    }
+    
+    const fileName = key.split('/').pop() || 'unknown-file';
+    
+    if (!permanent) {
+      const trashItem = await moveToTrash(key, req.user);
+      
+      logActivity(
+        req.user.email,
+        req.user.name || req.user.email,
+        'delete',
+        fileName,
+        `${(trashItem.size / (1024 * 1024)).toFixed(2)} MB`,
+        'success',
+        `File moved to recycle bin from ${key}`
+      );
+      
+      return res.json({ success: true, message: 'File moved to recycle bin', trashItem });
+    }
+    
+    // Get file size before deletion (optional - we could skip this to avoid extra API call)
+    let fileSize = 'unknown';
+    try {
+      const headCommand = new HeadObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+      });
+      const headResponse = await s3Client.send(headCommand);
+      fileSize = `${(headResponse.ContentLength / (1024 * 1024)).toFixed(2)} MB`;
+    } catch (headError) {
+      console.log('Could not get file size before deletion:', headError.message);
+    }
+    
+    const command = new DeleteObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+    });
+    
+    await s3Client.send(command);
+    indexRemoveObjects([key]);
+    
+    // Log successful delete activity
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'delete',
+      fileName,
+      fileSize,
+      'success',
+      `File permanently deleted from ${key}`
+    );
+    
+    res.json({ success: true, message: 'File deleted successfully' });
+  } catch (error) {
+    console.error('Delete error:', error);
+    
+    // Log failed delete activity
+    const fileName = req.body?.key?.split('/').pop() || 'unknown-file';
+    
+    logActivity(
+      req.user?.email || 'unknown',
+      req.user?.name || req.user?.email || 'unknown',
+      'delete',
+      fileName,
+      'unknown',
+      'failed',
+      `Delete failed: ${error.message}`
+    );
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete many files at once: explicit `keys` or everything under a `prefix`.
+// `dryRun` only reports what would be removed; `expectedCount` guards against the selection changing since then.
+app.post('/api/s3/delete/bulk', checkUserAuthorization, requireProjectPermission('delete', req => getRequestedKeys(req.body)), ensureS3Client, async (req, res) => {
+  const { keys, prefix, dryRun = false, permanent = false, expectedCount } = req.body;
+  const target = prefix || `${Array.isArray(keys) ? keys.length : 0} selected files`;
+  
+  try {
+    if (prefix !== undefined && (typeof prefix !== 'string' || !prefix.endsWith('/') || prefix === '/')) {
+      return res.status(400).json({ error: 'prefix must be a non-empty folder path ending with "/"' });
+    }
+    if (!prefix && (!Array.isArray(keys) || keys.length === 0)) {
+      return res.status(400).json({ error: 'Either keys or prefix is required' });
+    }
+    if (permanent && !dryRun && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Only admins can delete files permanently' });
+    }
+    
+    const { objects, missing } = await resolveSelection({ keys, prefix });
+    const totalSize = objects.reduce((sum, obj) => sum + obj.size, 0);
+    
+    if (objects.length > BULK_DELETE_MAX_FILES) {
+      return res.status(400).json({ error: `Cannot delete more than ${BULK_DELETE_MAX_FILES} files at once (selection has ${objects.length})` });
+    }
+    
+    if (dryRun) {
+      return res.json({ dryRun: true, count: objects.length, totalSize, objects, missing });
+    }
+    
+    if (expectedCount !== undefined && expectedCount !== objects.length) {
+      return res.status(409).json({
+        error: `The selection now contains ${objects.length} files instead of ${expectedCount}; review it again before deleting`,
+        code: 'SELECTION_CHANGED',
+      });
+    }
+    
+    let deletedKeys = [];
+    let failed = [];
+    if (objects.length > 0) {
+      if (permanent) {
+        const result = await deleteObjectsInBatches(objects.map(obj => obj.key));
+        deletedKeys = result.deleted.map(item => item.Key);
+        failed = result.failed;
+      } else {
+        ({ deletedKeys, failed } = await moveManyToTrash(objects, req.user));
+      }
+    }
+    
+    const sizes = new Map(objects.map(obj => [obj.key, obj.size]));
+    const deletedSize = deletedKeys.reduce((sum, key) => sum + sizes.get(key), 0);
+    const items = [
+      ...deletedKeys.map(key => ({ key, size: sizes.get(key), status: 'success' })),
+      ...failed.map(({ key, error }) => ({ key, size: sizes.get(key) || 0, status: 'failed', error })),
+    ];
+    
+    // One aggregated entry for the whole operation, with the per-file results attached
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'delete',
+      target,
+      `${(deletedSize / (1024 * 1024)).toFixed(2)} MB`,
+      deletedKeys.length > 0 || failed.length === 0 ? 'success' : 'failed',
+      `${permanent ? 'Permanently deleted' : 'Moved to recycle bin'} ${deletedKeys.length} of ${objects.length} files` +
+        (prefix ? ` under ${prefix}` : '') +
+        (failed.length > 0 ? ` (${failed.length} failed)` : ''),
+      items
+    );
+    
+    res.json({
+      success: failed.length === 0,
+      permanent,
+      deletedCount: deletedKeys.length,
+      deletedSize,
+      failed,
+      missing,
+    });
+  } catch (error) {
+    console.error('Bulk delete error:', error);
+    
+    if (!dryRun) {
+      logActivity(
+        req.user?.email || 'unknown',
+        req.user?.name || req.user?.email || 'unknown',
+        'delete',
+        target,
+        'unknown',
+        'failed',
+        `Bulk delete failed: ${error.message}`
+      );
+    }
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ============================================
+// COPY / MOVE
+// ============================================
+
+const transferJobs = new Map();
+
+// "a/report.csv" -> "a/report (1).csv", skipping keys that are already taken
+function buildKeepBothKey(key, takenKeys) {
+  const folder = key.slice(0, key.lastIndexOf('/') + 1);
+  const name = key.slice(folder.length);
+  const dotIndex = name.lastIndexOf('.');
+  const baseName = dotIndex > 0 ? name.slice(0, dotIndex) : name;
+  const extension = dotIndex > 0 ? name.slice(dotIndex) : '';
+  
+  for (let n = 1; ; n++) {
+    const candidate = `${folder}${baseName} (${n})${extension}`;
+    if (!takenKeys.has(candidate)) return candidate;
+  }
+}
+
+function isValidFileName(name) {
+  return typeof name === 'string' && name.trim() !== '' && !name.includes('/') && name !== '.' && name !== '..';
+}
+
+// Where each selected object goes: files of a key selection land in `destination` (a single file may get `newName`),
+// the contents of a prefix selection are re-rooted at `destination`
+function getTransferTarget({ keys, prefix, destination, newName }, key) {
+  if (prefix) {
+    return `${destination}${key.slice(prefix.length)}`;
+  }
+  return `${destination}${keys.length === 1 && newName ? newName.trim() : key.split('/').pop()}`;
+}
+
+// Resolve the selection and pair every object with its target key. Objects whose target already exists are
+// returned as conflicts; folder markers of a prefix selection are carried along so empty folders move too.
+async function planTransfer(request) {
+  const { prefix } = request;
+  const { objects: listed, missing } = prefix
+    ? { objects: await listAllObjects(prefix, true), missing: [] }
+    : await resolveSelection(request);
+  const visible = listed.filter(obj => !obj.key.startsWith(TRASH_PREFIX));
+  
+  const pair = obj => ({ ...obj, target: getTransferTarget(request, obj.key) });
+  const files = visible.filter(obj => !obj.key.endsWith('/')).map(pair);
+  const markers = visible.filter(obj => obj.key.endsWith('/')).map(pair);
+  
+  const targetFolder = getCommonFolderPrefix(files.map(file => file.target));
+  const existingKeys = new Set(files.length > 0 ? (await listFolderObjects(targetFolder)).map(obj => obj.key) : []);
+  const conflicts = files.filter(file => existingKeys.has(file.target));
+  
+  return { files, markers, missing, conflicts, existingKeys };
+}
+
+// Apply the conflict choice: skip conflicting files, overwrite them, or give them a numbered name.
+// Only the files chosen to overwrite are marked `overwrite`; every other copy must not replace anything.
+function resolveTransferConflicts(plan, conflict) {
+  const conflicting = new Set(plan.conflicts.map(file => file.key));
+  const takenKeys = new Set([...plan.existingKeys, ...plan.files.map(file => file.target)]);
+  const files = [];
+  let skipped = 0;
+  
+  for (const file of plan.files) {
+    // A file never overwrites itself, e.g. when copying into its own folder
+    if (conflicting.has(file.key) && (conflict === 'skip' || (conflict === 'overwrite' && file.target === file.key))) {
+      skipped++;
+    } else if (conflicting.has(file.key) && conflict === 'keepBoth') {
+      const target = buildKeepBothKey(file.target, takenKeys);
+      takenKeys.add(target);
+      files.push({ ...file, target });
+    } else {
+      files.push({ ...file, overwrite: conflicting.has(file.key) });
+    }
+  }
+  
+  return { files, skipped };
+}
+
+// Public view of a job, as returned to the client
+function serializeTransferJob(job) {
+  const { id, operation, label, status, total, done, skipped, totalSize, transferredSize, failed, startedAt, finishedAt, error } = job;
+  return { id, operation, label, status, total, done, skipped, totalSize, transferredSize, failed, startedAt, finishedAt, error };
+}
+
+function removeExpiredTransferJobs() {
+  const now = Date.now();
+  for (const [id, job] of transferJobs) {
+    if (job.finishedAt && now - new Date(job.finishedAt).getTime() > TRANSFER_JOB_TTL) {
+      transferJobs.delete(id);
+    }
+  }
+}
+
+// Copy every file (a few at a time), then delete the originals of a move in batches
+async function runTransferJob(job, files, markers, user) {
+  const copied = [];
+  let next = 0;
+  
+  const copyOne = async (file, onlyIfNew) => {
+    const response = await copyObject(file.key, file.target, undefined, { onlyIfNew });
+    indexPutObject(file.target, {
+      size: file.size,
+      etag: response.CopyObjectResult?.ETag ?? response.ETag,
+      lastModified: response.CopyObjectResult?.LastModified,
+    });
+  };
+  
+  const worker = async () => {
+    while (next < files.length) {
+      const file = files[next++];
+      try {
+        await copyOne(file, !file.overwrite);
+        copied.push(file);
+        job.transferredSize += file.size;
+      } catch (error) {
+        // Someone else created the target after the transfer was planned; it is left alone
+        job.failed.push(isPreconditionFailed(error)
+          ? { key: file.key, target: file.target, error: 'A file with this name was created at the destination in the meantime', conflict: true }
+          : { key: file.key, target: file.target, error: error.message });
+      }
+      job.done++;
+    }
+  };
+  
+  try {
+    await Promise.all(Array.from({ length: TRANSFER_COPY_CONCURRENCY }, worker));
+    
+    // Folder markers follow once every file made it, so a partly failed move keeps its source folders
+    const markersToMove = job.failed.length === 0 ? markers.filter(marker => marker.target !== marker.key) : [];
+    // Empty folder markers may replace the ones already at the destination
+    for (const marker of markersToMove) {
+      await copyOne(marker, false);
+    }
+    
+    if (job.operation === 'move') {
+      const sources = [...copied, ...markersToMove].filter(file => file.target !== file.key);
+      const { failed } = await deleteObjectsInBatches(sources.map(file => file.key));
+      const targets = new Map(sources.map(file => [file.key, file.target]));
+      job.failed.push(...failed.map(({ key, error }) => ({
+        key,
+        target: targets.get(key),
+        error: `Copied, but the original could not be removed: ${error}`,
+      })));
+    }
+    
+    job.status = 'completed';
+  } catch (error) {
+    console.error('Transfer job error:', error);
+    job.status = 'failed';
+    job.error = error.message;
+  }
+  job.finishedAt = new Date().toISOString();
+  
+  const failedKeys = new Set(job.failed.map(item => item.key));
+  const sizes = new Map(files.map(file => [file.key, file.size]));
+  const succeeded = copied.filter(file => !failedKeys.has(file.key));
+  const succeededSize = succeeded.reduce((sum, file) => sum + file.size, 0);
+  
+  // One aggregated entry for the whole operation, with the per-file results attached
+  logActivity(
+    user.email,
+    user.name || user.email,
+    job.operation,
+    job.label,
+    `${(succeededSize / (1024 * 1024)).toFixed(2)} MB`,
+    job.status === 'completed' && (succeeded.length > 0 || job.failed.length === 0) ? 'success' : 'failed',
+    `${job.operation === 'move' ? 'Moved' : 'Copied'} ${succeeded.length} of ${job.total} files to ${job.destination}` +
+      (job.skipped > 0 ? ` (${job.skipped} skipped)` : '') +
+      (job.failed.length > 0 ? ` (${job.failed.length} failed)` : '') +
+      (job.error ? `: ${job.error}` : ''),
+    [
+      ...succeeded.map(file => ({ key: file.target, size: file.size, status: 'success' })),
+      ...job.failed.map(({ key, error }) => ({ key, size: sizes.get(key) || 0, status: 'failed', error })),
+    ]
+  );
+}
+
+// Copy or move files or a whole folder within the bucket. `dryRun: true` returns the files and conflicts;
+// otherwise a job is started and its id returned for GET /api/s3/transfer/:id
+app.post('/api/s3/transfer', checkUserAuthorization, ensureS3Client, async (req, res) => {
+  const { operation, keys, prefix, destination, newName, conflict, dryRun = false, expectedCount } = req.body;
+  
+  try {
+    if (operation !== 'copy' && operation !== 'move') {
+      return res.status(400).json({ error: 'operation must be "copy" or "move"' });
+    }
+    if (prefix !== undefined && (typeof prefix !== 'string' || !prefix.endsWith('/') || prefix === '/')) {
+      return res.status(400).json({ error: 'prefix must be a non-empty folder path ending with "/"' });
+    }
+    if (!prefix && (!Array.isArray(keys) || keys.length === 0)) {
+      return res.status(400).json({ error: 'Either keys or prefix is required' });
+    }
+    if (typeof destination !== 'string' || !destination.endsWith('/') || destination === '/' || destination.startsWith(TRASH_PREFIX)) {
+      return res.status(400).json({ error: 'destination must be a folder path ending with "/" outside the recycle bin' });
+    }
+    if (prefix && (destination === prefix || destination.startsWith(prefix))) {
+      return res.status(400).json({ error: 'A folder cannot be copied or moved into itself' });
+    }
+    if (newName !== undefined && (prefix || keys.length !== 1 || !isValidFileName(newName))) {
+      return res.status(400).json({ error: 'newName must be a file name without "/" and can only be used with a single file' });
+    }
+    if (conflict !== undefined && !['skip', 'overwrite', 'keepBoth'].includes(conflict)) {
+      return res.status(400).json({ error: 'conflict must be "skip", "overwrite" or "keepBoth"' });
+    }
+    
+    // Copies read the source, moves also delete it; the destination is written to, and overwritten files are deleted
+    const sources = prefix ? [prefix] : keys;
+    if (!checkProjectAccess(req, res, 'read', sources) ||
+        (operation === 'move' && !checkProjectAccess(req, res, 'delete', sources)) ||
+        !checkProjectAccess(req, res, 'upload', [destination]) ||
+        (conflict === 'overwrite' && !checkProjectAccess(req, res, 'delete', [destination]))) {
+      return;
+    }
+    
+    const request = { keys, prefix, destination, newName };
+    const plan = await planTransfer(request);
+    const totalSize = plan.files.reduce((sum, file) => sum + file.size, 0);
+    
+    if (plan.files.length > TRANSFER_MAX_FILES) {
+      return res.status(400).json({ error: `Cannot ${operation} more than ${TRANSFER_MAX_FILES} files at once (selection has ${plan.files.length})` });
+    }
+    if (operation === 'move' && plan.files.length > 0 && plan.files.every(file => file.target === file.key)) {
+      return res.status(400).json({ error: 'The files are already in this location' });
+    }
+    
+    const conflicts = plan.conflicts.map(({ key, target }) => ({ key, target }));
+    if (dryRun) {
+      return res.json({
+        dryRun: true,
+        count: plan.files.length,
+        totalSize,
+        files: plan.files.map(({ key, size, target }) => ({ key, size, target })),
+        conflicts,
+        missing: plan.missing,
+      });
+    }
+    
+    if (expectedCount !== undefined && expectedCount !== plan.files.length) {
+      return res.status(409).json({
+        error: `The selection now contains ${plan.files.length} files instead of ${expectedCount}; review it again before continuing`,
+        code: 'SELECTION_CHANGED',
+      });
+    }
+    if (conflicts.length > 0 && !conflict) {
+      return res.status(409).json({
+        error: `${conflicts.length} file(s) already exist at the destination; choose whether to skip, overwrite or keep both`,
+        code: 'TARGET_EXISTS',
+        conflicts,
+      });
+    }
+    
+    const { files, skipped } = resolveTransferConflicts(plan, conflict);
+    const label = prefix || (keys.length === 1 ? keys[0].split('/').pop() : `${keys.length} selected files`);
+    
+    removeExpiredTransferJobs();
+    const job = {
+      id: `transfer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      operation,
+      label,
+      destination,
+      status: 'running',
+      total: files.length,
+      done: 0,
+      skipped,
+      totalSize: files.reduce((sum, file) => sum + file.size, 0),
+      transferredSize: 0,
+      failed: [],
+      startedBy: req.user.email,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null,
+    };
+    transferJobs.set(job.id, job);
+    
+    // Runs after the response; progress is read through the job endpoint
+    runTransferJob(job, files, plan.markers, req.user);
+    
+    res.status(202).json({ success: true, job: serializeTransferJob(job) });
+  } catch (error) {
+    console.error('Transfer error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Progress of a copy/move job; only visible to the user who started it and to admins
+app.get('/api/s3/transfer/:id', checkUserAuthorization, (req, res) => {
+  const job = transferJobs.get(req.params.id);
+  if (!job || (job.startedBy !== req.user.email && req.user.role !== 'admin')) {
+    return res.status(404).json({ error: 'Transfer job not found' });
+  }
+  res.json({ job: serializeTransferJob(job) });
+});
+
+// Generate presigned URL
+app.post('/api/s3/presigned', checkUserAuthorization, requireProjectPermission('read', req => [req.body.key]), ensureS3Client, async (req, res) => {
+  try {
+    const { key, expiresIn = 3600, versionId } = req.body;
+    
+    if (!key) {
+      return res.status(400).json({ error: 'File key is required' });
+    }
+    
+    // Extract filename from key for Content-Disposition header
+    const fileName = key.split('/').pop() || 'download';
+    
+    // Get file size for logging
+    let fileSize = 'unknown';
+    try {
+      const headCommand = new HeadObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+        VersionId: versionId,
+      });
+      const headResponse = await s3Client.send(headCommand);
+      fileSize = `${(headResponse.ContentLength / (1024 * 1024)).toFixed(2)} MB`;
+    } catch (headError) {
+      console.log('Could not get file size for download logging:', headError.message);
+    }
+    
+    // Sanitize filename to prevent issues
+    const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
+    
+    const command = new GetObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      VersionId: versionId,
+      ResponseContentDisposition: `attachment; filename="${sanitizedFileName}"`,
+      ResponseCacheControl: 'no-cache, no-store, must-revalidate',
+      ResponseContentType: 'application/octet-stream', // Force download by setting generic binary type
+    });
+    
+    const url = await getSignedUrl(s3Client, command, { expiresIn });
+    
+    console.log(`Generated presigned URL for download: ${fileName}`);
+    
+    // Log successful download activity
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'download',
+      fileName,
+      fileSize,
+      'success',
+      `Download URL generated for ${key}${versionId ? ` (version ${versionId})` : ''} (expires in ${expiresIn}s)`
+    );
+    
+    res.json({ url });
+  } catch (error) {
+    console.error('Presigned URL error:', error);
+    
+    // Log failed download activity
+    const fileName = req.body?.key?.split('/').pop() || 'unknown-file';
+    
+    logActivity(
+      req.user?.email || 'unknown',
+      req.user?.name || req.user?.email || 'unknown',
+      'download',
+      fileName,
+      'unknown',
+      'failed',
+      `Download URL generation failed: ${error.message}`
+    );
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Helper function to list every object under a prefix, following pagination
+async function listAllObjects(prefix, includeFolderMarkers = false) {
+  const objects = [];
+  let continuationToken;
+  
+  do {
+    const response = await s3Client.send(new ListObjectsV2Command({
+      Bucket: bucketName,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    }));
+    
+    for (const obj of response.Contents || []) {
+      if (obj.Key && (includeFolderMarkers || !obj.Key.endsWith('/'))) {
+        objects.push({ key: obj.Key, size: obj.Size || 0, lastModified: obj.LastModified });
+      }
+    }
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+  
+  return objects;
+}
+
+// Longest folder prefix shared by all keys, e.g. "project/outputData/2025-05-09/"
+function getCommonFolderPrefix(keys) {
+  if (keys.length === 0) return '';
+  
+  let common = keys[0].slice(0, keys[0].lastIndexOf('/') + 1);
+  for (const key of keys) {
+    while (common && !key.startsWith(common)) {
+      common = common.slice(0, common.slice(0, -1).lastIndexOf('/') + 1);
+    }
+  }
+  return common;
+}
+
+// Append a stream to the archive and wait until it has been written, so only one S3 object is open at a time
+function appendToArchive(archive, stream, entry) {
+  return new Promise((resolve, reject) => {
+    const onEntry = () => {
+      archive.off('error', onError);
+      stream.off('error', onError);
+      resolve();
+    };
+    const onError = (error) => {
+      archive.off('entry', onEntry);
+      archive.off('error', onError);
+      stream.off('error', onError);
+      reject(error);
+    };
+    archive.once('entry', onEntry);
+    archive.once('error', onError);
+    stream.once('error', onError);
+    archive.append(stream, entry);
+  });
+}
+
+// ============================================
+// SHARE LINKS
+// ============================================
+
+function hashSharePassword(password, salt) {
+  return crypto.scryptSync(password, salt, 32).toString('hex');
+}
+
+function isSharePasswordCorrect(link, password) {
+  if (typeof password !== 'string') return false;
+  const expected = Buffer.from(link.passwordHash, 'hex');
+  const actual = Buffer.from(hashSharePassword(password, link.passwordSalt), 'hex');
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// 'active' or why the link no longer works
+function getShareLinkStatus(link, now = Date.now()) {
+  if (link.revokedAt) return 'revoked';
+  if (new Date(link.expiresAt).getTime() <= now) return 'expired';
+  if (link.maxDownloads && link.downloadCount >= link.maxDownloads) return 'exhausted';
+  return 'active';
+}
+
+// Base of the public share and upload link addresses
+function getPublicBaseUrl(req) {
+  return PUBLIC_BASE_URL || `${req.protocol}://${req.get('host')}`;
+}
+
+// Public view of a link; the password hash never leaves the server
+function serializeShareLink(link, req) {
+  const { passwordHash, passwordSalt, ...rest } = link;
+  return { ...rest, hasPassword: !!passwordHash, status: getShareLinkStatus(link), url: `${getPublicBaseUrl(req)}/s/${link.id}` };
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]);
+}
+
+// Minimal standalone page for people using a share or upload link, who are not signed in to the app
+function sendPublicPage(res, status, title, body) {
+  res.status(status).type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f8fafc; color: #0f172a; display: flex; justify-content: center; padding: 64px 16px; }
+    main { background: white; border: 1px solid #e2e8f0; border-radius: 12px; padding: 32px; max-width: 420px; width: 100%; }
+    input, button { font: inherit; padding: 8px 12px; border-radius: 8px; border: 1px solid #cbd5e1; }
+    button { background: #4f46e5; color: white; border: none; cursor: pointer; margin-left: 8px; }
+    .error { color: #dc2626; }
+    .success { color: #059669; }
+  </style>
+</head>
+<body><main><h2>${escapeHtml(title)}</h2>${body}</main></body>
+</html>`);
+}
+
+const SHARE_LINK_UNAVAILABLE = {
+  revoked: 'This link has been revoked.',
+  expired: 'This link has expired.',
+  exhausted: 'This link has reached its download limit.',
+  unauthorized: 'The person who shared this file can no longer access it.',
+};
+
+// Failed attempts per key: { count, lockedUntil, expiresAt }. An entry is forgotten once a lockout window
+// has passed since its last failure (or its lockout ends), and the oldest entries make room when a map is full.
+function getFailedAttempts(attempts, attemptKey) {
+  const entry = attempts.get(attemptKey);
+  if (entry && entry.expiresAt <= Date.now()) {
+    attempts.delete(attemptKey);
+    return null;
+  }
+  return entry || null;
+}
+
+function isAttemptLocked(attempts, attemptKey) {
+  const entry = getFailedAttempts(attempts, attemptKey);
+  return !!entry?.lockedUntil && entry.lockedUntil > Date.now();
+}
+
+function recordFailedAttempt(attempts, attemptKey, maxFailures, lockoutMinutes) {
+  const now = Date.now();
+  const entry = getFailedAttempts(attempts, attemptKey) || { count: 0, lockedUntil: null };
+  entry.count += 1;
+  entry.expiresAt = now + lockoutMinutes * 60 * 1000;
+  if (entry.count >= maxFailures) {
+    entry.count = 0;
+    entry.lockedUntil = entry.expiresAt;
+  }
+  // Re-inserting keeps the map ordered by last failure
+  attempts.delete(attemptKey);
+  if (attempts.size >= FAILED_ATTEMPTS_MAX_ENTRIES) {
+    for (const [key, other] of attempts) {
+      if (other.expiresAt <= now) attempts.delete(key);
+    }
+    while (attempts.size >= FAILED_ATTEMPTS_MAX_ENTRIES) {
+      attempts.delete(attempts.keys().next().value);
+    }
+  }
+  attempts.set(attemptKey, entry);
+}
+
+// Failed share link passwords per link and client address
+const failedSharePasswords = new Map();
+
+function isSharePasswordLocked(attemptKey) {
+  return isAttemptLocked(failedSharePasswords, attemptKey);
+}
+
+function recordFailedSharePassword(attemptKey) {
+  recordFailedAttempt(failedSharePasswords, attemptKey, SHARE_LINK_MAX_FAILED_PASSWORDS, SHARE_LINK_LOCKOUT_MINUTES);
+}
+
+// A link only works while its creator may still read the file; outside production unlisted creators act as admins
+function canCreatorStillShare(link) {
+  const creator = findAuthorizedUser(link.createdBy) ||
+    (process.env.NODE_ENV !== 'production' ? { email: link.createdBy, role: 'admin' } : null);
+  return !!creator && canAccessKey(creator, link.key, 'read');
+}
+
+// The page behind a share link: the file and a download button, which posts back with the password if needed
+function sendShareLinkPage(res, status, link, message) {
+  const fileName = link.key.split('/').pop();
+  return sendPublicPage(res, status, fileName, `
+    <p>${escapeHtml(link.createdByName)} shared this file with you (${(link.size / (1024 * 1024)).toFixed(2)} MB).</p>
+    ${link.passwordHash ? '<p>This file is password protected.</p>' : ''}
+    ${message ? `<p class="error">${message}</p>` : ''}
+    <form method="post">
+      ${link.passwordHash ? '<input type="password" name="password" placeholder="Password" autofocus required>' : ''}
+      <button type="submit">Download</button>
+    </form>`);
+}
+
+// Resolve a share link: count the download, log it and redirect to a fresh presigned URL
+async function redirectToSharedFile(req, res, link) {
+  const linksData = loadShareLinks();
+  const stored = linksData.links.find(item => item.id === link.id);
+  stored.downloadCount++;
+  stored.lastDownloadedAt = new Date().toISOString();
+  saveShareLinks(linksData);
+  
+  const fileName = link.key.split('/').pop() || 'download';
+  const url = await getSignedUrl(s3Client, new GetObjectCommand({
+    Bucket: bucketName,
+    Key: link.key,
+    ResponseContentDisposition: `attachment; filename="${fileName.replace(/[^a-zA-Z0-9._-]/g, '_')}"`,
+    ResponseCacheControl: 'no-cache, no-store, must-revalidate',
+  }), { expiresIn: SHARE_LINK_URL_EXPIRY });
+  
+  logActivity(
+    'share-link',
+    `Share link ${link.id}`,
+    'download',
+    fileName,
+    `${(link.size / (1024 * 1024)).toFixed(2)} MB`,
+    'success',
+    `Downloaded ${link.key} through a link shared by ${link.createdBy}` +
+      (link.maxDownloads ? ` (${stored.downloadCount} of ${link.maxDownloads} downloads)` : '')
+  );
+  
+  res.redirect(302, url);
+}
+
+// Create a share link for a file
+app.post('/api/s3/share', checkUserAuthorization, requireProjectPermission('read', req => [req.body.key]), ensureS3Client, async (req, res) => {
+  const { key, expiresInHours, maxDownloads, password } = req.body;
+  
+  try {
+    if (!key || typeof key !== 'string' || key.endsWith('/') || key.startsWith(TRASH_PREFIX)) {
+      return res.status(400).json({ error: 'A file key is required' });
+    }
+    const hours = Number(expiresInHours);
+    if (!(hours > 0) || hours > SHARE_LINK_MAX_DAYS * 24) {
+      return res.status(400).json({ error: `expiresInHours must be between 1 and ${SHARE_LINK_MAX_DAYS * 24}` });
+    }
+    if (maxDownloads !== undefined && maxDownloads !== null && !(Number.isInteger(maxDownloads) && maxDownloads > 0)) {
+      return res.status(400).json({ error: 'maxDownloads must be a positive whole number' });
+    }
+    if (password !== undefined && password !== null && (typeof password !== 'string' || password.length < SHARE_LINK_MIN_PASSWORD_LENGTH)) {
+      return res.status(400).json({ error: `Passwords must be at least ${SHARE_LINK_MIN_PASSWORD_LENGTH} characters long` });
+    }
+    
+    let head;
+    try {
+      head = await s3Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
+    } catch (error) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+        return res.status(404).json({ error: `File not found: ${key}` });
+      }
+      throw error;
+    }
+    
+    const now = new Date();
+    const passwordSalt = password ? crypto.randomBytes(16).toString('hex') : null;
+    const link = {
+      id: crypto.randomBytes(9).toString('base64url'),
+      key,
+      size: head.ContentLength || 0,
+      createdBy: req.user.email,
+      createdByName: req.user.name || req.user.email,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString(),
+      maxDownloads: maxDownloads || null,
+      downloadCount: 0,
+      lastDownloadedAt: null,
+      revokedAt: null,
+      passwordSalt,
+      passwordHash: password ? hashSharePassword(password, passwordSalt) : null,
+    };
+    
+    const linksData = loadShareLinks();
+    // Forget links that stopped working a while ago
+    linksData.links = linksData.links.filter(item => {
+      const endedAt = new Date(item.revokedAt || item.expiresAt).getTime();
+      return now.getTime() - endedAt < SHARE_LINK_RETENTION;
+    });
+    linksData.links.unshift(link);
+    
+    if (!saveShareLinks(linksData)) {
+      return res.status(500).json({ error: 'Failed to save share link' });
+    }
+    
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'share',
+      key.split('/').pop(),
+      `${(link.size / (1024 * 1024)).toFixed(2)} MB`,
+      'success',
+      `Shared ${key} until ${link.expiresAt}` +
+        (link.maxDownloads ? `, at most ${link.maxDownloads} downloads` : '') +
+        (password ? ', password protected' : '')
+    );
+    
+    res.json({ success: true, link: serializeShareLink(link, req) });
+  } catch (error) {
+    console.error('Create share link error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The current user's share links; admins can pass ?all=true to see everyone's
+app.get('/api/s3/share', checkUserAuthorization, (req, res) => {
+  const showAll = req.query.all === 'true' && req.user.role === 'admin';
+  const links = loadShareLinks().links.filter(link => showAll || link.createdBy === req.user.email);
+  res.json({ links: links.map(link => serializeShareLink(link, req)), maxExpiryHours: SHARE_LINK_MAX_DAYS * 24 });
+});
+
+// Revoke a share link (its creator or an admin)
+app.delete('/api/s3/share/:id', checkUserAuthorization, (req, res) => {
+  const linksData = loadShareLinks();
+  const link = linksData.links.find(item => item.id === req.params.id);
+  
+  if (!link || (link.createdBy !== req.user.email && req.user.role !== 'admin')) {
+    return res.status(404).json({ error: 'Share link not found' });
+  }
+  if (!link.revokedAt) {
+    link.revokedAt = new Date().toISOString();
+    link.revokedBy = req.user.email;
+    if (!saveShareLinks(linksData)) {
+      return res.status(500).json({ error: 'Failed to revoke share link' });
+    }
+    
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'share',
+      link.key.split('/').pop(),
+      `${(link.size / (1024 * 1024)).toFixed(2)} MB`,
+      'success',
+      `Revoked the share link for ${link.key} after ${link.downloadCount} downloads`
+    );
+  }
+  
+  res.json({ success: true, link: serializeShareLink(link, req) });
+});
+
+// Public share link: no sign-in. GET only shows the download page, so link previews and crawlers neither use up
+// downloads nor guess passwords; the download is counted when the page's form is posted.
+async function handleShareLinkRequest(req, res) {
+  try {
+    const link = loadShareLinks().links.find(item => item.id === req.params.id);
+    if (!link) {
+      return sendPublicPage(res, 404, 'Link not found', '<p>This link does not exist.</p>');
+    }
+    
+    const status = getShareLinkStatus(link);
+    if (status !== 'active') {
+      return sendPublicPage(res, 410, 'Link unavailable', `<p>${SHARE_LINK_UNAVAILABLE[status]}</p>`);
+    }
+    if (!canCreatorStillShare(link)) {
+      return sendPublicPage(res, 410, 'Link unavailable', `<p>${SHARE_LINK_UNAVAILABLE.unauthorized}</p>`);
+    }
+    
+    if (req.method !== 'POST') {
+      return sendShareLinkPage(res, 200, link);
+    }
+    
+    if (link.passwordHash) {
+      const attemptKey = `${link.id}:${req.ip}`;
+      if (isSharePasswordLocked(attemptKey)) {
+        return sendShareLinkPage(res, 429, link, `Too many wrong passwords. Please try again in ${SHARE_LINK_LOCKOUT_MINUTES} minutes.`);
+      }
+      if (!isSharePasswordCorrect(link, req.body?.password)) {
+        recordFailedSharePassword(attemptKey);
+        return sendShareLinkPage(res, 401, link, 'Incorrect password.');
+      }
+      failedSharePasswords.delete(attemptKey);
+    }
+    
+    await initializeS3Client();
+    await redirectToSharedFile(req, res, link);
+  } catch (error) {
+    console.error('Share link error:', error);
+    sendPublicPage(res, 500, 'Download failed', '<p>The file could not be prepared for download. Please try again later.</p>');
+  }
+}
+
+app.get('/s/:id', handleShareLinkRequest);
+app.post('/s/:id', express.urlencoded({ extended: false }), handleShareLinkRequest);
+
+// ============================================
+// UPLOAD LINKS
+// ============================================
+
+// 'active' or why the link no longer accepts uploads
+function getUploadLinkStatus(link, now = Date.now()) {
+  if (link.revokedAt) return 'revoked';
+  if (new Date(link.expiresAt).getTime() <= now) return 'expired';
+  if (link.uploadedSize >= link.maxTotalSize) return 'full';
+  return 'active';
+}
+
+// Public view of a link; the schema itself stays on the server
+function serializeUploadLink(link, req) {
+  const { schema, ...rest } = link;
+  return { ...rest, hasSchema: !!schema, status: getUploadLinkStatus(link), url: `${getPublicBaseUrl(req)}/u/${link.id}` };
+}
+
+// "JSON", ".csv", "tar.gz" -> ".json", ".csv", ".tar.gz"; null if one of them is not an extension
+function normalizeExtensions(extensions) {
+  const normalized = extensions.map(extension => `.${String(extension).trim().toLowerCase().replace(/^\.+/, '')}`);
+  return normalized.every(extension => /^(\.[a-z0-9]+)+$/.test(extension)) ? [...new Set(normalized)] : null;
+}
+
+const UPLOAD_LINK_UNAVAILABLE = {
+  revoked: 'This upload link has been revoked.',
+  expired: 'This upload link has expired.',
+  full: 'This upload link has received all the files it can take.',
+  unauthorized: 'The person who requested these files can no longer receive them.',
+};
+
+// A link only takes uploads while its creator is still an admin who may upload into its folder;
+// outside production unlisted creators act as admins
+function canCreatorStillCollect(link) {
+  const creator = findAuthorizedUser(link.createdBy) ||
+    (process.env.NODE_ENV !== 'production' ? { email: link.createdBy, role: 'admin' } : null);
+  return creator?.role === 'admin' && canAccessKey(creator, link.prefix, 'upload');
+}
+
+function formatMegabytes(bytes) {
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+// Run schema_validator.py on a JSON file and resolve with its result ({ isValid, errors, ... })
+function runSchemaValidator(schemaFilePath, dataFilePath) {
+  return new Promise((resolve, reject) => {
+    const pythonScript = path.join(__dirname, 'schema_validator.py');
+    const pythonPath = path.join(__dirname, 'venv', 'bin', 'python');
+    const pythonProcess = spawn(pythonPath, [pythonScript, schemaFilePath, dataFilePath]);
+    
+    let output = '';
+    let errorOutput = '';
+    pythonProcess.stdout.on('data', (data) => {
+      output += data.toString();
+    });
+    pythonProcess.stderr.on('data', (data) => {
+      errorOutput += data.toString();
+    });
+    
+    pythonProcess.on('error', reject);
+    // The script prints a result even when it exits with an error (e.g. for unreadable JSON)
+    pythonProcess.on('close', (code) => {
+      try {
+        resolve(JSON.parse(output));
+      } catch (parseError) {
+        reject(new Error(errorOutput || `Schema validator exited with code ${code}`));
+      }
+    });
+  });
+}
+
+// Most one request may carry: the server-wide cap, or what is left of the link's total
+function getUploadLinkRequestLimit(link) {
+  return Math.max(0, Math.min(UPLOAD_LINK_MAX_REQUEST_SIZE, link.maxTotalSize - link.uploadedSize));
+}
+
+// Upload form for link recipients, with the link's rules and optionally the results of the last upload
+function sendUploadPage(res, link, status = 200, notice = '') {
+  const rules = [
+    `Files can be up to ${formatMegabytes(link.maxFileSize)}, at most ${UPLOAD_LINK_MAX_FILES} and ` +
+      `${formatMegabytes(getUploadLinkRequestLimit(link))} per upload.`,
+    link.allowedExtensions.length > 0 && `Accepted file types: ${link.allowedExtensions.join(', ')}.`,
+    link.schema && 'JSON files are checked against the expected format before they are accepted.',
+    'Files with the same name as an earlier upload are rejected.',
+    `This link works until ${new Date(link.expiresAt).toUTCString()}.`,
+  ].filter(Boolean);
+  
+  sendPublicPage(res, status, 'Upload files', `
+    ${link.message ? `<p>${escapeHtml(link.message)}</p>` : ''}
+    <p>Requested by ${escapeHtml(link.createdByName)}.</p>
+    <ul>${rules.map(rule => `<li>${escapeHtml(rule)}</li>`).join('')}</ul>
+    ${notice}
+    <form method="post" enctype="multipart/form-data">
+      <input type="file" name="files" multiple required
+        ${link.allowedExtensions.length > 0 ? `accept="${escapeHtml(link.allowedExtensions.join(','))}"` : ''}>
+      <button type="submit">Upload</button>
+    </form>`);
+}
+
+// Check one received file against the link's rules and put it into the link's folder.
+// Every attempt is logged under the link's creator.
+async function storeUploadLinkFile(link, file, schemaFilePath) {
+  const fileName = file.originalname.split(/[\\/]/).pop();
+  const key = `${link.prefix}${fileName}`;
+  
+  const reject = (error) => {
+    logActivity(
+      link.createdBy,
+      link.createdByName,
+      'upload',
+      fileName,
+      formatMegabytes(file.size),
+      'failed',
+      `Upload to ${key} through upload link ${link.id} rejected: ${error}`
+    );
+    return { fileName, error };
+  };
+  
+  if (!isValidFileName(fileName)) {
+    return reject('Invalid file name');
+  }
+  if (link.allowedExtensions.length > 0 && !link.allowedExtensions.some(extension => fileName.toLowerCase().endsWith(extension))) {
+    return reject(`Only ${link.allowedExtensions.join(', ')} files are accepted`);
+  }
+  if (schemaFilePath && fileName.toLowerCase().endsWith('.json')) {
+    let validation;
+    try {
+      validation = await runSchemaValidator(schemaFilePath, file.path);
+    } catch (error) {
+      console.error('Upload link schema validation error:', error);
+      return reject('The file could not be validated');
+    }
+    if (!validation.isValid) {
+      const [firstError] = validation.errors || [];
+      return reject(`Does not match the expected format${firstError ? `: ${firstError.message}` : ''}` +
+        (validation.invalidItems > 1 ? ` (${validation.invalidItems} invalid items)` : ''));
+    }
+  }
+  
+  try {
+    const response = await s3Client.send(new PutObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      Body: fs.createReadStream(file.path),
+      ContentLength: file.size,
+      ContentType: file.mimetype,
+      // Never overwrite files in the bucket on behalf of someone without an account
+      IfNoneMatch: '*',
+    }));
+    indexPutObject(key, { size: file.size, etag: response.ETag });
+  } catch (error) {
+    if (isPreconditionFailed(error)) {
+      return reject('A file with this name already exists');
+    }
+    console.error('Upload link upload error:', error);
+    return reject('The upload failed, please try again');
+  }
+  
+  logActivity(
+    link.createdBy,
+    link.createdByName,
+    'upload',
+    fileName,
+    formatMegabytes(file.size),
+    'success',
+    `File uploaded to ${key} through upload link ${link.id}`
+  );
+  return { fileName, size: file.size };
+}
+
+// Create an upload link for a folder (admin)
+app.post('/api/s3/upload-links', checkUserAuthorization, requireAdmin, (req, res) => {
+  const { expiresInHours, maxFileSize, maxTotalSize, allowedExtensions = [], schema, schemaName, message } = req.body;
+  const prefix = typeof req.body.prefix === 'string' ? req.body.prefix.trim().replace(/^\/+/, '').replace(/\/*$/, '/') : '';
+  
+  if (prefix === '/' || prefix.startsWith(TRASH_PREFIX) || prefix.split('/').some(part => part === '.' || part === '..')) {
+    return res.status(400).json({ error: 'A target folder is required' });
+  }
+  const hours = Number(expiresInHours);
+  if (!(hours > 0) || hours > UPLOAD_LINK_MAX_DAYS * 24) {
+    return res.status(400).json({ error: `expiresInHours must be between 1 and ${UPLOAD_LINK_MAX_DAYS * 24}` });
+  }
+  if (maxFileSize !== undefined && maxFileSize !== null &&
+      !(Number.isInteger(maxFileSize) && maxFileSize > 0 && maxFileSize <= UPLOAD_LINK_MAX_FILE_SIZE)) {
+    return res.status(400).json({ error: `maxFileSize must be between 1 byte and ${formatMegabytes(UPLOAD_LINK_MAX_FILE_SIZE)}` });
+  }
+  if (maxTotalSize !== undefined && maxTotalSize !== null &&
+      !(Number.isInteger(maxTotalSize) && maxTotalSize > 0 && maxTotalSize <= UPLOAD_LINK_MAX_TOTAL_SIZE)) {
+    return res.status(400).json({ error: `maxTotalSize must be between 1 byte and ${formatMegabytes(UPLOAD_LINK_MAX_TOTAL_SIZE)}` });
+  }
+  const extensions = Array.isArray(allowedExtensions) ? normalizeExtensions(allowedExtensions) : null;
+  if (!extensions) {
+    return res.status(400).json({ error: 'allowedExtensions must be a list of file extensions such as ".json"' });
+  }
+  if (schema !== undefined && schema !== null && (typeof schema !== 'object' || Array.isArray(schema))) {
+    return res.status(400).json({ error: 'schema must be a JSON schema object' });
+  }
+  if (message !== undefined && message !== null && (typeof message !== 'string' || message.length > 1000)) {
+    return res.status(400).json({ error: 'message must be text of at most 1000 characters' });
+  }
+  
+  const now = new Date();
+  const link = {
+    id: crypto.randomBytes(9).toString('base64url'),
+    prefix,
+    message: message?.trim() || null,
+    createdBy: req.user.email,
+    createdByName: req.user.name || req.user.email,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString(),
+    maxFileSize: maxFileSize || UPLOAD_LINK_DEFAULT_FILE_SIZE,
+    maxTotalSize: maxTotalSize || UPLOAD_LINK_DEFAULT_TOTAL_SIZE,
+    allowedExtensions: extensions,
+    schema: schema || null,
+    schemaName: schema ? (schemaName || 'schema.json') : null,
+    uploadCount: 0,
+    uploadedSize: 0,
+    lastUploadAt: null,
+    revokedAt: null,
+  };
+  
+  const linksData = loadUploadLinks();
+  // Forget links that stopped working a while ago
+  linksData.links = linksData.links.filter(item => {
+    const endedAt = new Date(item.revokedAt || item.expiresAt).getTime();
+    return now.getTime() - endedAt < UPLOAD_LINK_RETENTION;
+  });
+  linksData.links.unshift(link);
+  
+  if (!saveUploadLinks(linksData)) {
+    return res.status(500).json({ error: 'Failed to save upload link' });
+  }
+  
+  logActivity(
+    req.user.email,
+    req.user.name || req.user.email,
+    'share',
+    prefix,
+    '0 MB',
+    'success',
+    `Created an upload link for ${prefix} until ${link.expiresAt}` +
+      (extensions.length > 0 ? `, accepting ${extensions.join(', ')}` : '') +
+      (link.schema ? `, validated against ${link.schemaName}` : '')
+  );
+  
+  res.json({ success: true, link: serializeUploadLink(link, req) });
+});
+
+// All upload links (admin)
+app.get('/api/s3/upload-links', checkUserAuthorization, requireAdmin, (req, res) => {
+  res.json({
+    links: loadUploadLinks().links.map(link => serializeUploadLink(link, req)),
+    maxExpiryHours: UPLOAD_LINK_MAX_DAYS * 24,
+    maxFileSize: UPLOAD_LINK_MAX_FILE_SIZE,
+    maxTotalSize: UPLOAD_LINK_MAX_TOTAL_SIZE,
+  });
+});
+
+// Revoke an upload link (admin)
+app.delete('/api/s3/upload-links/:id', checkUserAuthorization, requireAdmin, (req, res) => {
+  const linksData = loadUploadLinks();
+  const link = linksData.links.find(item => item.id === req.params.id);
+  
+  if (!link) {
+    return res.status(404).json({ error: 'Upload link not found' });
+  }
+  if (!link.revokedAt) {
+    link.revokedAt = new Date().toISOString();
+    link.revokedBy = req.user.email;
+    if (!saveUploadLinks(linksData)) {
+      return res.status(500).json({ error: 'Failed to revoke upload link' });
+    }
+    
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'share',
+      link.prefix,
+      formatMegabytes(link.uploadedSize),
+      'success',
+      `Revoked the upload link for ${link.prefix} after ${link.uploadCount} uploads`
+    );
+  }
+  
+  res.json({ success: true, link: serializeUploadLink(link, req) });
+});
+
+// Find an upload link for a public request, or answer with why it cannot be used
+function findActiveUploadLink(req, res) {
+  const link = loadUploadLinks().links.find(item => item.id === req.params.id);
+  if (!link) {
+    sendPublicPage(res, 404, 'Link not found', '<p>This link does not exist.</p>');
+    return null;
+  }
+  const status = getUploadLinkStatus(link);
+  if (status !== 'active') {
+    sendPublicPage(res, 410, 'Link unavailable', `<p>${UPLOAD_LINK_UNAVAILABLE[status]}</p>`);
+    return null;
+  }
+  if (!canCreatorStillCollect(link)) {
+    sendPublicPage(res, 410, 'Link unavailable', `<p>${UPLOAD_LINK_UNAVAILABLE.unauthorized}</p>`);
+    return null;
+  }
+  return link;
+}
+
+// Public upload link: no sign-in, just the upload form
+app.get('/u/:id', (req, res) => {
+  const link = findActiveUploadLink(req, res);
+  if (link) {
+    sendUploadPage(res, link);
+  }
+});
+
+app.post('/u/:id', (req, res) => {
+  const link = findActiveUploadLink(req, res);
+  if (!link) return;
+  
+  // Turn away uploads over the limits before any of them reaches the disk. Browsers always send a
+  // Content-Length for forms, and Node never reads more of a body than it announces; the body of a
+  // refused upload is read and dropped so the browser gets to see the answer.
+  const requestSize = Number(req.get('content-length'));
+  const requestLimit = getUploadLinkRequestLimit(link);
+  if (!(requestSize > 0)) {
+    res.set('Connection', 'close');
+    return sendUploadPage(res, link, 411, '<p class="error">The upload could not be received, please try again.</p>');
+  }
+  if (requestSize > requestLimit) {
+    req.resume();
+    req.once('end', () => sendUploadPage(res, link, 413, `<p class="error">Upload at most ${escapeHtml(formatMegabytes(requestLimit))} at a time.</p>`));
+    return;
+  }
+  
+  const receiveFiles = multer({
+    dest: UPLOAD_TEMP_DIR,
+    limits: { fileSize: link.maxFileSize, files: UPLOAD_LINK_MAX_FILES },
+  }).array('files', UPLOAD_LINK_MAX_FILES);
+  
+  receiveFiles(req, res, async (receiveError) => {
+    const files = req.files || [];
+    let schemaFilePath = null;
+    
+    try {
+      if (receiveError) {
+        const reason = receiveError.code === 'LIMIT_FILE_SIZE'
+          ? `Files can be at most ${formatMegabytes(link.maxFileSize)}.`
+          : receiveError.code === 'LIMIT_FILE_COUNT' || receiveError.code === 'LIMIT_UNEXPECTED_FILE'
+            ? `Upload at most ${UPLOAD_LINK_MAX_FILES} files at a time.`
+            : 'The upload could not be received, please try again.';
+        return sendUploadPage(res, link, 400, `<p class="error">${escapeHtml(reason)}</p>`);
+      }
+      if (files.length === 0) {
+        return sendUploadPage(res, link, 400, '<p class="error">Choose at least one file.</p>');
+      }
+      
+      await initializeS3Client();
+      if (link.schema) {
+        schemaFilePath = path.join(UPLOAD_TEMP_DIR, `schema_${link.id}_${Date.now()}.json`);
+        fs.writeFileSync(schemaFilePath, JSON.stringify(link.schema));
+      }
+      
+      const results = [];
+      for (const file of files) {
+        results.push(await storeUploadLinkFile(link, file, schemaFilePath));
+      }
+      
+      const stored = results.filter(result => !result.error);
+      if (stored.length > 0) {
+        const linksData = loadUploadLinks();
+        const storedLink = linksData.links.find(item => item.id === link.id);
+        if (storedLink) {
+          storedLink.uploadCount += stored.length;
+          storedLink.uploadedSize += stored.reduce((sum, result) => sum + result.size, 0);
+          storedLink.lastUploadAt = new Date().toISOString();
+          saveUploadLinks(linksData);
+        }
+      }
+      
+      const summary = results.map(result => result.error
+        ? `<li class="error">${escapeHtml(result.fileName)}: ${escapeHtml(result.error)}</li>`
+        : `<li class="success">${escapeHtml(result.fileName)}: uploaded</li>`).join('');
+      sendUploadPage(res, link, stored.length > 0 ? 200 : 400, `<p>${stored.length} of ${results.length} files uploaded:</p><ul>${summary}</ul>`);
+    } catch (error) {
+      console.error('Upload link error:', error);
+      sendPublicPage(res, 500, 'Upload failed', '<p>The files could not be uploaded. Please try again later.</p>');
+    } finally {
+      files.forEach(removeTempFile);
+      if (schemaFilePath) {
+        removeTempFile({ path: schemaFilePath });
+      }
+    }
+  });
+});
+
+// Stream a ZIP archive of the selected keys (or everything under a prefix) straight from S3.
+// Objects are fetched one at a time and piped through the archive, so nothing is buffered in memory.
+app.post('/api/s3/download/zip', checkUserAuthorization, requireProjectPermission('read', req => getRequestedKeys(req.body)), ensureS3Client, async (req, res) => {
+  const { keys, prefix } = req.body;
+  let archive = null;
+  let cancelled = false;
+  
+  try {
+    if (!prefix && (!Array.isArray(keys) || keys.length === 0)) {
+      return res.status(400).json({ error: 'Either keys or prefix is required' });
+    }
+    
+    const objects = prefix
+      ? await listAllObjects(prefix.endsWith('/') ? prefix : `${prefix}/`)
+      : keys.map(key => ({ key, size: null }));
+    
+    if (objects.length === 0) {
+      return res.status(404).json({ error: 'No files found to download' });
+    }
+    if (objects.length > ZIP_MAX_FILES) {
+      return res.status(400).json({ error: `Too many files for one archive (maximum ${ZIP_MAX_FILES})` });
+    }
+    
+    // Entries keep their folder structure relative to the deepest folder shared by all keys
+    const basePrefix = getCommonFolderPrefix(objects.map(obj => obj.key));
+    const archiveName = (basePrefix.split('/').filter(Boolean).pop() || 'download').replace(/[^a-zA-Z0-9._-]/g, '_');
+    
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${archiveName}.zip"`);
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition, X-Archive-Total-Bytes');
+    if (objects.every(obj => obj.size !== null)) {
+      res.setHeader('X-Archive-Total-Bytes', objects.reduce((sum, obj) => sum + obj.size, 0));
+    }
+    
+    // Most files are already compressed or small JSON, so storing keeps CPU low and progress predictable
+    archive = archiver('zip', { store: true });
+    archive.on('warning', (warning) => console.warn('ZIP warning:', warning));
+    archive.on('error', (error) => console.error('ZIP archive error:', error.message));
+    archive.pipe(res);
+    
+    // Stop fetching from S3 as soon as the browser goes away
+    let currentBody = null;
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        cancelled = true;
+        currentBody?.destroy(new Error('Download cancelled'));
+      }
+    });
+    
+    const failedKeys = [];
+    let totalBytes = 0;
+    
+    for (const { key } of objects) {
+      if (cancelled) break;
+      
+      let response;
+      try {
+        response = await s3Client.send(new GetObjectCommand({ Bucket: bucketName, Key: key }));
+      } catch (error) {
+        // Objects deleted since they were listed are reported inside the archive instead of failing it
+        console.error(`ZIP download: failed to fetch ${key}:`, error.message);
+        failedKeys.push(`${key}: ${error.message}`);
+        continue;
+      }
+      
+      currentBody = response.Body;
+      await appendToArchive(archive, response.Body, { name: key.slice(basePrefix.length), date: response.LastModified });
+      currentBody = null;
+      totalBytes += response.ContentLength || 0;
+    }
+    
+    if (cancelled) {
+      console.log(`ZIP download of ${archiveName} cancelled by the client`);
+      archive.abort();
+      return;
+    }
+    
+    if (failedKeys.length > 0) {
+      archive.append(`The following files could not be added to this archive:\n\n${failedKeys.join('\n')}\n`, { name: '_download_errors.txt' });
+    }
+    await archive.finalize();
+    
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'download',
+      `${archiveName}.zip`,
+      `${(totalBytes / (1024 * 1024)).toFixed(2)} MB`,
+      failedKeys.length > 0 ? 'failed' : 'success',
+      `ZIP download of ${objects.length - failedKeys.length}/${objects.length} files from ${basePrefix || 'bucket root'}`
+    );
+  } catch (error) {
+    if (cancelled) {
+      console.log('ZIP download cancelled by the client');
+      archive?.abort();
+      return;
+    }
+    
+    console.error('ZIP download error:', error);
+    
+    logActivity(
+      req.user?.email || 'unknown',
+      req.user?.name || req.user?.email || 'unknown',
+      'download',
+      'archive.zip',
+      'unknown',
+      'failed',
+      `ZIP download failed: ${error.message}`
+    );
+    
+    // Once the archive has started streaming the only option is to cut the response short
+    if (res.headersSent) {
+      archive?.abort();
+      return res.destroy();
+    }
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Log download activity
+app.post('/api/s3/activities/log-download', checkUserAuthorization, async (req, res) => {
+  try {
+    const { fileName, fileSize, fileKey, status = 'success', details } = req.body;
+    
+    if (!fileName || !fileKey) {
+      return res.status(400).json({ error: 'fileName and fileKey are required' });
+    }
+    
+    // Log the download activity
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'download',
+      fileName,
+      fileSize || 'unknown',
+      status,
+      details || `File downloaded: ${fileKey}`
+    );
+    
+    res.json({ success: true, message: 'Download activity logged successfully' });
+  } catch (error) {
+    console.error('Log download activity error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Schema validation endpoint
+app.post('/api/schema/validate', checkUserAuthorization, upload.fields([
+  { name: 'schema', maxCount: 1 },
+  { name: 'data', maxCount: 1 }
+]), async (req, res) => {
+  let schemaFilePath = null;
+  let dataFilePath = null;
+  
+  try {
+    if (!req.files || !req.files.schema || !req.files.data) {
+      return res.status(400).json({ 
+        error: 'Both schema and data files are required' 
+      });
+    }
+    
+    const schemaFile = req.files.schema[0];
+    const dataFile = req.files.data[0];
+    
+    // Create temporary files
+    const tempDir = path.join(__dirname, 'temp');
+    if (!fs.existsSync(tempDir)) {
+      fs.mkdirSync(tempDir, { recursive: true });
+    }
+    
+    const timestamp = Date.now();
+    schemaFilePath = path.join(tempDir, `schema_${timestamp}.json`);
+    dataFilePath = path.join(tempDir, `data_${timestamp}.json`);
+    
+    // Write uploaded files to temporary location
+    fs.writeFileSync(schemaFilePath, schemaFile.buffer);
+    fs.writeFileSync(dataFilePath, dataFile.buffer);
+    
+    // Call Python validation script
+    const pythonScript = path.join(__dirname, 'schema_validator.py');
+    const pythonPath = path.join(__dirname, 'venv', 'bin', 'python');
+    
+    let responseAlreadySent = false;
+    
+    const pythonProcess = spawn(pythonPath, [pythonScript, schemaFilePath, dataFilePath]);
+    
+    let output = '';
+    let errorOutput = '';
+    
+    pythonProcess.stdout.on('data', (data) => {
+      output += data.toString();
+    });
+    
+    pythonProcess.stderr.on('data', (data) => {
+      errorOutput += data.toString();
+    });
+    
+    pythonProcess.on('close', (code) => {
+      if (responseAlreadySent) return;
+      
+      // Clean up temporary files
+      try {
+        if (fs.existsSync(schemaFilePath)) fs.unlinkSync(schemaFilePath);
+        if (fs.existsSync(dataFilePath)) fs.unlinkSync(dataFilePath);
+      } catch (cleanupError) {
+        console.error('Error cleaning up temp files:', cleanupError);
+      }
+      
+      if (code === 0) {
+        try {
+          const result = JSON.parse(output);
+          responseAlreadySent = true;
+          res.json(result);
+        } catch (parseError) {
+          console.error('Error parsing Python output:', parseError);
+          responseAlreadySent = true;
+          res.status(500).json({ 
+            error: 'Failed to parse validation results',
+            details: output 
+          });
+        }
+      } else {
+        console.error('Python script error:', errorOutput);
+        responseAlreadySent = true;
+        res.status(500).json({ 
+          error: 'Schema validation failed',
+          details: errorOutput || output 
+        });
+      }
+    });
+    
+    pythonProcess.on('error', (error) => {
+      if (responseAlreadySent) return;
+      
+      console.error('Failed to start Python process:', error);
+      
+      // Clean up temporary files
+      try {
+        if (fs.existsSync(schemaFilePath)) fs.unlinkSync(schemaFilePath);
+        if (fs.existsSync(dataFilePath)) fs.unlinkSync(dataFilePath);
+      } catch (cleanupError) {
+        console.error('Error cleaning up temp files:', cleanupError);
+      }
+      
+      responseAlreadySent = true;
+      res.status(500).json({ 
+        error: 'Failed to execute validation script',
+        details: error.message 
+      });
+    });
+    
+  } catch (error) {
+    console.error('Schema validation error:', error);
+    
+    // Clean up temporary files
+    try {
+      if (schemaFilePath && fs.existsSync(schemaFilePath)) fs.unlinkSync(schemaFilePath);
+      if (dataFilePath && fs.existsSync(dataFilePath)) fs.unlinkSync(dataFilePath);
+    } catch (cleanupError) {
+      console.error('Error cleaning up temp files:', cleanupError);
+    }
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ============================================
+// INPUT/OUTPUT RECONCILIATION
+// ============================================
+
+// Folders are relative to the input and output folders the project layout resolves to.
+// Patterns are file-name globs where `{id}` captures the part that pairs an input with its output.
+const DEFAULT_RECONCILIATION_RULES = {
+  inputFolder: '',
+  outputFolder: '',
+  inputPattern: '{id}.*',
+  outputPattern: '{id}.*',
+};
+
+function getReconciliationRules(project) {
+  return { ...DEFAULT_RECONCILIATION_RULES, ...loadReconciliationRules().projects[project] };
+}
+
+function normalizeRuleFolder(folder) {
+  const trimmed = (folder || '').trim().replace(/^\/+/, '');
+  return trimmed && !trimmed.endsWith('/') ? `${trimmed}/` : trimmed;
+}
+
+// "{id}_output.*" -> /^(.+?)_output\.[^/]*$/ (the id stops at the first dot when followed by `.*`)
+function compileIdPattern(pattern) {
+  const source = pattern
+    .split('{id}')
+    .map(part => part
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]'))
+    .join('(.+?)');
+  return new RegExp(`^${source}$`);
+}
+
+// Group files by the id their name yields; files that do not match the pattern are returned separately
+function groupFilesById(objects, pattern) {
+  const groups = new Map();
+  const unmatched = [];
+  
+  for (const obj of objects) {
+    const match = pattern.exec(obj.key.split('/').pop());
+    if (!match) {
+      unmatched.push(obj);
+      continue;
+    }
+    if (!groups.has(match[1])) {
+      groups.set(match[1], []);
+    }
+    groups.get(match[1]).push(obj);
+  }
+  
+  return { groups, unmatched };
+}
+
+function toReconciliationFile(obj) {
+  return { key: obj.key, size: obj.size, lastModified: new Date(obj.lastModified).toISOString() };
+}
+
+// Why a paired input and output do not look like a clean delivery, or null if they do
+function getMismatchReason(inputs, outputs) {
+  if (inputs.length > 1) return `${inputs.length} inputs share this id`;
+  if (outputs.length > 1) return `${outputs.length} outputs for one input`;
+  if (outputs[0].size === 0) return 'Output is empty';
+  if (new Date(outputs[0].lastModified) < new Date(inputs[0].lastModified)) return 'Output is older than its input';
+  return null;
+}
+
+// `values` fill the layout's picked segments in order, e.g. [date]
+async function buildReconciliationReport(project, layout, values) {
+  const rules = getReconciliationRules(project);
+  const inputPrefix = `${buildLayoutPrefix(project, layout, 'input', values)}${normalizeRuleFolder(rules.inputFolder)}`;
+  const outputPrefix = `${buildLayoutPrefix(project, layout, 'output', values)}${normalizeRuleFolder(rules.outputFolder)}`;
+  
+  const [inputObjects, outputObjects] = await Promise.all([
+    listFolderObjects(inputPrefix),
+    listFolderObjects(outputPrefix),
+  ]);
+  const inputs = groupFilesById(inputObjects, compileIdPattern(rules.inputPattern));
+  const outputs = groupFilesById(outputObjects, compileIdPattern(rules.outputPattern));
+  
+  const items = [];
+  for (const [id, inputFiles] of inputs.groups) {
+    const outputFiles = outputs.groups.get(id) || [];
+    const reason = outputFiles.length === 0 ? 'No output found' : getMismatchReason(inputFiles, outputFiles);
+    items.push({
+      id,
+      status: outputFiles.length === 0 ? 'missing' : reason ? 'mismatched' : 'matched',
+      reason,
+      inputs: inputFiles.map(toReconciliationFile),
+      outputs: outputFiles.map(toReconciliationFile),
+    });
+  }
+  for (const [id, outputFiles] of outputs.groups) {
+    if (!inputs.groups.has(id)) {
+      items.push({ id, status: 'extra', reason: 'No matching input', inputs: [], outputs: outputFiles.map(toReconciliationFile) });
+    }
+  }
+  for (const obj of outputs.unmatched) {
+    items.push({ id: null, status: 'extra', reason: 'Name does not match the output pattern', inputs: [], outputs: [toReconciliationFile(obj)] });
+  }
+  // Unnamed extras go last
+  items.sort((a, b) => (a.id === null) - (b.id === null) || (a.id || '').localeCompare(b.id || ''));
+  
+  const summary = { inputs: inputObjects.length, outputs: outputObjects.length, matched: 0, missing: 0, extra: 0, mismatched: 0 };
+  for (const item of items) {
+    summary[item.status]++;
+  }
+  
+  return {
+    project,
+    folder: values.join('/'),
+    rules,
+    inputPrefix,
+    outputPrefix,
+    summary,
+    // Inputs whose names do not match the input pattern cannot be paired at all
+    ignoredInputs: inputs.unmatched.map(obj => obj.key),
+    items,
+  };
+}
+
+function toCsvValue(value) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function reconciliationReportToCsv(report) {
+  const rows = [['id', 'status', 'reason', 'input_keys', 'input_bytes', 'output_keys', 'output_bytes']];
+  for (const item of report.items) {
+    rows.push([
+      item.id,
+      item.status,
+      item.reason,
+      item.inputs.map(file => file.key).join(' '),
+      item.inputs.reduce((sum, file) => sum + file.size, 0),
+      item.outputs.map(file => file.key).join(' '),
+      item.outputs.reduce((sum, file) => sum + file.size, 0),
+    ]);
+  }
+  return rows.map(row => row.map(toCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+// Get the reconciliation rules of a project (defaults when none were saved)
+app.get('/api/s3/reconciliation/rules', checkUserAuthorization, requireProjectPermission('read', req => (req.query.project ? [`${req.query.project}/`] : [])), (req, res) => {
+  const { project } = req.query;
+  
+  if (!project) {
+    return res.status(400).json({ error: 'project is required' });
+  }
+  
+  res.json({ rules: getReconciliationRules(project), defaults: DEFAULT_RECONCILIATION_RULES });
+});
+
+// Save the reconciliation rules of a project (needs manage access to the project)
+app.put('/api/s3/reconciliation/rules/:project', checkUserAuthorization, requireProjectPermission('manage', req => [`${req.params.project}/`]), (req, res) => {
+  const { project } = req.params;
+  const { inputFolder = '', outputFolder = '', inputPattern, outputPattern } = req.body;
+  
+  for (const pattern of [inputPattern, outputPattern]) {
+    if (typeof pattern !== 'string' || pattern.split('{id}').length !== 2) {
+      return res.status(400).json({ error: 'Patterns must contain {id} exactly once' });
+    }
+  }
+  
+  const rulesData = loadReconciliationRules();
+  rulesData.projects[project] = {
+    inputFolder: normalizeRuleFolder(inputFolder),
+    outputFolder: normalizeRuleFolder(outputFolder),
+    inputPattern: inputPattern.trim(),
+    outputPattern: outputPattern.trim(),
+    updatedAt: new Date().toISOString(),
+    updatedBy: req.user.email,
+  };
+  
+  if (!saveReconciliationRules(rulesData)) {
+    return res.status(500).json({ error: 'Failed to save reconciliation rules' });
+  }
+  
+  res.json({ success: true, rules: rulesData.projects[project] });
+});
+
+// Pair the inputs of a folder (e.g. a date) with their outputs; `format=csv` returns the report as a CSV download
+app.get('/api/s3/reconciliation', checkUserAuthorization, requireProjectPermission('read', req => (req.query.project ? [`${req.query.project}/`] : [])), ensureS3Client, async (req, res) => {
+  try {
+    const { project, folder = '', format } = req.query;
+    
+    if (!project) {
+      return res.status(400).json({ error: 'project is required' });
+    }
+    
+    // `folder` is the values of the layout's picked segments joined with "/", e.g. just the date
+    const layout = getProjectLayout(project);
+    const values = folder ? folder.split('/') : [];
+    if (values.length !== layout.segments.filter(segment => segment.type !== 'fixed').length) {
+      return res.status(400).json({ error: 'folder must give one value for each picked segment of the project layout' });
+    }
+    
+    const report = await buildReconciliationReport(project, layout, values);
+    
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${['reconciliation', project, ...values].join('_')}.csv"`);
+      res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition');
+      return res.send(reconciliationReportToCsv(report));
+    }
+    
+    res.json(report);
+  } catch (error) {
+    console.error('Reconciliation error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Health check
+app.get('/health', (req, res) => {
+  res.json({ status: 'OK', message: 'S3 API server is running' });
+});
+
+// ============================================
+// OBJECT VERSION API ENDPOINTS
+// ============================================
+
+// List every version (and delete marker) of a single object, newest first
+app.get('/api/s3/versions', checkUserAuthorization, requireProjectPermission('read', req => [req.query.key]), ensureS3Client, async (req, res) => {
+  try {
+    const { key } = req.query;
+    
+    if (!key) {
+      return res.status(400).json({ error: 'File key is required' });
+    }
+    
+    const versions = [];
+    let keyMarker;
+    let versionIdMarker;
+    let reachedNextKey = false;
+    
+    // The prefix also matches longer keys ("a.json.bak"), which sort after this one
+    do {
+      const response = await s3Client.send(new ListObjectVersionsCommand({
+        Bucket: bucketName,
+        Prefix: key,
+        KeyMarker: keyMarker,
+        VersionIdMarker: versionIdMarker,
+      }));
+      
+      for (const version of response.Versions || []) {
+        if (version.Key !== key) continue;
+        versions.push({
+          key: version.Key,
+          versionId: version.VersionId,
+          size: version.Size || 0,
+          lastModified: version.LastModified,
+          etag: version.ETag,
+          isLatest: !!version.IsLatest,
+          isDeleteMarker: false,
+        });
+      }
+      for (const marker of response.DeleteMarkers || []) {
+        if (marker.Key !== key) continue;
+        versions.push({
+          key: marker.Key,
+          versionId: marker.VersionId,
+          size: 0,
+          lastModified: marker.LastModified,
+          isLatest: !!marker.IsLatest,
+          isDeleteMarker: true,
+        });
+      }
+      
+      reachedNextKey = [...(response.Versions || []), ...(response.DeleteMarkers || [])].some(v => v.Key > key);
+      keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+      versionIdMarker = response.IsTruncated ? response.NextVersionIdMarker : undefined;
+    } while (keyMarker && !reachedNextKey);
+    
+    res.json(versions.sort((a, b) => new Date(b.lastModified) - new Date(a.lastModified)));
+  } catch (error) {
+    console.error('List versions error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Restore an older version by copying it over the current object (creating a new latest version)
+app.post('/api/s3/versions/restore', checkUserAuthorization, requireProjectPermission('upload', req => [req.body.key]), ensureS3Client, async (req, res) => {
+  const { key, versionId } = req.body;
+  const fileName = key?.split('/').pop() || 'unknown-file';
+  
+  try {
+    if (!key || !versionId) {
+      return res.status(400).json({ error: 'key and versionId are required' });
+    }
+    // Restoring replaces the current version unless the file is deleted
+    if (!canOverwriteKey(req.user, key) && await objectExists(key)) {
+      return sendOverwriteDenied(res, key);
+    }
+    
+    const response = await copyObject(key, key, versionId);
+    await indexRefreshObject(key);
+    
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'upload',
+      fileName,
+      'unknown',
+      'success',
+      `Restored version ${versionId} of ${key} as the current version`
+    );
+    
+    res.json({ success: true, versionId: response.VersionId });
+  } catch (error) {
+    console.error('Restore version error:', error);
+    
+    logActivity(
+      req.user?.email || 'unknown',
+      req.user?.name || req.user?.email || 'unknown',
+      'upload',
+      fileName,
+      'unknown',
+      'failed',
+      `Restoring version ${versionId} of ${key} failed: ${error.message}`
+    );
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ============================================
+// RECYCLE BIN API ENDPOINTS
+// ============================================
+
+// List trashed files whose original key is under a prefix
+app.get('/api/s3/trash', checkUserAuthorization, (req, res) => {
+  const { prefix = '' } = req.query;
+  const items = loadTrash().items.filter(item => item.key.startsWith(prefix) && canAccessKey(req.user, item.key, 'read'));
+  
+  res.json({ items, retentionDays: TRASH_RETENTION_DAYS, mode: TRASH_MODE });
+});
+
+// Restore a trashed file to its original location
+app.post('/api/s3/trash/:id/restore', checkUserAuthorization, ensureS3Client, async (req, res) => {
+  const entry = loadTrash().items.find(item => item.id === req.params.id);
+  
+  try {
+    if (!entry) {
+      return res.status(404).json({ error: 'Recycle bin entry not found' });
+    }
+    if (!checkProjectAccess(req, res, 'delete', [entry.key])) return;
+    if (!req.body.overwrite && await objectExists(entry.key)) {
+      return sendObjectExists(res, entry.key);
+    }
+    
+    await restoreFromTrash(entry);
+    
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'upload',
+      entry.key.split('/').pop(),
+      `${(entry.size / (1024 * 1024)).toFixed(2)} MB`,
+      'success',
+      `Restored ${entry.key} from the recycle bin`
+    );
+    
+    res.json({ success: true, message: 'File restored successfully' });
+  } catch (error) {
+    console.error('Restore from recycle bin error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Permanently delete a trashed file before its retention period ends
+app.delete('/api/s3/trash/:id', checkUserAuthorization, ensureS3Client, async (req, res) => {
+  const entry = loadTrash().items.find(item => item.id === req.params.id);
+  
+  try {
+    if (!entry) {
+      return res.status(404).json({ error: 'Recycle bin entry not found' });
+    }
+    if (!checkProjectAccess(req, res, 'delete', [entry.key])) return;
+    
+    await purgeTrashEntry(entry);
+    
+    logActivity(
+      req.user.email,
+      req.user.name || req.user.email,
+      'delete',
+      entry.key.split('/').pop(),
+      `${(entry.size / (1024 * 1024)).toFixed(2)} MB`,
+      'success',
+      `Permanently deleted ${entry.key} from the recycle bin`
+    );
+    
+    res.json({ success: true, message: 'File permanently deleted' });
+  } catch (error) {
+    console.error('Purge from recycle bin error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ============================================
+// OBJECT INDEX API ENDPOINTS
+// ============================================
+
+// Per-project index state (admin only)
+app.get('/api/s3/index/status', checkUserAuthorization, requireAdmin, (req, res) => {
+  const projects = [...objectIndex.entries()]
+    .map(([project, partition]) => ({
+      project,
+      ready: partition.ready,
+      refreshedAt: partition.refreshedAt,
+      nextRefreshAt: new Date(partition.nextRefreshAt).toISOString(),
+      objectCount: partition.objects.size,
+    }))
+    .sort((a, b) => a.project.localeCompare(b.project));
+  
+  res.json({
+    projects,
+    refreshing: objectIndexRefreshing,
+    refreshIntervalMinutes: OBJECT_INDEX_REFRESH_INTERVAL / 60000,
+    maxRefreshIntervalMinutes: OBJECT_INDEX_MAX_REFRESH_INTERVAL / 60000,
+  });
+});
+
+// Re-sync one folder with S3 right away, e.g. after files were changed outside the app
+app.post('/api/s3/index/refresh', checkUserAuthorization, requireProjectPermission('read', req => [req.body.prefix]), ensureS3Client, async (req, res) => {
+  try {
+    const { prefix = '' } = req.body;
+    const normalizedPrefix = prefix && !prefix.endsWith('/') ? prefix + '/' : prefix;
+    const project = getIndexProject(normalizedPrefix);
+    
+    if (!project) {
+      // Only project folders are indexed; files at the bucket root are always listed from S3
+      return res.json({ success: true, indexed: false, changes: 0 });
+    }
+    
+    const changes = await syncIndexPrefix(project, normalizedPrefix);
+    res.json({ success: true, indexed: true, changes });
+  } catch (error) {
+    console.error('Index refresh error:', error);
+    
+    // Check if this is an expired token error
+    const expiredResponse = handleExpiredTokenError(res, error);
+    if (expiredResponse) return expiredResponse;
+    
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ============================================
+// AUTHENTICATION API ENDPOINTS
+// ============================================
+
+// AUTH_PROVIDER picks how users prove who they are: 'google' (Google Identity Services), 'oidc' (any
+// OpenID Connect issuer) or 'local' (email and password kept in data/authorized-users.json). Every
+// provider ends in signInUser, so sessions, authorization and project grants work the same for all.
+const AUTH_PROVIDER = (process.env.AUTH_PROVIDER || 'google').toLowerCase();
+
+// Google: the client posts the ID token from Google Identity Services and the server verifies it.
+// GOOGLE_CERTS_URL and GOOGLE_TOKEN_ISSUERS point verification at another issuer, e.g. a local fake in tests.
+const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID ||
+  process.env.REACT_APP_GOOGLE_CLIENT_ID ||
+  '549557403268-707u7eagk8bbknhdg95p9kaukak74voq.apps.googleusercontent.com';
+const googleAuthClient = new OAuth2Client({
+  clientId: GOOGLE_CLIENT_ID,
+  ...(process.env.GOOGLE_CERTS_URL && { endpoints: { oauth2FederatedSignonPemCertsUrl: process.env.GOOGLE_CERTS_URL } }),
+  ...(process.env.GOOGLE_TOKEN_ISSUERS && { issuers: process.env.GOOGLE_TOKEN_ISSUERS.split(',').map(issuer => issuer.trim()) }),
+});
+
+// Generic OIDC: authorization code flow with PKCE against the issuer's discovery document
+const OIDC_CONFIG = {
+  discoveryUrl: process.env.OIDC_DISCOVERY_URL ||
+    (process.env.OIDC_ISSUER && `${process.env.OIDC_ISSUER.replace(/\/+$/, '')}/.well-known/openid-configuration`),
+  clientId: process.env.OIDC_CLIENT_ID,
+  clientSecret: process.env.OIDC_CLIENT_SECRET,
+  scopes: process.env.OIDC_SCOPES || 'openid email profile',
+  label: process.env.OIDC_LABEL || 'Single Sign-On',
+};
+const OIDC_STATE_COOKIE = 's3m_oidc_state';
+const OIDC_LOGIN_TTL = 10 * 60 * 1000;
+const OIDC_CACHE_TTL = 60 * 60 * 1000;
+
+// Local accounts: repeated wrong passwords lock the email for a while, for the address they came from only, so
+// nobody can lock another user out by guessing their password
+const LOCAL_MIN_PASSWORD_LENGTH = 8;
+const LOCAL_MAX_FAILED_LOGINS = 5;
+const LOCAL_LOCKOUT_MINUTES = 15;
+
+// Verify a Google ID token and return its signed claims
+async function verifyGoogleIdToken(idToken) {
+  const ticket = await googleAuthClient.verifyIdToken({ idToken, audience: GOOGLE_CLIENT_ID });
+  const payload = ticket.getPayload();
+  if (!payload?.email || !payload.email_verified) {
+    throw new Error('The Google account has no verified email address');
+  }
+  return payload;
+}
+
+// The account an email signs in as. Outside production, emails missing from authorized-users.json may still
+// sign in with Google or OIDC and act as admins; listed ones always get their own role.
+function findSignInUser(email) {
+  return findAuthorizedUser(email) ||
+    (process.env.NODE_ENV !== 'production' && AUTH_PROVIDER !== 'local' ? { email, role: 'admin' } : null);
+}
+
+// Start a session for an identity the provider has verified; returns the signed-in user or null if the
+// email is not authorized
+function signInUser(res, identity) {
+  const authorizedUser = findSignInUser(identity.email);
+  
+  if (!authorizedUser) return null;
+  
+  createSession(res, identity);
+  console.log(`✅ User signed in with ${AUTH_PROVIDER}: ${identity.email}`);
+  return {
+    email: identity.email,
+    name: identity.name || identity.email,
+    picture: identity.picture || '',
+    role: authorizedUser.role,
+    projects: getProjectGrants(authorizedUser)
+  };
+}
+
+function hashUserPassword(password, salt) {
+  return crypto.scryptSync(password, salt, 64).toString('hex');
+}
+
+function isUserPasswordCorrect(user, password) {
+  if (!user?.passwordHash || typeof password !== 'string') return false;
+  const expected = Buffer.from(user.passwordHash, 'hex');
+  const actual = Buffer.from(hashUserPassword(password, user.passwordSalt), 'hex');
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// Set `password` on a user record; returns an error message if it is too weak
+function setUserPassword(user, password) {
+  if (typeof password !== 'string' || password.length < LOCAL_MIN_PASSWORD_LENGTH) {
+    return `Passwords must have at least ${LOCAL_MIN_PASSWORD_LENGTH} characters.`;
+  }
+  user.passwordSalt = crypto.randomBytes(16).toString('hex');
+  user.passwordHash = hashUserPassword(password, user.passwordSalt);
+  return null;
+}
+
+// Failed local sign-ins per email and client address
+const failedLocalLogins = new Map();
+
+function isLocalLoginLocked(attemptKey) {
+  return isAttemptLocked(failedLocalLogins, attemptKey);
+}
+
+function recordFailedLocalLogin(attemptKey) {
+  recordFailedAttempt(failedLocalLogins, attemptKey, LOCAL_MAX_FAILED_LOGINS, LOCAL_LOCKOUT_MINUTES);
+}
+
+// The issuer's discovery document and signing keys, cached for an hour
+let oidcMetadataCache = null;
+let oidcKeysCache = null;
+
+async function fetchJson(url, options) {
+  const response = await fetch(url, options);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error_description || body.error || `${url} answered ${response.status}`);
+  }
+  return body;
+}
 
-// Log download activity
-app.post('/api/s3/activities/log-download', checkUserAuthorization, async (req, res) => {
-  try {
-    const { fileName, fileSize, fileKey, status = 'success', details } = req.body;
-    
-    if (!fileName || !fileKey) {
-      return res.status(400).json({ error: 'fileName and fileKey are required' });
-    }
-    
-    // Log the download activity
-    logActivity(
-      req.user.email,
-      req.user.name || req.user.email,
-      'download',
-      fileName,
-      fileSize || 'unknown',
-      status,
-      details || `File downloaded: ${fileKey}`
-    );
-    
-    res.json({ success: true, message: 'Download activity logged successfully' });
-  } catch (error) {
-    console.error('Log download activity error:', error);
-    res.status(500).json({ error: error.message });
+async function getOidcMetadata() {
+  if (!oidcMetadataCache || oidcMetadataCache.fetchedAt + OIDC_CACHE_TTL < Date.now()) {
+    oidcMetadataCache = { metadata: await fetchJson(OIDC_CONFIG.discoveryUrl), fetchedAt: Date.now() };
   }
-});
+  return oidcMetadataCache.metadata;
+}
 
-// Schema validation endpoint
-app.post('/api/schema/validate', upload.fields([
-  { name: 'schema', maxCount: 1 },
-  { name: 'data', maxCount: 1 }
-]), async (req, res) => {
-  let schemaFilePath = null;
-  let dataFilePath = null;
+// Public key for a key id from the issuer's JWKS; refetches once when the issuer has rotated its keys
+async function getOidcSigningKey(kid) {
+  const findKey = () => oidcKeysCache?.keys.find(key => key.kid === kid || (!kid && oidcKeysCache.keys.length === 1));
   
-  try {
-    if (!req.files || !req.files.schema || !req.files.data) {
+  if (!findKey() || oidcKeysCache.fetchedAt + OIDC_CACHE_TTL < Date.now()) {
+    const metadata = await getOidcMetadata();
+    oidcKeysCache = { keys: (await fetchJson(metadata.jwks_uri)).keys || [], fetchedAt: Date.now() };
+  }
+  
+  const jwk = findKey();
+  if (!jwk) throw new Error(`The issuer has no signing key "${kid}"`);
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+const OIDC_SIGNING_ALGORITHMS = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+};
+
+// Check an ID token's signature and claims and return the claims
+async function verifyOidcIdToken(idToken, nonce) {
+  const [encodedHeader, encodedPayload, encodedSignature] = String(idToken).split('.');
+  const header = JSON.parse(Buffer.from(encodedHeader || '', 'base64url').toString('utf8'));
+  const algorithm = OIDC_SIGNING_ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error(`Unsupported ID token algorithm ${header.alg}`);
+  
+  const key = await getOidcSigningKey(header.kid);
+  const signatureValid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+    Buffer.from(encodedSignature || '', 'base64url')
+  );
+  if (!signatureValid) throw new Error('The ID token signature is invalid');
+  
+  const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  const metadata = await getOidcMetadata();
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+  
+  if (claims.iss !== metadata.issuer) throw new Error(`Unexpected issuer ${claims.iss}`);
+  if (!audiences.includes(OIDC_CONFIG.clientId)) throw new Error('The ID token was issued for another client');
+  if (!claims.exp || claims.exp + 60 < now) throw new Error('The ID token has expired');
+  if (claims.nonce !== nonce) throw new Error('The ID token nonce does not match');
+  if (!claims.email || claims.email_verified === false) throw new Error('The account has no verified email address');
+  return claims;
+}
+
+// Each provider tells the login screen how to sign in and registers the routes that start sessions
+const AUTH_PROVIDERS = {
+  google: {
+    label: 'Google',
+    clientConfig: () => ({ clientId: GOOGLE_CLIENT_ID }),
+    registerRoutes: registerGoogleAuthRoutes,
+  },
+  oidc: {
+    label: OIDC_CONFIG.label,
+    clientConfig: () => ({}),
+    registerRoutes: registerOidcAuthRoutes,
+  },
+  local: {
+    label: 'Local account',
+    clientConfig: () => ({ minPasswordLength: LOCAL_MIN_PASSWORD_LENGTH }),
+    registerRoutes: registerLocalAuthRoutes,
+  },
+};
+
+const authProvider = AUTH_PROVIDERS[AUTH_PROVIDER];
+if (!authProvider) {
+  console.error(`❌ Unknown AUTH_PROVIDER "${AUTH_PROVIDER}"; use one of ${Object.keys(AUTH_PROVIDERS).join(', ')}`);
+  process.exit(1);
+}
+if (AUTH_PROVIDER === 'oidc' && (!OIDC_CONFIG.discoveryUrl || !OIDC_CONFIG.clientId || !OIDC_CONFIG.clientSecret)) {
+  console.error('❌ AUTH_PROVIDER=oidc needs OIDC_ISSUER (or OIDC_DISCOVERY_URL), OIDC_CLIENT_ID and OIDC_CLIENT_SECRET');
+  process.exit(1);
+}
+
+// Exchange a Google ID token for a session cookie
+function registerGoogleAuthRoutes(app) {
+  app.post('/api/auth/google', async (req, res) => {
+    const { credential } = req.body;
+    
+    if (!credential || typeof credential !== 'string') {
       return res.status(400).json({ 
-        error: 'Both schema and data files are required' 
+        error: 'INVALID_CREDENTIAL', 
+        message: 'A Google ID token is required.' 
       });
     }
     
-    const schemaFile = req.files.schema[0];
-    const dataFile = req.files.data[0];
+    let payload;
+    try {
+      payload = await verifyGoogleIdToken(credential);
+    } catch (error) {
+      console.error('❌ Google ID token rejected:', error.message);
+      return res.status(401).json({ 
+        error: 'INVALID_CREDENTIAL', 
+        message: 'Google sign-in could not be verified. Please try again.' 
+      });
+    }
     
-    // Create temporary files
-    const tempDir = path.join(__dirname, 'temp');
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
+    const user = signInUser(res, payload);
+    if (!user) {
+      return res.status(403).json({ 
+        error: 'ACCESS_DENIED', 
+        message: 'Your email is not authorized to access this application. Please contact your administrator.' 
+      });
     }
     
-    const timestamp = Date.now();
-    schemaFilePath = path.join(tempDir, `schema_${timestamp}.json`);
-    dataFilePath = path.join(tempDir, `data_${timestamp}.json`);
+    res.json({ user });
+  });
+}
+
+// Redirect to the OIDC issuer and finish the sign-in on its callback
+function registerOidcAuthRoutes(app) {
+  const getRedirectUri = req => `${getPublicBaseUrl(req)}/api/auth/oidc/callback`;
+  const failSignIn = (res, message) => res.redirect(`/?authError=${encodeURIComponent(message)}`);
+  
+  app.get('/api/auth/oidc/login', async (req, res) => {
+    try {
+      const metadata = await getOidcMetadata();
+      const state = crypto.randomBytes(16).toString('base64url');
+      const nonce = crypto.randomBytes(16).toString('base64url');
+      const codeVerifier = crypto.randomBytes(32).toString('base64url');
+      
+      // The state cookie ties the callback to the browser that started the sign-in
+      res.cookie(OIDC_STATE_COOKIE, JSON.stringify({ state, nonce, codeVerifier }), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/api/auth/oidc',
+        maxAge: OIDC_LOGIN_TTL,
+      });
+      
+      const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: OIDC_CONFIG.clientId,
+        redirect_uri: getRedirectUri(req),
+        scope: OIDC_CONFIG.scopes,
+        state,
+        nonce,
+        code_challenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+        code_challenge_method: 'S256',
+      });
+      res.redirect(`${metadata.authorization_endpoint}?${params.toString()}`);
+    } catch (error) {
+      console.error('❌ Error starting OIDC sign-in:', error);
+      failSignIn(res, 'The sign-in service is not reachable. Please try again later.');
+    }
+  });
+  
+  app.get('/api/auth/oidc/callback', async (req, res) => {
+    let pending = null;
+    try {
+      pending = JSON.parse(getCookie(req, OIDC_STATE_COOKIE) || 'null');
+    } catch {
+      // A tampered cookie is treated like a missing one
+    }
+    res.clearCookie(OIDC_STATE_COOKIE, { path: '/api/auth/oidc' });
     
-    // Write uploaded files to temporary location
-    fs.writeFileSync(schemaFilePath, schemaFile.buffer);
-    fs.writeFileSync(dataFilePath, dataFile.buffer);
+    if (req.query.error) {
+      return failSignIn(res, req.query.error_description || 'Sign-in was cancelled.');
+    }
+    if (!pending || typeof req.query.code !== 'string' || req.query.state !== pending.state) {
+      return failSignIn(res, 'The sign-in expired or was started in another browser. Please try again.');
+    }
     
-    // Call Python validation script
-    const pythonScript = path.join(__dirname, 'schema_validator.py');
-    const pythonPath = path.join(__dirname, 'venv', 'bin', 'python');
+    let claims;
+    try {
+      const metadata = await getOidcMetadata();
+      const tokens = await fetchJson(metadata.token_endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: `Basic ${Buffer.from(
+            `${encodeURIComponent(OIDC_CONFIG.clientId)}:${encodeURIComponent(OIDC_CONFIG.clientSecret)}`
+          ).toString('base64')}`,
+        },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code: req.query.code,
+          redirect_uri: getRedirectUri(req),
+          code_verifier: pending.codeVerifier,
+        }).toString(),
+      });
+      claims = await verifyOidcIdToken(tokens.id_token, pending.nonce);
+    } catch (error) {
+      console.error('❌ OIDC sign-in rejected:', error.message);
+      return failSignIn(res, 'Sign-in could not be verified. Please try again.');
+    }
     
-    let responseAlreadySent = false;
+    const user = signInUser(res, claims);
+    if (!user) {
+      return failSignIn(res, 'Your email is not authorized to access this application. Please contact your administrator.');
+    }
+    res.redirect('/?signedIn=1');
+  });
+}
+
+// Check an email and password against the authorized users file
+function registerLocalAuthRoutes(app) {
+  app.post('/api/auth/local', (req, res) => {
+    const { email, password } = req.body;
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
     
-    const pythonProcess = spawn(pythonPath, [pythonScript, schemaFilePath, dataFilePath]);
+    if (!normalizedEmail || typeof password !== 'string' || !password) {
+      return res.status(400).json({ 
+        error: 'INVALID_CREDENTIAL', 
+        message: 'Email and password are required.' 
+      });
+    }
     
-    let output = '';
-    let errorOutput = '';
+    const attemptKey = `${normalizedEmail}:${req.ip}`;
+    if (isLocalLoginLocked(attemptKey)) {
+      return res.status(429).json({ 
+        error: 'TOO_MANY_ATTEMPTS', 
+        message: `Too many failed sign-ins. Please try again in ${LOCAL_LOCKOUT_MINUTES} minutes.` 
+      });
+    }
     
-    pythonProcess.stdout.on('data', (data) => {
-      output += data.toString();
-    });
+    const authorizedUser = findAuthorizedUser(normalizedEmail);
+    if (!isUserPasswordCorrect(authorizedUser, password)) {
+      recordFailedLocalLogin(attemptKey);
+      return res.status(401).json({ 
+        error: 'INVALID_CREDENTIAL', 
+        message: 'The email or password is incorrect.' 
+      });
+    }
     
-    pythonProcess.stderr.on('data', (data) => {
-      errorOutput += data.toString();
+    failedLocalLogins.delete(attemptKey);
+    res.json({ user: signInUser(res, { email: authorizedUser.email, name: authorizedUser.name }) });
+  });
+}
+
+authProvider.registerRoutes(app);
+
+// LOCAL_ADMIN_PASSWORD gives admins without a password a first one, so a fresh install can sign in
+if (AUTH_PROVIDER === 'local' && process.env.LOCAL_ADMIN_PASSWORD) {
+  const usersData = loadAuthorizedUsers();
+  const admins = usersData.users.filter(user => user.role === 'admin' && !user.passwordHash);
+  const passwordError = admins.map(user => setUserPassword(user, process.env.LOCAL_ADMIN_PASSWORD)).find(Boolean);
+  
+  if (passwordError) {
+    console.error(`❌ LOCAL_ADMIN_PASSWORD was not applied: ${passwordError}`);
+  } else if (admins.length > 0 && saveAuthorizedUsers(usersData)) {
+    console.log(`🔑 Set the initial password for ${admins.map(user => user.email).join(', ')}`);
+  }
+}
+
+// Which provider the login screen should offer
+app.get('/api/auth/config', (req, res) => {
+  res.json({
+    type: AUTH_PROVIDER,
+    label: authProvider.label,
+    ...authProvider.clientConfig(),
+    ...(process.env.NODE_ENV !== 'production' && { devIdentities: true })
+  });
+});
+
+// The signed-in user, e.g. after returning from an OIDC issuer
+app.get('/api/auth/session', checkUserAuthorization, (req, res) => {
+  res.json({
+    user: {
+      email: req.user.email,
+      name: req.user.name || req.user.email,
+      picture: getSession(req)?.picture || '',
+      role: req.user.role,
+      projects: getProjectGrants(req.user)
+    }
+  });
+});
+
+// End the current session
+app.post('/api/auth/logout', (req, res) => {
+  endSession(req, res);
+  res.clearCookie(DEV_IDENTITY_COOKIE, { path: '/' });
+  res.json({ success: true });
+});
+
+// The dev identity switcher; these routes do not exist in production
+if (process.env.NODE_ENV !== 'production') {
+  // The identities to pick from and the one in use
+  app.get('/api/dev/identity', (req, res) => {
+    res.json({
+      current: getCookie(req, DEV_IDENTITY_COOKIE) || DEV_IDENTITY,
+      roles: Object.keys(DEV_ROLE_IDENTITIES),
+      users: loadAuthorizedUsers().users.map(user => ({ email: user.email, role: user.role }))
     });
+  });
+  
+  // Act as a role or an authorized user (`identity`) until the next switch or sign-out
+  app.put('/api/dev/identity', (req, res) => {
+    const identity = typeof req.body.identity === 'string' ? req.body.identity.trim() : '';
+    const user = resolveDevIdentity(identity);
+    if (!user) {
+      return res.status(400).json({
+        error: 'INVALID_IDENTITY',
+        message: `Pick a role (${Object.keys(DEV_ROLE_IDENTITIES).join(', ')}) or the email of an authorized user.`
+      });
+    }
     
-    pythonProcess.on('close', (code) => {
-      if (responseAlreadySent) return;
-      
-      // Clean up temporary files
-      try {
-        if (fs.existsSync(schemaFilePath)) fs.unlinkSync(schemaFilePath);
-        if (fs.existsSync(dataFilePath)) fs.unlinkSync(dataFilePath);
-      } catch (cleanupError) {
-        console.error('Error cleaning up temp files:', cleanupError);
-      }
-      
-      if (code === 0) {
-        try {
-          const result = JSON.parse(output);
-          responseAlreadySent = true;
-          res.json(result);
-        } catch (parseError) {
-          console.error('Error parsing Python output:', parseError);
-          responseAlreadySent = true;
-          res.status(500).json({ 
-            error: 'Failed to parse validation results',
-            details: output 
-          });
-        }
-      } else {
-        console.error('Python script error:', errorOutput);
-        responseAlreadySent = true;
-        res.status(500).json({ 
-          error: 'Schema validation failed',
-          details: errorOutput || output 
-        });
+    res.cookie(DEV_IDENTITY_COOKIE, identity, { httpOnly: true, sameSite: 'lax', path: '/' });
+    console.log(`🧪 Dev identity switched to ${user.email} (${user.role})`);
+    res.json({
+      user: {
+        email: user.email,
+        name: user.name,
+        picture: '',
+        role: user.role,
+        projects: getProjectGrants(user)
       }
     });
-    
-    pythonProcess.on('error', (error) => {
-      if (responseAlreadySent) return;
-      
-      console.error('Failed to start Python process:', error);
-      
-      // Clean up temporary files
-      try {
-        if (fs.existsSync(schemaFilePath)) fs.unlinkSync(schemaFilePath);
-        if (fs.existsSync(dataFilePath)) fs.unlinkSync(dataFilePath);
-      } catch (cleanupError) {
-        console.error('Error cleaning up temp files:', cleanupError);
-      }
-      
-      responseAlreadySent = true;
-      res.status(500).json({ 
-        error: 'Failed to execute validation script',
-        details: error.message 
+  });
+}
+
+// ============================================
+// API TOKEN ENDPOINTS
+// ============================================
+
+// Public view of a token; neither the token nor its hash leaves the server after creation
+function serializeApiToken(apiToken) {
+  const { tokenHash, ...rest } = apiToken;
+  return { ...rest, status: getApiTokenStatus(apiToken) };
+}
+
+// Tokens are managed from a signed-in session, never with another token
+function rejectApiTokenRequest(req, res) {
+  if (!req.user.token) return false;
+  res.status(403).json({ error: 'API tokens cannot be used to manage API tokens', code: 'TOKEN_NOT_ALLOWED' });
+  return true;
+}
+
+// Create a personal API token; the token itself is returned only in this response
+app.post('/api/tokens', checkUserAuthorization, (req, res) => {
+  if (rejectApiTokenRequest(req, res)) return;
+  const { name, projects, expiresInDays } = req.body;
+  
+  const tokenName = typeof name === 'string' ? name.trim() : '';
+  if (!tokenName || tokenName.length > 100) {
+    return res.status(400).json({ error: 'A token name of at most 100 characters is required' });
+  }
+  const days = Number(expiresInDays);
+  if (!Number.isInteger(days) || days < 1 || days > API_TOKEN_MAX_DAYS) {
+    return res.status(400).json({ error: `expiresInDays must be a whole number between 1 and ${API_TOKEN_MAX_DAYS}` });
+  }
+  const grantsError = validateProjectGrants(projects);
+  if (grantsError) {
+    return res.status(400).json({ error: grantsError });
+  }
+  const scope = Object.fromEntries(Object.entries(projects).filter(([, permissions]) => permissions.length > 0));
+  if (Object.keys(scope).length === 0) {
+    return res.status(400).json({ error: 'Give the token at least one permission on a project' });
+  }
+  
+  // A token can only do what its creator can do
+  for (const [project, permissions] of Object.entries(scope)) {
+    const missing = permissions.find(permission => !hasProjectPermission(req.user, project, permission));
+    if (missing) {
+      return res.status(403).json({
+        error: project === ALL_PROJECTS
+          ? `You do not have ${missing} access to all projects`
+          : `You do not have ${missing} access to the project "${project}"`,
+        code: 'PROJECT_ACCESS_DENIED',
       });
-    });
-    
-  } catch (error) {
-    console.error('Schema validation error:', error);
-    
-    // Clean up temporary files
-    try {
-      if (schemaFilePath && fs.existsSync(schemaFilePath)) fs.unlinkSync(schemaFilePath);
-      if (dataFilePath && fs.existsSync(dataFilePath)) fs.unlinkSync(dataFilePath);
-    } catch (cleanupError) {
-      console.error('Error cleaning up temp files:', cleanupError);
     }
-    
-    res.status(500).json({ error: error.message });
   }
+  
+  const now = new Date();
+  const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const apiToken = {
+    id: crypto.randomBytes(9).toString('base64url'),
+    name: tokenName,
+    tokenHash: hashSessionToken(token),
+    // Last characters of the token, to tell tokens apart
+    hint: token.slice(-4),
+    projects: scope,
+    createdBy: req.user.email,
+    createdByName: req.user.name || req.user.email,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString(),
+    lastUsedAt: null,
+    revokedAt: null,
+  };
+  
+  const tokensData = loadApiTokens();
+  tokensData.tokens.unshift(apiToken);
+  if (!saveApiTokens(tokensData)) {
+    return res.status(500).json({ error: 'Failed to save API token' });
+  }
+  
+  console.log(`🔑 API token "${tokenName}" created by ${req.user.email}, expires ${apiToken.expiresAt}`);
+  res.json({ success: true, token, apiToken: serializeApiToken(apiToken) });
 });
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'OK', message: 'S3 API server is running' });
+// The current user's API tokens; admins can pass ?all=true to see everyone's
+app.get('/api/tokens', checkUserAuthorization, (req, res) => {
+  if (rejectApiTokenRequest(req, res)) return;
+  const showAll = req.query.all === 'true' && req.user.role === 'admin';
+  const tokens = loadApiTokens().tokens.filter(apiToken => showAll || apiToken.createdBy === req.user.email);
+  res.json({ tokens: tokens.map(serializeApiToken), maxExpiryDays: API_TOKEN_MAX_DAYS });
+});
+
+// Revoke an API token (its creator or an admin)
+app.delete('/api/tokens/:id', checkUserAuthorization, (req, res) => {
+  if (rejectApiTokenRequest(req, res)) return;
+  const tokensData = loadApiTokens();
+  const apiToken = tokensData.tokens.find(item => item.id === req.params.id);
+  
+  if (!apiToken || (apiToken.createdBy !== req.user.email && req.user.role !== 'admin')) {
+    return res.status(404).json({ error: 'API token not found' });
+  }
+  if (!apiToken.revokedAt) {
+    apiToken.revokedAt = new Date().toISOString();
+    apiToken.revokedBy = req.user.email;
+    if (!saveApiTokens(tokensData)) {
+      return res.status(500).json({ error: 'Failed to revoke API token' });
+    }
+    console.log(`🔑 API token "${apiToken.name}" of ${apiToken.createdBy} revoked by ${req.user.email}`);
+  }
+  
+  res.json({ success: true, apiToken: serializeApiToken(apiToken) });
 });
 
 // ============================================
 // USER MANAGEMENT API ENDPOINTS
 // ============================================
 
+// Public view of a user record; password hashes never leave the server
+function serializeAuthorizedUser(user) {
+  const { passwordHash, passwordSalt, ...rest } = user;
+  return { ...rest, projects: getProjectGrants(user), hasPassword: !!passwordHash };
+}
+
 // Get authorized users list
 app.get('/api/users/authorized', checkUserAuthorization, (req, res) => {
   try {
     const usersData = loadAuthorizedUsers();
     
     res.json({
-      users: usersData.users.sort((a, b) => new Date(b.addedAt) - new Date(a.addedAt)),
+      users: usersData.users
+        .sort((a, b) => new Date(b.addedAt) - new Date(a.addedAt))
+        .map(serializeAuthorizedUser),
       currentUser: {
         email: req.user.email,
-        role: req.user.role
-      }
+        role: req.user.role,
+        projects: getProjectGrants(req.user)
+      },
+      permissions: PROJECT_PERMISSIONS,
+      authProvider: AUTH_PROVIDER
     });
   } catch (error) {
     console.error('❌ Error fetching authorized users:', error);
@@ -909,7 +5425,7 @@ app.get('/api/users/authorized', checkUserAuthorization, (req, res) => {
 // Add new authorized user
 app.post('/api/users/authorized', checkUserAuthorization, requireAdmin, (req, res) => {
   try {
-    const { email, role } = req.body;
+    const { email, role, projects = {}, password } = req.body;
     
     if (!email || !email.trim()) {
       return res.status(400).json({ 
@@ -925,6 +5441,11 @@ app.post('/api/users/authorized', checkUserAuthorization, requireAdmin, (req, re
       });
     }
     
+    const grantsError = validateProjectGrants(projects);
+    if (grantsError) {
+      return res.status(400).json({ error: 'INVALID_PROJECTS', message: grantsError });
+    }
+    
     const normalizedEmail = email.trim().toLowerCase();
     const usersData = loadAuthorizedUsers();
     
@@ -941,10 +5462,19 @@ app.post('/api/users/authorized', checkUserAuthorization, requireAdmin, (req, re
     const newUser = {
       email: normalizedEmail,
       role,
+      projects,
       addedAt: new Date().toISOString(),
       addedBy: req.user.email
     };
     
+    // Local accounts sign in with a password set by the admin who adds them
+    if (AUTH_PROVIDER === 'local') {
+      const passwordError = setUserPassword(newUser, password);
+      if (passwordError) {
+        return res.status(400).json({ error: 'INVALID_PASSWORD', message: passwordError });
+      }
+    }
+    
     usersData.users.push(newUser);
     
     if (!saveAuthorizedUsers(usersData)) {
@@ -958,7 +5488,7 @@ app.post('/api/users/authorized', checkUserAuthorization, requireAdmin, (req, re
     res.json({ 
       success: true, 
       message: 'User added successfully.',
-      user: newUser
+      user: serializeAuthorizedUser(newUser)
     });
     
   } catch (error) {
@@ -970,19 +5500,26 @@ app.post('/api/users/authorized', checkUserAuthorization, requireAdmin, (req, re
   }
 });
 
-// Update user role
+// Update user role, project grants and (local accounts) password; fields left out of the body are unchanged
 app.put('/api/users/authorized/:email', checkUserAuthorization, requireAdmin, (req, res) => {
   try {
     const targetEmail = decodeURIComponent(req.params.email).toLowerCase();
-    const { role } = req.body;
+    const { role, projects, password } = req.body;
     
-    if (!role || !['admin', 'user'].includes(role)) {
+    if (role !== undefined && !['admin', 'user'].includes(role)) {
       return res.status(400).json({ 
         error: 'INVALID_ROLE', 
         message: 'Role must be either "admin" or "user".' 
       });
     }
     
+    if (projects !== undefined) {
+      const grantsError = validateProjectGrants(projects);
+      if (grantsError) {
+        return res.status(400).json({ error: 'INVALID_PROJECTS', message: grantsError });
+      }
+    }
+    
     const usersData = loadAuthorizedUsers();
     const userIndex = usersData.users.findIndex(user => user.email.toLowerCase() === targetEmail);
     
@@ -994,27 +5531,35 @@ app.put('/api/users/authorized/:email', checkUserAuthorization, requireAdmin, (r
     }
     
     // Prevent admins from removing their own admin privileges
-    if (targetEmail === req.user.email.toLowerCase() && role !== 'admin') {
+    if (targetEmail === req.user.email.toLowerCase() && role && role !== 'admin') {
       return res.status(400).json({ 
         error: 'CANNOT_DEMOTE_SELF', 
         message: 'You cannot remove your own administrator privileges.' 
       });
     }
     
-    usersData.users[userIndex].role = role;
+    if (password !== undefined && AUTH_PROVIDER === 'local') {
+      const passwordError = setUserPassword(usersData.users[userIndex], password);
+      if (passwordError) {
+        return res.status(400).json({ error: 'INVALID_PASSWORD', message: passwordError });
+      }
+    }
+    
+    if (role) usersData.users[userIndex].role = role;
+    if (projects) usersData.users[userIndex].projects = projects;
     
     if (!saveAuthorizedUsers(usersData)) {
       return res.status(500).json({ 
         error: 'SAVE_FAILED', 
-        message: 'Failed to update user role.' 
+        message: 'Failed to update user.' 
       });
     }
     
-    console.log(`✅ User role updated: ${targetEmail} -> ${role} by ${req.user.email}`);
+    console.log(`✅ User updated: ${targetEmail} -> ${usersData.users[userIndex].role} by ${req.user.email}`);
     res.json({ 
       success: true, 
-      message: 'User role updated successfully.',
-      user: usersData.users[userIndex]
+      message: 'User updated successfully.',
+      user: serializeAuthorizedUser(usersData.users[userIndex])
     });
     
   } catch (error) {
@@ -1062,7 +5607,7 @@ app.delete('/api/users/authorized/:email', checkUserAuthorization, requireAdmin,
     res.json({ 
       success: true, 
       message: 'User deleted successfully.',
-      deletedUser: deletedUser
+      deletedUser: serializeAuthorizedUser(deletedUser)
     });
     
   } catch (error) {
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  InputAdornment,
+  IconButton,
+  Tooltip,
+  Alert,
+  Avatar,
+} from '@mui/material';
+import { Key, ContentCopy } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { ApiToken, ProjectGrants } from '../types';
+import { useApiTokens, useCreateApiToken } from '../hooks/useS3';
+import ProjectGrantsEditor from './ProjectGrantsEditor';
+
+const TOKEN_EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+const copyTokenToClipboard = async (token: string) => {
+  try {
+    await navigator.clipboard.writeText(token);
+    toast.success('Token copied to clipboard');
+  } catch (error) {
+    toast.error('Could not copy the token; select it and copy it manually');
+  }
+};
+
+interface ApiTokenDialogProps {
+  onClose: () => void;
+}
+
+const ApiTokenDialog: React.FC<ApiTokenDialogProps> = ({ onClose }) => {
+  const [name, setName] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [projects, setProjects] = useState<ProjectGrants>({});
+  const [created, setCreated] = useState<{ apiToken: ApiToken; token: string } | null>(null);
+
+  const { data: listing } = useApiTokens();
+  const createMutation = useCreateApiToken();
+
+  const maxExpiryDays = listing?.maxExpiryDays ?? 30;
+  const expiryOptions = TOKEN_EXPIRY_OPTIONS.filter(option => option.days <= maxExpiryDays);
+  const hasPermissions = Object.values(projects).some(permissions => permissions.length > 0);
+  const isValid = !!name.trim() && hasPermissions;
+
+  const handleCreate = async () => {
+    try {
+      const result = await createMutation.mutateAsync({ name: name.trim(), projects, expiresInDays });
+      setCreated(result);
+    } catch (error) {
+      // Error is handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open onClose={created ? undefined : onClose} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Avatar sx={{ bgcolor: 'primary.main' }}>
+            <Key />
+          </Avatar>
+          <Box>
+            <Typography variant="h6">API Token</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Lets scripts and CI pipelines call the API as you, limited to the projects and actions you pick
+            </Typography>
+          </Box>
+        </Box>
+      </DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {created ? (
+          <>
+            <Alert severity="warning">
+              Copy the token now. It is stored hashed on the server and will not be shown again.
+            </Alert>
+            <TextField
+              label={created.apiToken.name}
+              value={created.token}
+              InputProps={{
+                readOnly: true,
+                sx: { fontFamily: 'monospace' },
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <Tooltip title="Copy token">
+                      <IconButton onClick={() => copyTokenToClipboard(created.token)} edge="end">
+                        <ContentCopy />
+                      </IconButton>
+                    </Tooltip>
+                  </InputAdornment>
+                ),
+              }}
+              onFocus={(e) => e.target.select()}
+            />
+            <Typography variant="body2" color="text.secondary">
+              Send it as a bearer token, e.g. to upload a file:
+            </Typography>
+            <Box
+              component="pre"
+              sx={{ m: 0, p: 2, borderRadius: 1, bgcolor: '#0f172a', color: '#e2e8f0', fontSize: '0.8rem', overflowX: 'auto' }}
+            >
+              {`curl -H "Authorization: Bearer $S3M_TOKEN" \\\n  -F key=<project>/outputData/<date>/results.json \\\n  -F file=@results.json \\\n  ${window.location.origin}/api/s3/upload`}
+            </Box>
+            <Typography variant="body2" color="text.secondary">
+              The token works until {created.apiToken.expiresAt.toLocaleString()}. Its activity is logged as
+              "{created.apiToken.createdByName} via token {created.apiToken.name}".
+            </Typography>
+          </>
+        ) : (
+          <>
+            <TextField
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="nightly-pipeline"
+              helperText="Shown in activity logs next to your name"
+              inputProps={{ maxLength: 100 }}
+              autoFocus
+            />
+            <FormControl fullWidth>
+              <InputLabel>Expires after</InputLabel>
+              <Select
+                value={expiresInDays}
+                label="Expires after"
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              >
+                {expiryOptions.map(option => (
+                  <MenuItem key={option.days} value={option.days}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <ProjectGrantsEditor
+              value={projects}
+              onChange={setProjects}
+              title="Token scope"
+              emptyText="Add the projects the token may use. It can never do more than your own account."
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 1 }}>
+        <Button onClick={onClose} sx={{ textTransform: 'none' }}>
+          {created ? 'Done' : 'Cancel'}
+        </Button>
+        {!created && (
+          <Button
+            variant="contained"
+            onClick={handleCreate}
+            disabled={!isValid || createMutation.isPending}
+            sx={{ textTransform: 'none' }}
+          >
+            {createMutation.isPending ? 'Creating...' : 'Create Token'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ApiTokenDialog;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  CircularProgress,
+  Avatar,
+  TextField,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import { DeleteSweep } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { useBulkDeletePreview, useBulkDelete } from '../hooks/useS3';
+import { apiService } from '../services/apiService';
+import { BulkDeleteSelection } from '../types';
+
+// Deletions at least this large, and all permanent ones, must be confirmed by typing CONFIRM_WORD
+const LARGE_DELETE_THRESHOLD = 50;
+const CONFIRM_WORD = 'DELETE';
+
+interface BulkDeleteDialogProps {
+  selection: BulkDeleteSelection;
+  label: string;
+  onClose: () => void;
+  onDeleted?: () => void;
+}
+
+const BulkDeleteDialog: React.FC<BulkDeleteDialogProps> = ({ selection, label, onClose, onDeleted }) => {
+  const [permanent, setPermanent] = useState(false);
+  const [confirmText, setConfirmText] = useState('');
+
+  const { data: preview, isLoading, isFetching, error, refetch } = useBulkDeletePreview(selection);
+  const deleteMutation = useBulkDelete();
+
+  const count = preview?.count ?? 0;
+  const requiresTypedConfirmation = permanent || count >= LARGE_DELETE_THRESHOLD;
+  const canDelete = !!preview && count > 0 && !isFetching && !deleteMutation.isPending &&
+    (!requiresTypedConfirmation || confirmText === CONFIRM_WORD);
+
+  const handleDelete = () => {
+    if (!preview) return;
+    deleteMutation.mutate({ selection, expectedCount: preview.count, permanent }, {
+      onSuccess: () => {
+        onDeleted?.();
+        onClose();
+      },
+      onError: (error: Error & { code?: string }) => {
+        if (error.code === 'SELECTION_CHANGED') {
+          toast.error(error.message);
+          setConfirmText('');
+          refetch();
+        }
+      },
+    });
+  };
+
+  return (
+    <Dialog
+      open
+      onClose={deleteMutation.isPending ? undefined : onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{ sx: { borderRadius: 2 } }}
+    >
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Avatar sx={{ bgcolor: 'error.main' }}>
+            <DeleteSweep />
+          </Avatar>
+          <Box>
+            <Typography variant="h6">Delete {label}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Review exactly what will be removed before confirming
+            </Typography>
+          </Box>
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{(error as Error).message}</Alert>
+        ) : preview && (
+          <>
+            <Box sx={{ display: 'flex', gap: 1, mb: 2, alignItems: 'center' }}>
+              <Chip label={`${count} file${count === 1 ? '' : 's'}`} color="error" variant="outlined" />
+              <Chip label={apiService.formatFileSize(preview.totalSize)} variant="outlined" />
+              {isFetching && <CircularProgress size={16} />}
+            </Box>
+
+            {preview.missing.length > 0 && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                {preview.missing.length} selected file{preview.missing.length === 1 ? ' no longer exists' : 's no longer exist'} and
+                will be skipped.
+              </Alert>
+            )}
+
+            {count === 0 ? (
+              <Alert severity="info">There are no files to delete.</Alert>
+            ) : (
+              <Box sx={{ maxHeight: 280, overflowY: 'auto', border: '1px solid', borderColor: 'divider', borderRadius: 1, mb: 2 }}>
+                {preview.objects.map(obj => (
+                  <Box
+                    key={obj.key}
+                    sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, px: 2, py: 0.5, borderBottom: '1px solid', borderColor: 'divider' }}
+                  >
+                    <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>{obj.key}</Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                      {apiService.formatFileSize(obj.size)}
+                    </Typography>
+                  </Box>
+                ))}
+              </Box>
+            )}
+
+            <FormControlLabel
+              control={<Checkbox checked={permanent} onChange={(e) => setPermanent(e.target.checked)} color="error" />}
+              label="Skip the Recycle Bin and delete permanently"
+            />
+
+            <Alert severity={permanent ? 'error' : 'warning'} sx={{ mt: 1 }}>
+              {permanent
+                ? 'These files will be permanently removed from S3. This action cannot be undone.'
+                : 'These files will be moved to the Recycle Bin and can be restored until the retention period ends.'}
+            </Alert>
+
+            {requiresTypedConfirmation && count > 0 && (
+              <TextField
+                fullWidth
+                size="small"
+                sx={{ mt: 2 }}
+                label={`Type ${CONFIRM_WORD} to confirm`}
+                value={confirmText}
+                onChange={(e) => setConfirmText(e.target.value)}
+                autoComplete="off"
+              />
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 1 }}>
+        <Button onClick={onClose} disabled={deleteMutation.isPending} sx={{ textTransform: 'none' }}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleDelete}
+          color="error"
+          variant="contained"
+          disabled={!canDelete}
+          startIcon={deleteMutation.isPending ? <CircularProgress size={16} color="inherit" /> : undefined}
+          sx={{ textTransform: 'none' }}
+        >
+          {deleteMutation.isPending ? 'Deleting...' : `Delete ${count} File${count === 1 ? '' : 's'}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BulkDeleteDialog;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import {
   Button,
   Dialog,
@@ -26,57 +26,72 @@ import { apiService } from '../services/apiService';
 interface BulkDownloadProps {
   files: S3File[];
   folderName?: string;
+  // When set, the server archives everything under this prefix instead of the listed keys
+  prefix?: string;
   disabled?: boolean;
 }
 
 const BulkDownload: React.FC<BulkDownloadProps> = ({ 
   files, 
   folderName = 'folder',
+  prefix,
   disabled = false 
 }) => {
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [progress, setProgress] = useState({ completed: 0, total: 0, currentFile: '' });
+  const [progress, setProgress] = useState({ loadedBytes: 0, totalBytes: 0 });
+  const [isComplete, setIsComplete] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   const bulkDownloadMutation = useBulkDownload();
 
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
   const handleBulkDownload = async () => {
     if (files.length === 0) return;
 
-    const fileKeys = files.map(file => file.key);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsComplete(false);
+    setProgress({ loadedBytes: 0, totalBytes: totalSize });
     
     try {
       await bulkDownloadMutation.mutateAsync({
-        keys: fileKeys,
-        onProgress: (completed, total, currentFile) => {
-          setProgress({ completed, total, currentFile });
-          
-          // Show individual file download notifications
-          if (currentFile !== 'Complete' && completed > 0) {
-            console.log(`Downloaded: ${currentFile} (${completed}/${total})`);
-          }
-        }
+        ...(prefix ? { prefix } : { keys: files.map(file => file.key) }),
+        onProgress: (loadedBytes, totalBytes) => {
+          setProgress({ loadedBytes, totalBytes: totalBytes ?? totalSize });
+        },
+        signal: controller.signal,
       });
+      setIsComplete(true);
       
       // Close dialog after successful download
       setTimeout(() => {
         setDialogOpen(false);
-        setProgress({ completed: 0, total: 0, currentFile: '' });
-      }, 3000); // Longer delay to see completion message
+        setIsComplete(false);
+      }, 2000);
       
     } catch (error) {
       console.error('Bulk download failed:', error);
+    } finally {
+      abortControllerRef.current = null;
     }
   };
 
+  const handleCancelDownload = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleClose = () => {
     if (!bulkDownloadMutation.isPending) {
       setDialogOpen(false);
-      setProgress({ completed: 0, total: 0, currentFile: '' });
+      setIsComplete(false);
     }
   };
 
-  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
-  const progressPercentage = progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
+  // The archive stores files uncompressed, so its size tracks the source bytes closely
+  const progressPercentage = progress.totalBytes > 0
+    ? Math.min(100, (progress.loadedBytes / progress.totalBytes) * 100)
+    : 0;
 
   return (
     <>
@@ -122,9 +137,8 @@ const BulkDownload: React.FC<BulkDownloadProps> = ({
           <Box sx={{ mb: 3 }}>
             <Alert severity="info" sx={{ borderRadius: 2 }}>
               <Typography variant="body2">
-                <strong>📁 Folder Download:</strong> This will download all {files.length} files 
-                from the "{folderName}" folder individually. Each file will be saved to your 
-                default download location.
+                <strong>📁 Folder Download:</strong> All {files.length} files from the "{folderName}" 
+                folder will be downloaded as a single ZIP archive that keeps the subfolder structure.
               </Typography>
             </Alert>
           </Box>
@@ -151,7 +165,7 @@ const BulkDownload: React.FC<BulkDownloadProps> = ({
           {bulkDownloadMutation.isPending && (
             <Box sx={{ mb: 3 }}>
               <Typography variant="body2" gutterBottom>
-                Downloading: {progress.currentFile}
+                Downloading {folderName}.zip
               </Typography>
               <LinearProgress 
                 variant="determinate" 
@@ -159,72 +173,29 @@ const BulkDownload: React.FC<BulkDownloadProps> = ({
                 sx={{ height: 8, borderRadius: 4 }}
               />
               <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-                {progress.completed} of {progress.total} files completed ({Math.round(progressPercentage)}%)
+                {apiService.formatFileSize(progress.loadedBytes)} of {apiService.formatFileSize(progress.totalBytes)} ({Math.round(progressPercentage)}%)
               </Typography>
             </Box>
           )}
 
-          {progress.completed > 0 && progress.completed === progress.total && (
+          {isComplete && (
             <Alert severity="success" sx={{ borderRadius: 2 }}>
               <Typography variant="body2">
-                ✅ All files downloaded successfully! Check your downloads folder.
+                ✅ ZIP archive downloaded successfully! Check your downloads folder.
               </Typography>
             </Alert>
           )}
 
-          <Box sx={{ mt: 2 }}>
-            <Alert severity="warning" sx={{ borderRadius: 2, mb: 2 }}>
-              <Typography variant="body2">
-                <strong>⚠️ Browser Settings:</strong> Make sure your browser allows multiple downloads. 
-                Some browsers may block automatic downloads or ask for permission.
-              </Typography>
-            </Alert>
-            <Typography variant="caption" color="text.secondary">
-              <strong>📥 Download Process:</strong> Files will be downloaded one by one with a delay between each 
-              to ensure reliable downloads. Check your browser's download folder and download notifications.
-              If downloads don't appear, check your browser's download settings and popup blockers.
-            </Typography>
-          </Box>
         </DialogContent>
 
         <DialogActions sx={{ p: 3, pt: 0 }}>
-          <Button 
-            onClick={handleClose} 
-            disabled={bulkDownloadMutation.isPending}
-            color="inherit"
-          >
-            {bulkDownloadMutation.isPending ? 'Downloading...' : 'Cancel'}
-          </Button>
-          {files.length > 0 && (
-            <Button
-              onClick={() => {
-                // Test download with just the first file
-                const testFile = files[0];
-                const fileName = testFile.key.split('/').pop() || 'test-file';
-                
-                // Create a simple test download
-                const testContent = `Test download for: ${fileName}\nFile key: ${testFile.key}\nTimestamp: ${new Date().toISOString()}`;
-                const blob = new Blob([testContent], { type: 'text/plain' });
-                const url = window.URL.createObjectURL(blob);
-                
-                const link = document.createElement('a');
-                link.href = url;
-                link.download = `test-${fileName}.txt`;
-                link.style.display = 'none';
-                
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-                
-                setTimeout(() => {
-                  window.URL.revokeObjectURL(url);
-                }, 1000);
-              }}
-              variant="outlined"
-              size="small"
-              sx={{ mr: 1 }}
-            >
-              Test Download
+          {bulkDownloadMutation.isPending ? (
+            <Button onClick={handleCancelDownload} color="inherit">
+              Cancel Download
+            </Button>
+          ) : (
+            <Button onClick={handleClose} color="inherit">
+              Cancel
             </Button>
           )}
           <Button
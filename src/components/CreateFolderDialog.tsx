@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Typography,
+  Button,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { PickedSegment, layoutService } from '../services/layoutService';
+
+interface CreateFolderDialogProps {
+  open: boolean;
+  // Input-side folder the new folder goes into, e.g. "project/inputData/"
+  location: string;
+  // Picked segment the folder is created for; a new project when omitted
+  segment?: PickedSegment;
+  isPending: boolean;
+  onClose: () => void;
+  onCreate: (name: string) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const CreateFolderDialog: React.FC<CreateFolderDialogProps> = ({ open, location, segment, isPending, onClose, onCreate }) => {
+  const [name, setName] = useState('');
+  const isDate = segment?.type === 'date';
+  const validationError = name ? layoutService.validateFolderName(name, segment) : null;
+
+  useEffect(() => {
+    if (open) {
+      setName(isDate ? today() : '');
+    }
+  }, [open, isDate]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (name && !validationError) {
+      onCreate(name);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{segment ? `New ${segment.label}` : 'New Project'}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            {segment
+              ? <>Creates the folder in <code>{location}</code> and in the matching output folder.</>
+              : 'Creates the project with the input and output folders of its layout.'}
+          </Typography>
+          <TextField
+            autoFocus
+            label={segment ? segment.label : 'Project name'}
+            type={isDate ? 'date' : 'text'}
+            value={name}
+            onChange={(e) => setName(e.target.value.trim())}
+            error={!!validationError}
+            helperText={validationError || ' '}
+            InputLabelProps={isDate ? { shrink: true } : undefined}
+          />
+        </DialogContent>
+        <DialogActions sx={{ p: 3, pt: 0 }}>
+          <Button onClick={onClose} sx={{ textTransform: 'none' }}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={!name || !!validationError || isPending}
+            sx={{ textTransform: 'none' }}
+          >
+            {isPending ? 'Creating...' : 'Create'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default CreateFolderDialog;
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Typography,
+} from '@mui/material';
+
+// Rendering is capped so very long files stay responsive; sorting still covers every loaded row
+const MAX_RENDERED_ROWS = 1000;
+
+interface DelimitedTableViewProps {
+  rows: string[][];
+}
+
+const compareCells = (a: string, b: string) => {
+  const numberA = Number(a);
+  const numberB = Number(b);
+  if (a.trim() !== '' && b.trim() !== '' && !isNaN(numberA) && !isNaN(numberB)) {
+    return numberA - numberB;
+  }
+  return a.localeCompare(b);
+};
+
+const DelimitedTableView: React.FC<DelimitedTableViewProps> = ({ rows }) => {
+  const [sortColumn, setSortColumn] = useState<number | null>(null);
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+
+  const header = rows[0] || [];
+  const body = useMemo(() => rows.slice(1), [rows]);
+
+  const sortedRows = useMemo(() => {
+    if (sortColumn === null) return body;
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return [...body].sort((a, b) => direction * compareCells(a[sortColumn] ?? '', b[sortColumn] ?? ''));
+  }, [body, sortColumn, sortDirection]);
+
+  const handleSort = (column: number) => {
+    if (sortColumn === column) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortColumn(column);
+      setSortDirection('asc');
+    }
+  };
+
+  return (
+    <Box>
+      <TableContainer sx={{ border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              {header.map((column, index) => (
+                <TableCell key={index} sx={{ fontWeight: 600, whiteSpace: 'nowrap' }}>
+                  <TableSortLabel
+                    active={sortColumn === index}
+                    direction={sortColumn === index ? sortDirection : 'asc'}
+                    onClick={() => handleSort(index)}
+                  >
+                    {column}
+                  </TableSortLabel>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sortedRows.slice(0, MAX_RENDERED_ROWS).map((row, rowIndex) => (
+              <TableRow key={rowIndex} hover>
+                {header.map((_, index) => (
+                  <TableCell key={index} sx={{ fontSize: 13, whiteSpace: 'nowrap' }}>
+                    {row[index] ?? ''}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+        {body.length > MAX_RENDERED_ROWS
+          ? `Showing ${MAX_RENDERED_ROWS} of ${body.length} rows`
+          : `${body.length} rows`}
+      </Typography>
+    </Box>
+  );
+};
+
+export default DelimitedTableView;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  ListSubheader,
+  MenuItem,
+  Select,
+  Typography,
+  SxProps,
+  Theme,
+} from '@mui/material';
+import { authService, SignedInUser } from '../services/authService';
+import { DevIdentityOptions } from '../types';
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: 'Admin (every permission)',
+  user: 'User (default read and upload access)',
+};
+
+interface DevIdentitySwitcherProps {
+  buttonLabel: string;
+  onSwitched: (user: SignedInUser) => void;
+  sx?: SxProps<Theme>;
+}
+
+// Picks the role or authorized user a development server acts as; renders nothing against a production server
+const DevIdentitySwitcher: React.FC<DevIdentitySwitcherProps> = ({ buttonLabel, onSwitched, sx }) => {
+  const [options, setOptions] = useState<DevIdentityOptions | null>(null);
+  const [identity, setIdentity] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  useEffect(() => {
+    authService.getProviderConfig()
+      .then(config => (config.devIdentities ? authService.getDevIdentities() : null))
+      .then(result => {
+        if (!result) return;
+        setOptions(result);
+        const known = [...result.roles, ...result.users.map(user => user.email)];
+        setIdentity(known.includes(result.current) ? result.current : '');
+      })
+      .catch(loadError => console.error('Failed to load dev identities:', loadError));
+  }, []);
+
+  if (!options) return null;
+
+  const handleSwitch = async () => {
+    setIsSwitching(true);
+    setError(null);
+    const result = await authService.switchDevIdentity(identity);
+    setIsSwitching(false);
+    if (!result.success || !result.user) {
+      setError(result.error || 'Could not switch identity.');
+      return;
+    }
+    onSwitched(result.user);
+  };
+
+  return (
+    <Box sx={[{ display: 'flex', flexDirection: 'column', gap: 1.5 }, ...(Array.isArray(sx) ? sx : [sx])]}>
+      <FormControl size="small" fullWidth>
+        <InputLabel>Act as</InputLabel>
+        <Select value={identity} label="Act as" onChange={(e) => setIdentity(e.target.value)}>
+          <ListSubheader>Roles</ListSubheader>
+          {options.roles.map(role => (
+            <MenuItem key={role} value={role}>{ROLE_LABELS[role] || role}</MenuItem>
+          ))}
+          {options.users.length > 0 && <ListSubheader>Authorized users</ListSubheader>}
+          {options.users.map(user => (
+            <MenuItem key={user.email} value={user.email}>
+              {user.email} ({user.role})
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      {error && (
+        <Typography variant="caption" color="error">
+          {error}
+        </Typography>
+      )}
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={handleSwitch}
+        disabled={!identity || isSwitching}
+        sx={{ textTransform: 'none', color: '#6b7280', borderColor: '#d1d5db' }}
+      >
+        {isSwitching ? 'Switching...' : buttonLabel}
+      </Button>
+    </Box>
+  );
+};
+
+export default DevIdentitySwitcher;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Box,
   Card,
@@ -22,6 +22,7 @@ import {
   Tooltip,
   Paper,
   Avatar,
+  Checkbox,
 } from '@mui/material';
 import {
   Download,
@@ -35,12 +36,24 @@ import {
   PictureAsPdf,
   Description,
   Archive,
+  History,
+  DeleteSweep,
+  Visibility,
+  DriveFileMove,
+  Share,
 } from '@mui/icons-material';
 import toast from 'react-hot-toast';
-import { S3File } from '../types';
-import { useDeleteFile, usePresignedUrl, useRefreshData } from '../hooks/useS3';
+import { S3File, BulkDeleteSelection } from '../types';
+import { useDeleteFile, usePresignedUrl, useRefreshData, useRestoreTrashItem, useProjectLayouts } from '../hooks/useS3';
 import { apiService } from '../services/apiService';
 import BulkDownload from './BulkDownload';
+import FileVersionHistory from './FileVersionHistory';
+import BulkDeleteDialog from './BulkDeleteDialog';
+import FilePreviewDrawer from './FilePreviewDrawer';
+import TransferDialog, { TransferMode } from './TransferDialog';
+import ShareLinkDialog from './ShareLinkDialog';
+import { previewService } from '../services/previewService';
+import { layoutService } from '../services/layoutService';
 
 export type ActionMode = 'download-only' | 'delete-only' | 'both' | 'none';
 
@@ -48,26 +61,51 @@ interface FileListProps {
   files: S3File[];
   isLoading?: boolean;
   error?: string | null;
+  // Infinite scrolling: more pages are loaded as the end of the list comes into view
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // The files are sorted newest first across the pages loaded so far (see useFiles)
+  sortedByDate?: boolean;
   prefix: string;
   actionMode?: ActionMode;
   title?: string;
+  // Shown under the title instead of the prefix (e.g. for search results)
+  subtitle?: string;
+  onRefresh?: () => void;
 }
 
 const FileList: React.FC<FileListProps> = ({ 
   files, 
   isLoading, 
   error, 
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  sortedByDate = false,
   prefix,
   actionMode = 'both',
-  title = 'Files'
+  title = 'Files',
+  subtitle,
+  onRefresh,
 }) => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<S3File | null>(null);
   const [downloadingFiles, setDownloadingFiles] = useState<Set<string>>(new Set());
+  const [historyFile, setHistoryFile] = useState<S3File | null>(null);
+  const [previewFile, setPreviewFile] = useState<S3File | null>(null);
+  const [shareFile, setShareFile] = useState<S3File | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [bulkDelete, setBulkDelete] = useState<{ selection: BulkDeleteSelection; label: string } | null>(null);
+  const [transfer, setTransfer] = useState<{ selection: BulkDeleteSelection; label: string; mode: TransferMode } | null>(null);
+
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   const deleteMutation = useDeleteFile();
+  const restoreMutation = useRestoreTrashItem();
   const presignedUrlMutation = usePresignedUrl();
   const { refreshFiles } = useRefreshData();
+  const { data: layouts } = useProjectLayouts();
 
   const handleDeleteClick = (file: S3File) => {
     setFileToDelete(file);
@@ -78,9 +116,36 @@ const FileList: React.FC<FileListProps> = ({
     if (!fileToDelete) return;
 
     try {
-      await deleteMutation.mutateAsync(fileToDelete.key);
+      const trashItem = await deleteMutation.mutateAsync(fileToDelete.key);
       setDeleteDialogOpen(false);
       setFileToDelete(null);
+
+      const fileName = fileToDelete.key.split('/').pop();
+      if (!trashItem) {
+        toast.success(`File "${fileName}" deleted successfully!`);
+        return;
+      }
+
+      toast((t) => (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Typography variant="body2">"{fileName}" moved to the Recycle Bin</Typography>
+          <Button
+            size="small"
+            onClick={() => {
+              toast.dismiss(t.id);
+              restoreMutation.mutate({ id: trashItem.id, key: trashItem.key }, {
+                onError: (error: Error & { code?: string }) => {
+                  if (error.code === 'OBJECT_EXISTS') {
+                    toast.error(`A new "${fileName}" was uploaded meanwhile. Restore it from the Recycle Bin instead.`);
+                  }
+                },
+              });
+            }}
+          >
+            Undo
+          </Button>
+        </Box>
+      ), { icon: '🗑️', duration: 8000 });
     } catch (error) {
       // Error is handled by the mutation
     }
@@ -88,23 +153,10 @@ const FileList: React.FC<FileListProps> = ({
 
   // Helper method to extract folder structure from S3 key
   const extractFolderStructure = (key: string): { folderPath: string; fileName: string } => {
-    const parts = key.split('/');
-    const fileName = parts.pop() || 'download';
+    const fileName = key.split('/').pop() || 'download';
     
-    // Extract meaningful folder structure (skip project name, keep date and subfolder structure)
-    let folderPath = '';
-    
-    if (parts.length >= 3) {
-      // For paths like: project/inputData/2025-05-09/annotation_inputs/input_files/
-      // or: project/outputData/2025-05-09/annotation_outputs/output_files/
-      const dateIndex = parts.findIndex(part => /^\d{4}-\d{2}-\d{2}$/.test(part));
-      
-      if (dateIndex !== -1) {
-        // Include date and any subfolders after it
-        const relevantParts = parts.slice(dateIndex);
-        folderPath = relevantParts.join('/');
-      }
-    }
+    // Keep the folders below the project layout's leading folders (e.g. date and subfolders)
+    const folderPath = layoutService.getRelativeFolder(key, layouts);
     
     return { folderPath, fileName };
   };
@@ -118,7 +170,7 @@ const FileList: React.FC<FileListProps> = ({
     const loadingToast = toast.loading(`Preparing download: ${fileName}`);
 
     try {
-      const url = await presignedUrlMutation.mutateAsync(file.key);
+      const url = await presignedUrlMutation.mutateAsync({ key: file.key, versionId: file.versionId });
       
       // Format file size for logging
       const fileSizeFormatted = apiService.formatFileSize(file.size);
@@ -148,7 +200,7 @@ const FileList: React.FC<FileListProps> = ({
             fileSizeFormatted,
             file.key,
             'success',
-            `File download started: ${file.key}`
+            `File download started: ${file.key}${file.versionId ? ` (version ${file.versionId})` : ''}`
           );
         } catch (logError) {
           console.warn('Failed to log download activity:', logError);
@@ -243,8 +295,37 @@ const FileList: React.FC<FileListProps> = ({
     }
   };
 
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || isLoadingMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore]);
+
+  const toggleSelected = (key: string) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
   const handleRefresh = () => {
-    refreshFiles(prefix);
+    if (onRefresh) {
+      onRefresh();
+    } else {
+      refreshFiles(prefix);
+    }
   };
 
   const getFileIcon = (fileName: string) => {
@@ -352,6 +433,10 @@ const FileList: React.FC<FileListProps> = ({
   const showDeleteAction = actionMode === 'delete-only' || actionMode === 'both';
   const showActions = actionMode !== 'none';
 
+  // Files removed by another action drop out of the selection
+  const selectedFiles = files.filter(file => selectedKeys.has(file.key));
+  const allSelected = files.length > 0 && selectedFiles.length === files.length;
+
   if (error) {
     return (
       <Alert severity="error" sx={{ mb: 2 }}>
@@ -379,10 +464,10 @@ const FileList: React.FC<FileListProps> = ({
               </Avatar>
               <Box>
                 <Typography variant="h6" sx={{ fontWeight: 600 }}>
-                  {title} ({files.length})
+                  {title} ({files.length}{hasMore ? '+' : ''})
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
-                  {prefix || 'Root directory'}
+                  {subtitle || prefix || 'Root directory'}
                 </Typography>
               </Box>
             </Box>
@@ -391,9 +476,61 @@ const FileList: React.FC<FileListProps> = ({
                 <BulkDownload 
                   files={files} 
                   folderName={prefix.split('/').filter(Boolean).pop() || 'Root'}
+                  prefix={prefix || undefined}
                   disabled={isLoading}
                 />
               )}
+              {showDeleteAction && selectedFiles.length > 0 && (
+                <Button
+                  variant="outlined"
+                  startIcon={<DriveFileMove />}
+                  onClick={() => setTransfer({
+                    selection: { keys: selectedFiles.map(file => file.key) },
+                    label: `${selectedFiles.length} selected file${selectedFiles.length === 1 ? '' : 's'}`,
+                    mode: 'move',
+                  })}
+                  sx={{ borderRadius: 2, textTransform: 'none', fontWeight: 500 }}
+                >
+                  Copy / Move Selected ({selectedFiles.length})
+                </Button>
+              )}
+              {showDeleteAction && selectedFiles.length > 0 && (
+                <Button
+                  variant="contained"
+                  color="error"
+                  startIcon={<Delete />}
+                  onClick={() => setBulkDelete({
+                    selection: { keys: selectedFiles.map(file => file.key) },
+                    label: `${selectedFiles.length} selected file${selectedFiles.length === 1 ? '' : 's'}`,
+                  })}
+                  sx={{ borderRadius: 2, textTransform: 'none', fontWeight: 500 }}
+                >
+                  Delete Selected ({selectedFiles.length})
+                </Button>
+              )}
+              {showDeleteAction && prefix && files.length > 0 && (
+                <Button
+                  variant="outlined"
+                  startIcon={<DriveFileMove />}
+                  onClick={() => setTransfer({ selection: { prefix }, label: `folder ${prefix}`, mode: 'move' })}
+                  disabled={isLoading}
+                  sx={{ borderRadius: 2, textTransform: 'none', fontWeight: 500 }}
+                >
+                  Copy / Move Folder
+                </Button>
+              )}
+              {showDeleteAction && prefix && files.length > 0 && (
+                <Button
+                  variant="outlined"
+                  color="error"
+                  startIcon={<DeleteSweep />}
+                  onClick={() => setBulkDelete({ selection: { prefix }, label: `everything in ${prefix}` })}
+                  disabled={isLoading}
+                  sx={{ borderRadius: 2, textTransform: 'none', fontWeight: 500 }}
+                >
+                  Delete Folder
+                </Button>
+              )}
               <Button
                 variant="outlined"
                 startIcon={<Refresh />}
@@ -443,6 +580,15 @@ const FileList: React.FC<FileListProps> = ({
               <Table>
                 <TableHead>
                   <TableRow sx={{ bgcolor: 'grey.50' }}>
+                    {showDeleteAction && (
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          checked={allSelected}
+                          indeterminate={selectedFiles.length > 0 && !allSelected}
+                          onChange={() => setSelectedKeys(allSelected ? new Set() : new Set(files.map(file => file.key)))}
+                        />
+                      </TableCell>
+                    )}
                     <TableCell sx={{ fontWeight: 600 }}>File</TableCell>
                     <TableCell sx={{ fontWeight: 600 }}>Type</TableCell>
                     <TableCell sx={{ fontWeight: 600 }}>Size</TableCell>
@@ -465,6 +611,11 @@ const FileList: React.FC<FileListProps> = ({
                           borderColor: 'divider'
                         }}
                       >
+                        {showDeleteAction && (
+                          <TableCell padding="checkbox">
+                            <Checkbox checked={selectedKeys.has(file.key)} onChange={() => toggleSelected(file.key)} />
+                          </TableCell>
+                        )}
                         <TableCell>
                           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
                             {getFileIcon(fileName)}
@@ -500,6 +651,20 @@ const FileList: React.FC<FileListProps> = ({
                         {showActions && (
                           <TableCell align="right">
                             <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                              {previewService.getPreviewKind(fileName) && (
+                                <Tooltip title="Preview file">
+                                  <IconButton
+                                    size="small"
+                                    onClick={() => setPreviewFile(file)}
+                                    sx={{ 
+                                      bgcolor: 'grey.50',
+                                      '&:hover': { bgcolor: 'grey.100' }
+                                    }}
+                                  >
+                                    <Visibility />
+                                  </IconButton>
+                                </Tooltip>
+                              )}
                               {showDownloadAction && (
                                 <Tooltip title="Download file">
                                   <IconButton
@@ -520,6 +685,48 @@ const FileList: React.FC<FileListProps> = ({
                                   </IconButton>
                                 </Tooltip>
                               )}
+                              {showDownloadAction && (
+                                <Tooltip title="Version history">
+                                  <IconButton
+                                    size="small"
+                                    onClick={() => setHistoryFile(file)}
+                                    sx={{ 
+                                      bgcolor: 'grey.50',
+                                      '&:hover': { bgcolor: 'grey.100' }
+                                    }}
+                                  >
+                                    <History />
+                                  </IconButton>
+                                </Tooltip>
+                              )}
+                              {showDownloadAction && (
+                                <Tooltip title="Share link">
+                                  <IconButton
+                                    size="small"
+                                    onClick={() => setShareFile(file)}
+                                    sx={{ 
+                                      bgcolor: 'grey.50',
+                                      '&:hover': { bgcolor: 'grey.100' }
+                                    }}
+                                  >
+                                    <Share />
+                                  </IconButton>
+                                </Tooltip>
+                              )}
+                              {showDeleteAction && (
+                                <Tooltip title="Copy, move or rename">
+                                  <IconButton
+                                    size="small"
+                                    onClick={() => setTransfer({ selection: { keys: [file.key] }, label: fileName, mode: 'rename' })}
+                                    sx={{ 
+                                      bgcolor: 'grey.50',
+                                      '&:hover': { bgcolor: 'grey.100' }
+                                    }}
+                                  >
+                                    <DriveFileMove />
+                                  </IconButton>
+                                </Tooltip>
+                              )}
                               {showDeleteAction && (
                                 <Tooltip title="Delete file">
                                   <IconButton
@@ -546,9 +753,64 @@ const FileList: React.FC<FileListProps> = ({
               </Table>
             </TableContainer>
           )}
+
+          {hasMore && !isLoading && (
+            <Box ref={loadMoreRef} sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1, pt: 2 }}>
+              {isLoadingMore ? (
+                <CircularProgress size={24} />
+              ) : (
+                <Button onClick={() => onLoadMore?.()} sx={{ textTransform: 'none' }}>
+                  Load more files
+                </Button>
+              )}
+              {sortedByDate && (
+                <Typography variant="caption" color="text.secondary">
+                  Sorted newest first among the {files.length} files loaded so far; files not loaded yet may be newer
+                </Typography>
+              )}
+            </Box>
+          )}
         </CardContent>
       </Card>
 
+      <FileVersionHistory
+        file={historyFile}
+        onClose={() => setHistoryFile(null)}
+        onDownload={handleDownload}
+      />
+
+      {shareFile && (
+        <ShareLinkDialog
+          file={shareFile}
+          onClose={() => setShareFile(null)}
+        />
+      )}
+
+      <FilePreviewDrawer
+        file={previewFile}
+        onClose={() => setPreviewFile(null)}
+        onDownload={handleDownload}
+      />
+
+      {bulkDelete && (
+        <BulkDeleteDialog
+          selection={bulkDelete.selection}
+          label={bulkDelete.label}
+          onClose={() => setBulkDelete(null)}
+          onDeleted={() => setSelectedKeys(new Set())}
+        />
+      )}
+
+      {transfer && (
+        <TransferDialog
+          selection={transfer.selection}
+          label={transfer.label}
+          initialMode={transfer.mode}
+          onClose={() => setTransfer(null)}
+          onDone={() => setSelectedKeys(new Set())}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog 
         open={deleteDialogOpen} 
@@ -570,7 +832,7 @@ const FileList: React.FC<FileListProps> = ({
             Are you sure you want to delete <strong>"{fileToDelete?.key.split('/').pop()}"</strong>?
           </Typography>
           <Alert severity="warning" sx={{ mt: 2 }}>
-            This action cannot be undone. The file will be permanently removed from S3.
+            The file will be moved to the Recycle Bin, where it can be restored until the retention period ends.
           </Alert>
         </DialogContent>
         <DialogActions sx={{ p: 3, pt: 1 }}>
@@ -0,0 +1,139 @@
+import React, { useMemo } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  Tooltip,
+  Alert,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import { Close, Download, Visibility } from '@mui/icons-material';
+import { S3File, FilePreview } from '../types';
+import { useFilePreview } from '../hooks/useS3';
+import { apiService } from '../services/apiService';
+import { previewService } from '../services/previewService';
+import JsonTreeView from './JsonTreeView';
+import DelimitedTableView from './DelimitedTableView';
+
+interface FilePreviewDrawerProps {
+  file: S3File | null;
+  onClose: () => void;
+  onDownload: (file: S3File) => void;
+}
+
+const TextPreview: React.FC<{ text: string }> = ({ text }) => {
+  const lines = text.split(/\r?\n/);
+  return (
+    <Box sx={{ display: 'flex', fontFamily: 'monospace', fontSize: 13, overflowX: 'auto', bgcolor: 'grey.50', borderRadius: 1 }}>
+      <Box
+        component="pre"
+        sx={{ m: 0, px: 1.5, py: 1, textAlign: 'right', color: 'text.secondary', userSelect: 'none', borderRight: '1px solid', borderColor: 'divider' }}
+      >
+        {lines.map((_, index) => index + 1).join('\n')}
+      </Box>
+      <Box component="pre" sx={{ m: 0, px: 1.5, py: 1, whiteSpace: 'pre' }}>
+        {text}
+      </Box>
+    </Box>
+  );
+};
+
+const PreviewContent: React.FC<{ preview: FilePreview; fileName: string }> = ({ preview, fileName }) => {
+  // JSON is only parsed when the whole file was loaded; a partial document is shown as text
+  const parsedJson = useMemo(() => {
+    if (preview.kind !== 'json' || preview.truncated || preview.text === undefined) return undefined;
+    try {
+      return { value: JSON.parse(preview.text) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [preview]);
+
+  const rows = useMemo(() => {
+    if ((preview.kind !== 'csv' && preview.kind !== 'tsv') || preview.text === undefined) return [];
+    return previewService.parseDelimited(preview.text, preview.kind === 'tsv' ? '\t' : ',', preview.truncated);
+  }, [preview]);
+
+  if (preview.kind === 'image') {
+    return preview.tooLarge ? (
+      <Alert severity="info">
+        This image is larger than the {apiService.formatFileSize(preview.maxBytes)} preview limit. Download it to view.
+      </Alert>
+    ) : (
+      <Box sx={{ textAlign: 'center' }}>
+        <Box component="img" src={preview.url} alt={fileName} sx={{ maxWidth: '100%', borderRadius: 1 }} />
+      </Box>
+    );
+  }
+
+  if (preview.kind === 'json' && parsedJson) {
+    if ('value' in parsedJson) {
+      return <JsonTreeView data={parsedJson.value} />;
+    }
+    return (
+      <>
+        <Alert severity="warning" sx={{ mb: 2 }}>Invalid JSON: {parsedJson.error}</Alert>
+        <TextPreview text={preview.text || ''} />
+      </>
+    );
+  }
+
+  if (preview.kind === 'csv' || preview.kind === 'tsv') {
+    return <DelimitedTableView rows={rows} />;
+  }
+
+  return <TextPreview text={preview.text || ''} />;
+};
+
+const FilePreviewDrawer: React.FC<FilePreviewDrawerProps> = ({ file, onClose, onDownload }) => {
+  const { data: preview, isLoading, error } = useFilePreview(file);
+  const fileName = file?.key.split('/').pop() || '';
+
+  return (
+    <Drawer anchor="right" open={!!file} onClose={onClose} PaperProps={{ sx: { width: { xs: '100%', md: 760 } } }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, p: 2 }}>
+        <Visibility color="primary" />
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography variant="h6" noWrap>{fileName}</Typography>
+          <Typography variant="body2" color="text.secondary" noWrap>
+            {file && apiService.formatFileSize(file.size)} · {file?.key}
+          </Typography>
+        </Box>
+        {file && (
+          <Tooltip title="Download file">
+            <IconButton color="primary" onClick={() => onDownload(file)}>
+              <Download />
+            </IconButton>
+          </Tooltip>
+        )}
+        <IconButton onClick={onClose}>
+          <Close />
+        </IconButton>
+      </Box>
+      <Divider />
+      <Box sx={{ p: 2, overflow: 'auto', flex: 1 }}>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{(error as Error).message}</Alert>
+        ) : preview && file && (
+          <>
+            {preview.truncated && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Showing the first {apiService.formatFileSize(preview.maxBytes)} of {apiService.formatFileSize(file.size)}.
+                Download the file to see all of it.
+              </Alert>
+            )}
+            <PreviewContent preview={preview} fileName={fileName} />
+          </>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default FilePreviewDrawer;
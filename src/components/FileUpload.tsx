@@ -1,5 +1,5 @@
-import React, { useState, useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { useDropzone, FileWithPath } from 'react-dropzone';
 import {
   Box,
   Card,
@@ -14,6 +14,11 @@ import {
   IconButton,
   Alert,
   Chip,
+  Tooltip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material';
 import {
   CloudUpload,
@@ -21,96 +26,200 @@ import {
   Delete,
   CheckCircle,
   Error as ErrorIcon,
+  Replay,
+  DriveFolderUpload,
+  Pause,
+  PlayArrow,
+  Close,
+  HourglassEmpty,
 } from '@mui/icons-material';
-import { useUploadFile } from '../hooks/useS3';
+import toast from 'react-hot-toast';
+import { useUploadQueue } from '../hooks/useUploadQueue';
 import { s3Service } from '../services/s3Service';
+import { apiService } from '../services/apiService';
+import { authService } from '../services/authService';
+import { uploadStore, PersistedUpload } from '../services/uploadStore';
+import { uploadQueue, UploadQueueItem, UploadQueueStatus, NewUploadQueueItem } from '../services/uploadQueue';
+import { UploadProgress, S3File } from '../types';
+import UploadTreePreview from './UploadTreePreview';
+import UploadConflictDialog, { UploadConflict, UploadConflictAction } from './UploadConflictDialog';
 
 interface FileUploadProps {
   targetPath: string;
+  existingFiles?: S3File[];
   onUploadComplete?: (fileName: string) => void;
 }
 
-interface FileWithProgress {
-  file: File;
-  progress: number;
-  status: 'pending' | 'uploading' | 'completed' | 'error';
-  error?: string;
-}
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+// Above this many parts the per-part bars become unreadable, so only counts are shown
+const MAX_VISIBLE_PARTS = 40;
+
+// Operating system metadata files that should never be uploaded with a folder
+const IGNORED_FILE_NAMES = ['.DS_Store', 'Thumbs.db', 'desktop.ini'];
+
+// Path of a file relative to the drop/selection root, e.g. "annotation_outputs/output_files/a.json"
+const getRelativePath = (file: FileWithPath): string => {
+  const rawPath = file.relativePath || file.webkitRelativePath || file.name;
+  return rawPath.replace(/^(\.\/|\/)+/, '');
+};
+
+const isSafeRelativePath = (relativePath: string) => {
+  return relativePath.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+};
+
+// "a/report.csv" -> "a/report (1).csv", skipping keys that are already taken
+const buildKeepBothKey = (key: string, takenKeys: Set<string>): string => {
+  const folder = key.slice(0, key.lastIndexOf('/') + 1);
+  const name = key.slice(folder.length);
+  const dotIndex = name.lastIndexOf('.');
+  const baseName = dotIndex > 0 ? name.slice(0, dotIndex) : name;
+  const extension = dotIndex > 0 ? name.slice(dotIndex) : '';
 
-const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete }) => {
-  const [files, setFiles] = useState<FileWithProgress[]>([]);
-  const uploadMutation = useUploadFile();
+  for (let n = 1; ; n++) {
+    const candidate = `${folder}${baseName} (${n})${extension}`;
+    if (!takenKeys.has(candidate)) return candidate;
+  }
+};
+
+const FileUpload: React.FC<FileUploadProps> = ({ targetPath, existingFiles = [], onUploadComplete }) => {
+  const queue = useUploadQueue();
+  const [conflicts, setConflicts] = useState<UploadConflict[]>([]);
+  const [interruptedUploads, setInterruptedUploads] = useState<PersistedUpload[]>([]);
+  const [resumeTarget, setResumeTarget] = useState<PersistedUpload | null>(null);
+  const resumeInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const basePath = `${targetPath}${targetPath.endsWith('/') ? '' : '/'}`;
+  const buildKey = useCallback((relativePath: string) => {
+    return `${targetPath}${targetPath.endsWith('/') ? '' : '/'}${relativePath}`;
+  }, [targetPath]);
+
+  // The queue is shared by the whole app; this view shows the items for its destination
+  const files = queue.items.filter(item => item.key.startsWith(basePath));
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const newFiles = acceptedFiles.map(file => ({
-      file,
-      progress: 0,
-      status: 'pending' as const,
-    }));
-    setFiles(prev => [...prev, ...newFiles]);
-  }, []);
+  const refreshInterruptedUploads = useCallback(async () => {
+    setInterruptedUploads(await uploadStore.list(targetPath));
+  }, [targetPath]);
+
+  // Offer to resume uploads that were interrupted by a reload or network drop
+  useEffect(() => {
+    refreshInterruptedUploads();
+  }, [refreshInterruptedUploads]);
+
+  // Uploads keep running while this component is unmounted, so react to queue events
+  useEffect(() => {
+    return uploadQueue.onEvent(({ type, item }) => {
+      if (!item.key.startsWith(basePath)) return;
+      refreshInterruptedUploads();
+      if (type === 'completed') {
+        onUploadComplete?.(item.relativePath);
+      }
+    });
+  }, [basePath, onUploadComplete, refreshInterruptedUploads]);
+
+  const addFiles = useCallback((selectedFiles: FileWithPath[]) => {
+    const newFiles: NewUploadQueueItem[] = [];
+    const newConflicts: UploadConflict[] = [];
+    const existingByKey = new Map(existingFiles.map(file => [file.key, file]));
+    let skipped = 0;
+
+    for (const file of selectedFiles) {
+      const relativePath = getRelativePath(file);
+      if (IGNORED_FILE_NAMES.includes(file.name)) continue;
+      if (!isSafeRelativePath(relativePath)) {
+        skipped++;
+        continue;
+      }
+      const key = buildKey(relativePath);
+      const existing = existingByKey.get(key);
+      if (existing) {
+        newConflicts.push({ file, relativePath, key, existing });
+      } else {
+        newFiles.push({ file, relativePath, key });
+      }
+    }
+
+    if (skipped > 0) {
+      toast.error(`Skipped ${skipped} file(s) with invalid paths`);
+    }
+    uploadQueue.add(newFiles);
+    if (newConflicts.length > 0) {
+      setConflicts(prev => [...prev.filter(c => !newConflicts.some(n => n.key === c.key)), ...newConflicts]);
+    }
+  }, [buildKey, existingFiles]);
+
+  const handleConflictsResolved = (actions: Record<string, UploadConflictAction>) => {
+    const takenKeys = new Set([...existingFiles.map(file => file.key), ...queue.items.map(item => item.key)]);
+    const resolved: NewUploadQueueItem[] = [];
+
+    for (const conflict of conflicts) {
+      const action = actions[conflict.key] ?? 'skip';
+      if (action === 'overwrite') {
+        resolved.push({ file: conflict.file, relativePath: conflict.relativePath, key: conflict.key, overwrite: true });
+      } else if (action === 'keepBoth') {
+        const key = buildKeepBothKey(conflict.key, takenKeys);
+        takenKeys.add(key);
+        resolved.push({ file: conflict.file, relativePath: key.slice(basePath.length), key });
+      }
+    }
+
+    uploadQueue.add(resolved);
+    setConflicts([]);
+  };
+
+  const onDrop = useCallback((acceptedFiles: FileWithPath[]) => {
+    addFiles(acceptedFiles);
+  }, [addFiles]);
+
+  const handleFolderSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = Array.from(event.target.files || []);
+    event.target.value = '';
+    addFiles(selectedFiles);
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     multiple: true,
   });
 
-  const removeFile = (index: number) => {
-    setFiles(prev => prev.filter((_, i) => i !== index));
+  const handleResumeClick = (upload: PersistedUpload) => {
+    setResumeTarget(upload);
+    resumeInputRef.current?.click();
   };
 
-  const uploadFile = async (index: number) => {
-    const fileItem = files[index];
-    if (!fileItem || fileItem.status === 'uploading') return;
-
-    const key = `${targetPath}${targetPath.endsWith('/') ? '' : '/'}${fileItem.file.name}`;
-
-    setFiles(prev => prev.map((item, i) => 
-      i === index ? { ...item, status: 'uploading', progress: 0 } : item
-    ));
-
-    try {
-      await uploadMutation.mutateAsync({
-        file: fileItem.file,
-        key,
-        onProgress: (progress) => {
-          setFiles(prev => prev.map((item, i) => 
-            i === index ? { ...item, progress } : item
-          ));
-        },
-      });
-
-      setFiles(prev => prev.map((item, i) => 
-        i === index ? { ...item, status: 'completed', progress: 100 } : item
-      ));
-
-      onUploadComplete?.(fileItem.file.name);
-    } catch (error) {
-      setFiles(prev => prev.map((item, i) => 
-        i === index ? { 
-          ...item, 
-          status: 'error', 
-          error: error instanceof Error ? error.message : 'Upload failed'
-        } : item
-      ));
+  // The browser cannot keep file handles across reloads, so the user re-selects the file
+  const handleResumeFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !resumeTarget) return;
+
+    if (!uploadStore.matchesFile(resumeTarget, file) || !resumeTarget.key.startsWith(basePath)) {
+      toast.error(`"${file.name}" does not match the interrupted upload "${resumeTarget.fileName}"`);
+      return;
     }
+
+    // Resume under the original key so files from folder uploads keep their subfolder
+    const relativePath = resumeTarget.key.slice(basePath.length);
+    uploadQueue.add([{ file, relativePath, key: resumeTarget.key }], true);
+    setResumeTarget(null);
   };
 
-  const uploadAllFiles = async () => {
-    const pendingFiles = files
-      .map((file, index) => ({ file, index }))
-      .filter(({ file }) => file.status === 'pending');
+  const handleDiscardInterrupted = async (upload: PersistedUpload) => {
+    await apiService.discardInterruptedUpload(upload.key);
+    toast.success(`Discarded interrupted upload "${upload.fileName}"`);
+    refreshInterruptedUploads();
+  };
 
-    for (const { index } of pendingFiles) {
-      await uploadFile(index);
-    }
+  const uploadAllFiles = () => {
+    queue.start(files.filter(file => file.status === 'pending').map(file => file.id));
   };
 
   const clearCompleted = () => {
-    setFiles(prev => prev.filter(file => file.status !== 'completed'));
+    queue.clearFinished(basePath);
   };
 
-  const getStatusIcon = (status: FileWithProgress['status']) => {
+  const getStatusIcon = (status: UploadQueueStatus) => {
     switch (status) {
       case 'completed':
         return <CheckCircle color="success" />;
@@ -118,12 +227,17 @@ const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete })
         return <ErrorIcon color="error" />;
       case 'uploading':
         return <CloudUpload color="primary" />;
+      case 'queued':
+      case 'retrying':
+        return <HourglassEmpty color="action" />;
+      case 'paused':
+        return <Pause color="warning" />;
       default:
         return <InsertDriveFile />;
     }
   };
 
-  const getStatusColor = (status: FileWithProgress['status']) => {
+  const getStatusColor = (status: UploadQueueStatus) => {
     switch (status) {
       case 'completed':
         return 'success';
@@ -131,17 +245,70 @@ const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete })
         return 'error';
       case 'uploading':
         return 'primary';
+      case 'retrying':
+      case 'paused':
+        return 'warning';
       default:
         return 'default';
     }
   };
 
+  const getStatusLabel = (fileItem: UploadQueueItem) => {
+    if (fileItem.status === 'retrying') {
+      return `retrying (attempt ${fileItem.attempts + 1} of ${queue.settings.maxRetries + 1})`;
+    }
+    return fileItem.status;
+  };
+
+  const renderPartProgress = (uploadProgress: UploadProgress) => {
+    const { parts, loadedBytes, totalBytes } = uploadProgress;
+    const completedParts = parts.filter(part => part.status === 'completed').length;
+
+    return (
+      <Box sx={{ mt: 1 }}>
+        <Typography variant="caption" color="text.secondary">
+          {s3Service.formatFileSize(loadedBytes)} of {s3Service.formatFileSize(totalBytes)}
+          {parts.length > 1 && ` · ${completedParts} of ${parts.length} parts`}
+        </Typography>
+        {parts.length > 1 && parts.length <= MAX_VISIBLE_PARTS && (
+          <Box sx={{ display: 'flex', gap: 0.5, mt: 0.5 }}>
+            {parts.map(part => (
+              <LinearProgress
+                key={part.partNumber}
+                variant="determinate"
+                value={part.total > 0 ? (part.loaded / part.total) * 100 : 0}
+                color={part.status === 'error' ? 'error' : part.status === 'completed' ? 'success' : 'primary'}
+                sx={{ flex: 1, height: 4, borderRadius: 2 }}
+              />
+            ))}
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
+  const activeKeys = new Set(
+    files.filter(f => f.status === 'uploading').map(f => buildKey(f.relativePath))
+  );
+  const resumableUploads = interruptedUploads.filter(upload => !activeKeys.has(upload.key));
+  const isResumable = (fileItem: UploadQueueItem) => interruptedUploads.some(
+    upload => upload.key === buildKey(fileItem.relativePath) && uploadStore.matchesFile(upload, fileItem.file)
+  );
+
   const pendingCount = files.filter(f => f.status === 'pending').length;
-  const uploadingCount = files.filter(f => f.status === 'uploading').length;
-  const completedCount = files.filter(f => f.status === 'completed').length;
+  const finishedCount = files.filter(f => f.status === 'completed' || f.status === 'cancelled').length;
 
   return (
     <Box>
+      {conflicts.length > 0 && (
+        <UploadConflictDialog
+          conflicts={conflicts}
+          onResolve={handleConflictsResolved}
+          onCancel={() => setConflicts([])}
+          canOverwrite={authService.hasProjectPermission(basePath.split('/')[0], 'delete')}
+        />
+      )}
+
       {/* Upload Target Info */}
       <Alert severity="info" sx={{ mb: 2 }}>
         <Typography variant="body2">
@@ -149,6 +316,39 @@ const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete })
         </Typography>
       </Alert>
 
+      {/* Interrupted Uploads */}
+      {resumableUploads.length > 0 && (
+        <Alert severity="warning" icon={<Replay />} sx={{ mb: 2 }}>
+          <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+            Interrupted uploads ({resumableUploads.length})
+          </Typography>
+          <input
+            ref={resumeInputRef}
+            type="file"
+            hidden
+            onChange={handleResumeFileSelected}
+          />
+          {resumableUploads.map(upload => (
+            <Box
+              key={upload.key}
+              sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 0.5 }}
+            >
+              <Typography variant="body2">
+                {upload.fileName} · {s3Service.formatFileSize(upload.fileSize)} · {upload.completedParts.length} of {upload.partCount} parts uploaded
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button size="small" variant="outlined" onClick={() => handleResumeClick(upload)}>
+                  Resume
+                </Button>
+                <Button size="small" color="error" onClick={() => handleDiscardInterrupted(upload)}>
+                  Discard
+                </Button>
+              </Box>
+            </Box>
+          ))}
+        </Alert>
+      )}
+
       {/* Dropzone */}
       <Card
         {...getRootProps()}
@@ -170,16 +370,36 @@ const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete })
         <Box sx={{ textAlign: 'center' }}>
           <CloudUpload sx={{ fontSize: 48, color: 'primary.main', mb: 2 }} />
           <Typography variant="h6" gutterBottom>
-            {isDragActive ? 'Drop files here' : 'Drag & drop files here'}
+            {isDragActive ? 'Drop files or folders here' : 'Drag & drop files or folders here'}
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-            or click to select files
+            or click to select files. Folder structure is preserved under the destination.
           </Typography>
-          <Button variant="outlined" component="span">
-            Select Files
-          </Button>
+          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+            <Button variant="outlined" component="span">
+              Select Files
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<DriveFolderUpload />}
+              onClick={(event) => {
+                event.stopPropagation();
+                folderInputRef.current?.click();
+              }}
+            >
+              Select Folder
+            </Button>
+          </Box>
         </Box>
       </Card>
+      <input
+        ref={folderInputRef}
+        type="file"
+        hidden
+        multiple
+        onChange={handleFolderSelected}
+        {...{ webkitdirectory: '', directory: '' }}
+      />
 
       {/* File List */}
       {files.length > 0 && (
@@ -189,18 +409,31 @@ const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete })
               <Typography variant="h6">
                 Files ({files.length})
               </Typography>
-              <Box sx={{ display: 'flex', gap: 1 }}>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                <Tooltip title="Number of files uploaded at the same time">
+                  <FormControl size="small" sx={{ minWidth: 130 }}>
+                    <InputLabel>Parallel uploads</InputLabel>
+                    <Select
+                      value={queue.settings.concurrency}
+                      label="Parallel uploads"
+                      onChange={(e) => queue.setSettings({ concurrency: Number(e.target.value) })}
+                    >
+                      {CONCURRENCY_OPTIONS.map(option => (
+                        <MenuItem key={option} value={option}>{option}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Tooltip>
                 {pendingCount > 0 && (
                   <Button
                     variant="contained"
                     onClick={uploadAllFiles}
-                    disabled={uploadingCount > 0}
                     startIcon={<CloudUpload />}
                   >
                     Upload All ({pendingCount})
                   </Button>
                 )}
-                {completedCount > 0 && (
+                {finishedCount > 0 && (
                   <Button
                     variant="outlined"
                     onClick={clearCompleted}
@@ -212,10 +445,22 @@ const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete })
               </Box>
             </Box>
 
+            <UploadTreePreview
+              targetPath={basePath}
+              items={files
+                .filter(fileItem => fileItem.status !== 'cancelled')
+                .map(fileItem => ({
+                  relativePath: fileItem.relativePath,
+                  size: fileItem.file.size,
+                  loadedBytes: fileItem.uploadProgress?.loadedBytes || 0,
+                  status: fileItem.status,
+                }))}
+            />
+
             <List>
-              {files.map((fileItem, index) => (
+              {files.map((fileItem) => (
                 <ListItem
-                  key={`${fileItem.file.name}-${index}`}
+                  key={fileItem.id}
                   sx={{
                     border: '1px solid',
                     borderColor: 'divider',
@@ -230,14 +475,17 @@ const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete })
                     primary={
                       <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                         <Typography variant="body1">
-                          {fileItem.file.name}
+                          {fileItem.relativePath}
                         </Typography>
                         <Chip
-                          label={fileItem.status}
+                          label={getStatusLabel(fileItem)}
                           size="small"
                           color={getStatusColor(fileItem.status) as any}
                           variant="outlined"
                         />
+                        {['pending', 'paused', 'error'].includes(fileItem.status) && isResumable(fileItem) && (
+                          <Chip label="resumable" size="small" color="warning" variant="outlined" />
+                        )}
                       </Box>
                     }
                     secondary={
@@ -245,12 +493,15 @@ const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete })
                         <Typography variant="body2" color="text.secondary">
                           {s3Service.formatFileSize(fileItem.file.size)}
                         </Typography>
-                        {fileItem.status === 'uploading' && (
-                          <LinearProgress
-                            variant="determinate"
-                            value={fileItem.progress}
-                            sx={{ mt: 1 }}
-                          />
+                        {['uploading', 'paused', 'retrying'].includes(fileItem.status) && fileItem.progress > 0 && (
+                          <>
+                            <LinearProgress
+                              variant="determinate"
+                              value={fileItem.progress}
+                              sx={{ mt: 1 }}
+                            />
+                            {fileItem.uploadProgress && renderPartProgress(fileItem.uploadProgress)}
+                          </>
                         )}
                         {fileItem.error && (
                           <Typography variant="body2" color="error" sx={{ mt: 1 }}>
@@ -265,16 +516,46 @@ const FileUpload: React.FC<FileUploadProps> = ({ targetPath, onUploadComplete })
                       <Button
                         size="small"
                         variant="contained"
-                        onClick={() => uploadFile(index)}
-                        disabled={uploadingCount > 0}
+                        onClick={() => queue.start([fileItem.id])}
                       >
                         Upload
                       </Button>
                     )}
-                    {fileItem.status !== 'uploading' && (
+                    {['queued', 'uploading', 'retrying'].includes(fileItem.status) && (
+                      <Tooltip title="Pause">
+                        <IconButton size="small" onClick={() => queue.pause(fileItem.id)}>
+                          <Pause />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {fileItem.conflict && (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        color="warning"
+                        onClick={() => queue.overwrite(fileItem.id)}
+                      >
+                        Overwrite
+                      </Button>
+                    )}
+                    {['paused', 'error'].includes(fileItem.status) && !fileItem.conflict && (
+                      <Tooltip title={fileItem.status === 'error' ? 'Retry' : 'Resume'}>
+                        <IconButton size="small" color="primary" onClick={() => queue.resume(fileItem.id)}>
+                          {fileItem.status === 'error' ? <Replay /> : <PlayArrow />}
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {['queued', 'uploading', 'retrying', 'paused'].includes(fileItem.status) && (
+                      <Tooltip title="Cancel">
+                        <IconButton size="small" color="error" onClick={() => queue.cancel(fileItem.id)}>
+                          <Close />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {['pending', 'completed', 'error', 'cancelled'].includes(fileItem.status) && (
                       <IconButton
                         size="small"
-                        onClick={() => removeFile(index)}
+                        onClick={() => queue.remove(fileItem.id)}
                         color="error"
                       >
                         <Delete />
@@ -0,0 +1,151 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Chip,
+  CircularProgress,
+  Alert,
+  Tooltip,
+  Avatar,
+} from '@mui/material';
+import { History, Download, Restore } from '@mui/icons-material';
+import { S3File } from '../types';
+import { useFileVersions, useRestoreFileVersion } from '../hooks/useS3';
+import { apiService } from '../services/apiService';
+import { authService } from '../services/authService';
+
+interface FileVersionHistoryProps {
+  file: S3File | null;
+  onClose: () => void;
+  onDownload: (version: S3File) => void;
+}
+
+const FileVersionHistory: React.FC<FileVersionHistoryProps> = ({ file, onClose, onDownload }) => {
+  const { data: versions = [], isLoading, error } = useFileVersions(file?.key || '', !!file);
+  const restoreMutation = useRestoreFileVersion();
+
+  const fileName = file?.key.split('/').pop() || '';
+  // Buckets without versioning report a single version with the ID "null"
+  const isVersioningDisabled = versions.length === 1 && versions[0].versionId === 'null';
+  // Restoring replaces the current version, which needs delete access unless the file is deleted
+  const canRestore = !!file && (
+    authService.hasProjectPermission(file.key.includes('/') ? file.key.split('/')[0] : '', 'delete') ||
+    !!versions.find(version => version.isLatest)?.isDeleteMarker
+  );
+
+  const handleRestore = (version: S3File) => {
+    if (!file || !version.versionId) return;
+    restoreMutation.mutate({ key: file.key, versionId: version.versionId });
+  };
+
+  return (
+    <Dialog open={!!file} onClose={onClose} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Avatar sx={{ bgcolor: 'primary.main' }}>
+            <History />
+          </Avatar>
+          <Box>
+            <Typography variant="h6">Version History</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+              {fileName}
+            </Typography>
+          </Box>
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{(error as Error).message}</Alert>
+        ) : (
+          <>
+            {isVersioningDisabled && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Versioning is not enabled for this bucket, so only the current version is available.
+              </Alert>
+            )}
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600 }}>Version</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Modified</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Size</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600 }}>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {versions.map(version => (
+                  <TableRow key={version.versionId} hover>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Typography variant="body2" sx={{ fontFamily: 'monospace' }} title={version.versionId}>
+                          {version.versionId?.slice(0, 12)}
+                        </Typography>
+                        {version.isLatest && <Chip label="Current" size="small" color="primary" />}
+                        {version.isDeleteMarker && <Chip label="Deleted" size="small" color="error" variant="outlined" />}
+                      </Box>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">
+                        {version.lastModified.toLocaleString()}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {version.isDeleteMarker ? '—' : apiService.formatFileSize(version.size)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      {!version.isDeleteMarker && (
+                        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                          <Tooltip title="Download this version">
+                            <IconButton size="small" color="primary" onClick={() => onDownload(version)}>
+                              <Download />
+                            </IconButton>
+                          </Tooltip>
+                          {!version.isLatest && canRestore && (
+                            <Tooltip title="Restore as current version">
+                              <IconButton
+                                size="small"
+                                color="success"
+                                onClick={() => handleRestore(version)}
+                                disabled={restoreMutation.isPending}
+                              >
+                                <Restore />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                        </Box>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 1 }}>
+        <Button onClick={onClose} sx={{ textTransform: 'none' }}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FileVersionHistory;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Box, Chip, Tooltip } from '@mui/material';
+import { FolderStats } from '../types';
+import { apiService } from '../services/apiService';
+
+interface FolderStatsChipsProps {
+  stats?: FolderStats;
+}
+
+// Compact summary shown next to project and date options in the folder pickers
+const FolderStatsChips: React.FC<FolderStatsChipsProps> = ({ stats }) => {
+  if (!stats) {
+    return null;
+  }
+
+  const { input, output } = stats;
+
+  return (
+    <Box sx={{ display: 'flex', gap: 0.5, ml: 'auto', pl: 2, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+      <Chip
+        label={`${stats.objectCount.toLocaleString()} files · ${apiService.formatFileSize(stats.totalSize)}`}
+        size="small"
+        variant="outlined"
+      />
+      <Tooltip title={`Input: ${input.objectCount} files, ${apiService.formatFileSize(input.totalSize)}`}>
+        <Chip
+          label={`In ${input.objectCount.toLocaleString()}`}
+          size="small"
+          color={input.objectCount > 0 ? 'primary' : 'default'}
+          variant="outlined"
+        />
+      </Tooltip>
+      <Tooltip title={`Output: ${output.objectCount} files, ${apiService.formatFileSize(output.totalSize)}`}>
+        <Chip
+          label={output.objectCount > 0 ? `Out ${output.objectCount.toLocaleString()}` : 'No outputs'}
+          size="small"
+          color={output.objectCount > 0 ? 'success' : 'default'}
+          variant="outlined"
+        />
+      </Tooltip>
+      {stats.lastModified && (
+        <Tooltip title="Newest file">
+          <Chip label={stats.lastModified.toLocaleDateString()} size="small" variant="outlined" />
+        </Tooltip>
+      )}
+    </Box>
+  );
+};
+
+export default FolderStatsChips;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress,
+} from '@mui/material';
+import { CleaningServices, HourglassEmpty } from '@mui/icons-material';
+import { useMultipartUploads, useCleanupMultipartUploads } from '../hooks/useS3';
+
+interface IncompleteUploadsPanelProps {
+  projectPrefix: string;
+}
+
+const AGE_OPTIONS = [
+  { hours: 1, label: 'Older than 1 hour' },
+  { hours: 24, label: 'Older than 1 day' },
+  { hours: 24 * 7, label: 'Older than 1 week' },
+];
+
+const IncompleteUploadsPanel: React.FC<IncompleteUploadsPanelProps> = ({ projectPrefix }) => {
+  const [olderThanHours, setOlderThanHours] = useState(24);
+  const { data: uploads = [], isLoading } = useMultipartUploads(projectPrefix, !!projectPrefix);
+  const cleanupMutation = useCleanupMultipartUploads();
+
+  const cutoff = Date.now() - olderThanHours * 60 * 60 * 1000;
+  const staleCount = uploads.filter(upload => upload.initiated.getTime() < cutoff).length;
+
+  const handleCleanup = () => {
+    cleanupMutation.mutate({ prefix: projectPrefix, olderThanHours });
+  };
+
+  return (
+    <Box
+      sx={{
+        background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
+        borderRadius: 3,
+        border: '1px solid #e2e8f0',
+        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+        p: 4,
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <HourglassEmpty sx={{ color: '#f59e0b' }} />
+          <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a' }}>
+            Incomplete Multipart Uploads
+          </Typography>
+          {isLoading ? (
+            <CircularProgress size={18} />
+          ) : (
+            <Chip label={uploads.length} size="small" color={uploads.length > 0 ? 'warning' : 'default'} />
+          )}
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Age</InputLabel>
+            <Select
+              value={olderThanHours}
+              label="Age"
+              onChange={(e) => setOlderThanHours(Number(e.target.value))}
+            >
+              {AGE_OPTIONS.map(option => (
+                <MenuItem key={option.hours} value={option.hours}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            color="warning"
+            startIcon={<CleaningServices />}
+            onClick={handleCleanup}
+            disabled={staleCount === 0 || cleanupMutation.isPending}
+          >
+            {cleanupMutation.isPending ? 'Cleaning up...' : `Clean Up (${staleCount})`}
+          </Button>
+        </Box>
+      </Box>
+
+      <Alert severity="info" sx={{ borderRadius: 2 }}>
+        <Typography variant="body2">
+          Uploads that were interrupted and never resumed keep their parts in S3 (and keep costing storage)
+          until they are aborted. Users can resume their own uploads from the Upload tab.
+        </Typography>
+      </Alert>
+
+      {uploads.length > 0 && (
+        <Box sx={{ mt: 2 }}>
+          {uploads.map(upload => (
+            <Box key={upload.uploadId} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, py: 0.5 }}>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                {upload.key}
+              </Typography>
+              <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                started {upload.initiated.toLocaleString()}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default IncompleteUploadsPanel;
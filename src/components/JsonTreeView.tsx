@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Box, Typography, Button } from '@mui/material';
+import { ChevronRight, ExpandMore } from '@mui/icons-material';
+
+// Nodes deeper than this start collapsed; large objects and arrays reveal their children in pages
+const EXPANDED_DEPTH = 2;
+const CHILDREN_PAGE_SIZE = 100;
+
+interface JsonNodeProps {
+  name?: string;
+  value: unknown;
+  depth: number;
+}
+
+const VALUE_COLORS: Record<string, string> = {
+  string: '#047857',
+  number: '#1d4ed8',
+  boolean: '#7c3aed',
+  null: '#64748b',
+};
+
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, depth }) => {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH);
+  const [visibleCount, setVisibleCount] = useState(CHILDREN_PAGE_SIZE);
+
+  const label = name !== undefined && (
+    <Typography component="span" sx={{ fontFamily: 'monospace', fontSize: 13, color: '#0f172a' }}>
+      {name}:&nbsp;
+    </Typography>
+  );
+
+  if (value === null || typeof value !== 'object') {
+    const type = value === null ? 'null' : typeof value;
+    return (
+      <Box sx={{ pl: 3 }}>
+        {label}
+        <Typography component="span" sx={{ fontFamily: 'monospace', fontSize: 13, color: VALUE_COLORS[type], wordBreak: 'break-all' }}>
+          {JSON.stringify(value)}
+        </Typography>
+      </Box>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <Box>
+      <Box
+        onClick={() => setExpanded(!expanded)}
+        sx={{ display: 'flex', alignItems: 'center', cursor: 'pointer', '&:hover': { bgcolor: 'action.hover' } }}
+      >
+        {expanded ? <ExpandMore sx={{ fontSize: 18 }} /> : <ChevronRight sx={{ fontSize: 18 }} />}
+        <Box sx={{ pl: 0.5 }}>
+          {label}
+          <Typography component="span" sx={{ fontFamily: 'monospace', fontSize: 13, color: '#64748b' }}>
+            {summary}
+          </Typography>
+        </Box>
+      </Box>
+      {expanded && (
+        <Box sx={{ pl: 1.5, borderLeft: '1px dashed', borderColor: 'divider', ml: 1 }}>
+          {entries.slice(0, visibleCount).map(([key, child]) => (
+            <JsonNode key={key} name={key} value={child} depth={depth + 1} />
+          ))}
+          {entries.length > visibleCount && (
+            <Button
+              size="small"
+              onClick={() => setVisibleCount(visibleCount + CHILDREN_PAGE_SIZE)}
+              sx={{ textTransform: 'none', ml: 2 }}
+            >
+              Show {Math.min(CHILDREN_PAGE_SIZE, entries.length - visibleCount)} more of {entries.length - visibleCount}
+            </Button>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+interface JsonTreeViewProps {
+  data: unknown;
+}
+
+const JsonTreeView: React.FC<JsonTreeViewProps> = ({ data }) => (
+  <Box sx={{ py: 1 }}>
+    <JsonNode value={data} depth={0} />
+  </Box>
+);
+
+export default JsonTreeView;
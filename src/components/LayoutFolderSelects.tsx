@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+} from '@mui/material';
+import { FolderOpen, AccountTree, CreateNewFolder } from '@mui/icons-material';
+import {
+  useTopLevelFolders,
+  useSubfolders,
+  useAllProjectStats,
+  useProjectStats,
+  useCreateProject,
+  useCreateLayoutFolder,
+} from '../hooks/useS3';
+import { LayoutSelection } from '../hooks/useLayoutSelection';
+import { layoutService } from '../services/layoutService';
+import { authService } from '../services/authService';
+import { ProjectStats } from '../types';
+import FolderStatsChips from './FolderStatsChips';
+import ProjectLayoutDialog from './ProjectLayoutDialog';
+import CreateFolderDialog from './CreateFolderDialog';
+
+const selectSx = (enabled: boolean) => ({
+  borderRadius: 3,
+  backgroundColor: enabled ? '#fafafa' : '#f8fafc',
+  '&:hover': {
+    backgroundColor: enabled ? '#f5f5f5' : '#f8fafc',
+  },
+  '&.Mui-focused': {
+    backgroundColor: 'white',
+  },
+});
+
+interface SegmentSelectProps {
+  selection: LayoutSelection;
+  index: number;
+  projectStats?: ProjectStats;
+}
+
+// A picked segment can be chosen once the project and every folder before it are
+const isSegmentEnabled = (selection: LayoutSelection, index: number) =>
+  !!selection.project && selection.pickedSegments.slice(0, index).every((_, previous) => !!selection.values[previous]);
+
+// One dropdown per picked segment; a component of its own so each can list its folders with a hook
+const SegmentSelect: React.FC<SegmentSelectProps> = ({ selection, index, projectStats }) => {
+  const { project, layout, values, optionsSide } = selection;
+  const segment = selection.pickedSegments[index];
+  const enabled = isSegmentEnabled(selection, index);
+  const prefix = enabled ? layoutService.getOptionsPrefix(project, layout, optionsSide, values, index) : '';
+  const { data: folders = [], isLoading } = useSubfolders(prefix, enabled);
+  const options = layoutService.sortOptions(segment, folders.map(folder => folder.name));
+
+  return (
+    <FormControl fullWidth disabled={!enabled}>
+      <InputLabel sx={{ fontWeight: 600 }}>{segment.label}</InputLabel>
+      <Select
+        value={values[index] || ''}
+        label={segment.label}
+        renderValue={(value) => value}
+        onChange={(e) => selection.selectValue(index, e.target.value)}
+        disabled={!enabled || isLoading}
+        sx={selectSx(enabled)}
+      >
+        {options.map((name) => (
+          <MenuItem key={name} value={name}>
+            <Box sx={{ display: 'flex', alignItems: 'center', width: '100%' }}>
+              <Typography sx={{ fontWeight: 500 }}>{name}</Typography>
+              <FolderStatsChips stats={projectStats?.folders[[...values.slice(0, index), name].join('/')]} />
+            </Box>
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+interface LayoutFolderSelectsProps {
+  selection: LayoutSelection;
+}
+
+// Project dropdown followed by one dropdown per folder the project layout asks for
+const LayoutFolderSelects: React.FC<LayoutFolderSelectsProps> = ({ selection }) => {
+  const [layoutDialogOpen, setLayoutDialogOpen] = useState(false);
+  // 'project' for a new project, otherwise the index of the picked segment to add a folder to
+  const [creating, setCreating] = useState<'project' | number | null>(null);
+  const isAdmin = authService.isAdmin();
+  const canManage = !!selection.project && authService.hasProjectPermission(selection.project, 'manage');
+  const { data: projects = [], isLoading: projectsLoading } = useTopLevelFolders();
+  const { data: allProjectStats } = useAllProjectStats();
+  const { data: projectStats } = useProjectStats(selection.project);
+  const createProjectMutation = useCreateProject();
+  const createFolderMutation = useCreateLayoutFolder();
+  const creatingIndex = typeof creating === 'number' ? creating : null;
+
+  const handleCreate = async (name: string) => {
+    try {
+      if (creatingIndex === null) {
+        await createProjectMutation.mutateAsync(name);
+        selection.selectProject(name);
+      } else {
+        await createFolderMutation.mutateAsync({
+          project: selection.project,
+          values: [...selection.values.slice(0, creatingIndex), name],
+        });
+        selection.selectValue(creatingIndex, name);
+      }
+      setCreating(null);
+    } catch (error) {
+      // Error is handled by the mutation
+    }
+  };
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', gap: 4, mb: 3, flexDirection: { xs: 'column', md: 'row' } }}>
+        <FormControl fullWidth>
+          <InputLabel sx={{ fontWeight: 600 }}>Project Folder</InputLabel>
+          <Select
+            value={selection.project}
+            label="Project Folder"
+            renderValue={(value) => value}
+            onChange={(e) => selection.selectProject(e.target.value)}
+            disabled={projectsLoading}
+            sx={selectSx(true)}
+          >
+            {projects.map((project) => (
+              <MenuItem key={project.name} value={project.name}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, width: '100%' }}>
+                  <FolderOpen fontSize="small" sx={{ color: '#6366f1' }} />
+                  <Typography sx={{ fontWeight: 500 }}>{project.name}</Typography>
+                  <FolderStatsChips stats={allProjectStats?.[project.name]} />
+                </Box>
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {selection.pickedSegments.map((segment, index) => (
+          <SegmentSelect key={segment.key} selection={selection} index={index} projectStats={projectStats} />
+        ))}
+      </Box>
+
+      {(isAdmin || canManage) && (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', flexWrap: 'wrap', gap: 1, mt: -1, mb: 2 }}>
+          {isAdmin && (
+            <Button
+              size="small"
+              startIcon={<CreateNewFolder />}
+              onClick={() => setCreating('project')}
+              sx={{ textTransform: 'none', fontWeight: 600 }}
+            >
+              New Project
+            </Button>
+          )}
+          {canManage && selection.pickedSegments.map((segment, index) => isSegmentEnabled(selection, index) && (
+            <Button
+              key={segment.key}
+              size="small"
+              startIcon={<CreateNewFolder />}
+              onClick={() => setCreating(index)}
+              sx={{ textTransform: 'none', fontWeight: 600 }}
+            >
+              New {segment.label}
+            </Button>
+          ))}
+          {canManage && (
+            <Button
+              size="small"
+              startIcon={<AccountTree />}
+              onClick={() => setLayoutDialogOpen(true)}
+              sx={{ textTransform: 'none', fontWeight: 600 }}
+            >
+              Edit Folder Layout
+            </Button>
+          )}
+        </Box>
+      )}
+
+      <CreateFolderDialog
+        open={creating !== null}
+        location={creatingIndex === null ? '' : layoutService.getOptionsPrefix(
+          selection.project,
+          selection.layout,
+          'input',
+          selection.values,
+          creatingIndex
+        )}
+        segment={creatingIndex === null ? undefined : selection.pickedSegments[creatingIndex]}
+        isPending={createProjectMutation.isPending || createFolderMutation.isPending}
+        onClose={() => setCreating(null)}
+        onCreate={handleCreate}
+      />
+
+      <ProjectLayoutDialog
+        open={layoutDialogOpen}
+        project={selection.project}
+        layout={selection.layout}
+        onClose={() => setLayoutDialogOpen(false)}
+        onSaved={() => selection.selectProject(selection.project)}
+      />
+    </>
+  );
+};
+
+export default LayoutFolderSelects;
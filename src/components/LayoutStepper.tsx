@@ -0,0 +1,62 @@
+import React from 'react';
+import { Box, Typography, Stepper, Step, StepLabel } from '@mui/material';
+import { LayoutSelection } from '../hooks/useLayoutSelection';
+
+interface LayoutStepperProps {
+  selection: LayoutSelection;
+  title: string;
+  // Label of the step after all folders are picked, e.g. "Upload Files"
+  finalStep: string;
+}
+
+// Progress stepper with one step per folder the project layout asks the user to pick
+const LayoutStepper: React.FC<LayoutStepperProps> = ({ selection, title, finalStep }) => {
+  const steps = ['Select Project', ...selection.pickedSegments.map(segment => segment.label), finalStep];
+
+  return (
+    <Box
+      sx={{
+        background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
+        borderRadius: 3,
+        border: '1px solid #e2e8f0',
+        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+        p: 4,
+      }}
+    >
+      <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a', mb: 3 }}>
+        {title}
+      </Typography>
+      <Stepper
+        activeStep={selection.activeStep}
+        alternativeLabel
+        sx={{
+          '& .MuiStepLabel-root .Mui-completed': {
+            color: '#059669',
+          },
+          '& .MuiStepLabel-root .Mui-active': {
+            color: '#6366f1',
+          },
+          '& .MuiStepConnector-alternativeLabel': {
+            top: 10,
+            left: 'calc(-50% + 16px)',
+            right: 'calc(50% + 16px)',
+          },
+          '& .MuiStepConnector-alternativeLabel.Mui-active .MuiStepConnector-line': {
+            borderColor: '#6366f1',
+          },
+          '& .MuiStepConnector-alternativeLabel.Mui-completed .MuiStepConnector-line': {
+            borderColor: '#059669',
+          },
+        }}
+      >
+        {steps.map(label => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+    </Box>
+  );
+};
+
+export default LayoutStepper;
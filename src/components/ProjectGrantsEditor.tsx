@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Checkbox,
+  IconButton,
+  Tooltip,
+  Autocomplete,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { Add, Close } from '@mui/icons-material';
+import { ProjectGrants, ProjectPermission } from '../types';
+import { useTopLevelFolders } from '../hooks/useS3';
+
+export const ALL_PROJECTS = '*';
+
+export const PROJECT_PERMISSIONS: { value: ProjectPermission; label: string; description: string }[] = [
+  { value: 'read', label: 'Read', description: 'Browse, search and download files' },
+  { value: 'upload', label: 'Upload', description: 'Upload new files' },
+  { value: 'delete', label: 'Delete', description: 'Delete or overwrite files, restore older versions and restore files from the trash' },
+  { value: 'manage', label: 'Manage', description: 'Create folders and edit folder layouts and reconciliation rules' },
+];
+
+export const formatProjectName = (project: string) => (project === ALL_PROJECTS ? 'All projects' : project);
+
+interface ProjectGrantsEditorProps {
+  value: ProjectGrants;
+  onChange: (value: ProjectGrants) => void;
+  title?: string;
+  emptyText?: string;
+}
+
+// One row of permission checkboxes per granted project, plus a picker to grant another project
+const ProjectGrantsEditor: React.FC<ProjectGrantsEditorProps> = ({
+  value,
+  onChange,
+  title = 'Project access',
+  emptyText = 'No projects granted yet; the user can sign in but will not see any files.',
+}) => {
+  const [newProject, setNewProject] = useState('');
+  const { data: folders = [] } = useTopLevelFolders();
+
+  const projectOptions = [ALL_PROJECTS, ...folders.map(folder => folder.name)].filter(project => !value[project]);
+  const isValidProject = (project: string) => !!project && !project.includes('/') && !value[project];
+
+  const togglePermission = (project: string, permission: ProjectPermission) => {
+    const permissions = value[project];
+    onChange({
+      ...value,
+      [project]: permissions.includes(permission)
+        ? permissions.filter(p => p !== permission)
+        : PROJECT_PERMISSIONS.map(p => p.value).filter(p => p === permission || permissions.includes(p)),
+    });
+  };
+
+  const addProject = (project: string) => {
+    if (!isValidProject(project)) return;
+    onChange({ ...value, [project]: ['read'] });
+    setNewProject('');
+  };
+
+  const removeProject = (project: string) => {
+    const { [project]: removed, ...rest } = value;
+    onChange(rest);
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+        {title}
+      </Typography>
+      {Object.keys(value).length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {emptyText}
+        </Typography>
+      ) : (
+        <Table size="small" sx={{ mb: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Project</TableCell>
+              {PROJECT_PERMISSIONS.map(permission => (
+                <TableCell key={permission.value} align="center">
+                  <Tooltip title={permission.description}>
+                    <span>{permission.label}</span>
+                  </Tooltip>
+                </TableCell>
+              ))}
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {Object.entries(value).map(([project, permissions]) => (
+              <TableRow key={project}>
+                <TableCell>
+                  <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                    {formatProjectName(project)}
+                  </Typography>
+                </TableCell>
+                {PROJECT_PERMISSIONS.map(permission => (
+                  <TableCell key={permission.value} align="center" padding="checkbox">
+                    <Checkbox
+                      size="small"
+                      checked={permissions.includes(permission.value)}
+                      onChange={() => togglePermission(project, permission.value)}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell align="right" padding="checkbox">
+                  <Tooltip title="Remove project">
+                    <IconButton size="small" onClick={() => removeProject(project)}>
+                      <Close fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+        <Autocomplete
+          freeSolo
+          size="small"
+          options={projectOptions}
+          getOptionLabel={formatProjectName}
+          value={null}
+          onChange={(_, project) => project && addProject(project.trim())}
+          inputValue={newProject}
+          onInputChange={(_, input, reason) => reason === 'input' && setNewProject(input)}
+          renderInput={(params) => <TextField {...params} label="Grant access to project" />}
+          sx={{ flex: 1 }}
+        />
+        <Button
+          startIcon={<Add />}
+          onClick={() => addProject(newProject.trim())}
+          disabled={!isValidProject(newProject.trim())}
+          sx={{ textTransform: 'none', mt: 0.5 }}
+        >
+          Add
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default ProjectGrantsEditor;
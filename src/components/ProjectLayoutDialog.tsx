@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Tooltip,
+  TextField,
+  Select,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+} from '@mui/material';
+import { Add, ArrowUpward, ArrowDownward, Close } from '@mui/icons-material';
+import { LayoutSegment, LayoutSide, ProjectLayout } from '../types';
+import { useSaveProjectLayout } from '../hooks/useS3';
+
+interface ProjectLayoutDialogProps {
+  open: boolean;
+  project: string;
+  layout: ProjectLayout;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const SEGMENT_TYPE_LABELS: Record<LayoutSegment['type'], string> = {
+  fixed: 'Fixed folder',
+  date: 'Date (picked)',
+  folder: 'Folder (picked)',
+};
+
+// Path template for one side, e.g. "project/outputData/<Date Folder>/"
+const describePath = (project: string, segments: LayoutSegment[], side: LayoutSide) => {
+  const parts = segments.map(segment => (segment.type === 'fixed' ? segment[side] : `<${segment.label || segment.key}>`));
+  return `${[project, ...parts.filter(Boolean)].join('/')}/`;
+};
+
+const ProjectLayoutDialog: React.FC<ProjectLayoutDialogProps> = ({ open, project, layout, onClose, onSaved }) => {
+  const [segments, setSegments] = useState<LayoutSegment[]>(layout.segments);
+  const saveMutation = useSaveProjectLayout();
+
+  useEffect(() => {
+    if (open) {
+      setSegments(layout.segments);
+    }
+  }, [open, layout]);
+
+  const updateSegment = (index: number, segment: LayoutSegment) => {
+    setSegments(prev => prev.map((current, position) => (position === index ? segment : current)));
+  };
+
+  const changeType = (index: number, type: LayoutSegment['type']) => {
+    const current = segments[index];
+    if (type === 'fixed') {
+      updateSegment(index, { type, input: '', output: '' });
+    } else {
+      updateSegment(index, {
+        type,
+        key: current.type === 'fixed' ? '' : current.key,
+        label: current.type === 'fixed' ? '' : current.label,
+      });
+    }
+  };
+
+  const moveSegment = (index: number, offset: number) => {
+    setSegments(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const save = async (nextLayout: ProjectLayout | null) => {
+    try {
+      await saveMutation.mutateAsync({ project, layout: nextLayout });
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      // Error is handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <DialogTitle>Folder Layout for {project}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          List the folders below the project in order. Fixed folders have a name on the input side and on the output side;
+          leave a side empty to skip the folder there. Picked folders become steps in the Upload, Download and Delete tabs.
+        </Typography>
+
+        {segments.map((segment, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 1.5, alignItems: 'center' }}>
+            <Select
+              size="small"
+              value={segment.type}
+              onChange={(e) => changeType(index, e.target.value as LayoutSegment['type'])}
+              sx={{ minWidth: 170 }}
+            >
+              {Object.entries(SEGMENT_TYPE_LABELS).map(([type, label]) => (
+                <MenuItem key={type} value={type}>{label}</MenuItem>
+              ))}
+            </Select>
+            {segment.type === 'fixed' ? (
+              <>
+                <TextField
+                  size="small"
+                  label="Input side"
+                  value={segment.input}
+                  onChange={(e) => updateSegment(index, { ...segment, input: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  size="small"
+                  label="Output side"
+                  value={segment.output}
+                  onChange={(e) => updateSegment(index, { ...segment, output: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+              </>
+            ) : (
+              <>
+                <TextField
+                  size="small"
+                  label="Step label"
+                  value={segment.label}
+                  onChange={(e) => updateSegment(index, { ...segment, label: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  size="small"
+                  label="Key"
+                  value={segment.key}
+                  onChange={(e) => updateSegment(index, { ...segment, key: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+              </>
+            )}
+            <Tooltip title="Move up">
+              <span>
+                <IconButton size="small" disabled={index === 0} onClick={() => moveSegment(index, -1)}>
+                  <ArrowUpward fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Move down">
+              <span>
+                <IconButton size="small" disabled={index === segments.length - 1} onClick={() => moveSegment(index, 1)}>
+                  <ArrowDownward fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Remove">
+              <IconButton size="small" onClick={() => setSegments(prev => prev.filter((_, position) => position !== index))}>
+                <Close fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        ))}
+
+        <Box>
+          <Button
+            size="small"
+            startIcon={<Add />}
+            onClick={() => setSegments(prev => [...prev, { type: 'fixed', input: '', output: '' }])}
+            sx={{ textTransform: 'none' }}
+          >
+            Add Folder Level
+          </Button>
+        </Box>
+
+        <Alert severity="info" sx={{ '& code': { wordBreak: 'break-all' } }}>
+          <Typography variant="body2">Input files: <code>{describePath(project, segments, 'input')}</code></Typography>
+          <Typography variant="body2">Output files: <code>{describePath(project, segments, 'output')}</code></Typography>
+        </Alert>
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 1 }}>
+        <Button onClick={() => save(null)} disabled={saveMutation.isPending} sx={{ textTransform: 'none', mr: 'auto' }}>
+          Reset to Default
+        </Button>
+        <Button onClick={onClose} sx={{ textTransform: 'none' }}>
+          Cancel
+        </Button>
+        <Button
+          onClick={() => save({ segments })}
+          variant="contained"
+          disabled={saveMutation.isPending}
+          sx={{ textTransform: 'none' }}
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Layout'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ProjectLayoutDialog;
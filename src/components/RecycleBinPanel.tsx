@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { RestoreFromTrash, DeleteForever, DeleteSweep } from '@mui/icons-material';
+import { useTrash, useRestoreTrashItem, usePurgeTrashItem } from '../hooks/useS3';
+import { apiService } from '../services/apiService';
+import { TrashItem } from '../types';
+
+interface RecycleBinPanelProps {
+  projectPrefix: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RecycleBinPanel: React.FC<RecycleBinPanelProps> = ({ projectPrefix }) => {
+  const { data, isLoading } = useTrash(projectPrefix, !!projectPrefix);
+  const restoreMutation = useRestoreTrashItem();
+  const purgeMutation = usePurgeTrashItem();
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+  const [restoreConflict, setRestoreConflict] = useState<TrashItem | null>(null);
+
+  const items = data?.items || [];
+
+  const handleRestore = (item: TrashItem, overwrite: boolean = false) => {
+    restoreMutation.mutate({ id: item.id, key: item.key, overwrite }, {
+      onSuccess: () => setRestoreConflict(null),
+      onError: (error: Error & { code?: string }) => {
+        if (error.code === 'OBJECT_EXISTS') {
+          setRestoreConflict(item);
+        }
+      },
+    });
+  };
+
+  const handlePurgeConfirm = () => {
+    if (!itemToPurge) return;
+    purgeMutation.mutate({ id: itemToPurge.id, key: itemToPurge.key }, {
+      onSettled: () => setItemToPurge(null),
+    });
+  };
+
+  return (
+    <Box
+      sx={{
+        background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
+        borderRadius: 3,
+        border: '1px solid #e2e8f0',
+        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+        p: 4,
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+        <DeleteSweep sx={{ color: '#64748b' }} />
+        <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a' }}>
+          Recycle Bin
+        </Typography>
+        {isLoading ? (
+          <CircularProgress size={18} />
+        ) : (
+          <Chip label={items.length} size="small" color={items.length > 0 ? 'primary' : 'default'} />
+        )}
+      </Box>
+
+      <Alert severity="info" sx={{ borderRadius: 2 }}>
+        <Typography variant="body2">
+          Deleted files are kept here for {data?.retentionDays ?? '…'} days and then permanently removed.
+        </Typography>
+      </Alert>
+
+      {items.length > 0 && (
+        <Table size="small" sx={{ mt: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>File</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Size</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Deleted By</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Deleted</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Purged In</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {items.map(item => (
+              <TableRow key={item.id} hover>
+                <TableCell>
+                  <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                    {item.key.split('/').pop()}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                    {item.key}
+                  </Typography>
+                </TableCell>
+                <TableCell>{apiService.formatFileSize(item.size)}</TableCell>
+                <TableCell>
+                  <Tooltip title={item.deletedBy}>
+                    <Typography variant="body2">{item.deletedByName}</Typography>
+                  </Tooltip>
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2" color="text.secondary">
+                    {item.deletedAt.toLocaleString()}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2" color="text.secondary">
+                    {Math.max(0, Math.ceil((item.expiresAt.getTime() - Date.now()) / DAY_MS))} days
+                  </Typography>
+                </TableCell>
+                <TableCell align="right">
+                  <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                    <Tooltip title="Restore to original location">
+                      <IconButton
+                        size="small"
+                        color="success"
+                        onClick={() => handleRestore(item)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RestoreFromTrash />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete permanently">
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={() => setItemToPurge(item)}
+                        disabled={purgeMutation.isPending}
+                      >
+                        <DeleteForever />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Permanent Delete Confirmation */}
+      <Dialog open={!!itemToPurge} onClose={() => setItemToPurge(null)} PaperProps={{ sx: { borderRadius: 2 } }}>
+        <DialogTitle>Delete Permanently</DialogTitle>
+        <DialogContent>
+          <Typography gutterBottom>
+            Permanently delete <strong>"{itemToPurge?.key.split('/').pop()}"</strong>?
+          </Typography>
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            This action cannot be undone. The file will be permanently removed from S3.
+          </Alert>
+        </DialogContent>
+        <DialogActions sx={{ p: 3, pt: 1 }}>
+          <Button onClick={() => setItemToPurge(null)} sx={{ textTransform: 'none' }}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handlePurgeConfirm}
+            color="error"
+            variant="contained"
+            disabled={purgeMutation.isPending}
+            sx={{ textTransform: 'none' }}
+          >
+            {purgeMutation.isPending ? 'Deleting...' : 'Delete Forever'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Restore Conflict */}
+      <Dialog open={!!restoreConflict} onClose={() => setRestoreConflict(null)} PaperProps={{ sx: { borderRadius: 2 } }}>
+        <DialogTitle>File Already Exists</DialogTitle>
+        <DialogContent>
+          <Typography>
+            A file already exists at <strong>{restoreConflict?.key}</strong>. Restoring will overwrite it.
+          </Typography>
+        </DialogContent>
+        <DialogActions sx={{ p: 3, pt: 1 }}>
+          <Button onClick={() => setRestoreConflict(null)} sx={{ textTransform: 'none' }}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => restoreConflict && handleRestore(restoreConflict, true)}
+            color="warning"
+            variant="contained"
+            disabled={restoreMutation.isPending}
+            sx={{ textTransform: 'none' }}
+          >
+            Overwrite
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default RecycleBinPanel;
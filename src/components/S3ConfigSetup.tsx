@@ -13,6 +13,7 @@ import {
   Card,
   CardContent,
   CircularProgress,
+  TextField,
 } from '@mui/material';
 import {
   CloudUpload,
@@ -23,9 +24,12 @@ import {
   Person,
   Error as ErrorIcon,
   FolderOpen,
+  Login,
 } from '@mui/icons-material';
 import { useS3Config } from '../contexts/S3ConfigContext';
-import { authService } from '../services/authService';
+import { authService, SignedInUser } from '../services/authService';
+import { AuthProviderConfig } from '../types';
+import DevIdentitySwitcher from './DevIdentitySwitcher';
 
 // Declare global Google types
 declare global {
@@ -49,6 +53,8 @@ interface GoogleUser {
   picture: string;
 }
 
+const isLocalDevelopment = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
+
 const GoogleAuthSetup: React.FC = () => {
   const { setConfig } = useS3Config();
   const [user, setUser] = useState<GoogleUser | null>(null);
@@ -56,28 +62,40 @@ const GoogleAuthSetup: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [authStep, setAuthStep] = useState<'signin' | 'validating' | 'success' | 'error'>('signin');
-
-  const isLocalDevelopment = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
+  const [provider, setProvider] = useState<AuthProviderConfig | null>(null);
+  const [localEmail, setLocalEmail] = useState('');
+  const [localPassword, setLocalPassword] = useState('');
 
   useEffect(() => {
-    // Load Google Identity Services script
-    const script = document.createElement('script');
-    script.src = 'https://accounts.google.com/gsi/client';
-    script.async = true;
-    script.defer = true;
-    script.onload = () => {
-      console.log('Google script loaded');
-      initializeGoogleAuth();
-    };
-    script.onerror = () => {
-      console.error('Failed to load Google script');
-      setError('Failed to load Google Sign-In. Please check your internet connection.');
-    };
-    document.head.appendChild(script);
+    // An OIDC issuer sends the browser back with ?signedIn=1 or ?authError=...
+    const params = new URLSearchParams(window.location.search);
+    const redirectError = params.get('authError');
+    const returnedFromIssuer = params.has('signedIn');
+    if (redirectError || returnedFromIssuer) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+
+    // Check if user is already authenticated and their session is still valid
+    const restoreUser = async () => {
+      if (returnedFromIssuer) {
+        const restored = await authService.restoreSession();
+        if (!restored.success) {
+          setError(restored.error || 'Authorization failed');
+          setAuthStep('error');
+          return;
+        }
+      } else {
+        if (!authService.getUserInfo()) return;
+        if (isLocalDevelopment) {
+          // The development server decides who we are, which the identity switcher may have changed
+          if (!(await authService.restoreSession()).success) return;
+        } else if (!(await authService.validateSession())) {
+          return;
+        }
+      }
 
-    // Check if user is already authenticated
-    const savedUser = authService.getUserInfo();
-    if (savedUser) {
+      const savedUser = authService.getUserInfo();
+      if (!savedUser) return;
       setUser({
         id: 'restored',
         name: savedUser.name,
@@ -88,21 +106,54 @@ const GoogleAuthSetup: React.FC = () => {
       setAuthStep('success');
       // Auto-launch the app
       handleLaunchApp();
+    };
+
+    if (redirectError) {
+      setError(redirectError);
+      setAuthStep('error');
+    } else {
+      restoreUser();
     }
 
+    let script: HTMLScriptElement | null = null;
+    authService.getProviderConfig()
+      .then(config => {
+        setProvider(config);
+        if (config.type !== 'google') return;
+
+        // Load Google Identity Services script
+        script = document.createElement('script');
+        script.src = 'https://accounts.google.com/gsi/client';
+        script.async = true;
+        script.defer = true;
+        script.onload = () => {
+          console.log('Google script loaded');
+          initializeGoogleAuth(config.clientId || '');
+        };
+        script.onerror = () => {
+          console.error('Failed to load Google script');
+          setError('Failed to load Google Sign-In. Please check your internet connection.');
+        };
+        document.head.appendChild(script);
+      })
+      .catch(error => {
+        console.error('Failed to load sign-in settings:', error);
+        setError('Sign-in is unavailable because the server could not be reached. Please refresh the page.');
+      });
+
     return () => {
-      if (document.head.contains(script)) {
+      if (script && document.head.contains(script)) {
         document.head.removeChild(script);
       }
     };
   }, []);
 
-  const initializeGoogleAuth = () => {
+  const initializeGoogleAuth = (clientId: string) => {
     if (window.google && window.google.accounts && window.google.accounts.id) {
       try {
         console.log('Initializing Google Auth');
         window.google.accounts.id.initialize({
-          client_id: '549557403268-707u7eagk8bbknhdg95p9kaukak74voq.apps.googleusercontent.com',
+          client_id: clientId,
           callback: handleCredentialResponse,
           auto_select: false,
           cancel_on_tap_outside: true,
@@ -115,58 +166,42 @@ const GoogleAuthSetup: React.FC = () => {
       }
     } else {
       console.log('Google services not ready, retrying...');
-      setTimeout(initializeGoogleAuth, 1000);
+      setTimeout(() => initializeGoogleAuth(clientId), 1000);
     }
   };
 
+  const completeSignIn = (signedIn: SignedInUser) => {
+    setUser({
+      id: signedIn.email,
+      name: signedIn.name,
+      email: signedIn.email,
+      picture: signedIn.picture,
+    });
+    setUserRole(signedIn.role);
+    setAuthStep('success');
+    
+    // Auto-launch after successful authentication
+    setTimeout(() => {
+      handleLaunchApp();
+    }, 1500);
+  };
+
   const handleCredentialResponse = async (response: any) => {
     try {
       setIsLoading(true);
       setError(null);
       setAuthStep('validating');
       
-      const payload = JSON.parse(atob(response.credential.split('.')[1]));
-      const userData: GoogleUser = {
-        id: payload.sub,
-        name: payload.name,
-        email: payload.email,
-        picture: payload.picture,
-      };
+      // The server verifies the ID token; the browser never trusts its contents
+      const signIn = await authService.signInWithGoogle(response.credential);
 
-      console.log('Google Auth Success:', userData);
-
-      // Validate user with backend (only if not in local development)
-      if (!isLocalDevelopment) {
-        const validation = await authService.validateAndSetUser({
-          email: userData.email,
-          name: userData.name,
-          picture: userData.picture
-        });
-
-        if (!validation.success) {
-          setError(validation.error || 'Authorization failed');
-          setAuthStep('error');
-          return;
-        }
-
-        setUserRole(validation.role || 'user');
-      } else {
-        // In local development, just set user directly
-        authService.setUser({
-          email: userData.email,
-          name: userData.name
-        });
-        setUserRole('admin'); // Default to admin for local development
+      if (!signIn.success || !signIn.user) {
+        setError(signIn.error || 'Authorization failed');
+        setAuthStep('error');
+        return;
       }
 
-      setUser(userData);
-      setAuthStep('success');
-      
-      // Auto-launch after successful authentication
-      setTimeout(() => {
-        handleLaunchApp();
-      }, 1500);
-      
+      completeSignIn(signIn.user);
     } catch (error) {
       console.error('Authentication error:', error);
       setError(`Failed to authenticate: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -176,6 +211,24 @@ const GoogleAuthSetup: React.FC = () => {
     }
   };
 
+  const handlePasswordSignIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    
+    const signIn = await authService.signInWithPassword(localEmail.trim(), localPassword);
+    setIsLoading(false);
+    
+    if (!signIn.success || !signIn.user) {
+      // Wrong passwords stay on the form so the user can try again
+      setError(signIn.error || 'Authorization failed');
+      return;
+    }
+    
+    setLocalPassword('');
+    completeSignIn(signIn.user);
+  };
+
   const handleGoogleSignIn = () => {
     try {
       setError(null);
@@ -226,14 +279,16 @@ const GoogleAuthSetup: React.FC = () => {
     }
   };
 
-  const handleSignOut = () => {
-    authService.clearAuth();
+  const handleSignOut = async () => {
+    await authService.signOut();
     setUser(null);
     setUserRole(null);
     setError(null);
     setAuthStep('signin');
     // Reinitialize Google Auth for new login
-    setTimeout(initializeGoogleAuth, 100);
+    if (provider?.type === 'google') {
+      setTimeout(() => initializeGoogleAuth(provider.clientId || ''), 100);
+    }
   };
 
   const handleLaunchApp = async () => {
@@ -256,57 +311,6 @@ const GoogleAuthSetup: React.FC = () => {
     }
   };
 
-  const handleTestLogin = async () => {
-    // Test user for local development
-    const testUser: GoogleUser = {
-      id: 'test-user-123',
-      name: 'Test User',
-      email: 'admin@turing.com',
-      picture: 'https://via.placeholder.com/150'
-    };
-    
-    setIsLoading(true);
-    setAuthStep('validating');
-    
-    // For local development, just set user directly without backend validation
-    if (isLocalDevelopment) {
-      authService.setUser({
-        email: testUser.email,
-        name: testUser.name
-      });
-      setUser(testUser);
-      setUserRole('admin');
-      setAuthStep('success');
-      setIsLoading(false);
-      return;
-    }
-
-    // For production, validate with backend
-    try {
-      const validation = await authService.validateAndSetUser({
-        email: testUser.email,
-        name: testUser.name,
-        picture: testUser.picture
-      });
-
-      if (!validation.success) {
-        setError(validation.error || 'Test user not authorized');
-        setAuthStep('error');
-        setIsLoading(false);
-        return;
-      }
-      
-      setUser(testUser);
-      setUserRole(validation.role || 'user');
-      setAuthStep('success');
-    } catch (error) {
-      setError('Unable to validate test user. Backend may not be available.');
-      setAuthStep('error');
-    }
-    
-    setIsLoading(false);
-  };
-
   return (
     <Box
       sx={{
@@ -580,8 +584,10 @@ const GoogleAuthSetup: React.FC = () => {
                   <ErrorIcon sx={{ fontSize: { xs: 48, md: 64 }, color: '#dc2626', mb: 3 }} />
                 ) : authStep === 'validating' ? (
                   <CircularProgress size={56} sx={{ mb: 3 }} />
-                ) : (
+                ) : provider?.type === 'google' ? (
                   <Google sx={{ fontSize: { xs: 48, md: 64 }, color: '#4285f4', mb: 3 }} />
+                ) : (
+                  <Login sx={{ fontSize: { xs: 48, md: 64 }, color: '#4285f4', mb: 3 }} />
                 )}
                 
                 <Typography variant="h4" sx={{ 
@@ -605,7 +611,8 @@ const GoogleAuthSetup: React.FC = () => {
                 }}>
                   {authStep === 'error' ? 'Your account is not authorized to access this application. Please contact your administrator.' :
                    authStep === 'validating' ? 'Please wait while we verify your authorization...' :
-                   'Please sign in with your Google account to access the AWS S3 File Manager with advanced features.'}
+                   provider?.type === 'local' ? 'Please sign in with your email and password to access the AWS S3 File Manager with advanced features.' :
+                   `Please sign in with your ${provider?.label || ''} account to access the AWS S3 File Manager with advanced features.`}
                 </Typography>
 
                 {error && (
@@ -626,41 +633,103 @@ const GoogleAuthSetup: React.FC = () => {
 
                 {authStep !== 'validating' && authStep !== 'error' && (
                   <>
-                    <Button
-                      variant="contained"
-                      size="large"
-                      startIcon={<Google />}
-                      onClick={handleGoogleSignIn}
-                      disabled={isLoading}
-                      sx={{ 
-                        background: 'linear-gradient(135deg, #4285f4 0%, #3367d6 100%)',
-                        color: 'white',
+                    {provider?.type === 'google' && (
+                      <>
+                        <Button
+                          variant="contained"
+                          size="large"
+                          startIcon={<Google />}
+                          onClick={handleGoogleSignIn}
+                          disabled={isLoading}
+                          sx={{ 
+                            background: 'linear-gradient(135deg, #4285f4 0%, #3367d6 100%)',
+                            color: 'white',
+                              fontWeight: 600,
+                            py: { xs: 1.5, md: 2 },
+                            px: { xs: 4, md: 6 },
+                            borderRadius: 2,
+                            fontSize: { xs: '0.9rem', md: '1rem' },
+                            textTransform: 'none',
+                            mb: 3,
+                            boxShadow: '0 4px 12px rgba(66, 133, 244, 0.4)',
+                              '&:hover': {
+                              background: 'linear-gradient(135deg, #3367d6 0%, #1d4ed8 100%)',
+                              transform: 'translateY(-1px)',
+                              boxShadow: '0 6px 16px rgba(66, 133, 244, 0.5)',
+                            },
+                            '&:disabled': {
+                              background: '#9ca3af',
+                              transform: 'none',
+                            },
+                          }}
+                        >
+                          {isLoading ? 'Signing in...' : 'Sign in with Google'}
+                        </Button>
+
+                        {/* Fallback Google Button */}
+                        <Box sx={{ display: 'flex', justifyContent: 'center', mb: 4 }}>
+                          <div id="google-signin-button" style={{ minHeight: '44px' }} />
+                        </Box>
+                      </>
+                    )}
+
+                    {provider?.type === 'oidc' && (
+                      <Button
+                        variant="contained"
+                        size="large"
+                        startIcon={<Login />}
+                        onClick={() => authService.startRedirectSignIn()}
+                        sx={{ 
+                          background: 'linear-gradient(135deg, #4285f4 0%, #3367d6 100%)',
                           fontWeight: 600,
-                        py: { xs: 1.5, md: 2 },
-                        px: { xs: 4, md: 6 },
-                        borderRadius: 2,
-                        fontSize: { xs: '0.9rem', md: '1rem' },
-                        textTransform: 'none',
-                        mb: 3,
-                        boxShadow: '0 4px 12px rgba(66, 133, 244, 0.4)',
-                          '&:hover': {
-                          background: 'linear-gradient(135deg, #3367d6 0%, #1d4ed8 100%)',
-                          transform: 'translateY(-1px)',
-                          boxShadow: '0 6px 16px rgba(66, 133, 244, 0.5)',
-                        },
-                        '&:disabled': {
-                          background: '#9ca3af',
-                          transform: 'none',
-                        },
-                      }}
-                    >
-                      {isLoading ? 'Signing in...' : 'Sign in with Google'}
-                    </Button>
-
-                    {/* Fallback Google Button */}
-                    <Box sx={{ display: 'flex', justifyContent: 'center', mb: 4 }}>
-                      <div id="google-signin-button" style={{ minHeight: '44px' }} />
-                    </Box>
+                          py: { xs: 1.5, md: 2 },
+                          px: { xs: 4, md: 6 },
+                          borderRadius: 2,
+                          fontSize: { xs: '0.9rem', md: '1rem' },
+                          textTransform: 'none',
+                          mb: 4,
+                          boxShadow: '0 4px 12px rgba(66, 133, 244, 0.4)',
+                        }}
+                      >
+                        Sign in with {provider.label}
+                      </Button>
+                    )}
+
+                    {provider?.type === 'local' && (
+                      <Box
+                        component="form"
+                        onSubmit={handlePasswordSignIn}
+                        sx={{ display: 'flex', flexDirection: 'column', gap: 2, maxWidth: 360, mx: 'auto', mb: 4 }}
+                      >
+                        <TextField
+                          label="Email"
+                          type="email"
+                          value={localEmail}
+                          onChange={(e) => setLocalEmail(e.target.value)}
+                          autoComplete="username"
+                          autoFocus
+                          required
+                        />
+                        <TextField
+                          label="Password"
+                          type="password"
+                          value={localPassword}
+                          onChange={(e) => setLocalPassword(e.target.value)}
+                          autoComplete="current-password"
+                          required
+                        />
+                        <Button
+                          type="submit"
+                          variant="contained"
+                          size="large"
+                          startIcon={<Login />}
+                          disabled={isLoading || !localEmail.trim() || !localPassword}
+                          sx={{ fontWeight: 600, py: 1.5, borderRadius: 2, textTransform: 'none' }}
+                        >
+                          {isLoading ? 'Signing in...' : 'Sign In'}
+                        </Button>
+                      </Box>
+                    )}
 
                     {/* Features Section */}
                     <Box sx={{ mt: 6, pt: 4, borderTop: '1px solid #e2e8f0' }}>
@@ -727,24 +796,15 @@ const GoogleAuthSetup: React.FC = () => {
                   </Button>
                 )}
 
-                {/* Test Mode for Development */}
-                {isLocalDevelopment && authStep === 'signin' && (
+                {/* Test Mode for Development: pick a role or an authorized user to act as */}
+                {authStep === 'signin' && provider?.devIdentities && (
                   <>
                     <Divider sx={{ my: 4 }} />
-                    <Button
-                      size="small"
-                      variant="outlined"
-                      onClick={handleTestLogin}
-                      disabled={isLoading}
-                      sx={{ 
-                        fontSize: { xs: '0.8rem', md: '0.875rem' },
-                        textTransform: 'none',
-                        color: '#6b7280',
-                        borderColor: '#d1d5db',
-                      }}
-                    >
-                      Test Mode (Development Only)
-                    </Button>
+                    <DevIdentitySwitcher
+                      buttonLabel="Test Mode (Development Only)"
+                      onSwitched={completeSignIn}
+                      sx={{ maxWidth: 360, mx: 'auto' }}
+                    />
                   </>
                 )}
               </CardContent>
@@ -30,6 +30,8 @@ import {
   AccountCircle,
   ExpandMore,
   Timeline,
+  CompareArrows,
+  Share,
 } from '@mui/icons-material';
 import { Routes, Route, useNavigate, useLocation } from 'react-router-dom';
 import { useS3Config } from '../contexts/S3ConfigContext';
@@ -41,6 +43,13 @@ import DeleteTab from './tabs/DeleteTab';
 import SchemaValidationTab from './tabs/SchemaValidationTab';
 import UserManagementTab from './tabs/UserManagementTab';
 import ActivityTab from './tabs/ActivityTab';
+import SearchTab from './tabs/SearchTab';
+import ReconciliationTab from './tabs/ReconciliationTab';
+import SharedLinksTab from './tabs/SharedLinksTab';
+import ProfileTab from './tabs/ProfileTab';
+import UploadQueueIndicator from './UploadQueueIndicator';
+import SearchBar from './SearchBar';
+import DevIdentitySwitcher from './DevIdentitySwitcher';
 
 const S3Dashboard: React.FC = () => {
   const { config, clearConfig } = useS3Config();
@@ -52,14 +61,19 @@ const S3Dashboard: React.FC = () => {
   const userInfo = authService.getUserInfo();
   const isAdmin = authService.isAdmin();
 
-  const handleLogout = () => {
-    // Clear auth and config
-    authService.clearAuth();
+  const handleLogout = async () => {
+    // End the session and clear auth and config
+    await authService.signOut();
     clearConfig();
     // Instead of navigating to localhost:3000, reload the page to go back to login
     window.location.href = window.location.origin;
   };
 
+  // Reload so tabs, routes and cached queries follow the new identity
+  const handleIdentitySwitched = () => {
+    window.location.assign('/upload');
+  };
+
   const handleUserMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
     setUserMenuAnchor(event.currentTarget);
   };
@@ -95,7 +109,14 @@ const S3Dashboard: React.FC = () => {
       label: 'Delete',
       icon: <Delete />,
       component: <DeleteTab />,
-      visible: isAdmin, // Only show to admin users
+      visible: authService.hasAnyProjectPermission('delete'),
+    },
+    {
+      path: '/reconciliation',
+      label: 'Reconciliation',
+      icon: <CompareArrows />,
+      component: <ReconciliationTab />,
+      visible: true,
     },
     {
       path: '/schema-validation',
@@ -104,6 +125,13 @@ const S3Dashboard: React.FC = () => {
       component: <SchemaValidationTab />,
       visible: true,
     },
+    {
+      path: '/shared-links',
+      label: 'Shared Links',
+      icon: <Share />,
+      component: <SharedLinksTab />,
+      visible: true,
+    },
     {
       path: '/user-management',
       label: 'User Management',
@@ -126,6 +154,8 @@ const S3Dashboard: React.FC = () => {
   // Get current tab value from pathname
   const getCurrentTab = () => {
     const currentPath = location.pathname;
+    // Search results and the profile are reached from the header, not a tab
+    if (currentPath === '/search' || currentPath === '/profile') return false;
     const currentTab = visibleTabs.find(tab => tab.path === currentPath);
     return currentTab ? currentPath : '/upload'; // Default to upload
   };
@@ -137,7 +167,8 @@ const S3Dashboard: React.FC = () => {
   // Redirect to upload if on root path or if accessing restricted tab
   React.useEffect(() => {
     const currentPath = location.pathname;
-    if (currentPath === '/' || (!visibleTabs.find(tab => tab.path === currentPath))) {
+    const isHeaderPage = currentPath === '/search' || currentPath === '/profile';
+    if (currentPath === '/' || (!isHeaderPage && !visibleTabs.find(tab => tab.path === currentPath))) {
       navigate('/upload', { replace: true });
     }
   }, [location.pathname, navigate, visibleTabs]);
@@ -292,6 +323,8 @@ const S3Dashboard: React.FC = () => {
             
             {/* User Menu */}
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <SearchBar />
+              <UploadQueueIndicator />
               <Box
                 sx={{
                   display: 'flex',
@@ -465,8 +498,31 @@ const S3Dashboard: React.FC = () => {
           </Box>
         </Box>
         
+        {/* Development only: act as another role or user */}
+        <DevIdentitySwitcher
+          buttonLabel="Switch Identity"
+          onSwitched={handleIdentitySwitched}
+          sx={{ px: 4, pt: 3, pb: 1 }}
+        />
+
         {/* Menu Items */}
         <Box sx={{ py: 2 }}>
+          <MenuItem
+            onClick={() => {
+              handleUserMenuClose();
+              navigate('/profile');
+            }}
+            sx={{ py: 1.5 }}
+          >
+            <ListItemIcon>
+              <AccountCircle fontSize="small" />
+            </ListItemIcon>
+            <ListItemText>
+              <Typography variant="body2" sx={{ fontWeight: 600, fontSize: '0.9rem' }}>
+                Profile & API Tokens
+              </Typography>
+            </ListItemText>
+          </MenuItem>
           <MenuItem 
             onClick={() => {
               handleUserMenuClose();
@@ -566,7 +622,11 @@ const S3Dashboard: React.FC = () => {
               <Route path="/download" element={<DownloadTab />} />
               <Route path="/browse" element={<BrowseTab />} />
               <Route path="/delete" element={<DeleteTab />} />
+              <Route path="/reconciliation" element={<ReconciliationTab />} />
               <Route path="/schema-validation" element={<SchemaValidationTab />} />
+              <Route path="/search" element={<SearchTab />} />
+              <Route path="/profile" element={<ProfileTab />} />
+              <Route path="/shared-links" element={<SharedLinksTab />} />
               {isAdmin && <Route path="/user-management" element={<UserManagementTab />} />}
               {isAdmin && <Route path="/activity" element={<ActivityTab />} />}
               <Route path="/" element={<UploadTab />} />
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { InputBase, Box } from '@mui/material';
+import { Search } from '@mui/icons-material';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+
+// Header search box; submitting opens the search results page with the query in the URL
+const SearchBar: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const currentQuery = location.pathname === '/search' ? searchParams.get('q') || '' : '';
+  const [query, setQuery] = useState(currentQuery);
+
+  useEffect(() => {
+    setQuery(currentQuery);
+  }, [currentQuery]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    // Keep the filters of an open search and only replace the query
+    const params = new URLSearchParams(location.pathname === '/search' ? searchParams : undefined);
+    params.set('q', trimmed);
+    navigate(`/search?${params.toString()}`);
+  };
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit}
+      sx={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 1,
+        px: 2,
+        py: 0.75,
+        borderRadius: 3,
+        background: 'rgba(255, 255, 255, 0.1)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        backdropFilter: 'blur(10px)',
+        width: { xs: '100%', sm: 240, md: 320 },
+      }}
+    >
+      <Search sx={{ color: '#cbd5e1', fontSize: 20 }} />
+      <InputBase
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search files, e.g. workitem_*.json"
+        inputProps={{ 'aria-label': 'Search files' }}
+        sx={{ color: '#ffffff', fontSize: '0.875rem', flex: 1 }}
+      />
+    </Box>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  FormControlLabel,
+  Checkbox,
+  InputAdornment,
+  IconButton,
+  Tooltip,
+  Alert,
+  Avatar,
+} from '@mui/material';
+import { Share, ContentCopy } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { S3File, ShareLink } from '../types';
+import { useShareLinks, useCreateShareLink } from '../hooks/useS3';
+
+export const EXPIRY_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 7 * 24, label: '7 days' },
+  { hours: 30 * 24, label: '30 days' },
+];
+
+// Matches the server's minimum for share link passwords
+const MIN_PASSWORD_LENGTH = 8;
+
+export const copyLinkToClipboard = async (url: string) => {
+  try {
+    await navigator.clipboard.writeText(url);
+    toast.success('Link copied to clipboard');
+  } catch (error) {
+    toast.error('Could not copy the link; select it and copy it manually');
+  }
+};
+
+interface ShareLinkDialogProps {
+  file: S3File;
+  onClose: () => void;
+}
+
+const ShareLinkDialog: React.FC<ShareLinkDialogProps> = ({ file, onClose }) => {
+  const [expiresInHours, setExpiresInHours] = useState(24);
+  const [limitDownloads, setLimitDownloads] = useState(false);
+  const [maxDownloads, setMaxDownloads] = useState('1');
+  const [password, setPassword] = useState('');
+  const [createdLink, setCreatedLink] = useState<ShareLink | null>(null);
+
+  const { data: listing } = useShareLinks();
+  const createMutation = useCreateShareLink();
+
+  const maxExpiryHours = listing?.maxExpiryHours ?? 24;
+  const expiryOptions = EXPIRY_OPTIONS.filter(option => option.hours <= maxExpiryHours);
+  const downloadLimit = Number(maxDownloads);
+  const isValid = (!limitDownloads || (Number.isInteger(downloadLimit) && downloadLimit > 0)) &&
+    (!password || password.length >= MIN_PASSWORD_LENGTH);
+
+  const handleCreate = async () => {
+    try {
+      const link = await createMutation.mutateAsync({
+        key: file.key,
+        expiresInHours,
+        maxDownloads: limitDownloads ? downloadLimit : undefined,
+        password: password || undefined,
+      });
+      setCreatedLink(link);
+      copyLinkToClipboard(link.url);
+    } catch (error) {
+      // Error is handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Avatar sx={{ bgcolor: 'primary.main' }}>
+            <Share />
+          </Avatar>
+          <Box>
+            <Typography variant="h6">Share Link</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+              {file.key.split('/').pop()}
+            </Typography>
+          </Box>
+        </Box>
+      </DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {createdLink ? (
+          <>
+            <TextField
+              label="Link"
+              value={createdLink.url}
+              InputProps={{
+                readOnly: true,
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <Tooltip title="Copy link">
+                      <IconButton onClick={() => copyLinkToClipboard(createdLink.url)} edge="end">
+                        <ContentCopy />
+                      </IconButton>
+                    </Tooltip>
+                  </InputAdornment>
+                ),
+              }}
+              onFocus={(e) => e.target.select()}
+            />
+            <Alert severity="info">
+              Anyone with this link can download the file until {createdLink.expiresAt.toLocaleString()}
+              {createdLink.maxDownloads ? `, at most ${createdLink.maxDownloads} time${createdLink.maxDownloads === 1 ? '' : 's'}` : ''}
+              {createdLink.hasPassword ? ', after entering the password' : ''}. The link stops working if you lose
+              access to the file, and you can revoke it under Shared Links.
+            </Alert>
+          </>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              The link points to this app and hands out a fresh download URL each time it is opened, so it keeps
+              working until it expires or is revoked.
+            </Typography>
+            <FormControl fullWidth>
+              <InputLabel>Expires after</InputLabel>
+              <Select
+                value={expiresInHours}
+                label="Expires after"
+                onChange={(e) => setExpiresInHours(Number(e.target.value))}
+              >
+                {expiryOptions.map(option => (
+                  <MenuItem key={option.hours} value={option.hours}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <FormControlLabel
+                control={<Checkbox checked={limitDownloads} onChange={(e) => setLimitDownloads(e.target.checked)} />}
+                label="Limit downloads"
+              />
+              {limitDownloads && (
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Downloads"
+                  value={maxDownloads}
+                  onChange={(e) => setMaxDownloads(e.target.value)}
+                  inputProps={{ min: 1, step: 1 }}
+                  sx={{ width: 140 }}
+                />
+              )}
+            </Box>
+            <TextField
+              type="password"
+              label="Password (optional)"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              error={!!password && password.length < MIN_PASSWORD_LENGTH}
+              helperText={password && password.length < MIN_PASSWORD_LENGTH ? `Use at least ${MIN_PASSWORD_LENGTH} characters` : 'Recipients must enter it before downloading'}
+              autoComplete="new-password"
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 1 }}>
+        <Button onClick={onClose} sx={{ textTransform: 'none' }}>
+          {createdLink ? 'Done' : 'Cancel'}
+        </Button>
+        {!createdLink && (
+          <Button
+            variant="contained"
+            onClick={handleCreate}
+            disabled={!isValid || createMutation.isPending}
+            sx={{ textTransform: 'none' }}
+          >
+            {createMutation.isPending ? 'Creating...' : 'Create Link'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShareLinkDialog;
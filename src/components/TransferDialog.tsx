@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  CircularProgress,
+  LinearProgress,
+  Avatar,
+  TextField,
+  Autocomplete,
+  ToggleButton,
+  ToggleButtonGroup,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+} from '@mui/material';
+import { DriveFileMove } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { useTopLevelFolders, useSubfolders, useTransferPreview, useStartTransfer, useTransferJob } from '../hooks/useS3';
+import { apiService } from '../services/apiService';
+import { BulkDeleteSelection, TransferConflictAction, TransferJob, TransferRequest } from '../types';
+
+export type TransferMode = 'copy' | 'move' | 'rename';
+
+interface TransferDialogProps {
+  selection: BulkDeleteSelection;
+  label: string;
+  initialMode?: TransferMode;
+  onClose: () => void;
+  onDone?: (job: TransferJob) => void;
+}
+
+const MODE_LABELS: Record<TransferMode, string> = {
+  copy: 'Copy',
+  move: 'Move',
+  rename: 'Rename',
+};
+
+const CONFLICT_LABELS: Record<TransferConflictAction, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  keepBoth: 'Keep both',
+};
+
+// "a/b/c/" -> "a/b/", "a/b/file.json" -> "a/b/"
+const getParentFolder = (path: string) => {
+  const trimmed = path.endsWith('/') ? path.slice(0, -1) : path;
+  return trimmed.slice(0, trimmed.lastIndexOf('/') + 1);
+};
+
+const getBaseName = (path: string) => path.split('/').filter(Boolean).pop() || '';
+
+// Turn the dialog inputs into the request the server expects; null while they are incomplete
+const buildRequest = (
+  selection: BulkDeleteSelection,
+  mode: TransferMode,
+  destination: string,
+  newName: string
+): TransferRequest | null => {
+  const { keys, prefix } = selection;
+
+  if (mode === 'rename') {
+    const name = newName.trim();
+    if (!name || name.includes('/')) return null;
+    if (prefix) {
+      return { operation: 'move', prefix, destination: `${getParentFolder(prefix)}${name}/` };
+    }
+    return keys ? { operation: 'move', keys, destination: getParentFolder(keys[0]), newName: name } : null;
+  }
+
+  const folder = destination.trim().replace(/^\/+/, '');
+  if (!folder) return null;
+  const normalized = folder.endsWith('/') ? folder : `${folder}/`;
+  // A folder keeps its name inside the destination
+  return prefix
+    ? { operation: mode, prefix, destination: `${normalized}${getBaseName(prefix)}/` }
+    : { operation: mode, keys, destination: normalized };
+};
+
+const TransferDialog: React.FC<TransferDialogProps> = ({ selection, label, initialMode = 'move', onClose, onDone }) => {
+  const sourceFolder = selection.prefix ? getParentFolder(selection.prefix) : getParentFolder(selection.keys?.[0] || '');
+  const canRename = !!selection.prefix || selection.keys?.length === 1;
+
+  const [mode, setMode] = useState<TransferMode>(initialMode === 'rename' && !canRename ? 'move' : initialMode);
+  const [destination, setDestination] = useState(sourceFolder);
+  const [newName, setNewName] = useState(getBaseName(selection.prefix || selection.keys?.[0] || ''));
+  const [conflict, setConflict] = useState<TransferConflictAction>('skip');
+  // The request being reviewed; editing the inputs goes back to editing
+  const [reviewRequest, setReviewRequest] = useState<TransferRequest | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  // Suggest the subfolders of the folder typed so far
+  const browseFolder = destination.slice(0, destination.lastIndexOf('/') + 1);
+  const { data: topLevelFolders = [] } = useTopLevelFolders();
+  const { data: subfolders = [] } = useSubfolders(browseFolder, !!browseFolder);
+  const folderOptions = (browseFolder ? subfolders : topLevelFolders).map(folder => folder.path);
+
+  const { data: preview, isLoading: previewLoading, isFetching: previewFetching, error: previewError, refetch } =
+    useTransferPreview(reviewRequest);
+  const startMutation = useStartTransfer();
+  const { data: job } = useTransferJob(jobId);
+
+  const request = buildRequest(selection, mode, destination, newName);
+  const isRunning = !!jobId && (!job || job.status === 'running');
+  const conflicts = preview?.conflicts ?? [];
+
+  const edit = (update: () => void) => {
+    update();
+    setReviewRequest(null);
+  };
+
+  const handleStart = () => {
+    if (!reviewRequest || !preview) return;
+    startMutation.mutate(
+      { request: reviewRequest, expectedCount: preview.count, conflict: conflicts.length > 0 ? conflict : undefined },
+      {
+        onSuccess: (startedJob) => setJobId(startedJob.id),
+        onError: (error: Error & { code?: string }) => {
+          if (error.code === 'SELECTION_CHANGED' || error.code === 'TARGET_EXISTS') {
+            toast.error(error.message);
+            refetch();
+          }
+        },
+      }
+    );
+  };
+
+  const handleClose = () => {
+    if (job && job.status !== 'running') {
+      onDone?.(job);
+    }
+    onClose();
+  };
+
+  const renderProgress = () => {
+    if (!job) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress size={32} />
+        </Box>
+      );
+    }
+
+    const percent = job.total > 0 ? (job.done / job.total) * 100 : 100;
+    return (
+      <>
+        <Typography variant="body2" sx={{ mb: 1 }}>
+          {job.status === 'running' ? (job.operation === 'move' ? 'Moving' : 'Copying') : 'Finished'}: {job.done} of {job.total} files
+          ({apiService.formatFileSize(job.transferredSize)} of {apiService.formatFileSize(job.totalSize)})
+        </Typography>
+        <LinearProgress variant="determinate" value={percent} sx={{ height: 8, borderRadius: 4, mb: 2 }} />
+        {job.skipped > 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>{job.skipped} existing file{job.skipped === 1 ? ' was' : 's were'} skipped.</Alert>
+        )}
+        {job.status === 'failed' && (
+          <Alert severity="error" sx={{ mb: 2 }}>The operation stopped: {job.error}</Alert>
+        )}
+        {job.failed.length > 0 && (
+          <Alert severity="warning">
+            <Typography variant="body2" sx={{ mb: 1 }}>{job.failed.length} file{job.failed.length === 1 ? '' : 's'} failed:</Typography>
+            {job.failed.slice(0, 20).map(item => (
+              <Typography key={item.key} variant="caption" component="div" sx={{ wordBreak: 'break-all' }}>
+                {item.key}: {item.error}
+              </Typography>
+            ))}
+          </Alert>
+        )}
+      </>
+    );
+  };
+
+  const renderPreview = () => {
+    if (previewLoading) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={28} />
+        </Box>
+      );
+    }
+    if (previewError) {
+      return <Alert severity="error">{(previewError as Error).message}</Alert>;
+    }
+    if (!preview) return null;
+
+    return (
+      <>
+        <Box sx={{ display: 'flex', gap: 1, mb: 2, alignItems: 'center' }}>
+          <Chip label={`${preview.count} file${preview.count === 1 ? '' : 's'}`} color="primary" variant="outlined" />
+          <Chip label={apiService.formatFileSize(preview.totalSize)} variant="outlined" />
+          {previewFetching && <CircularProgress size={16} />}
+        </Box>
+
+        {preview.missing.length > 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            {preview.missing.length} selected file{preview.missing.length === 1 ? ' no longer exists' : 's no longer exist'} and
+            will be skipped.
+          </Alert>
+        )}
+
+        {preview.count === 0 ? (
+          <Alert severity="info">There are no files to transfer.</Alert>
+        ) : conflicts.length > 0 && (
+          <Alert severity="warning" sx={{ '& .MuiAlert-message': { width: '100%' } }}>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              {conflicts.length} file{conflicts.length === 1 ? ' already exists' : 's already exist'} at the destination:
+            </Typography>
+            <Box sx={{ maxHeight: 160, overflowY: 'auto', mb: 1 }}>
+              {conflicts.map(item => (
+                <Typography key={item.key} variant="caption" component="div" sx={{ wordBreak: 'break-all' }}>
+                  {item.target}
+                </Typography>
+              ))}
+            </Box>
+            <RadioGroup row value={conflict} onChange={(e) => setConflict(e.target.value as TransferConflictAction)}>
+              {Object.entries(CONFLICT_LABELS).map(([value, conflictLabel]) => (
+                <FormControlLabel key={value} value={value} control={<Radio size="small" />} label={conflictLabel} />
+              ))}
+            </RadioGroup>
+          </Alert>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Dialog open onClose={isRunning ? undefined : handleClose} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Avatar sx={{ bgcolor: 'primary.main' }}>
+            <DriveFileMove />
+          </Avatar>
+          <Box>
+            <Typography variant="h6">{MODE_LABELS[mode]} {label}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Review the files and any conflicts before starting
+            </Typography>
+          </Box>
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {jobId ? renderProgress() : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={mode}
+              onChange={(_, value) => value && edit(() => setMode(value))}
+            >
+              <ToggleButton value="copy" sx={{ textTransform: 'none' }}>Copy</ToggleButton>
+              <ToggleButton value="move" sx={{ textTransform: 'none' }}>Move</ToggleButton>
+              {canRename && <ToggleButton value="rename" sx={{ textTransform: 'none' }}>Rename</ToggleButton>}
+            </ToggleButtonGroup>
+
+            {mode === 'rename' ? (
+              <TextField
+                label={selection.prefix ? 'New folder name' : 'New file name'}
+                value={newName}
+                onChange={(e) => edit(() => setNewName(e.target.value))}
+                helperText={newName.includes('/') ? 'Names cannot contain "/"' : `Stays in ${sourceFolder || 'the bucket root'}`}
+                error={newName.includes('/')}
+              />
+            ) : (
+              <Autocomplete
+                freeSolo
+                options={folderOptions}
+                inputValue={destination}
+                onInputChange={(_, value) => edit(() => setDestination(value))}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Destination folder"
+                    helperText={selection.prefix
+                      ? `The folder ${getBaseName(selection.prefix)} is placed inside this folder`
+                      : 'Files keep their names inside this folder'}
+                  />
+                )}
+              />
+            )}
+
+            {reviewRequest && renderPreview()}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 1 }}>
+        <Button onClick={handleClose} disabled={isRunning} sx={{ textTransform: 'none' }}>
+          {jobId ? 'Close' : 'Cancel'}
+        </Button>
+        {!jobId && (reviewRequest ? (
+          <Button
+            variant="contained"
+            onClick={handleStart}
+            disabled={!preview || preview.count === 0 || previewFetching || startMutation.isPending}
+            sx={{ textTransform: 'none' }}
+          >
+            {startMutation.isPending ? 'Starting...' : `${MODE_LABELS[mode]} ${preview?.count ?? ''} file${preview?.count === 1 ? '' : 's'}`}
+          </Button>
+        ) : (
+          <Button variant="contained" onClick={() => setReviewRequest(request)} disabled={!request} sx={{ textTransform: 'none' }}>
+            Review
+          </Button>
+        ))}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TransferDialog;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Select,
+  MenuItem,
+  CircularProgress,
+  Avatar,
+} from '@mui/material';
+import { ContentCopy, CompareArrows } from '@mui/icons-material';
+import { s3Service } from '../services/s3Service';
+import { etagService, ETagComparison } from '../services/etagService';
+import { S3File } from '../types';
+
+export type UploadConflictAction = 'skip' | 'overwrite' | 'keepBoth';
+
+export interface UploadConflict {
+  file: File;
+  key: string;
+  relativePath: string;
+  existing: S3File;
+}
+
+interface UploadConflictDialogProps {
+  conflicts: UploadConflict[];
+  onResolve: (actions: Record<string, UploadConflictAction>) => void;
+  onCancel: () => void;
+  // Replacing existing files needs delete access; without it conflicts can only be skipped or kept both
+  canOverwrite: boolean;
+}
+
+const ACTION_LABELS: Record<UploadConflictAction, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  keepBoth: 'Keep both',
+};
+
+const COMPARISON_CHIPS: Record<ETagComparison, { label: string; color: 'success' | 'warning' | 'default' }> = {
+  identical: { label: 'Identical', color: 'success' },
+  different: { label: 'Changed', color: 'warning' },
+  unknown: { label: 'Cannot compare', color: 'default' },
+};
+
+const UploadConflictDialog: React.FC<UploadConflictDialogProps> = ({ conflicts, onResolve, onCancel, canOverwrite }) => {
+  const availableActions = (Object.keys(ACTION_LABELS) as UploadConflictAction[])
+    .filter(action => canOverwrite || action !== 'overwrite');
+  const [actions, setActions] = useState<Record<string, UploadConflictAction>>(() =>
+    Object.fromEntries(conflicts.map(conflict => [conflict.key, 'skip' as UploadConflictAction]))
+  );
+  const [comparisons, setComparisons] = useState<Record<string, ETagComparison>>({});
+  const [comparingKey, setComparingKey] = useState<string | null>(null);
+
+  const setAction = (key: string, action: UploadConflictAction) => {
+    setActions(prev => ({ ...prev, [key]: action }));
+  };
+
+  const applyToAll = (action: UploadConflictAction) => {
+    setActions(Object.fromEntries(conflicts.map(conflict => [conflict.key, action])));
+  };
+
+  // Hash each local file and compare it with the S3 ETag: identical files are skipped, changed ones overwritten
+  // (or kept both when the user may not overwrite)
+  const compareAll = async () => {
+    for (const conflict of conflicts) {
+      setComparingKey(conflict.key);
+      let result: ETagComparison;
+      try {
+        result = await etagService.compare(conflict.file, conflict.existing);
+      } catch (error) {
+        console.error(`Failed to compare ${conflict.relativePath}:`, error);
+        result = 'unknown';
+      }
+
+      setComparisons(prev => ({ ...prev, [conflict.key]: result }));
+      if (result !== 'unknown') {
+        setAction(conflict.key, result === 'identical' ? 'skip' : canOverwrite ? 'overwrite' : 'keepBoth');
+      }
+    }
+    setComparingKey(null);
+  };
+
+  const isComparing = comparingKey !== null;
+
+  return (
+    <Dialog open onClose={isComparing ? undefined : onCancel} maxWidth="md" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Avatar sx={{ bgcolor: 'warning.main' }}>
+            <ContentCopy />
+          </Avatar>
+          <Typography variant="h6">
+            {conflicts.length} file{conflicts.length === 1 ? '' : 's'} already exist{conflicts.length === 1 ? 's' : ''}
+          </Typography>
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {canOverwrite
+            ? 'Overwriting replaces the existing file in S3. "Keep both" uploads the new file with a numbered suffix.'
+            : 'Replacing existing files needs delete access to this project. "Keep both" uploads the new file with a numbered suffix.'}
+        </Alert>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+          <Typography variant="body2" color="text.secondary">Apply to all:</Typography>
+          {availableActions.map(action => (
+            <Button key={action} size="small" variant="outlined" onClick={() => applyToAll(action)} disabled={isComparing}>
+              {ACTION_LABELS[action]}
+            </Button>
+          ))}
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={isComparing ? <CircularProgress size={14} /> : <CompareArrows />}
+            onClick={compareAll}
+            disabled={isComparing}
+          >
+            Compare by ETag
+          </Button>
+        </Box>
+
+        <Box sx={{ maxHeight: 360, overflowY: 'auto' }}>
+          {conflicts.map(conflict => {
+            const comparison = comparisons[conflict.key];
+            return (
+              <Box
+                key={conflict.key}
+                sx={{ display: 'flex', alignItems: 'center', gap: 2, py: 1, borderTop: '1px solid', borderColor: 'divider' }}
+              >
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>
+                    {conflict.relativePath}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    New: {s3Service.formatFileSize(conflict.file.size)} · {new Date(conflict.file.lastModified).toLocaleString()}
+                    {' — '}
+                    Existing: {s3Service.formatFileSize(conflict.existing.size)} · {conflict.existing.lastModified.toLocaleString()}
+                  </Typography>
+                </Box>
+                {comparingKey === conflict.key && <CircularProgress size={16} />}
+                {comparison && (
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    label={COMPARISON_CHIPS[comparison].label}
+                    color={COMPARISON_CHIPS[comparison].color}
+                  />
+                )}
+                <Select
+                  size="small"
+                  value={actions[conflict.key] ?? 'skip'}
+                  onChange={(e) => setAction(conflict.key, e.target.value as UploadConflictAction)}
+                  disabled={isComparing}
+                  sx={{ minWidth: 130 }}
+                >
+                  {availableActions.map(action => (
+                    <MenuItem key={action} value={action}>{ACTION_LABELS[action]}</MenuItem>
+                  ))}
+                </Select>
+              </Box>
+            );
+          })}
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 1 }}>
+        <Button onClick={onCancel} disabled={isComparing} sx={{ textTransform: 'none' }}>
+          Skip All
+        </Button>
+        <Button variant="contained" onClick={() => onResolve(actions)} disabled={isComparing} sx={{ textTransform: 'none' }}>
+          Continue
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default UploadConflictDialog;
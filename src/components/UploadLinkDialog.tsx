@@ -0,0 +1,240 @@
+import React, { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  InputAdornment,
+  IconButton,
+  Tooltip,
+  Alert,
+  Avatar,
+  Autocomplete,
+  Chip,
+} from '@mui/material';
+import { CloudUpload, ContentCopy, Schema } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { UploadLink } from '../types';
+import { useTopLevelFolders, useSubfolders, useUploadLinks, useCreateUploadLink } from '../hooks/useS3';
+import { apiService } from '../services/apiService';
+import { EXPIRY_OPTIONS, copyLinkToClipboard } from './ShareLinkDialog';
+
+interface UploadLinkDialogProps {
+  // Folder the dialog starts with, e.g. the folder being browsed
+  initialPrefix?: string;
+  onClose: () => void;
+}
+
+const UploadLinkDialog: React.FC<UploadLinkDialogProps> = ({ initialPrefix = '', onClose }) => {
+  const [prefix, setPrefix] = useState(initialPrefix);
+  const [expiresInHours, setExpiresInHours] = useState(7 * 24);
+  const [maxFileSizeMb, setMaxFileSizeMb] = useState('');
+  const [maxTotalSizeMb, setMaxTotalSizeMb] = useState('');
+  const [extensions, setExtensions] = useState('');
+  const [schema, setSchema] = useState<{ name: string; content: object } | null>(null);
+  const [message, setMessage] = useState('');
+  const [createdLink, setCreatedLink] = useState<UploadLink | null>(null);
+  const schemaInputRef = useRef<HTMLInputElement>(null);
+
+  // Suggest the subfolders of the folder typed so far
+  const browseFolder = prefix.slice(0, prefix.lastIndexOf('/') + 1);
+  const { data: topLevelFolders = [] } = useTopLevelFolders();
+  const { data: subfolders = [] } = useSubfolders(browseFolder, !!browseFolder);
+  const folderOptions = (browseFolder ? subfolders : topLevelFolders).map(folder => folder.path);
+
+  const { data: listing } = useUploadLinks();
+  const createMutation = useCreateUploadLink();
+
+  const maxExpiryHours = listing?.maxExpiryHours ?? 24;
+  const expiryOptions = EXPIRY_OPTIONS.filter(option => option.hours <= maxExpiryHours);
+  const maxFileSizeLimitMb = listing ? Math.floor(listing.maxFileSize / (1024 * 1024)) : undefined;
+  const sizeMb = Number(maxFileSizeMb);
+  const sizeError = !!maxFileSizeMb && (!(sizeMb > 0) || (!!maxFileSizeLimitMb && sizeMb > maxFileSizeLimitMb));
+  const maxTotalSizeLimitMb = listing ? Math.floor(listing.maxTotalSize / (1024 * 1024)) : undefined;
+  const totalSizeMb = Number(maxTotalSizeMb);
+  const totalSizeError = !!maxTotalSizeMb && (!(totalSizeMb > 0) || (!!maxTotalSizeLimitMb && totalSizeMb > maxTotalSizeLimitMb));
+  const allowedExtensions = extensions.split(/[\s,]+/).filter(Boolean);
+  const isValid = !!prefix.trim() && !sizeError && !totalSizeError;
+
+  const handleSchemaSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const content = JSON.parse(await file.text());
+      if (!content || typeof content !== 'object' || Array.isArray(content)) {
+        throw new Error('not a JSON object');
+      }
+      setSchema({ name: file.name, content });
+    } catch (error) {
+      toast.error(`"${file.name}" is not a valid JSON schema`);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const link = await createMutation.mutateAsync({
+        prefix: prefix.trim(),
+        expiresInHours,
+        maxFileSize: maxFileSizeMb ? Math.round(sizeMb * 1024 * 1024) : undefined,
+        maxTotalSize: maxTotalSizeMb ? Math.round(totalSizeMb * 1024 * 1024) : undefined,
+        allowedExtensions,
+        schema: schema?.content,
+        schemaName: schema?.name,
+        message: message.trim() || undefined,
+      });
+      setCreatedLink(link);
+      copyLinkToClipboard(link.url);
+    } catch (error) {
+      // Error is handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Avatar sx={{ bgcolor: 'primary.main' }}>
+            <CloudUpload />
+          </Avatar>
+          <Box>
+            <Typography variant="h6">Upload Link</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Let someone without an account upload files into one folder
+            </Typography>
+          </Box>
+        </Box>
+      </DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {createdLink ? (
+          <>
+            <TextField
+              label="Link"
+              value={createdLink.url}
+              InputProps={{
+                readOnly: true,
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <Tooltip title="Copy link">
+                      <IconButton onClick={() => copyLinkToClipboard(createdLink.url)} edge="end">
+                        <ContentCopy />
+                      </IconButton>
+                    </Tooltip>
+                  </InputAdornment>
+                ),
+              }}
+              onFocus={(e) => e.target.select()}
+            />
+            <Alert severity="info">
+              Anyone with this link can upload files into <code>{createdLink.prefix}</code> until{' '}
+              {createdLink.expiresAt.toLocaleString()}. Uploads are logged under your name, and you can revoke the link under
+              Shared Links.
+            </Alert>
+          </>
+        ) : (
+          <>
+            <Autocomplete
+              freeSolo
+              options={folderOptions}
+              inputValue={prefix}
+              onInputChange={(_, value) => setPrefix(value)}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Target folder"
+                  helperText="e.g. project/outputData/2025-05-09/; files with the same name as an existing file are rejected"
+                />
+              )}
+            />
+            <FormControl fullWidth>
+              <InputLabel>Expires after</InputLabel>
+              <Select
+                value={expiresInHours}
+                label="Expires after"
+                onChange={(e) => setExpiresInHours(Number(e.target.value))}
+              >
+                {expiryOptions.map(option => (
+                  <MenuItem key={option.hours} value={option.hours}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                type="number"
+                label="Max file size (MB)"
+                value={maxFileSizeMb}
+                onChange={(e) => setMaxFileSizeMb(e.target.value)}
+                error={sizeError}
+                helperText={listing ? `Up to ${apiService.formatFileSize(listing.maxFileSize)}` : ' '}
+                inputProps={{ min: 1 }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                type="number"
+                label="Total size limit (MB)"
+                value={maxTotalSizeMb}
+                onChange={(e) => setMaxTotalSizeMb(e.target.value)}
+                error={totalSizeError}
+                helperText={listing ? `Up to ${apiService.formatFileSize(listing.maxTotalSize)}` : ' '}
+                inputProps={{ min: 1 }}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <TextField
+              label="Allowed file types"
+              value={extensions}
+              onChange={(e) => setExtensions(e.target.value)}
+              placeholder=".json, .csv"
+              helperText="Leave empty to accept any type"
+            />
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <input ref={schemaInputRef} type="file" accept=".json,application/json" hidden onChange={handleSchemaSelected} />
+              <Button
+                variant="outlined"
+                startIcon={<Schema />}
+                onClick={() => schemaInputRef.current?.click()}
+                sx={{ textTransform: 'none' }}
+              >
+                {schema ? 'Change Schema' : 'Validate JSON Against a Schema'}
+              </Button>
+              {schema && <Chip label={schema.name} onDelete={() => setSchema(null)} />}
+            </Box>
+            <TextField
+              label="Message for the uploader (optional)"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              multiline
+              minRows={2}
+              inputProps={{ maxLength: 1000 }}
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 1 }}>
+        <Button onClick={onClose} sx={{ textTransform: 'none' }}>
+          {createdLink ? 'Done' : 'Cancel'}
+        </Button>
+        {!createdLink && (
+          <Button
+            variant="contained"
+            onClick={handleCreate}
+            disabled={!isValid || createMutation.isPending}
+            sx={{ textTransform: 'none' }}
+          >
+            {createMutation.isPending ? 'Creating...' : 'Create Link'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default UploadLinkDialog;
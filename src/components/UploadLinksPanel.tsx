@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  IconButton,
+} from '@mui/material';
+import { Add, ContentCopy, LinkOff, Schema } from '@mui/icons-material';
+import { useUploadLinks, useRevokeUploadLink } from '../hooks/useS3';
+import { apiService } from '../services/apiService';
+import { UploadLinkStatus } from '../types';
+import { copyLinkToClipboard } from './ShareLinkDialog';
+import UploadLinkDialog from './UploadLinkDialog';
+
+const STATUS_LABELS: Record<UploadLinkStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked',
+  full: 'Full',
+};
+
+const STATUS_COLORS: Record<UploadLinkStatus, 'success' | 'default' | 'error' | 'warning'> = {
+  active: 'success',
+  expired: 'default',
+  revoked: 'error',
+  full: 'warning',
+};
+
+// Admin list of upload request links, shown on the Shared Links tab
+const UploadLinksPanel: React.FC = () => {
+  const { data, isLoading, error } = useUploadLinks();
+  const revokeMutation = useRevokeUploadLink();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const links = data?.links || [];
+
+  return (
+    <Box
+      sx={{
+        background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
+        borderRadius: 3,
+        border: '1px solid #e2e8f0',
+        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+        p: 4,
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+        <Box sx={{ flex: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a' }}>
+            Upload Links
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Let vendors upload into one folder without an account; their uploads are logged under the link's creator
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<Add />}
+          onClick={() => setDialogOpen(true)}
+          sx={{ textTransform: 'none', fontWeight: 600 }}
+        >
+          New Upload Link
+        </Button>
+      </Box>
+
+      {error ? (
+        <Alert severity="error">Failed to load upload links: {(error as Error).message}</Alert>
+      ) : isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress size={32} />
+        </Box>
+      ) : links.length === 0 ? (
+        <Alert severity="info">No upload links yet.</Alert>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Folder</TableCell>
+              <TableCell>Rules</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Uploads</TableCell>
+              <TableCell>Expires</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {links.map(link => (
+              <TableRow key={link.id} hover>
+                <TableCell>
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    {link.prefix}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    by {link.createdByName} · {link.createdAt.toLocaleString()}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2">
+                    Up to {apiService.formatFileSize(link.maxFileSize)} each, {apiService.formatFileSize(link.maxTotalSize)} in total
+                    {link.allowedExtensions.length > 0 ? `, ${link.allowedExtensions.join(' ')}` : ''}
+                  </Typography>
+                  {link.hasSchema && (
+                    <Chip icon={<Schema />} label={link.schemaName} size="small" variant="outlined" sx={{ mt: 0.5 }} />
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Chip label={STATUS_LABELS[link.status]} color={STATUS_COLORS[link.status]} size="small" />
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2">
+                    {link.uploadCount} file{link.uploadCount === 1 ? '' : 's'} ({apiService.formatFileSize(link.uploadedSize)})
+                  </Typography>
+                  {link.lastUploadAt && (
+                    <Typography variant="caption" color="text.secondary">
+                      last {link.lastUploadAt.toLocaleString()}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2">{link.expiresAt.toLocaleString()}</Typography>
+                  {link.revokedAt && (
+                    <Typography variant="caption" color="text.secondary">
+                      revoked {link.revokedAt.toLocaleString()}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Copy link">
+                    <span>
+                      <IconButton
+                        size="small"
+                        onClick={() => copyLinkToClipboard(link.url)}
+                        disabled={link.status !== 'active'}
+                      >
+                        <ContentCopy fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Revoke link">
+                    <span>
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={() => revokeMutation.mutate({ id: link.id, prefix: link.prefix })}
+                        disabled={link.status !== 'active' || revokeMutation.isPending}
+                      >
+                        <LinkOff fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {dialogOpen && <UploadLinkDialog onClose={() => setDialogOpen(false)} />}
+    </Box>
+  );
+};
+
+export default UploadLinksPanel;
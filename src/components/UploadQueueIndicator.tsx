@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Popover,
+  LinearProgress,
+  CircularProgress,
+  Tooltip,
+} from '@mui/material';
+import {
+  CloudUpload,
+  Pause,
+  PlayArrow,
+  Close,
+  CheckCircle,
+  Error as ErrorIcon,
+} from '@mui/icons-material';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import { uploadQueue, ACTIVE_UPLOAD_STATUSES, UploadQueueItem } from '../services/uploadQueue';
+import { useS3Config } from '../contexts/S3ConfigContext';
+
+// Queue items shown in the header popover (pending items have not been started by the user yet)
+const isVisibleItem = (item: UploadQueueItem) => item.status !== 'pending';
+
+const UploadQueueIndicator: React.FC = () => {
+  const queue = useUploadQueue();
+  const queryClient = useQueryClient();
+  const { handleTokenExpiration } = useS3Config();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const visibleItems = queue.items.filter(isVisibleItem);
+  const activeItems = visibleItems.filter(item => ACTIVE_UPLOAD_STATUSES.includes(item.status));
+  const failedCount = visibleItems.filter(item => item.status === 'error').length;
+  const totalBytes = activeItems.reduce((sum, item) => sum + item.file.size, 0);
+  const loadedBytes = activeItems.reduce((sum, item) => sum + (item.uploadProgress?.loadedBytes ?? 0), 0);
+  const overallProgress = totalBytes > 0 ? Math.round((loadedBytes / totalBytes) * 100) : 0;
+
+  // Toasts and cache invalidation live here because the indicator stays mounted across tabs
+  useEffect(() => {
+    return uploadQueue.onEvent(({ type, item, error }) => {
+      if (type === 'completed') {
+        queryClient.invalidateQueries({ queryKey: ['s3', 'files'] });
+        toast.success(`File "${item.relativePath}" uploaded successfully!`);
+        return;
+      }
+      if (handleTokenExpiration(error)) {
+        return;
+      }
+      toast.error(`Failed to upload "${item.relativePath}": ${item.error}`);
+    });
+  }, [queryClient, handleTokenExpiration]);
+
+  // Closing the tab would abort running uploads
+  useEffect(() => {
+    if (activeItems.length === 0) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [activeItems.length]);
+
+  if (visibleItems.length === 0) {
+    return null;
+  }
+
+  const renderItemActions = (item: UploadQueueItem) => (
+    <Box sx={{ display: 'flex' }}>
+      {ACTIVE_UPLOAD_STATUSES.includes(item.status) && (
+        <Tooltip title="Pause">
+          <IconButton size="small" onClick={() => queue.pause(item.id)}>
+            <Pause fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {(item.status === 'paused' || item.status === 'error') && (
+        <Tooltip title={item.status === 'error' ? 'Retry' : 'Resume'}>
+          <IconButton size="small" onClick={() => queue.resume(item.id)}>
+            <PlayArrow fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {item.status !== 'completed' && item.status !== 'cancelled' && (
+        <Tooltip title="Cancel">
+          <IconButton size="small" onClick={() => queue.cancel(item.id)}>
+            <Close fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+    </Box>
+  );
+
+  return (
+    <>
+      <Button
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        startIcon={
+          activeItems.length > 0 ? (
+            <CircularProgress size={16} variant="determinate" value={overallProgress} sx={{ color: 'white' }} />
+          ) : failedCount > 0 ? (
+            <ErrorIcon />
+          ) : (
+            <CheckCircle />
+          )
+        }
+        sx={{
+          color: 'white',
+          textTransform: 'none',
+          borderRadius: 3,
+          px: 2,
+          background: 'rgba(255, 255, 255, 0.1)',
+          border: '1px solid rgba(255, 255, 255, 0.2)',
+          '&:hover': { background: 'rgba(255, 255, 255, 0.15)' },
+        }}
+      >
+        {activeItems.length > 0
+          ? `Uploading ${activeItems.length} · ${overallProgress}%`
+          : failedCount > 0
+            ? `${failedCount} upload(s) failed`
+            : 'Uploads complete'}
+      </Button>
+
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        sx={{ '& .MuiPaper-root': { mt: 1, width: 380, borderRadius: 3 } }}
+      >
+        <Box sx={{ p: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <CloudUpload color="primary" fontSize="small" />
+              <Typography variant="subtitle2">Upload Queue</Typography>
+            </Box>
+            <Button size="small" onClick={() => queue.clearFinished()}>
+              Clear Finished
+            </Button>
+          </Box>
+
+          <Box sx={{ maxHeight: 360, overflowY: 'auto' }}>
+            {visibleItems.map(item => (
+              <Box key={item.id} sx={{ py: 1, borderTop: '1px solid', borderColor: 'divider' }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+                  <Typography variant="body2" noWrap sx={{ minWidth: 0 }} title={item.key}>
+                    {item.relativePath}
+                  </Typography>
+                  {renderItemActions(item)}
+                </Box>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <LinearProgress
+                    variant="determinate"
+                    value={item.status === 'completed' ? 100 : item.progress}
+                    color={item.status === 'error' ? 'error' : item.status === 'completed' ? 'success' : 'primary'}
+                    sx={{ flex: 1, height: 4, borderRadius: 2 }}
+                  />
+                  <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                    {item.status}
+                  </Typography>
+                </Box>
+              </Box>
+            ))}
+          </Box>
+        </Box>
+      </Popover>
+    </>
+  );
+};
+
+export default UploadQueueIndicator;
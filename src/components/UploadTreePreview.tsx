@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  LinearProgress,
+  IconButton,
+  Chip,
+} from '@mui/material';
+import {
+  Folder,
+  FolderOpen,
+  ExpandMore,
+  ChevronRight,
+} from '@mui/icons-material';
+import { s3Service } from '../services/s3Service';
+import { UploadQueueStatus } from '../services/uploadQueue';
+
+export interface UploadTreeItem {
+  relativePath: string;
+  size: number;
+  loadedBytes: number;
+  status: UploadQueueStatus;
+}
+
+interface FolderNode {
+  name: string;
+  path: string;
+  folders: FolderNode[];
+  fileCount: number;
+  completedCount: number;
+  errorCount: number;
+  totalBytes: number;
+  loadedBytes: number;
+}
+
+interface UploadTreePreviewProps {
+  items: UploadTreeItem[];
+  targetPath: string;
+}
+
+const createFolderNode = (name: string, path: string): FolderNode => ({
+  name,
+  path,
+  folders: [],
+  fileCount: 0,
+  completedCount: 0,
+  errorCount: 0,
+  totalBytes: 0,
+  loadedBytes: 0,
+});
+
+// Build a folder tree from relative paths, aggregating size and progress into every ancestor
+const buildFolderTree = (items: UploadTreeItem[]): FolderNode => {
+  const root = createFolderNode('', '');
+
+  for (const item of items) {
+    const segments = item.relativePath.split('/');
+    segments.pop();
+
+    const ancestors = [root];
+    let node = root;
+    for (const segment of segments) {
+      const path = node.path ? `${node.path}/${segment}` : segment;
+      let child = node.folders.find(folder => folder.name === segment);
+      if (!child) {
+        child = createFolderNode(segment, path);
+        node.folders.push(child);
+      }
+      ancestors.push(child);
+      node = child;
+    }
+
+    for (const ancestor of ancestors) {
+      ancestor.fileCount += 1;
+      ancestor.totalBytes += item.size;
+      ancestor.loadedBytes += item.status === 'completed' ? item.size : item.loadedBytes;
+      if (item.status === 'completed') ancestor.completedCount += 1;
+      if (item.status === 'error') ancestor.errorCount += 1;
+    }
+  }
+
+  const sortFolders = (node: FolderNode) => {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name));
+    node.folders.forEach(sortFolders);
+  };
+  sortFolders(root);
+
+  return root;
+};
+
+const UploadTreePreview: React.FC<UploadTreePreviewProps> = ({ items, targetPath }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const root = buildFolderTree(items);
+
+  if (root.folders.length === 0) {
+    return null;
+  }
+
+  const toggleFolder = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const renderFolder = (node: FolderNode, depth: number): React.ReactNode => {
+    const isCollapsed = collapsed.has(node.path);
+    const progress = node.totalBytes > 0 ? (node.loadedBytes / node.totalBytes) * 100 : 0;
+    const hasStarted = node.loadedBytes > 0 || node.completedCount > 0 || node.errorCount > 0;
+
+    return (
+      <Box key={node.path}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, pl: depth * 3, py: 0.5 }}>
+          <IconButton
+            size="small"
+            onClick={() => toggleFolder(node.path)}
+            sx={{ visibility: node.folders.length > 0 ? 'visible' : 'hidden' }}
+          >
+            {isCollapsed ? <ChevronRight fontSize="small" /> : <ExpandMore fontSize="small" />}
+          </IconButton>
+          {isCollapsed ? <Folder fontSize="small" color="primary" /> : <FolderOpen fontSize="small" color="primary" />}
+          <Typography variant="body2" sx={{ fontWeight: 600, minWidth: 0, wordBreak: 'break-all' }}>
+            {node.name}/
+          </Typography>
+          <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+            {node.fileCount} files · {s3Service.formatFileSize(node.totalBytes)}
+          </Typography>
+          {node.errorCount > 0 && (
+            <Chip label={`${node.errorCount} failed`} size="small" color="error" variant="outlined" />
+          )}
+          {hasStarted && (
+            <Box sx={{ flex: 1, display: 'flex', alignItems: 'center', gap: 1, minWidth: 120 }}>
+              <LinearProgress
+                variant="determinate"
+                value={progress}
+                color={node.errorCount > 0 ? 'error' : node.completedCount === node.fileCount ? 'success' : 'primary'}
+                sx={{ flex: 1, height: 6, borderRadius: 3 }}
+              />
+              <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                {node.completedCount}/{node.fileCount}
+              </Typography>
+            </Box>
+          )}
+        </Box>
+        {!isCollapsed && node.folders.map(folder => renderFolder(folder, depth + 1))}
+      </Box>
+    );
+  };
+
+  return (
+    <Box sx={{ mb: 2, p: 2, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        Folder structure under <strong>{targetPath}</strong>
+      </Typography>
+      {root.folders.map(folder => renderFolder(folder, 0))}
+    </Box>
+  );
+};
+
+export default UploadTreePreview;
@@ -23,12 +23,18 @@ import {
   Tooltip,
   Card,
   CardContent,
+  Button,
+  Collapse,
 } from '@mui/material';
 import {
   Timeline,
   CloudUpload,
   CloudDownload,
   Delete,
+  CreateNewFolder,
+  FileCopy,
+  DriveFileMove,
+  Share,
   Search,
   FilterList,
   Person,
@@ -45,12 +51,14 @@ interface Activity {
   id: string;
   userEmail: string;
   userName: string;
-  action: 'upload' | 'download' | 'delete';
+  action: 'upload' | 'download' | 'delete' | 'create' | 'copy' | 'move' | 'share';
   fileName: string;
   fileSize: string;
   timestamp: string;
   status: 'success' | 'failed';
   details: string;
+  // Per-file results of bulk operations
+  items?: { key: string; size: number; status: 'success' | 'failed'; error?: string }[];
 }
 
 interface ActivityResponse {
@@ -72,6 +80,7 @@ const ActivityTab: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [actionFilter, setActionFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [expandedActivityId, setExpandedActivityId] = useState<string | null>(null);
   const [stats, setStats] = useState({
     totalUploads: 0,
     totalDownloads: 0,
@@ -84,13 +93,10 @@ const ActivityTab: React.FC = () => {
 
   // Helper function to make authenticated requests
   const makeAuthenticatedRequest = async (url: string, options: RequestInit = {}) => {
-    const authHeaders = authService.getAuthHeaders();
-    
     return fetch(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
-        ...authHeaders,
         ...options.headers,
       },
     });
@@ -236,6 +242,14 @@ const ActivityTab: React.FC = () => {
         return <CloudDownload sx={{ fontSize: 20, color: '#2563eb' }} />;
       case 'delete':
         return <Delete sx={{ fontSize: 20, color: '#dc2626' }} />;
+      case 'create':
+        return <CreateNewFolder sx={{ fontSize: 20, color: '#7c3aed' }} />;
+      case 'copy':
+        return <FileCopy sx={{ fontSize: 20, color: '#0891b2' }} />;
+      case 'move':
+        return <DriveFileMove sx={{ fontSize: 20, color: '#d97706' }} />;
+      case 'share':
+        return <Share sx={{ fontSize: 20, color: '#db2777' }} />;
       default:
         return <Timeline sx={{ fontSize: 20, color: '#6b7280' }} />;
     }
@@ -250,6 +264,14 @@ const ActivityTab: React.FC = () => {
         return 'primary';
       case 'delete':
         return 'error';
+      case 'create':
+        return 'secondary';
+      case 'copy':
+        return 'info';
+      case 'move':
+        return 'warning';
+      case 'share':
+        return 'secondary';
       default:
         return 'default';
     }
@@ -488,6 +510,10 @@ const ActivityTab: React.FC = () => {
               <MenuItem value="upload">Upload</MenuItem>
               <MenuItem value="download">Download</MenuItem>
               <MenuItem value="delete">Delete</MenuItem>
+              <MenuItem value="create">Create</MenuItem>
+              <MenuItem value="copy">Copy</MenuItem>
+              <MenuItem value="move">Move</MenuItem>
+              <MenuItem value="share">Share</MenuItem>
             </Select>
           </FormControl>
           
@@ -628,6 +654,31 @@ const ActivityTab: React.FC = () => {
                         <Typography variant="body2" sx={{ color: '#64748b', maxWidth: 200 }}>
                           {activity.details}
                         </Typography>
+                        {activity.items && activity.items.length > 0 && (
+                          <>
+                            <Button
+                              size="small"
+                              onClick={() => setExpandedActivityId(expandedActivityId === activity.id ? null : activity.id)}
+                              sx={{ textTransform: 'none', px: 0 }}
+                            >
+                              {expandedActivityId === activity.id ? 'Hide' : 'Show'} {activity.items.length} files
+                            </Button>
+                            <Collapse in={expandedActivityId === activity.id} unmountOnExit>
+                              <Box sx={{ maxHeight: 200, overflowY: 'auto', maxWidth: 320 }}>
+                                {activity.items.map(item => (
+                                  <Typography
+                                    key={item.key}
+                                    variant="caption"
+                                    component="div"
+                                    sx={{ color: item.status === 'failed' ? '#dc2626' : '#64748b', wordBreak: 'break-all' }}
+                                  >
+                                    {item.key}{item.error ? ` — ${item.error}` : ''}
+                                  </Typography>
+                                ))}
+                              </Box>
+                            </Collapse>
+                          </>
+                        )}
                       </TableCell>
                     </TableRow>
                   );
@@ -20,21 +20,35 @@ import {
   Refresh,
   ExploreOutlined,
   FolderOpen,
+  DriveFileMove,
+  CloudUpload,
 } from '@mui/icons-material';
 import { useTopLevelFolders, useSubfolders, useFiles } from '../../hooks/useS3';
 import FileList from '../FileList';
+import TransferDialog from '../TransferDialog';
+import UploadLinkDialog from '../UploadLinkDialog';
+import { authService } from '../../services/authService';
 import { BreadcrumbItem } from '../../types';
 
 const BrowseTab: React.FC = () => {
   const [currentPath, setCurrentPath] = useState('');
   const [pathHistory, setPathHistory] = useState<BreadcrumbItem[]>([]);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [uploadLinkOpen, setUploadLinkOpen] = useState(false);
+  const isAdmin = authService.isAdmin();
 
   const { data: topLevelFolders = [], isLoading: topLevelLoading } = useTopLevelFolders();
   const { data: subfolders = [], isLoading: subfoldersLoading } = useSubfolders(
     currentPath,
     !!currentPath
   );
-  const { data: files = [], isLoading: filesLoading } = useFiles(
+  const {
+    data: files = [],
+    isLoading: filesLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useFiles(
     currentPath,
     !!currentPath
   );
@@ -77,6 +91,8 @@ const BrowseTab: React.FC = () => {
 
   const isLoading = topLevelLoading || subfoldersLoading || filesLoading;
 
+  const currentFolderName = currentPath.split('/').filter(Boolean).pop() || '';
+
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
       {/* Header */}
@@ -231,6 +247,28 @@ const BrowseTab: React.FC = () => {
         {currentPath && (
           <Alert 
             severity="info" 
+            action={
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                {isAdmin && (
+                  <Button
+                    size="small"
+                    startIcon={<CloudUpload />}
+                    onClick={() => setUploadLinkOpen(true)}
+                    sx={{ textTransform: 'none', fontWeight: 600 }}
+                  >
+                    Request Upload
+                  </Button>
+                )}
+                <Button
+                  size="small"
+                  startIcon={<DriveFileMove />}
+                  onClick={() => setTransferOpen(true)}
+                  sx={{ textTransform: 'none', fontWeight: 600 }}
+                >
+                  Copy, Move or Rename
+                </Button>
+              </Box>
+            }
             sx={{ 
               borderRadius: 3,
               border: '1px solid #bfdbfe',
@@ -312,6 +350,10 @@ const BrowseTab: React.FC = () => {
                 <FileList
                   files={files}
                   isLoading={filesLoading}
+                  hasMore={hasNextPage}
+                  isLoadingMore={isFetchingNextPage}
+                  onLoadMore={fetchNextPage}
+                  sortedByDate
                   prefix={currentPath}
                   actionMode="both"
                   title="Files in Current Folder"
@@ -358,6 +400,23 @@ const BrowseTab: React.FC = () => {
           </Box>
         )}
       </Box>
+
+      {uploadLinkOpen && (
+        <UploadLinkDialog initialPrefix={currentPath} onClose={() => setUploadLinkOpen(false)} />
+      )}
+
+      {transferOpen && (
+        <TransferDialog
+          selection={{ prefix: currentPath }}
+          label={`folder ${currentFolderName}`}
+          initialMode="rename"
+          onClose={() => setTransferOpen(false)}
+          onDone={(job) => {
+            // The folder being viewed no longer exists after a move or rename
+            if (job.operation === 'move' && job.failed.length === 0) navigateBack();
+          }}
+        />
+      )}
     </Box>
   );
 };
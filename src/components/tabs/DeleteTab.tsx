@@ -1,61 +1,45 @@
-import React, { useState } from 'react';
+import React from 'react';
 import {
   Box,
   Card,
   CardContent,
   Typography,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
   Alert,
   Button,
-  Stepper,
-  Step,
-  StepLabel,
   Paper,
   Avatar,
 } from '@mui/material';
 import { Search, Warning, DeleteForever, FolderOpen } from '@mui/icons-material';
-import { useTopLevelFolders, useDateFolders, useFiles } from '../../hooks/useS3';
+import { useFiles } from '../../hooks/useS3';
+import { useLayoutSelection } from '../../hooks/useLayoutSelection';
 import FileList from '../FileList';
+import LayoutStepper from '../LayoutStepper';
+import LayoutFolderSelects from '../LayoutFolderSelects';
+import IncompleteUploadsPanel from '../IncompleteUploadsPanel';
+import RecycleBinPanel from '../RecycleBinPanel';
 
 const DeleteTab: React.FC = () => {
-  const [selectedProject, setSelectedProject] = useState('');
-  const [selectedDate, setSelectedDate] = useState('');
+  const selection = useLayoutSelection('output');
+  const targetPath = selection.targetPath;
 
-  const { data: projects = [], isLoading: projectsLoading } = useTopLevelFolders();
-  const { data: dateFolders = [], isLoading: datesLoading } = useDateFolders(
-    selectedProject,
-    'outputData',
-    !!selectedProject
-  );
-
-  const targetPath = selectedProject && selectedDate 
-    ? `${selectedProject}/outputData/${selectedDate}/`
-    : '';
-
-  const { data: files = [], isLoading: filesLoading, error, refetch } = useFiles(
+  const {
+    data: files = [],
+    isLoading: filesLoading,
+    error,
+    refetch,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useFiles(
     targetPath,
     !!targetPath
   );
 
-  const handleProjectChange = (projectName: string) => {
-    setSelectedProject(projectName);
-    setSelectedDate('');
-  };
-
-  const handleDateChange = (date: string) => {
-    setSelectedDate(date);
-  };
-
   const handleFileDeleted = () => {
     // Refresh the file list after deletion
     refetch();
   };
 
-  const activeStep = !selectedProject ? 0 : !selectedDate ? 1 : 2;
-
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
       {/* Header */}
@@ -80,7 +64,7 @@ const DeleteTab: React.FC = () => {
               Delete Files from OutputData
             </Typography>
             <Typography variant="body1" sx={{ color: '#64748b', fontWeight: 500 }}>
-              Permanently remove files from your S3 bucket's outputData folder
+              Remove files from your S3 bucket's outputData folder
             </Typography>
           </Box>
         </Box>
@@ -99,61 +83,16 @@ const DeleteTab: React.FC = () => {
           }}
         >
           <Typography variant="body2" sx={{ fontWeight: 500 }}>
-            <strong>⚠️ Danger Zone:</strong> File deletion is permanent and cannot be undone. 
-            Please ensure you have backups before proceeding with any deletions.
+            <strong>⚠️ Danger Zone:</strong> Deleted files go to the Recycle Bin below and are permanently 
+            removed once the retention period ends.
           </Typography>
         </Alert>
       </Box>
 
       {/* Progress Stepper */}
-      <Box
-        sx={{
-          background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
-          borderRadius: 3,
-          border: '1px solid #e2e8f0',
-          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-          p: 4,
-        }}
-      >
-        <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a', mb: 3 }}>
-          Deletion Process
-        </Typography>
-        <Stepper 
-          activeStep={activeStep} 
-          alternativeLabel
-          sx={{
-            '& .MuiStepLabel-root .Mui-completed': {
-              color: '#059669',
-            },
-            '& .MuiStepLabel-root .Mui-active': {
-              color: '#6366f1',
-            },
-            '& .MuiStepConnector-alternativeLabel': {
-              top: 10,
-              left: 'calc(-50% + 16px)',
-              right: 'calc(50% + 16px)',
-            },
-            '& .MuiStepConnector-alternativeLabel.Mui-active .MuiStepConnector-line': {
-              borderColor: '#6366f1',
-            },
-            '& .MuiStepConnector-alternativeLabel.Mui-completed .MuiStepConnector-line': {
-              borderColor: '#059669',
-            },
-          }}
-        >
-          <Step>
-            <StepLabel>Select Project</StepLabel>
-          </Step>
-          <Step>
-            <StepLabel>Choose Date</StepLabel>
-          </Step>
-          <Step>
-            <StepLabel>Delete Files</StepLabel>
-          </Step>
-        </Stepper>
-      </Box>
+      <LayoutStepper selection={selection} title="Deletion Process" finalStep="Delete Files" />
 
-      {/* Project and Date Selection */}
+      {/* Project and Folder Selection */}
       <Box
         sx={{
           background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
@@ -183,62 +122,7 @@ const DeleteTab: React.FC = () => {
           </Typography>
         </Box>
         
-        <Box sx={{ display: 'flex', gap: 4, mb: 3, flexDirection: { xs: 'column', md: 'row' } }}>
-          <FormControl fullWidth>
-            <InputLabel sx={{ fontWeight: 600 }}>Project Folder</InputLabel>
-            <Select
-              value={selectedProject}
-              label="Project Folder"
-              onChange={(e) => handleProjectChange(e.target.value)}
-              disabled={projectsLoading}
-              sx={{ 
-                borderRadius: 3,
-                backgroundColor: '#fafafa',
-                '&:hover': {
-                  backgroundColor: '#f5f5f5',
-                },
-                '&.Mui-focused': {
-                  backgroundColor: 'white',
-                },
-              }}
-            >
-              {projects.map((project) => (
-                <MenuItem key={project.name} value={project.name}>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
-                    <FolderOpen fontSize="small" sx={{ color: '#6366f1' }} />
-                    <Typography sx={{ fontWeight: 500 }}>{project.name}</Typography>
-                  </Box>
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-
-          <FormControl fullWidth disabled={!selectedProject}>
-            <InputLabel sx={{ fontWeight: 600 }}>Date Folder</InputLabel>
-            <Select
-              value={selectedDate}
-              label="Date Folder"
-              onChange={(e) => handleDateChange(e.target.value)}
-              disabled={!selectedProject || datesLoading}
-              sx={{ 
-                borderRadius: 3,
-                backgroundColor: !selectedProject ? '#f8fafc' : '#fafafa',
-                '&:hover': {
-                  backgroundColor: !selectedProject ? '#f8fafc' : '#f5f5f5',
-                },
-                '&.Mui-focused': {
-                  backgroundColor: 'white',
-                },
-              }}
-            >
-              {dateFolders.map((date) => (
-                <MenuItem key={date} value={date}>
-                  <Typography sx={{ fontWeight: 500 }}>{date}</Typography>
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-        </Box>
+        <LayoutFolderSelects selection={selection} />
 
         {targetPath && (
           <Alert 
@@ -317,13 +201,17 @@ const DeleteTab: React.FC = () => {
                 }}
               >
                 <Typography variant="body2" sx={{ fontWeight: 500 }}>
-                  <strong>⚠️ Ready for Deletion:</strong> Click the delete button (🗑️) next to any file to permanently remove it from S3.
-                  Remember: This action cannot be undone!
+                  <strong>⚠️ Ready for Deletion:</strong> Click the delete button (🗑️) next to any file to move it to the Recycle Bin, 
+                  or select several files (or use "Delete Folder") to review and delete them together.
                 </Typography>
               </Alert>
               <FileList
                 files={files}
                 isLoading={filesLoading}
+                hasMore={hasNextPage}
+                isLoadingMore={isFetchingNextPage}
+                onLoadMore={fetchNextPage}
+                sortedByDate
                 prefix={targetPath}
                 actionMode="delete-only"
                 title="Files Available for Deletion"
@@ -333,8 +221,18 @@ const DeleteTab: React.FC = () => {
         </Box>
       )}
 
+      {/* Recycle Bin */}
+      {selection.project && (
+        <RecycleBinPanel projectPrefix={`${selection.project}/`} />
+      )}
+
+      {/* Dangling Multipart Uploads */}
+      {selection.project && (
+        <IncompleteUploadsPanel projectPrefix={`${selection.project}/`} />
+      )}
+
       {/* Help Messages */}
-      {!selectedProject && (
+      {!selection.project && (
         <Alert 
           severity="info" 
           sx={{ 
@@ -352,7 +250,7 @@ const DeleteTab: React.FC = () => {
         </Alert>
       )}
 
-      {selectedProject && !selectedDate && (
+      {selection.project && !selection.isComplete && (
         <Alert 
           severity="info" 
           sx={{ 
@@ -365,7 +263,7 @@ const DeleteTab: React.FC = () => {
           }}
         >
           <Typography variant="body2" sx={{ fontWeight: 500 }}>
-            📅 Please select a date folder to continue.
+            📅 Please select the {selection.pickedSegments[selection.activeStep - 1]?.label.toLowerCase()} to continue.
           </Typography>
         </Alert>
       )}
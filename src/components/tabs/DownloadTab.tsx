@@ -1,56 +1,37 @@
-import React, { useState } from 'react';
+import React from 'react';
 import {
   Box,
   Card,
   CardContent,
   Typography,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
   Alert,
   Button,
-  Stepper,
-  Step,
-  StepLabel,
   Paper,
   Avatar,
 } from '@mui/material';
 import { Search, Download, CloudDownload, FolderOpen } from '@mui/icons-material';
-import { useTopLevelFolders, useDateFolders, useFiles } from '../../hooks/useS3';
+import { useFiles } from '../../hooks/useS3';
+import { useLayoutSelection } from '../../hooks/useLayoutSelection';
 import FileList from '../FileList';
+import LayoutStepper from '../LayoutStepper';
+import LayoutFolderSelects from '../LayoutFolderSelects';
 
 const DownloadTab: React.FC = () => {
-  const [selectedProject, setSelectedProject] = useState('');
-  const [selectedDate, setSelectedDate] = useState('');
-
-  const { data: projects = [], isLoading: projectsLoading } = useTopLevelFolders();
-  const { data: dateFolders = [], isLoading: datesLoading } = useDateFolders(
-    selectedProject,
-    'inputData',
-    !!selectedProject
-  );
-
-  const sourcePath = selectedProject && selectedDate 
-    ? `${selectedProject}/inputData/${selectedDate}/annotation_inputs/input_files/`
-    : '';
-
-  const { data: files = [], isLoading: filesLoading, error } = useFiles(
+  const selection = useLayoutSelection('input');
+  const sourcePath = selection.targetPath;
+
+  const {
+    data: files = [],
+    isLoading: filesLoading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useFiles(
     sourcePath,
     !!sourcePath
   );
 
-  const handleProjectChange = (projectName: string) => {
-    setSelectedProject(projectName);
-    setSelectedDate('');
-  };
-
-  const handleDateChange = (date: string) => {
-    setSelectedDate(date);
-  };
-
-  const activeStep = !selectedProject ? 0 : !selectedDate ? 1 : 2;
-
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
       {/* Header */}
@@ -99,54 +80,9 @@ const DownloadTab: React.FC = () => {
       </Box>
 
       {/* Progress Stepper */}
-      <Box
-        sx={{
-          background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
-          borderRadius: 3,
-          border: '1px solid #e2e8f0',
-          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-          p: 4,
-        }}
-      >
-        <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a', mb: 3 }}>
-          Download Process
-        </Typography>
-        <Stepper 
-          activeStep={activeStep} 
-          alternativeLabel
-          sx={{
-            '& .MuiStepLabel-root .Mui-completed': {
-              color: '#059669',
-            },
-            '& .MuiStepLabel-root .Mui-active': {
-              color: '#6366f1',
-            },
-            '& .MuiStepConnector-alternativeLabel': {
-              top: 10,
-              left: 'calc(-50% + 16px)',
-              right: 'calc(50% + 16px)',
-            },
-            '& .MuiStepConnector-alternativeLabel.Mui-active .MuiStepConnector-line': {
-              borderColor: '#6366f1',
-            },
-            '& .MuiStepConnector-alternativeLabel.Mui-completed .MuiStepConnector-line': {
-              borderColor: '#059669',
-            },
-          }}
-        >
-          <Step>
-            <StepLabel>Select Project</StepLabel>
-          </Step>
-          <Step>
-            <StepLabel>Choose Date</StepLabel>
-          </Step>
-          <Step>
-            <StepLabel>Download Files</StepLabel>
-          </Step>
-        </Stepper>
-      </Box>
+      <LayoutStepper selection={selection} title="Download Process" finalStep="Download Files" />
 
-      {/* Project and Date Selection */}
+      {/* Project and Folder Selection */}
       <Box
         sx={{
           background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
@@ -176,62 +112,7 @@ const DownloadTab: React.FC = () => {
           </Typography>
         </Box>
         
-        <Box sx={{ display: 'flex', gap: 4, mb: 3, flexDirection: { xs: 'column', md: 'row' } }}>
-          <FormControl fullWidth>
-            <InputLabel sx={{ fontWeight: 600 }}>Project Folder</InputLabel>
-            <Select
-              value={selectedProject}
-              label="Project Folder"
-              onChange={(e) => handleProjectChange(e.target.value)}
-              disabled={projectsLoading}
-              sx={{ 
-                borderRadius: 3,
-                backgroundColor: '#fafafa',
-                '&:hover': {
-                  backgroundColor: '#f5f5f5',
-                },
-                '&.Mui-focused': {
-                  backgroundColor: 'white',
-                },
-              }}
-            >
-              {projects.map((project) => (
-                <MenuItem key={project.name} value={project.name}>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
-                    <FolderOpen fontSize="small" sx={{ color: '#6366f1' }} />
-                    <Typography sx={{ fontWeight: 500 }}>{project.name}</Typography>
-                  </Box>
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-
-          <FormControl fullWidth disabled={!selectedProject}>
-            <InputLabel sx={{ fontWeight: 600 }}>Date Folder</InputLabel>
-            <Select
-              value={selectedDate}
-              label="Date Folder"
-              onChange={(e) => handleDateChange(e.target.value)}
-              disabled={!selectedProject || datesLoading}
-              sx={{ 
-                borderRadius: 3,
-                backgroundColor: !selectedProject ? '#f8fafc' : '#fafafa',
-                '&:hover': {
-                  backgroundColor: !selectedProject ? '#f8fafc' : '#f5f5f5',
-                },
-                '&.Mui-focused': {
-                  backgroundColor: 'white',
-                },
-              }}
-            >
-              {dateFolders.map((date) => (
-                <MenuItem key={date} value={date}>
-                  <Typography sx={{ fontWeight: 500 }}>{date}</Typography>
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-        </Box>
+        <LayoutFolderSelects selection={selection} />
 
         {sourcePath && (
           <Alert 
@@ -317,6 +198,10 @@ const DownloadTab: React.FC = () => {
               <FileList
                 files={files}
                 isLoading={filesLoading}
+                hasMore={hasNextPage}
+                isLoadingMore={isFetchingNextPage}
+                onLoadMore={fetchNextPage}
+                sortedByDate
                 prefix={sourcePath}
                 actionMode="download-only"
                 title="Available Files for Download"
@@ -327,7 +212,7 @@ const DownloadTab: React.FC = () => {
       )}
 
       {/* Help Messages */}
-      {!selectedProject && (
+      {!selection.project && (
         <Alert 
           severity="info" 
           sx={{ 
@@ -345,7 +230,7 @@ const DownloadTab: React.FC = () => {
         </Alert>
       )}
 
-      {selectedProject && !selectedDate && (
+      {selection.project && !selection.isComplete && (
         <Alert 
           severity="info" 
           sx={{ 
@@ -358,7 +243,7 @@ const DownloadTab: React.FC = () => {
           }}
         >
           <Typography variant="body2" sx={{ fontWeight: 500 }}>
-            📅 Please select a date folder to continue.
+            📅 Please select the {selection.pickedSegments[selection.activeStep - 1]?.label.toLowerCase()} to continue.
           </Typography>
         </Alert>
       )}
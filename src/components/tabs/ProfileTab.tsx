@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Avatar,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  CircularProgress,
+  IconButton,
+  Tooltip,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import { AccountCircle, Add, Block } from '@mui/icons-material';
+import { useApiTokens, useRevokeApiToken } from '../../hooks/useS3';
+import { authService } from '../../services/authService';
+import { ApiTokenStatus, ProjectGrants } from '../../types';
+import { PROJECT_PERMISSIONS, formatProjectName } from '../ProjectGrantsEditor';
+import ApiTokenDialog from '../ApiTokenDialog';
+
+const STATUS_LABELS: Record<ApiTokenStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked',
+};
+
+const STATUS_COLORS: Record<ApiTokenStatus, 'success' | 'default' | 'error'> = {
+  active: 'success',
+  expired: 'default',
+  revoked: 'error',
+};
+
+const cardSx = {
+  background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
+  borderRadius: 3,
+  border: '1px solid #e2e8f0',
+  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+  p: 4,
+};
+
+const formatPermissions = (permissions: string[]) =>
+  PROJECT_PERMISSIONS.filter(permission => permissions.includes(permission.value)).map(permission => permission.label).join(', ');
+
+// One chip per project, listing the permissions held on it
+const GrantChips: React.FC<{ grants: ProjectGrants }> = ({ grants }) => (
+  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+    {Object.entries(grants).map(([project, permissions]) => (
+      <Chip
+        key={project}
+        size="small"
+        variant="outlined"
+        label={`${formatProjectName(project)}: ${formatPermissions(permissions) || 'none'}`}
+      />
+    ))}
+  </Box>
+);
+
+const ProfileTab: React.FC = () => {
+  const userInfo = authService.getUserInfo();
+  const isAdmin = authService.isAdmin();
+  const [showAll, setShowAll] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data, isLoading, error } = useApiTokens(isAdmin && showAll);
+  const revokeMutation = useRevokeApiToken();
+  const tokens = data?.tokens || [];
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: 48,
+            height: 48,
+            borderRadius: 3,
+            background: 'linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)',
+            boxShadow: '0 4px 12px rgba(99, 102, 241, 0.25)',
+          }}
+        >
+          <AccountCircle sx={{ fontSize: 24, color: 'white' }} />
+        </Box>
+        <Box>
+          <Typography variant="h5" component="h1" sx={{ fontWeight: 700, color: '#0f172a', mb: 0.5 }}>
+            Profile
+          </Typography>
+          <Typography variant="body1" sx={{ color: '#64748b', fontWeight: 500 }}>
+            Your account, your project access and the API tokens your scripts use
+          </Typography>
+        </Box>
+      </Box>
+
+      <Box sx={{ ...cardSx, display: 'flex', alignItems: 'center', gap: 3 }}>
+        <Avatar src={userInfo?.picture} alt={userInfo?.name} sx={{ width: 56, height: 56 }}>
+          {userInfo?.name?.charAt(0).toUpperCase()}
+        </Avatar>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a' }}>
+            {userInfo?.name}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {userInfo?.email} · {isAdmin ? 'Administrator' : 'User'}
+          </Typography>
+          <GrantChips grants={authService.getUserProjects()} />
+        </Box>
+      </Box>
+
+      <Box sx={cardSx}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+          <Box sx={{ flex: 1 }}>
+            <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a' }}>
+              API Tokens
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Scripts send a token as <code>Authorization: Bearer &lt;token&gt;</code>; it acts as you, never as an
+              admin, and only within its scope
+            </Typography>
+          </Box>
+          {isAdmin && (
+            <FormControlLabel
+              control={<Switch checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />}
+              label="Show tokens of all users"
+            />
+          )}
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => setDialogOpen(true)}
+            sx={{ textTransform: 'none', fontWeight: 600 }}
+          >
+            New Token
+          </Button>
+        </Box>
+
+        {error ? (
+          <Alert severity="error">Failed to load API tokens: {(error as Error).message}</Alert>
+        ) : isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : tokens.length === 0 ? (
+          <Alert severity="info">No API tokens yet.</Alert>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                {showAll && <TableCell>Created by</TableCell>}
+                <TableCell>Scope</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Last used</TableCell>
+                <TableCell>Expires</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {tokens.map(apiToken => (
+                <TableRow key={apiToken.id} hover>
+                  <TableCell>
+                    <Typography variant="body2" sx={{ fontWeight: 500 }}>{apiToken.name}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      …{apiToken.hint} · created {apiToken.createdAt.toLocaleString()}
+                    </Typography>
+                  </TableCell>
+                  {showAll && (
+                    <TableCell>
+                      <Typography variant="body2">{apiToken.createdByName}</Typography>
+                      <Typography variant="caption" color="text.secondary">{apiToken.createdBy}</Typography>
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <GrantChips grants={apiToken.projects} />
+                  </TableCell>
+                  <TableCell>
+                    <Chip label={STATUS_LABELS[apiToken.status]} color={STATUS_COLORS[apiToken.status]} size="small" />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">
+                      {apiToken.lastUsedAt ? apiToken.lastUsedAt.toLocaleString() : 'Never'}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{apiToken.expiresAt.toLocaleString()}</Typography>
+                    {apiToken.revokedAt && (
+                      <Typography variant="caption" color="text.secondary">
+                        revoked {apiToken.revokedAt.toLocaleString()}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Revoke token">
+                      <span>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => revokeMutation.mutate({ id: apiToken.id, name: apiToken.name })}
+                          disabled={apiToken.status !== 'active' || revokeMutation.isPending}
+                        >
+                          <Block fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Box>
+
+      {dialogOpen && <ApiTokenDialog onClose={() => setDialogOpen(false)} />}
+    </Box>
+  );
+};
+
+export default ProfileTab;
@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+} from '@mui/material';
+import { CompareArrows, FileDownload, Refresh, Tune } from '@mui/icons-material';
+import {
+  useReconciliationRules,
+  useSaveReconciliationRules,
+  useReconciliationReport,
+} from '../../hooks/useS3';
+import { useLayoutSelection } from '../../hooks/useLayoutSelection';
+import { apiService } from '../../services/apiService';
+import { layoutService } from '../../services/layoutService';
+import { authService } from '../../services/authService';
+import { ReconciliationRules, ReconciliationStatus, ReconciliationFile } from '../../types';
+import LayoutFolderSelects from '../LayoutFolderSelects';
+import toast from 'react-hot-toast';
+
+const STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  missing: 'Missing output',
+  mismatched: 'Mismatched',
+  extra: 'Extra output',
+  matched: 'Matched',
+};
+
+const STATUS_COLORS: Record<ReconciliationStatus, 'error' | 'warning' | 'info' | 'success'> = {
+  missing: 'error',
+  mismatched: 'warning',
+  extra: 'info',
+  matched: 'success',
+};
+
+const STATUS_ORDER: ReconciliationStatus[] = ['missing', 'mismatched', 'extra', 'matched'];
+
+const cardSx = {
+  background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
+  borderRadius: 3,
+  border: '1px solid #e2e8f0',
+  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+  p: 4,
+};
+
+const FileNames: React.FC<{ files: ReconciliationFile[] }> = ({ files }) => (
+  <>
+    {files.length === 0 ? (
+      <Typography variant="body2" color="text.secondary">—</Typography>
+    ) : files.map(file => (
+      <Typography key={file.key} variant="body2" title={file.key} sx={{ wordBreak: 'break-all' }}>
+        {file.key.split('/').pop()}{' '}
+        <Typography component="span" variant="caption" color="text.secondary">
+          ({apiService.formatFileSize(file.size)})
+        </Typography>
+      </Typography>
+    ))}
+  </>
+);
+
+interface RulesDialogProps {
+  open: boolean;
+  project: string;
+  rules?: ReconciliationRules;
+  defaults?: ReconciliationRules;
+  onClose: () => void;
+}
+
+const RulesDialog: React.FC<RulesDialogProps> = ({ open, project, rules, defaults, onClose }) => {
+  const [draft, setDraft] = useState<ReconciliationRules | undefined>(rules);
+  const saveMutation = useSaveReconciliationRules();
+
+  useEffect(() => {
+    if (open) {
+      setDraft(rules);
+    }
+  }, [open, rules]);
+
+  if (!draft) {
+    return null;
+  }
+
+  const updateDraft = (field: keyof ReconciliationRules) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft({ ...draft, [field]: event.target.value });
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveMutation.mutateAsync({ project, rules: draft });
+      onClose();
+    } catch (error) {
+      // Error is handled by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <DialogTitle>Reconciliation Rules for {project}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        <Typography variant="body2" color="text.secondary">
+          Folders are relative to the input and output folders of the project layout.
+          Patterns are matched against file names; <code>{'{id}'}</code> marks the part that pairs an input with its output,
+          and <code>*</code> / <code>?</code> match any characters.
+        </Typography>
+        <TextField label="Input folder" value={draft.inputFolder} onChange={updateDraft('inputFolder')} placeholder={defaults?.inputFolder} />
+        <TextField label="Input file pattern" value={draft.inputPattern} onChange={updateDraft('inputPattern')} placeholder={defaults?.inputPattern} />
+        <TextField label="Output folder" value={draft.outputFolder} onChange={updateDraft('outputFolder')} placeholder="(layout output folder itself)" />
+        <TextField label="Output file pattern" value={draft.outputPattern} onChange={updateDraft('outputPattern')} placeholder={defaults?.outputPattern} />
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 1 }}>
+        {defaults && (
+          <Button onClick={() => setDraft(defaults)} sx={{ textTransform: 'none', mr: 'auto' }}>
+            Reset to defaults
+          </Button>
+        )}
+        <Button onClick={onClose} sx={{ textTransform: 'none' }}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} variant="contained" disabled={saveMutation.isPending} sx={{ textTransform: 'none' }}>
+          {saveMutation.isPending ? 'Saving...' : 'Save Rules'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const ReconciliationTab: React.FC = () => {
+  const selection = useLayoutSelection('input');
+  const [statusFilter, setStatusFilter] = useState<ReconciliationStatus | 'all'>('all');
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const canManage = authService.hasProjectPermission(selection.project, 'manage');
+
+  const { data: rulesData } = useReconciliationRules(selection.project);
+  const { data: report, isLoading, isFetching, error, refetch } = useReconciliationReport(
+    selection.project,
+    selection.folder,
+    selection.isComplete
+  );
+
+  const items = (report?.items || []).filter(item => statusFilter === 'all' || item.status === statusFilter);
+
+  useEffect(() => {
+    setStatusFilter('all');
+  }, [selection.project]);
+
+  // Layout path of one side, with placeholders for the folders not picked yet
+  const describeSide = (side: 'input' | 'output') => {
+    const values = selection.pickedSegments.map((segment, index) => selection.values[index] || `<${segment.label}>`);
+    return layoutService.buildPrefix(selection.project, selection.layout, side, values);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await apiService.downloadReconciliationCsv(selection.project, selection.folder);
+    } catch (exportError) {
+      toast.error(`Export failed: ${exportError instanceof Error ? exportError.message : String(exportError)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: 48,
+            height: 48,
+            borderRadius: 3,
+            background: 'linear-gradient(135deg, #6366f1 0%, #4f46e5 100%)',
+            boxShadow: '0 4px 12px rgba(99, 102, 241, 0.25)',
+          }}
+        >
+          <CompareArrows sx={{ fontSize: 24, color: 'white' }} />
+        </Box>
+        <Box>
+          <Typography variant="h5" component="h1" sx={{ fontWeight: 700, color: '#0f172a', mb: 0.5 }}>
+            Delivery Reconciliation
+          </Typography>
+          <Typography variant="body1" sx={{ color: '#64748b', fontWeight: 500 }}>
+            Check which input files of a folder still have no output delivered
+          </Typography>
+        </Box>
+      </Box>
+
+      {/* Project and Folder Selection */}
+      <Box sx={{ ...cardSx, display: 'flex', flexDirection: 'column', gap: 3 }}>
+        <LayoutFolderSelects selection={selection} />
+
+        {rulesData && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+            <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+              Inputs <code>{describeSide('input')}{rulesData.rules.inputFolder}{rulesData.rules.inputPattern}</code> are paired with
+              outputs <code>{describeSide('output')}{rulesData.rules.outputFolder}{rulesData.rules.outputPattern}</code>
+            </Typography>
+            {canManage && (
+              <Button
+                size="small"
+                startIcon={<Tune />}
+                onClick={() => setRulesOpen(true)}
+                sx={{ textTransform: 'none', fontWeight: 600 }}
+              >
+                Edit Rules
+              </Button>
+            )}
+          </Box>
+        )}
+      </Box>
+
+      {/* Report */}
+      {!selection.isComplete ? (
+        <Alert severity="info" sx={{ borderRadius: 3 }}>
+          Select a project and its folders to reconcile their inputs and outputs.
+        </Alert>
+      ) : error ? (
+        <Alert severity="error" sx={{ borderRadius: 3 }}>
+          Reconciliation failed: {(error as Error).message}
+        </Alert>
+      ) : isLoading || !report ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress size={32} />
+        </Box>
+      ) : (
+        <Box sx={cardSx}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 3 }}>
+            <Chip
+              label={`All (${report.items.length})`}
+              onClick={() => setStatusFilter('all')}
+              variant={statusFilter === 'all' ? 'filled' : 'outlined'}
+            />
+            {STATUS_ORDER.map(status => (
+              <Chip
+                key={status}
+                label={`${STATUS_LABELS[status]} (${report.summary[status]})`}
+                color={STATUS_COLORS[status]}
+                onClick={() => setStatusFilter(status)}
+                variant={statusFilter === status ? 'filled' : 'outlined'}
+              />
+            ))}
+            <Box sx={{ ml: 'auto', display: 'flex', gap: 1 }}>
+              <Button
+                startIcon={<Refresh />}
+                onClick={() => refetch()}
+                disabled={isFetching}
+                sx={{ textTransform: 'none' }}
+              >
+                Refresh
+              </Button>
+              <Button
+                variant="contained"
+                startIcon={<FileDownload />}
+                onClick={handleExport}
+                disabled={exporting}
+                sx={{ textTransform: 'none', fontWeight: 600 }}
+              >
+                {exporting ? 'Exporting...' : 'Export CSV'}
+              </Button>
+            </Box>
+          </Box>
+
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {report.summary.inputs} input files in <code>{report.inputPrefix}</code>, {report.summary.outputs} output files
+            in <code>{report.outputPrefix}</code>
+          </Typography>
+
+          {report.ignoredInputs.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {report.ignoredInputs.length} input file{report.ignoredInputs.length === 1 ? '' : 's'} did not match the
+              input pattern and were left out, e.g. <code>{report.ignoredInputs[0].split('/').pop()}</code>
+            </Alert>
+          )}
+
+          {items.length === 0 ? (
+            <Alert severity="success">
+              {statusFilter === 'all' ? 'No files found.' : `No ${STATUS_LABELS[statusFilter].toLowerCase()} items.`}
+            </Alert>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Status</TableCell>
+                  <TableCell>ID</TableCell>
+                  <TableCell>Input</TableCell>
+                  <TableCell>Output</TableCell>
+                  <TableCell>Details</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {items.map((item, index) => (
+                  <TableRow key={item.id ?? `unmatched-${index}`} hover>
+                    <TableCell>
+                      <Chip label={STATUS_LABELS[item.status]} color={STATUS_COLORS[item.status]} size="small" />
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{item.id ?? '—'}</TableCell>
+                    <TableCell><FileNames files={item.inputs} /></TableCell>
+                    <TableCell><FileNames files={item.outputs} /></TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">{item.reason ?? ''}</Typography>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Box>
+      )}
+
+      <RulesDialog
+        open={rulesOpen}
+        project={selection.project}
+        rules={rulesData?.rules}
+        defaults={rulesData?.defaults}
+        onClose={() => setRulesOpen(false)}
+      />
+    </Box>
+  );
+};
+
+export default ReconciliationTab;
@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+  Alert,
+  Chip,
+} from '@mui/material';
+import { Search, FilterList } from '@mui/icons-material';
+import { useSearchParams } from 'react-router-dom';
+import { useSearchFiles, useTopLevelFolders } from '../../hooks/useS3';
+import FileList from '../FileList';
+import { SearchFilters } from '../../types';
+
+const MB = 1024 * 1024;
+
+// Filters live in the URL so a search can be bookmarked and shared
+const readFilters = (params: URLSearchParams) => ({
+  query: params.get('q') || '',
+  project: params.get('project') || '',
+  minSizeMb: params.get('minSizeMb') || '',
+  maxSizeMb: params.get('maxSizeMb') || '',
+  after: params.get('after') || '',
+  before: params.get('before') || '',
+});
+
+type FilterDraft = ReturnType<typeof readFilters>;
+
+const toSearchFilters = (draft: FilterDraft): SearchFilters => ({
+  query: draft.query,
+  project: draft.project || undefined,
+  minSize: draft.minSizeMb ? Number(draft.minSizeMb) * MB : undefined,
+  maxSize: draft.maxSizeMb ? Number(draft.maxSizeMb) * MB : undefined,
+  // Date inputs are whole days in local time
+  modifiedAfter: draft.after ? new Date(`${draft.after}T00:00:00`).toISOString() : undefined,
+  modifiedBefore: draft.before ? new Date(`${draft.before}T23:59:59.999`).toISOString() : undefined,
+});
+
+const SearchTab: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const applied = useMemo(() => readFilters(searchParams), [searchParams]);
+  const [draft, setDraft] = useState<FilterDraft>(applied);
+
+  useEffect(() => {
+    setDraft(applied);
+  }, [applied]);
+
+  const filters = useMemo(() => toSearchFilters(applied), [applied]);
+  const { data: projects = [] } = useTopLevelFolders();
+  const {
+    data,
+    isLoading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    refetch,
+  } = useSearchFiles(filters);
+
+  const pages = data?.pages || [];
+  const files = pages.flatMap(page => page.items);
+  const scanned = pages.reduce((sum, page) => sum + page.scanned, 0);
+  const lastPage = pages[pages.length - 1];
+
+  const updateDraft = (field: keyof FilterDraft) => (event: { target: { value: string } }) => {
+    setDraft(prev => ({ ...prev, [field]: event.target.value }));
+  };
+
+  const handleApply = (event: React.FormEvent) => {
+    event.preventDefault();
+    const params = new URLSearchParams();
+    Object.entries({ q: draft.query.trim(), project: draft.project, minSizeMb: draft.minSizeMb, maxSizeMb: draft.maxSizeMb, after: draft.after, before: draft.before })
+      .forEach(([key, value]) => value && params.set(key, value));
+    setSearchParams(params);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: 48,
+            height: 48,
+            borderRadius: 3,
+            background: 'linear-gradient(135deg, #6366f1 0%, #4f46e5 100%)',
+            boxShadow: '0 4px 12px rgba(99, 102, 241, 0.25)',
+          }}
+        >
+          <Search sx={{ fontSize: 24, color: 'white' }} />
+        </Box>
+        <Box>
+          <Typography variant="h5" component="h1" sx={{ fontWeight: 700, color: '#0f172a', mb: 0.5 }}>
+            Search Files
+          </Typography>
+          <Typography variant="body1" sx={{ color: '#64748b', fontWeight: 500 }}>
+            Find files anywhere in the bucket by name or glob pattern (<code>*</code>, <code>**</code>, <code>?</code>)
+          </Typography>
+        </Box>
+      </Box>
+
+      {/* Filters */}
+      <Box
+        component="form"
+        onSubmit={handleApply}
+        sx={{
+          background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
+          borderRadius: 3,
+          border: '1px solid #e2e8f0',
+          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+          p: 4,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 2,
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <FilterList sx={{ color: '#64748b' }} />
+          <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a' }}>
+            Filters
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+          <TextField
+            label="File name or pattern"
+            value={draft.query}
+            onChange={updateDraft('query')}
+            placeholder="workitem_*.json"
+            sx={{ flex: 2, minWidth: 240 }}
+          />
+          <FormControl sx={{ flex: 1, minWidth: 180 }}>
+            <InputLabel>Project</InputLabel>
+            <Select value={draft.project} label="Project" onChange={updateDraft('project')}>
+              <MenuItem value="">All projects</MenuItem>
+              {projects.map(project => (
+                <MenuItem key={project.name} value={project.name}>{project.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+          <TextField label="Min size (MB)" type="number" value={draft.minSizeMb} onChange={updateDraft('minSizeMb')} sx={{ flex: 1, minWidth: 140 }} />
+          <TextField label="Max size (MB)" type="number" value={draft.maxSizeMb} onChange={updateDraft('maxSizeMb')} sx={{ flex: 1, minWidth: 140 }} />
+          <TextField
+            label="Modified after"
+            type="date"
+            value={draft.after}
+            onChange={updateDraft('after')}
+            InputLabelProps={{ shrink: true }}
+            sx={{ flex: 1, minWidth: 160 }}
+          />
+          <TextField
+            label="Modified before"
+            type="date"
+            value={draft.before}
+            onChange={updateDraft('before')}
+            InputLabelProps={{ shrink: true }}
+            sx={{ flex: 1, minWidth: 160 }}
+          />
+        </Box>
+        <Box>
+          <Button
+            type="submit"
+            variant="contained"
+            startIcon={<Search />}
+            disabled={!draft.query.trim()}
+            sx={{ borderRadius: 2, textTransform: 'none', fontWeight: 600 }}
+          >
+            Search
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Results */}
+      {!applied.query ? (
+        <Alert severity="info" sx={{ borderRadius: 3 }}>
+          Enter a file name or pattern to search the bucket.
+        </Alert>
+      ) : error ? (
+        <Alert severity="error" sx={{ borderRadius: 3 }}>
+          Search failed: {(error as Error).message}
+        </Alert>
+      ) : (
+        <>
+          {pages.length > 0 && (
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+              <Chip label={`${scanned.toLocaleString()} files scanned`} size="small" variant="outlined" />
+              {lastPage?.timedOut && hasNextPage && (
+                <Typography variant="body2" color="text.secondary">
+                  The search paused to stay responsive; load more to keep scanning.
+                </Typography>
+              )}
+              {!hasNextPage && (
+                <Typography variant="body2" color="text.secondary">
+                  Search complete.
+                </Typography>
+              )}
+            </Box>
+          )}
+          <FileList
+            files={files}
+            isLoading={isLoading}
+            hasMore={hasNextPage}
+            isLoadingMore={isFetchingNextPage}
+            onLoadMore={fetchNextPage}
+            onRefresh={() => refetch()}
+            prefix=""
+            actionMode="download-only"
+            title="Search Results"
+            subtitle={`Matches for "${applied.query}"${applied.project ? ` in ${applied.project}` : ''}`}
+          />
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default SearchTab;
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  CircularProgress,
+  IconButton,
+  Tooltip,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import { Share, ContentCopy, LinkOff, Lock, Refresh } from '@mui/icons-material';
+import { useShareLinks, useRevokeShareLink } from '../../hooks/useS3';
+import { apiService } from '../../services/apiService';
+import { authService } from '../../services/authService';
+import { ShareLinkStatus } from '../../types';
+import { copyLinkToClipboard } from '../ShareLinkDialog';
+import UploadLinksPanel from '../UploadLinksPanel';
+
+const STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  exhausted: 'Download limit reached',
+  revoked: 'Revoked',
+};
+
+const STATUS_COLORS: Record<ShareLinkStatus, 'success' | 'default' | 'warning' | 'error'> = {
+  active: 'success',
+  expired: 'default',
+  exhausted: 'warning',
+  revoked: 'error',
+};
+
+const cardSx = {
+  background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
+  borderRadius: 3,
+  border: '1px solid #e2e8f0',
+  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+  p: 4,
+};
+
+const SharedLinksTab: React.FC = () => {
+  const isAdmin = authService.isAdmin();
+  const [showAll, setShowAll] = useState(false);
+
+  const { data, isLoading, isFetching, error, refetch } = useShareLinks(isAdmin && showAll);
+  const revokeMutation = useRevokeShareLink();
+  const links = data?.links || [];
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: 48,
+            height: 48,
+            borderRadius: 3,
+            background: 'linear-gradient(135deg, #ec4899 0%, #db2777 100%)',
+            boxShadow: '0 4px 12px rgba(219, 39, 119, 0.25)',
+          }}
+        >
+          <Share sx={{ fontSize: 24, color: 'white' }} />
+        </Box>
+        <Box>
+          <Typography variant="h5" component="h1" sx={{ fontWeight: 700, color: '#0f172a', mb: 0.5 }}>
+            {showAll ? 'All Shared Links' : 'My Shared Links'}
+          </Typography>
+          <Typography variant="body1" sx={{ color: '#64748b', fontWeight: 500 }}>
+            Links that let people without an account download a file until they expire
+          </Typography>
+        </Box>
+      </Box>
+
+      <Box sx={cardSx}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+          {isAdmin && (
+            <FormControlLabel
+              control={<Switch checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />}
+              label="Show links of all users"
+            />
+          )}
+          <Button
+            startIcon={<Refresh />}
+            onClick={() => refetch()}
+            disabled={isFetching}
+            sx={{ textTransform: 'none', ml: 'auto' }}
+          >
+            Refresh
+          </Button>
+        </Box>
+
+        {error ? (
+          <Alert severity="error">Failed to load share links: {(error as Error).message}</Alert>
+        ) : isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : links.length === 0 ? (
+          <Alert severity="info">
+            No share links yet. Use the share button next to a file in Browse or Download to create one.
+          </Alert>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>File</TableCell>
+                {showAll && <TableCell>Created by</TableCell>}
+                <TableCell>Status</TableCell>
+                <TableCell>Downloads</TableCell>
+                <TableCell>Expires</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {links.map(link => (
+                <TableRow key={link.id} hover>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Typography variant="body2" title={link.key} sx={{ wordBreak: 'break-all', fontWeight: 500 }}>
+                        {link.key.split('/').pop()}
+                      </Typography>
+                      {link.hasPassword && (
+                        <Tooltip title="Password protected">
+                          <Lock sx={{ fontSize: 16, color: '#64748b' }} />
+                        </Tooltip>
+                      )}
+                    </Box>
+                    <Typography variant="caption" color="text.secondary">
+                      {apiService.formatFileSize(link.size)} · created {link.createdAt.toLocaleString()}
+                    </Typography>
+                  </TableCell>
+                  {showAll && (
+                    <TableCell>
+                      <Typography variant="body2">{link.createdByName}</Typography>
+                      <Typography variant="caption" color="text.secondary">{link.createdBy}</Typography>
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Chip label={STATUS_LABELS[link.status]} color={STATUS_COLORS[link.status]} size="small" />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">
+                      {link.downloadCount}{link.maxDownloads ? ` / ${link.maxDownloads}` : ''}
+                    </Typography>
+                    {link.lastDownloadedAt && (
+                      <Typography variant="caption" color="text.secondary">
+                        last {link.lastDownloadedAt.toLocaleString()}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{link.expiresAt.toLocaleString()}</Typography>
+                    {link.revokedAt && (
+                      <Typography variant="caption" color="text.secondary">
+                        revoked {link.revokedAt.toLocaleString()}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Copy link">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => copyLinkToClipboard(link.url)}
+                          disabled={link.status !== 'active'}
+                        >
+                          <ContentCopy fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Revoke link">
+                      <span>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => revokeMutation.mutate({ id: link.id, key: link.key })}
+                          disabled={link.status !== 'active' || revokeMutation.isPending}
+                        >
+                          <LinkOff fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Box>
+
+      {isAdmin && <UploadLinksPanel />}
+    </Box>
+  );
+};
+
+export default SharedLinksTab;
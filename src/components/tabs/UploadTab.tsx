@@ -1,42 +1,27 @@
-import React, { useState } from 'react';
+import React from 'react';
 import {
   Box,
   Card,
   CardContent,
   Typography,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
   Alert,
   Divider,
-  Stepper,
-  Step,
-  StepLabel,
   Paper,
   Avatar,
 } from '@mui/material';
 import { CloudUpload, FolderOpen, UploadFile } from '@mui/icons-material';
-import { useTopLevelFolders, useDateFolders, useFiles } from '../../hooks/useS3';
+import { useAllFiles } from '../../hooks/useS3';
+import { useLayoutSelection } from '../../hooks/useLayoutSelection';
 import FileUpload from '../FileUpload';
 import FileList from '../FileList';
+import LayoutStepper from '../LayoutStepper';
+import LayoutFolderSelects from '../LayoutFolderSelects';
 
 const UploadTab: React.FC = () => {
-  const [selectedProject, setSelectedProject] = useState('');
-  const [selectedDate, setSelectedDate] = useState('');
+  const selection = useLayoutSelection('output', 'input');
+  const targetPath = selection.targetPath;
 
-  const { data: projects = [], isLoading: projectsLoading } = useTopLevelFolders();
-  const { data: dateFolders = [], isLoading: datesLoading } = useDateFolders(
-    selectedProject,
-    'inputData',
-    !!selectedProject
-  );
-
-  const targetPath = selectedProject && selectedDate 
-    ? `${selectedProject}/outputData/${selectedDate}/`
-    : '';
-
-  const { data: existingFiles = [], isLoading: filesLoading, refetch: refetchFiles } = useFiles(
+  const { data: existingFiles = [], isLoading: filesLoading, refetch: refetchFiles } = useAllFiles(
     targetPath,
     !!targetPath
   );
@@ -45,8 +30,6 @@ const UploadTab: React.FC = () => {
     refetchFiles();
   };
 
-  const activeStep = !selectedProject ? 0 : !selectedDate ? 1 : 2;
-
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
       {/* Header */}
@@ -95,54 +78,9 @@ const UploadTab: React.FC = () => {
       </Box>
 
       {/* Progress Stepper */}
-      <Box
-        sx={{
-          background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
-          borderRadius: 3,
-          border: '1px solid #e2e8f0',
-          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-          p: 4,
-        }}
-      >
-        <Typography variant="h6" sx={{ fontWeight: 600, color: '#0f172a', mb: 3 }}>
-          Upload Process
-        </Typography>
-        <Stepper 
-          activeStep={activeStep} 
-          alternativeLabel
-          sx={{
-            '& .MuiStepLabel-root .Mui-completed': {
-              color: '#059669',
-            },
-            '& .MuiStepLabel-root .Mui-active': {
-              color: '#6366f1',
-            },
-            '& .MuiStepConnector-alternativeLabel': {
-              top: 10,
-              left: 'calc(-50% + 16px)',
-              right: 'calc(50% + 16px)',
-            },
-            '& .MuiStepConnector-alternativeLabel.Mui-active .MuiStepConnector-line': {
-              borderColor: '#6366f1',
-            },
-            '& .MuiStepConnector-alternativeLabel.Mui-completed .MuiStepConnector-line': {
-              borderColor: '#059669',
-            },
-          }}
-        >
-          <Step>
-            <StepLabel>Select Project</StepLabel>
-          </Step>
-          <Step>
-            <StepLabel>Choose Date</StepLabel>
-          </Step>
-          <Step>
-            <StepLabel>Upload Files</StepLabel>
-          </Step>
-        </Stepper>
-      </Box>
+      <LayoutStepper selection={selection} title="Upload Process" finalStep="Upload Files" />
 
-      {/* Project and Date Selection */}
+      {/* Project and Folder Selection */}
       <Box
         sx={{
           background: 'linear-gradient(135deg, #ffffff 0%, #fefefe 100%)',
@@ -172,65 +110,7 @@ const UploadTab: React.FC = () => {
           </Typography>
         </Box>
         
-        <Box sx={{ display: 'flex', gap: 4, mb: 3, flexDirection: { xs: 'column', md: 'row' } }}>
-          <FormControl fullWidth>
-            <InputLabel sx={{ fontWeight: 600 }}>Project Folder</InputLabel>
-            <Select
-              value={selectedProject}
-              label="Project Folder"
-              onChange={(e) => {
-                setSelectedProject(e.target.value);
-                setSelectedDate(''); // Reset date when project changes
-              }}
-              disabled={projectsLoading}
-              sx={{ 
-                borderRadius: 3,
-                backgroundColor: '#fafafa',
-                '&:hover': {
-                  backgroundColor: '#f5f5f5',
-                },
-                '&.Mui-focused': {
-                  backgroundColor: 'white',
-                },
-              }}
-            >
-              {projects.map((project) => (
-                <MenuItem key={project.name} value={project.name}>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
-                    <FolderOpen fontSize="small" sx={{ color: '#6366f1' }} />
-                    <Typography sx={{ fontWeight: 500 }}>{project.name}</Typography>
-                  </Box>
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-
-          <FormControl fullWidth disabled={!selectedProject}>
-            <InputLabel sx={{ fontWeight: 600 }}>Date Folder</InputLabel>
-            <Select
-              value={selectedDate}
-              label="Date Folder"
-              onChange={(e) => setSelectedDate(e.target.value)}
-              disabled={!selectedProject || datesLoading}
-              sx={{ 
-                borderRadius: 3,
-                backgroundColor: !selectedProject ? '#f8fafc' : '#fafafa',
-                '&:hover': {
-                  backgroundColor: !selectedProject ? '#f8fafc' : '#f5f5f5',
-                },
-                '&.Mui-focused': {
-                  backgroundColor: 'white',
-                },
-              }}
-            >
-              {dateFolders.map((date) => (
-                <MenuItem key={date} value={date}>
-                  <Typography sx={{ fontWeight: 500 }}>{date}</Typography>
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-        </Box>
+        <LayoutFolderSelects selection={selection} />
 
         {targetPath && (
           <Alert 
@@ -283,6 +163,7 @@ const UploadTab: React.FC = () => {
           </Box>
           <FileUpload 
             targetPath={targetPath} 
+            existingFiles={existingFiles}
             onUploadComplete={handleUploadComplete}
           />
         </Box>
@@ -327,7 +208,7 @@ const UploadTab: React.FC = () => {
       )}
 
       {/* Help Messages */}
-      {!selectedProject && (
+      {!selection.project && (
         <Alert 
           severity="info" 
           sx={{ 
@@ -345,7 +226,7 @@ const UploadTab: React.FC = () => {
         </Alert>
       )}
 
-      {selectedProject && !selectedDate && (
+      {selection.project && !selection.isComplete && (
         <Alert 
           severity="info" 
           sx={{ 
@@ -358,7 +239,7 @@ const UploadTab: React.FC = () => {
           }}
         >
           <Typography variant="body2" sx={{ fontWeight: 500 }}>
-            📅 Please select a date folder to continue.
+            📅 Please select the {selection.pickedSegments[selection.activeStep - 1]?.label.toLowerCase()} to continue.
           </Typography>
         </Alert>
       )}
@@ -41,10 +41,14 @@ import {
   CloudOff,
 } from '@mui/icons-material';
 import { authService } from '../../services/authService';
+import { AuthProviderType, ProjectGrants } from '../../types';
+import ProjectGrantsEditor, { PROJECT_PERMISSIONS, formatProjectName } from '../ProjectGrantsEditor';
 
 interface AuthorizedUser {
   email: string;
   role: 'admin' | 'user';
+  projects: ProjectGrants;
+  hasPassword: boolean;
   addedAt: string;
   addedBy: string;
 }
@@ -55,8 +59,11 @@ interface UserListResponse {
     email: string;
     role: 'admin' | 'user';
   };
+  authProvider?: AuthProviderType;
 }
 
+const MIN_PASSWORD_LENGTH = 8;
+
 const UserManagementTab: React.FC = () => {
   const [users, setUsers] = useState<AuthorizedUser[]>([]);
   const [currentUser, setCurrentUser] = useState<{ email: string; role: 'admin' | 'user' } | null>(null);
@@ -69,20 +76,25 @@ const UserManagementTab: React.FC = () => {
   // Form state
   const [newUserEmail, setNewUserEmail] = useState('');
   const [newUserRole, setNewUserRole] = useState<'admin' | 'user'>('user');
+  const [newUserProjects, setNewUserProjects] = useState<ProjectGrants>({});
   const [editUserRole, setEditUserRole] = useState<'admin' | 'user'>('user');
+  const [editUserProjects, setEditUserProjects] = useState<ProjectGrants>({});
+  const [newUserPassword, setNewUserPassword] = useState('');
+  const [editUserPassword, setEditUserPassword] = useState('');
+  const [authProvider, setAuthProvider] = useState<AuthProviderType | null>(null);
+  
+  // Local accounts sign in with a password that admins set here
+  const usesPasswords = authProvider === 'local';
 
   // Check if running in local development
   const isLocalDevelopment = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
 
   // Helper function to make authenticated requests
   const makeAuthenticatedRequest = async (url: string, options: RequestInit = {}) => {
-    const authHeaders = authService.getAuthHeaders();
-    
     return fetch(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
-        ...authHeaders,
         ...options.headers,
       },
     });
@@ -113,6 +125,7 @@ const UserManagementTab: React.FC = () => {
       const data: UserListResponse = await response.json();
       setUsers(data.users || []);
       setCurrentUser(data.currentUser || null);
+      setAuthProvider(data.authProvider || null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch users');
     } finally {
@@ -132,6 +145,11 @@ const UserManagementTab: React.FC = () => {
       return;
     }
 
+    if (usesPasswords && newUserPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Passwords must have at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
     if (!currentUser || currentUser.role !== 'admin') {
       setError('Only administrators can add users');
       return;
@@ -145,12 +163,14 @@ const UserManagementTab: React.FC = () => {
         body: JSON.stringify({
           email: newUserEmail.trim().toLowerCase(),
           role: newUserRole,
+          projects: newUserRole === 'user' ? newUserProjects : {},
+          ...(usesPasswords && { password: newUserPassword }),
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || `Failed to add user: ${response.statusText}`);
+        throw new Error(errorData.message || errorData.error || `Failed to add user: ${response.statusText}`);
       }
 
       // Refresh the user list
@@ -159,13 +179,15 @@ const UserManagementTab: React.FC = () => {
       // Reset form
       setNewUserEmail('');
       setNewUserRole('user');
+      setNewUserProjects({});
+      setNewUserPassword('');
       setIsAddDialogOpen(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add user');
     }
   };
 
-  // Edit user role
+  // Edit user role and project access
   const handleEditUser = async () => {
     if (isLocalDevelopment) {
       setError('User management is not available in local development mode.');
@@ -177,6 +199,11 @@ const UserManagementTab: React.FC = () => {
       return;
     }
 
+    if (usesPasswords && editUserPassword && editUserPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Passwords must have at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
     try {
       setError(null);
       
@@ -184,12 +211,14 @@ const UserManagementTab: React.FC = () => {
         method: 'PUT',
         body: JSON.stringify({
           role: editUserRole,
+          ...(editUserRole === 'user' && { projects: editUserProjects }),
+          ...(usesPasswords && editUserPassword && { password: editUserPassword }),
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || `Failed to update user: ${response.statusText}`);
+        throw new Error(errorData.message || errorData.error || `Failed to update user: ${response.statusText}`);
       }
 
       // Refresh the user list
@@ -197,6 +226,7 @@ const UserManagementTab: React.FC = () => {
       
       // Reset form
       setEditingUser(null);
+      setEditUserPassword('');
       setIsEditDialogOpen(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update user');
@@ -247,6 +277,8 @@ const UserManagementTab: React.FC = () => {
   const openEditDialog = (user: AuthorizedUser) => {
     setEditingUser(user);
     setEditUserRole(user.role);
+    setEditUserProjects(user.role === 'admin' ? {} : user.projects);
+    setEditUserPassword('');
     setIsEditDialogOpen(true);
   };
 
@@ -468,6 +500,7 @@ const UserManagementTab: React.FC = () => {
                 <TableRow sx={{ backgroundColor: '#f8fafc' }}>
                   <TableCell sx={{ fontWeight: 600, color: '#374151' }}>User</TableCell>
                   <TableCell sx={{ fontWeight: 600, color: '#374151' }}>Role</TableCell>
+                  <TableCell sx={{ fontWeight: 600, color: '#374151' }}>Project Access</TableCell>
                   <TableCell sx={{ fontWeight: 600, color: '#374151' }}>Added</TableCell>
                   <TableCell sx={{ fontWeight: 600, color: '#374151' }}>Added By</TableCell>
                   {isAdmin && <TableCell sx={{ fontWeight: 600, color: '#374151' }}>Actions</TableCell>}
@@ -490,6 +523,11 @@ const UserManagementTab: React.FC = () => {
                               (You)
                             </Typography>
                           )}
+                          {usesPasswords && !user.hasPassword && (
+                            <Typography variant="caption" sx={{ color: '#dc2626', display: 'block' }}>
+                              No password set
+                            </Typography>
+                          )}
                         </Box>
                       </Box>
                     </TableCell>
@@ -502,6 +540,30 @@ const UserManagementTab: React.FC = () => {
                         sx={{ fontWeight: 600 }}
                       />
                     </TableCell>
+                    <TableCell>
+                      {user.role === 'admin' ? (
+                        <Typography variant="body2" sx={{ color: '#64748b' }}>
+                          Everything
+                        </Typography>
+                      ) : Object.keys(user.projects).length === 0 ? (
+                        <Typography variant="body2" sx={{ color: '#9ca3af' }}>
+                          No projects
+                        </Typography>
+                      ) : (
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                          {Object.entries(user.projects).map(([project, permissions]) => (
+                            <Chip
+                              key={project}
+                              size="small"
+                              variant="outlined"
+                              label={`${formatProjectName(project)}: ${
+                                permissions.length === PROJECT_PERMISSIONS.length ? 'all' : permissions.join(', ') || 'none'
+                              }`}
+                            />
+                          ))}
+                        </Box>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <Typography variant="body2" sx={{ color: '#64748b' }}>
                         {new Date(user.addedAt).toLocaleDateString()}
@@ -569,6 +631,17 @@ const UserManagementTab: React.FC = () => {
               placeholder="user@example.com"
               sx={{ borderRadius: 3 }}
             />
+            {usesPasswords && (
+              <TextField
+                fullWidth
+                label="Password"
+                type="password"
+                value={newUserPassword}
+                onChange={(e) => setNewUserPassword(e.target.value)}
+                helperText={`At least ${MIN_PASSWORD_LENGTH} characters; share it with the user securely`}
+                autoComplete="new-password"
+              />
+            )}
             <FormControl fullWidth>
               <InputLabel>Role</InputLabel>
               <Select
@@ -580,7 +653,7 @@ const UserManagementTab: React.FC = () => {
                 <MenuItem value="user">
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                     <Person fontSize="small" />
-                    User - Can view and use the application
+                    User - Can use the projects granted below
                   </Box>
                 </MenuItem>
                 <MenuItem value="admin">
@@ -591,6 +664,9 @@ const UserManagementTab: React.FC = () => {
                 </MenuItem>
               </Select>
             </FormControl>
+            {newUserRole === 'user' && (
+              <ProjectGrantsEditor value={newUserProjects} onChange={setNewUserProjects} />
+            )}
           </Box>
         </DialogContent>
         <DialogActions sx={{ p: 3, gap: 2 }}>
@@ -624,7 +700,7 @@ const UserManagementTab: React.FC = () => {
         fullWidth
       >
         <DialogTitle sx={{ fontWeight: 600, color: '#0f172a' }}>
-          Edit User Role
+          Edit User Access
         </DialogTitle>
         <DialogContent>
           {editingUser && (
@@ -634,6 +710,17 @@ const UserManagementTab: React.FC = () => {
                   <strong>User:</strong> {editingUser.email}
                 </Typography>
               </Alert>
+              {usesPasswords && (
+                <TextField
+                  fullWidth
+                  label="New password"
+                  type="password"
+                  value={editUserPassword}
+                  onChange={(e) => setEditUserPassword(e.target.value)}
+                  helperText="Leave empty to keep the current password"
+                  autoComplete="new-password"
+                />
+              )}
               <FormControl fullWidth>
                 <InputLabel>Role</InputLabel>
                 <Select
@@ -645,7 +732,7 @@ const UserManagementTab: React.FC = () => {
                   <MenuItem value="user">
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                       <Person fontSize="small" />
-                      User - Can view and use the application
+                      User - Can use the projects granted below
                     </Box>
                   </MenuItem>
                   <MenuItem value="admin">
@@ -656,6 +743,9 @@ const UserManagementTab: React.FC = () => {
                   </MenuItem>
                 </Select>
               </FormControl>
+              {editUserRole === 'user' && (
+                <ProjectGrantsEditor value={editUserProjects} onChange={setEditUserProjects} />
+              )}
             </Box>
           )}
         </DialogContent>
@@ -677,7 +767,7 @@ const UserManagementTab: React.FC = () => {
               fontWeight: 600,
             }}
           >
-            Update Role
+            Save Changes
           </Button>
         </DialogActions>
       </Dialog>
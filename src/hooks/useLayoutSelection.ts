@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { LayoutSide } from '../types';
+import { layoutService } from '../services/layoutService';
+import { useProjectLayouts } from './useS3';
+
+// Project and picked-folder state for the tabs' folder steppers.
+// `side` is where the tab works (e.g. output for uploads); `optionsSide` is where the
+// picked folders are listed from, since outputs for a new date may not exist yet.
+export const useLayoutSelection = (side: LayoutSide, optionsSide: LayoutSide = side) => {
+  const [project, setProject] = useState('');
+  const [values, setValues] = useState<string[]>([]);
+  const { data: layouts } = useProjectLayouts();
+
+  const layout = layoutService.getLayout(layouts, project);
+  const pickedSegments = layoutService.getPickedSegments(layout);
+  const firstMissing = pickedSegments.findIndex((_, index) => !values[index]);
+  const isComplete = !!project && firstMissing === -1;
+
+  const selectProject = (name: string) => {
+    setProject(name);
+    setValues([]);
+  };
+
+  // Changing a folder clears the folders picked below it
+  const selectValue = (index: number, value: string) => {
+    setValues(prev => [...prev.slice(0, index), value]);
+  };
+
+  return {
+    project,
+    values,
+    layout,
+    pickedSegments,
+    side,
+    optionsSide,
+    selectProject,
+    selectValue,
+    isComplete,
+    // Index of the first unfinished step: 0 is the project, then one step per picked segment
+    activeStep: !project ? 0 : firstMissing === -1 ? pickedSegments.length + 1 : firstMissing + 1,
+    targetPath: isComplete ? layoutService.buildPrefix(project, layout, side, values) : '',
+    // Picked values joined with "/", the key used by folder stats and reconciliation
+    folder: values.join('/'),
+  };
+};
+
+export type LayoutSelection = ReturnType<typeof useLayoutSelection>;
@@ -1,6 +1,22 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, InfiniteData } from '@tanstack/react-query';
 import { apiService } from '../services/apiService';
-import { S3File, S3Folder } from '../types';
+import { previewService } from '../services/previewService';
+import {
+  S3File,
+  S3Folder,
+  ListPage,
+  UploadProgress,
+  BulkDeleteSelection,
+  SearchFilters,
+  ReconciliationRules,
+  ProjectLayout,
+  TransferRequest,
+  TransferConflictAction,
+  CreateShareLinkRequest,
+  CreateUploadLinkRequest,
+  CreateApiTokenRequest,
+} from '../types';
 import { useS3Config } from '../contexts/S3ConfigContext';
 import toast from 'react-hot-toast';
 
@@ -25,7 +41,21 @@ export const queryKeys = {
   topLevelFolders: ['s3', 'topLevelFolders'],
   subfolders: (prefix: string) => ['s3', 'subfolders', prefix],
   files: (prefix: string) => ['s3', 'files', prefix],
-  dateFolders: (project: string, dataType: string) => ['s3', 'dateFolders', project, dataType],
+  search: (filters: SearchFilters) => ['s3', 'search', filters],
+  layouts: ['s3', 'layouts'],
+  folderStats: (project: string) => ['s3', 'folderStats', project],
+  reconciliationRules: (project: string) => ['s3', 'reconciliationRules', project],
+  reconciliation: (project: string, folder: string) => ['s3', 'reconciliation', project, folder],
+  multipartUploads: (prefix: string) => ['s3', 'multipartUploads', prefix],
+  fileVersions: (key: string) => ['s3', 'fileVersions', key],
+  filePreview: (key: string, version: string) => ['s3', 'filePreview', key, version],
+  trash: (prefix: string) => ['s3', 'trash', prefix],
+  bulkDeletePreview: (selection: BulkDeleteSelection) => ['s3', 'bulkDeletePreview', selection],
+  transferPreview: (request: TransferRequest) => ['s3', 'transferPreview', request],
+  transferJob: (id: string) => ['s3', 'transferJob', id],
+  shareLinks: (all: boolean) => ['s3', 'shareLinks', all],
+  uploadLinks: ['s3', 'uploadLinks'],
+  apiTokens: (all: boolean) => ['apiTokens', all],
 };
 
 // Hook for fetching top-level folders
@@ -67,41 +97,187 @@ export const useSubfolders = (prefix: string, enabled: boolean = true) => {
   });
 };
 
-// Hook for fetching files
+// Pages arrive in key order, so sorting by date only holds across the pages loaded so far
+const selectFilesNewestFirst = (data: InfiniteData<ListPage<S3File>>) =>
+  data.pages.flatMap(page => page.items).sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+
+// Hook for fetching files one page at a time; `data` is the loaded files, newest first
 export const useFiles = (prefix: string, enabled: boolean = true) => {
   const handleError = useApiErrorHandler();
   
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: queryKeys.files(prefix),
-    queryFn: async () => {
+    queryFn: async ({ pageParam }) => {
       try {
-        return await apiService.listFiles(prefix);
+        return await apiService.listFiles(prefix, pageParam);
       } catch (error) {
         handleError(error);
         throw error;
       }
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    select: selectFilesNewestFirst,
     enabled: enabled && prefix !== undefined,
     staleTime: 2 * 60 * 1000, // 2 minutes for files (more frequent updates)
     gcTime: 5 * 60 * 1000,
   });
 };
 
-// Hook for fetching date folders
-export const useDateFolders = (
-  project: string, 
-  dataType: 'inputData' | 'outputData',
-  enabled: boolean = true
-) => {
+// Hook for callers that need the complete listing (e.g. upload conflict checks): keeps loading pages until done
+export const useAllFiles = (prefix: string, enabled: boolean = true) => {
+  const query = useFiles(prefix, enabled);
+  const { hasNextPage, isFetchingNextPage, isError, fetchNextPage } = query;
+
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && !isError) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, isError, fetchNextPage]);
+
+  return { ...query, isLoading: query.isLoading || hasNextPage };
+};
+
+// Hook for searching the bucket; each page resumes scanning where the previous one stopped
+export const useSearchFiles = (filters: SearchFilters, enabled: boolean = true) => {
+  const handleError = useApiErrorHandler();
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.search(filters),
+    queryFn: async ({ pageParam }) => {
+      try {
+        return await apiService.searchFiles(filters, pageParam);
+      } catch (error) {
+        handleError(error);
+        throw error;
+      }
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: enabled && !!filters.query.trim(),
+    staleTime: 2 * 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+};
+
+// Hooks for project folder layouts (which folders sit below a project and which of them are picked)
+export const useProjectLayouts = () => {
   return useQuery({
-    queryKey: queryKeys.dateFolders(project, dataType),
-    queryFn: () => apiService.listDateFolders(project, dataType),
-    enabled: enabled && !!project,
+    queryKey: queryKeys.layouts,
+    queryFn: () => apiService.getProjectLayouts(),
     staleTime: 5 * 60 * 1000,
     gcTime: 10 * 60 * 1000,
   });
 };
 
+export const useSaveProjectLayout = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ project, layout }: { project: string; layout: ProjectLayout | null }) =>
+      layout ? apiService.saveProjectLayout(project, layout) : apiService.resetProjectLayout(project),
+    onSuccess: (_, variables) => {
+      // Stats and reconciliation reports are computed from the layout
+      queryClient.invalidateQueries({ queryKey: queryKeys.layouts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.folderStats(variables.project) });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'reconciliation', variables.project] });
+      toast.success(variables.layout ? `Saved folder layout for ${variables.project}` : `Reset ${variables.project} to the default layout`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save folder layout: ${error.message}`);
+    },
+  });
+};
+
+// Hooks for creating projects (admin only) and picked layout folders (manage access to the project)
+export const useCreateProject = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (name: string) => apiService.createProject(name),
+    onSuccess: (_, name) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.topLevelFolders });
+      toast.success(`Created project ${name}`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to create project: ${error.message}`);
+    },
+  });
+};
+
+export const useCreateLayoutFolder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ project, values }: { project: string; values: string[] }) =>
+      apiService.createLayoutFolder(project, values),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['s3', 'subfolders'] });
+      toast.success(`Created folder ${variables.values[variables.values.length - 1]}`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to create folder: ${error.message}`);
+    },
+  });
+};
+
+// Hooks for folder statistics (size, file count, newest file); a project only appears in
+// useAllProjectStats once the server has indexed it
+export const useAllProjectStats = () => {
+  return useQuery({
+    queryKey: queryKeys.folderStats(''),
+    queryFn: () => apiService.getAllProjectStats(),
+    staleTime: 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+};
+
+export const useProjectStats = (project: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: queryKeys.folderStats(project),
+    queryFn: () => apiService.getProjectStats(project),
+    enabled: enabled && !!project,
+    staleTime: 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+};
+
+// Hooks for input/output reconciliation of a date folder
+export const useReconciliationRules = (project: string) => {
+  return useQuery({
+    queryKey: queryKeys.reconciliationRules(project),
+    queryFn: () => apiService.getReconciliationRules(project),
+    enabled: !!project,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveReconciliationRules = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ project, rules }: { project: string; rules: ReconciliationRules }) =>
+      apiService.saveReconciliationRules(project, rules),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.reconciliationRules(variables.project) });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'reconciliation', variables.project] });
+      toast.success(`Saved reconciliation rules for ${variables.project}`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save reconciliation rules: ${error.message}`);
+    },
+  });
+};
+
+export const useReconciliationReport = (project: string, folder: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: queryKeys.reconciliation(project, folder),
+    queryFn: () => apiService.getReconciliationReport(project, folder),
+    enabled: enabled && !!project,
+    staleTime: 30 * 1000,
+  });
+};
+
 // Hook for uploading files
 export const useUploadFile = () => {
   const queryClient = useQueryClient();
@@ -115,7 +291,7 @@ export const useUploadFile = () => {
     }: { 
       file: File; 
       key: string; 
-      onProgress?: (progress: number) => void;
+      onProgress?: (progress: UploadProgress) => void;
     }) => {
       try {
         await apiService.uploadFile(file, key, onProgress);
@@ -128,6 +304,7 @@ export const useUploadFile = () => {
       // Invalidate relevant queries
       const prefix = variables.key.substring(0, variables.key.lastIndexOf('/'));
       queryClient.invalidateQueries({ queryKey: queryKeys.files(prefix) });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'folderStats'] });
       
       toast.success(`File "${variables.file.name}" uploaded successfully!`);
     },
@@ -143,15 +320,13 @@ export const useDeleteFile = () => {
 
   return useMutation({
     mutationFn: async (key: string) => {
-      await apiService.deleteFile(key);
+      return await apiService.deleteFile(key);
     },
-    onSuccess: (_, key) => {
-      // Invalidate relevant queries
-      const prefix = key.substring(0, key.lastIndexOf('/'));
-      queryClient.invalidateQueries({ queryKey: queryKeys.files(prefix) });
-      
-      const fileName = key.substring(key.lastIndexOf('/') + 1);
-      toast.success(`File "${fileName}" deleted successfully!`);
+    onSuccess: () => {
+      // Listings are cached per folder and the file may appear in several of them
+      queryClient.invalidateQueries({ queryKey: ['s3', 'files'] });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'trash'] });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'folderStats'] });
     },
     onError: (error: Error, key) => {
       const fileName = key.substring(key.lastIndexOf('/') + 1);
@@ -160,11 +335,333 @@ export const useDeleteFile = () => {
   });
 };
 
+// Hook for the dry run of a bulk delete; always refetched so the preview matches what will be removed
+export const useBulkDeletePreview = (selection: BulkDeleteSelection, enabled: boolean = true) => {
+  const handleError = useApiErrorHandler();
+
+  return useQuery({
+    queryKey: queryKeys.bulkDeletePreview(selection),
+    queryFn: async () => {
+      try {
+        return await apiService.previewBulkDelete(selection);
+      } catch (error) {
+        handleError(error);
+        throw error;
+      }
+    },
+    enabled,
+    staleTime: 0,
+    gcTime: 0,
+  });
+};
+
+export const useBulkDelete = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ selection, expectedCount, permanent = false }: {
+      selection: BulkDeleteSelection;
+      expectedCount: number;
+      permanent?: boolean;
+    }) => {
+      return await apiService.bulkDeleteFiles(selection, expectedCount, permanent);
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['s3', 'files'] });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'trash'] });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'folderStats'] });
+      const label = `${result.deletedCount} file${result.deletedCount === 1 ? '' : 's'}`;
+      toast.success(result.permanent ? `Permanently deleted ${label}` : `Moved ${label} to the Recycle Bin`);
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} file${result.failed.length === 1 ? '' : 's'} could not be deleted`);
+      }
+    },
+    onError: (error: Error & { code?: string }) => {
+      // The caller refreshes the preview when the selection changed since the dry run
+      if (error.code === 'SELECTION_CHANGED') return;
+      toast.error(`Bulk delete failed: ${error.message}`);
+    },
+  });
+};
+
+// Hook for the dry run of a copy/move; always refetched so conflicts match the destination's current state
+export const useTransferPreview = (request: TransferRequest | null) => {
+  const handleError = useApiErrorHandler();
+
+  return useQuery({
+    queryKey: queryKeys.transferPreview(request as TransferRequest),
+    queryFn: async () => {
+      try {
+        return await apiService.previewTransfer(request as TransferRequest);
+      } catch (error) {
+        handleError(error);
+        throw error;
+      }
+    },
+    enabled: !!request,
+    staleTime: 0,
+    gcTime: 0,
+  });
+};
+
+export const useStartTransfer = () => {
+  return useMutation({
+    mutationFn: ({ request, expectedCount, conflict }: {
+      request: TransferRequest;
+      expectedCount: number;
+      conflict?: TransferConflictAction;
+    }) => apiService.startTransfer(request, expectedCount, conflict),
+    onError: (error: Error & { code?: string }) => {
+      // The caller refreshes the preview when the selection or destination changed since the dry run
+      if (error.code === 'SELECTION_CHANGED' || error.code === 'TARGET_EXISTS') return;
+      toast.error(`Failed to start transfer: ${error.message}`);
+    },
+  });
+};
+
+// Polls a copy/move job while it runs; listings are refreshed once it has finished
+export const useTransferJob = (id: string | null) => {
+  const queryClient = useQueryClient();
+  const reportedJobId = useRef<string | null>(null);
+
+  const query = useQuery({
+    queryKey: queryKeys.transferJob(id || ''),
+    queryFn: () => apiService.getTransferJob(id as string),
+    enabled: !!id,
+    refetchInterval: (query) => (query.state.data?.status === 'running' ? 1000 : false),
+  });
+
+  const job = query.data;
+
+  useEffect(() => {
+    if (!job || job.status === 'running' || reportedJobId.current === job.id) return;
+    reportedJobId.current = job.id;
+
+    queryClient.invalidateQueries({ queryKey: ['s3', 'files'] });
+    queryClient.invalidateQueries({ queryKey: ['s3', 'subfolders'] });
+    queryClient.invalidateQueries({ queryKey: queryKeys.topLevelFolders });
+    queryClient.invalidateQueries({ queryKey: ['s3', 'search'] });
+    queryClient.invalidateQueries({ queryKey: ['s3', 'folderStats'] });
+
+    const verb = job.operation === 'move' ? 'Moved' : 'Copied';
+    const succeeded = job.done - job.failed.length;
+    if (job.status === 'failed') {
+      toast.error(`${verb} ${succeeded} of ${job.total} files before failing: ${job.error}`);
+    } else if (job.failed.length > 0) {
+      toast.error(`${verb} ${succeeded} of ${job.total} files; ${job.failed.length} failed`);
+    } else {
+      toast.success(`${verb} ${job.total} file${job.total === 1 ? '' : 's'}`);
+    }
+  }, [job, queryClient]);
+
+  return query;
+};
+
+export const useTrash = (prefix: string, enabled: boolean = true) => {
+  const handleError = useApiErrorHandler();
+
+  return useQuery({
+    queryKey: queryKeys.trash(prefix),
+    queryFn: async () => {
+      try {
+        return await apiService.listTrash(prefix);
+      } catch (error) {
+        handleError(error);
+        throw error;
+      }
+    },
+    enabled,
+  });
+};
+
+export const useRestoreTrashItem = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, overwrite = false }: { id: string; key: string; overwrite?: boolean }) => {
+      await apiService.restoreTrashItem(id, overwrite);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['s3', 'files'] });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'trash'] });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'folderStats'] });
+      toast.success(`Restored "${variables.key.split('/').pop()}"`);
+    },
+    onError: (error: Error & { code?: string }, variables) => {
+      // Conflicts are resolved by the caller, which offers to overwrite
+      if (error.code === 'OBJECT_EXISTS') return;
+      toast.error(`Failed to restore "${variables.key.split('/').pop()}": ${error.message}`);
+    },
+  });
+};
+
+export const usePurgeTrashItem = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; key: string }) => {
+      await apiService.purgeTrashItem(id);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['s3', 'trash'] });
+      toast.success(`Permanently deleted "${variables.key.split('/').pop()}"`);
+    },
+    onError: (error: Error, variables) => {
+      toast.error(`Failed to delete "${variables.key.split('/').pop()}": ${error.message}`);
+    },
+  });
+};
+
+// Hooks for share links (`/s/<id>` addresses that resolve to fresh presigned URLs)
+export const useShareLinks = (all: boolean = false) => {
+  const handleError = useApiErrorHandler();
+
+  return useQuery({
+    queryKey: queryKeys.shareLinks(all),
+    queryFn: async () => {
+      try {
+        return await apiService.listShareLinks(all);
+      } catch (error) {
+        handleError(error);
+        throw error;
+      }
+    },
+  });
+};
+
+export const useCreateShareLink = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CreateShareLinkRequest) => apiService.createShareLink(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['s3', 'shareLinks'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to create share link: ${error.message}`);
+    },
+  });
+};
+
+export const useRevokeShareLink = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; key: string }) => {
+      await apiService.revokeShareLink(id);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['s3', 'shareLinks'] });
+      toast.success(`Revoked the link to "${variables.key.split('/').pop()}"`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to revoke share link: ${error.message}`);
+    },
+  });
+};
+
+// Hooks for upload links (`/u/<id>` pages that let people without an account upload into one folder; admin)
+export const useUploadLinks = (enabled: boolean = true) => {
+  const handleError = useApiErrorHandler();
+
+  return useQuery({
+    queryKey: queryKeys.uploadLinks,
+    queryFn: async () => {
+      try {
+        return await apiService.listUploadLinks();
+      } catch (error) {
+        handleError(error);
+        throw error;
+      }
+    },
+    enabled,
+  });
+};
+
+export const useCreateUploadLink = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CreateUploadLinkRequest) => apiService.createUploadLink(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.uploadLinks });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to create upload link: ${error.message}`);
+    },
+  });
+};
+
+export const useRevokeUploadLink = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; prefix: string }) => {
+      await apiService.revokeUploadLink(id);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.uploadLinks });
+      toast.success(`Revoked the upload link for ${variables.prefix}`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to revoke upload link: ${error.message}`);
+    },
+  });
+};
+
+// Hooks for personal API tokens used by scripts and CI pipelines
+export const useApiTokens = (all: boolean = false) => {
+  const handleError = useApiErrorHandler();
+
+  return useQuery({
+    queryKey: queryKeys.apiTokens(all),
+    queryFn: async () => {
+      try {
+        return await apiService.listApiTokens(all);
+      } catch (error) {
+        handleError(error);
+        throw error;
+      }
+    },
+  });
+};
+
+export const useCreateApiToken = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CreateApiTokenRequest) => apiService.createApiToken(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['apiTokens'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to create API token: ${error.message}`);
+    },
+  });
+};
+
+export const useRevokeApiToken = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; name: string }) => {
+      await apiService.revokeApiToken(id);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['apiTokens'] });
+      toast.success(`Revoked the API token "${variables.name}"`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to revoke API token: ${error.message}`);
+    },
+  });
+};
+
 // Hook for generating presigned URLs
 export const usePresignedUrl = () => {
   return useMutation({
-    mutationFn: async (key: string) => {
-      return await apiService.generatePresignedUrl(key);
+    mutationFn: async ({ key, versionId }: { key: string; versionId?: string }) => {
+      return await apiService.generatePresignedUrl(key, 3600, versionId);
     },
     onError: (error: Error) => {
       toast.error(`Failed to generate download link: ${error.message}`);
@@ -172,23 +669,123 @@ export const usePresignedUrl = () => {
   });
 };
 
+export const useFileVersions = (key: string, enabled: boolean = true) => {
+  const handleError = useApiErrorHandler();
+
+  return useQuery({
+    queryKey: queryKeys.fileVersions(key),
+    queryFn: async () => {
+      try {
+        return await apiService.listFileVersions(key);
+      } catch (error) {
+        handleError(error);
+        throw error;
+      }
+    },
+    enabled: enabled && !!key,
+  });
+};
+
+export const useRestoreFileVersion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ key, versionId }: { key: string; versionId: string }) => {
+      return await apiService.restoreFileVersion(key, versionId);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.fileVersions(variables.key) });
+      queryClient.invalidateQueries({ queryKey: ['s3', 'files'] });
+      toast.success(`Restored an earlier version of "${variables.key.split('/').pop()}"`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to restore version: ${error.message}`);
+    },
+  });
+};
+
+// Hook for loading the preview of a file (at most PREVIEW_MAX_BYTES of it)
+export const useFilePreview = (file: S3File | null) => {
+  return useQuery({
+    // The ETag changes whenever the file is overwritten
+    queryKey: queryKeys.filePreview(file?.key || '', file?.versionId || file?.etag || ''),
+    queryFn: () => previewService.loadPreview(file!),
+    enabled: !!file,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: false,
+  });
+};
+
 // Hook for bulk downloading files
 export const useBulkDownload = () => {
+  const handleApiError = useApiErrorHandler();
+
   return useMutation({
     mutationFn: async ({ 
       keys, 
-      onProgress 
+      prefix,
+      onProgress,
+      signal,
     }: { 
-      keys: string[], 
-      onProgress?: (completed: number, total: number, currentFile: string) => void 
+      keys?: string[],
+      prefix?: string,
+      onProgress?: (loadedBytes: number, totalBytes: number | null) => void,
+      signal?: AbortSignal,
     }) => {
-      return await apiService.bulkDownloadFiles(keys, onProgress);
+      return await apiService.downloadZip({ keys, prefix }, onProgress, signal);
     },
-    onSuccess: (_, variables) => {
-      toast.success(`Successfully downloaded ${variables.keys.length} files!`);
+    onSuccess: () => {
+      toast.success('ZIP archive downloaded successfully!');
+    },
+    onError: (error: Error) => {
+      if (error.name === 'AbortError') {
+        return;
+      }
+      handleApiError(error);
+    },
+  });
+};
+
+// Hook for listing in-progress multipart uploads under a prefix
+export const useMultipartUploads = (prefix: string, enabled: boolean = true) => {
+  const handleError = useApiErrorHandler();
+
+  return useQuery({
+    queryKey: queryKeys.multipartUploads(prefix),
+    queryFn: async () => {
+      try {
+        return await apiService.listMultipartUploads(prefix);
+      } catch (error) {
+        handleError(error);
+        throw error;
+      }
+    },
+    enabled: enabled && !!prefix,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+};
+
+// Hook for aborting stale multipart uploads under a prefix
+export const useCleanupMultipartUploads = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ prefix, olderThanHours }: { prefix: string; olderThanHours: number }) => {
+      return await apiService.cleanupMultipartUploads(prefix, olderThanHours);
+    },
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.multipartUploads(variables.prefix) });
+
+      if (result.failed.length > 0) {
+        toast.error(`Aborted ${result.aborted.length} uploads, ${result.failed.length} could not be aborted`);
+      } else {
+        toast.success(`Aborted ${result.aborted.length} incomplete uploads`);
+      }
     },
     onError: (error: Error) => {
-      toast.error(`Bulk download failed: ${error.message}`);
+      toast.error(`Cleanup failed: ${error.message}`);
     },
   });
 };
@@ -197,7 +794,14 @@ export const useBulkDownload = () => {
 export const useRefreshData = () => {
   const queryClient = useQueryClient();
 
-  const refreshFiles = (prefix: string) => {
+  const refreshFiles = async (prefix: string) => {
+    // Files at the bucket root are always listed straight from S3; a failed re-sync still refreshes
+    // from whatever the server has
+    if (prefix) {
+      await apiService.refreshIndex(prefix).catch(error => {
+        console.error('Failed to refresh object index:', error);
+      });
+    }
     queryClient.invalidateQueries({ queryKey: queryKeys.files(prefix) });
   };
 
@@ -209,10 +813,6 @@ export const useRefreshData = () => {
     }
   };
 
-  const refreshDateFolders = (project: string, dataType: 'inputData' | 'outputData') => {
-    queryClient.invalidateQueries({ queryKey: queryKeys.dateFolders(project, dataType) });
-  };
-
   const refreshAll = () => {
     queryClient.invalidateQueries({ queryKey: ['s3'] });
   };
@@ -220,7 +820,6 @@ export const useRefreshData = () => {
   return {
     refreshFiles,
     refreshFolders,
-    refreshDateFolders,
     refreshAll,
   };
 }; 
\ No newline at end of file
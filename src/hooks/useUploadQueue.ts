@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from 'react';
+import { uploadQueue } from '../services/uploadQueue';
+
+// Subscribe a component to the app-wide upload queue
+export const useUploadQueue = () => {
+  const items = useSyncExternalStore(uploadQueue.subscribe, uploadQueue.getItems);
+  const settings = useSyncExternalStore(uploadQueue.subscribe, uploadQueue.getSettings);
+
+  return {
+    items,
+    settings,
+    add: uploadQueue.add.bind(uploadQueue),
+    start: uploadQueue.start.bind(uploadQueue),
+    pause: uploadQueue.pause.bind(uploadQueue),
+    resume: uploadQueue.resume.bind(uploadQueue),
+    overwrite: uploadQueue.overwrite.bind(uploadQueue),
+    cancel: uploadQueue.cancel.bind(uploadQueue),
+    remove: uploadQueue.remove.bind(uploadQueue),
+    clearFinished: uploadQueue.clearFinished.bind(uploadQueue),
+    setSettings: uploadQueue.setSettings.bind(uploadQueue),
+  };
+};
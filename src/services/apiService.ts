@@ -1,25 +1,62 @@
-import { S3File, S3Folder, S3Config } from '../types';
-import { authService } from './authService';
+import {
+  S3File,
+  S3Folder,
+  S3Config,
+  ListPage,
+  SearchFilters,
+  SearchPage,
+  FolderUsage,
+  FolderStats,
+  ProjectStats,
+  ProjectLayout,
+  ProjectLayouts,
+  ReconciliationRules,
+  ReconciliationFile,
+  ReconciliationReport,
+  UploadProgress,
+  UploadPartProgress,
+  MultipartUploadSession,
+  CompletedPart,
+  MultipartUploadInfo,
+  MultipartCleanupResult,
+  TrashItem,
+  TrashListing,
+  BulkDeleteSelection,
+  BulkDeletePreview,
+  BulkDeleteResult,
+  TransferRequest,
+  TransferPreview,
+  TransferConflictAction,
+  TransferJob,
+  ShareLink,
+  ShareLinkListing,
+  CreateShareLinkRequest,
+  UploadLink,
+  UploadLinkListing,
+  CreateUploadLinkRequest,
+  ApiToken,
+  ApiTokenListing,
+  CreateApiTokenRequest,
+} from '../types';
+import { uploadStore } from './uploadStore';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL ? `${process.env.REACT_APP_API_URL}/s3` : '/api/s3';
+const API_TOKENS_URL = process.env.REACT_APP_API_URL ? `${process.env.REACT_APP_API_URL}/tokens` : '/api/tokens';
 
-class ApiService {
-  private isInitialized = false;
+// Files at or above this size are sent with S3 multipart uploads straight from the browser
+const MULTIPART_THRESHOLD = 8 * 1024 * 1024;
+// Preferred part size; the server raises it when a file would exceed the 10,000 part limit
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+// Number of parts of a single file uploaded in parallel
+const MULTIPART_CONCURRENCY = 4;
+// Number of part URLs requested from the server per presign call
+const MULTIPART_PRESIGN_BATCH = 20;
 
-  // Helper method to get headers with authentication
-  private getAuthHeaders(): Record<string, string> {
-    return {
-      'Content-Type': 'application/json',
-      ...authService.getAuthHeaders()
-    };
-  }
+// The session travels in an HttpOnly cookie, so requests only need to say what they carry
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
 
-  // Helper method to get headers for multipart uploads (no Content-Type)
-  private getAuthHeadersForUpload(): Record<string, string> {
-    return {
-      ...authService.getAuthHeaders()
-    };
-  }
+class ApiService {
+  private isInitialized = false;
 
   // Helper method to handle API responses and check for expired tokens
   private async handleResponse(response: Response): Promise<any> {
@@ -34,7 +71,10 @@ class ApiService {
         throw expiredError;
       }
       
-      throw new Error(error.error || 'Request failed');
+      const requestError = new Error(error.error || 'Request failed');
+      (requestError as any).status = response.status;
+      (requestError as any).code = error.code;
+      throw requestError;
     }
     
     return await response.json();
@@ -52,7 +92,7 @@ class ApiService {
     // For client-side configuration, call the init endpoint
     const response = await fetch(`${API_BASE_URL}/init`, {
       method: 'POST',
-      headers: this.getAuthHeaders(),
+      headers: JSON_HEADERS,
       body: JSON.stringify(config),
     });
 
@@ -70,139 +110,1020 @@ class ApiService {
     }
 
     const response = await fetch(`${API_BASE_URL}/test`, {
-      headers: this.getAuthHeaders(),
+      headers: JSON_HEADERS,
     });
     return await this.handleResponse(response);
   }
 
   async listTopLevelFolders(): Promise<S3Folder[]> {
+    return await this.listSubfolders('');
+  }
+
+  // Folder pickers need every folder, so all pages are fetched
+  async listSubfolders(prefix: string): Promise<S3Folder[]> {
+    const folders: S3Folder[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page: ListPage<S3Folder> = await this.listFolderPage(prefix, cursor);
+      folders.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async listFolderPage(prefix: string, cursor?: string | null, limit?: number): Promise<ListPage<S3Folder>> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/folders?${this.buildListQuery(prefix, cursor, limit)}`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    return { items: result.folders, nextCursor: result.nextCursor };
+  }
+
+  async listFiles(prefix: string = '', cursor?: string | null, limit?: number): Promise<ListPage<S3File>> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/files?${this.buildListQuery(prefix, cursor, limit)}`, {
+      headers: JSON_HEADERS,
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to list files');
+    }
+
+    const result = await response.json();
+    return {
+      items: result.files.map((file: any) => ({
+        ...file,
+        lastModified: new Date(file.lastModified),
+      })),
+      nextCursor: result.nextCursor,
+    };
+  }
+
+  // Each call scans the bucket for a limited time; resume with nextCursor until it is null
+  async searchFiles(filters: SearchFilters, cursor?: string | null): Promise<SearchPage> {
     if (!this.isInitialized) {
       throw new Error('API service not initialized');
     }
 
-    const response = await fetch(`${API_BASE_URL}/folders`, {
-      headers: this.getAuthHeaders(),
+    const params = new URLSearchParams({ q: filters.query });
+    if (filters.project) params.set('project', filters.project);
+    if (filters.minSize !== undefined) params.set('minSize', String(filters.minSize));
+    if (filters.maxSize !== undefined) params.set('maxSize', String(filters.maxSize));
+    if (filters.modifiedAfter) params.set('modifiedAfter', filters.modifiedAfter);
+    if (filters.modifiedBefore) params.set('modifiedBefore', filters.modifiedBefore);
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await fetch(`${API_BASE_URL}/search?${params.toString()}`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    return {
+      items: result.files.map((file: any) => ({
+        ...file,
+        lastModified: new Date(file.lastModified),
+      })),
+      nextCursor: result.nextCursor,
+      scanned: result.scanned,
+      timedOut: result.timedOut,
+    };
+  }
+
+  // Ask the server to re-sync its object index for a folder before the listing is fetched again
+  async refreshIndex(prefix: string): Promise<{ success: boolean; indexed: boolean; changes: number }> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/index/refresh`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ prefix }),
     });
     return await this.handleResponse(response);
   }
 
-  async listSubfolders(prefix: string): Promise<S3Folder[]> {
+  private buildListQuery(prefix: string, cursor?: string | null, limit?: number): string {
+    const params = new URLSearchParams({ prefix });
+    if (cursor) params.set('cursor', cursor);
+    if (limit) params.set('limit', String(limit));
+    return params.toString();
+  }
+
+  async getProjectLayouts(): Promise<ProjectLayouts> {
     if (!this.isInitialized) {
       throw new Error('API service not initialized');
     }
 
-    const response = await fetch(`${API_BASE_URL}/folders?prefix=${encodeURIComponent(prefix)}`, {
-      headers: this.getAuthHeaders(),
+    const response = await fetch(`${API_BASE_URL}/layouts`, {
+      headers: JSON_HEADERS,
     });
     return await this.handleResponse(response);
   }
 
-  async listFiles(prefix: string = ''): Promise<S3File[]> {
+  async saveProjectLayout(project: string, layout: ProjectLayout): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('API service not initialized');
     }
 
-    const response = await fetch(`${API_BASE_URL}/files?prefix=${encodeURIComponent(prefix)}`, {
-      headers: this.getAuthHeaders(),
+    const response = await fetch(`${API_BASE_URL}/layouts/${encodeURIComponent(project)}`, {
+      method: 'PUT',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ segments: layout.segments }),
     });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to list files');
+    await this.handleResponse(response);
+  }
+
+  async resetProjectLayout(project: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
     }
 
-    const files = await response.json();
-    return files.map((file: any) => ({
-      ...file,
-      lastModified: new Date(file.lastModified),
-    }));
+    const response = await fetch(`${API_BASE_URL}/layouts/${encodeURIComponent(project)}`, {
+      method: 'DELETE',
+      headers: JSON_HEADERS,
+    });
+    await this.handleResponse(response);
   }
 
-  async listDateFolders(project: string, dataType: 'inputData' | 'outputData'): Promise<string[]> {
-    const prefix = `${project}/${dataType}/`;
-    const folders = await this.listSubfolders(prefix);
-    return folders.map(folder => folder.name).sort().reverse();
+  // Creates the project with the fixed folders its layout starts with; returns the folders created
+  async createProject(name: string): Promise<string[]> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/projects`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ name }),
+    });
+    const result = await this.handleResponse(response);
+    return result.folders;
+  }
+
+  // Creates the folder for the last of `values` (picked layout folder names, in order) on both sides
+  async createLayoutFolder(project: string, values: string[]): Promise<string[]> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/projects/${encodeURIComponent(project)}/folders`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ values }),
+    });
+    const result = await this.handleResponse(response);
+    return result.folders;
+  }
+
+  async getAllProjectStats(): Promise<Record<string, FolderStats>> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/stats`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    return Object.fromEntries(
+      Object.entries(result.projects).map(([name, stats]) => [name, this.parseFolderStats(stats)])
+    );
+  }
+
+  async getProjectStats(project: string): Promise<ProjectStats> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const params = new URLSearchParams({ project });
+    const response = await fetch(`${API_BASE_URL}/stats?${params.toString()}`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    return {
+      project: this.parseFolderStats(result.project),
+      folders: Object.fromEntries(
+        Object.entries(result.folders).map(([folder, stats]) => [folder, this.parseFolderStats(stats)])
+      ),
+    };
+  }
+
+  private parseFolderUsage(usage: any): FolderUsage {
+    return {
+      ...usage,
+      lastModified: usage.lastModified ? new Date(usage.lastModified) : null,
+    };
+  }
+
+  private parseFolderStats(stats: any): FolderStats {
+    return {
+      ...this.parseFolderUsage(stats),
+      input: this.parseFolderUsage(stats.input),
+      output: this.parseFolderUsage(stats.output),
+    };
+  }
+
+  async getReconciliationRules(project: string): Promise<{ rules: ReconciliationRules; defaults: ReconciliationRules }> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const params = new URLSearchParams({ project });
+    const response = await fetch(`${API_BASE_URL}/reconciliation/rules?${params.toString()}`, {
+      headers: JSON_HEADERS,
+    });
+    return await this.handleResponse(response);
+  }
+
+  async saveReconciliationRules(project: string, rules: ReconciliationRules): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/reconciliation/rules/${encodeURIComponent(project)}`, {
+      method: 'PUT',
+      headers: JSON_HEADERS,
+      body: JSON.stringify(rules),
+    });
+    await this.handleResponse(response);
+  }
+
+  // `folder` is the picked layout values joined with "/", usually just the date
+  async getReconciliationReport(project: string, folder: string): Promise<ReconciliationReport> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const params = new URLSearchParams({ project, folder });
+    const response = await fetch(`${API_BASE_URL}/reconciliation?${params.toString()}`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    const parseFile = (file: any): ReconciliationFile => ({ ...file, lastModified: new Date(file.lastModified) });
+    return {
+      ...result,
+      items: result.items.map((item: any) => ({
+        ...item,
+        inputs: item.inputs.map(parseFile),
+        outputs: item.outputs.map(parseFile),
+      })),
+    };
+  }
+
+  async downloadReconciliationCsv(project: string, folder: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const params = new URLSearchParams({ project, folder, format: 'csv' });
+    const response = await fetch(`${API_BASE_URL}/reconciliation?${params.toString()}`, {
+      headers: JSON_HEADERS,
+    });
+
+    if (!response.ok) {
+      await this.handleResponse(response);
+    }
+
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'reconciliation.csv';
+    this.saveBlob(await response.blob(), fileName);
   }
 
   async uploadFile(
     file: File, 
     key: string, 
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal,
+    overwrite: boolean = true
   ): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('API service not initialized');
     }
 
+    if (file.size < MULTIPART_THRESHOLD) {
+      await this.uploadSingleFile(file, key, onProgress, signal, overwrite);
+    } else {
+      await this.uploadMultipartFile(file, key, onProgress, signal, overwrite);
+    }
+  }
+
+  // Errors thrown when an upload is stopped through its AbortSignal
+  private createAbortError(): Error {
+    const abortError = new Error('Upload aborted');
+    abortError.name = 'AbortError';
+    return abortError;
+  }
+
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw this.createAbortError();
+    }
+  }
+
+  // Build an UploadProgress snapshot from the current state of each part
+  private buildUploadProgress(file: File, parts: UploadPartProgress[], status: UploadProgress['status']): UploadProgress {
+    const loadedBytes = parts.reduce((sum, part) => sum + part.loaded, 0);
+    const totalBytes = file.size;
+
+    return {
+      fileName: file.name,
+      progress: totalBytes > 0 ? Math.min(100, (loadedBytes / totalBytes) * 100) : (status === 'completed' ? 100 : 0),
+      status,
+      loadedBytes,
+      totalBytes,
+      parts: parts.map(part => ({ ...part })),
+    };
+  }
+
+  // Helper method to send a request through XMLHttpRequest so upload progress events are available
+  private sendWithProgress(
+    method: string,
+    url: string,
+    body: XMLHttpRequestBodyInit,
+    headers: Record<string, string>,
+    onUploadProgress: (loaded: number) => void,
+    signal?: AbortSignal
+  ): Promise<XMLHttpRequest> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.createAbortError());
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      const handleAbort = () => xhr.abort();
+      signal?.addEventListener('abort', handleAbort);
+      xhr.open(method, url);
+      Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onUploadProgress(event.loaded);
+        }
+      };
+      xhr.onloadend = () => signal?.removeEventListener('abort', handleAbort);
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(xhr);
+          return;
+        }
+
+        let error: any = {};
+        try {
+          error = JSON.parse(xhr.responseText);
+        } catch {
+          // S3 returns XML errors; fall back to the HTTP status below
+        }
+
+        if (xhr.status === 401 && error.error === 'TOKEN_EXPIRED') {
+          const expiredError = new Error(error.message || 'Your session has expired');
+          (expiredError as any).isTokenExpired = true;
+          reject(expiredError);
+          return;
+        }
+
+        const requestError = new Error(error.error || `Upload request failed with status ${xhr.status}`);
+        (requestError as any).status = xhr.status;
+        (requestError as any).code = error.code;
+        reject(requestError);
+      };
+      xhr.onerror = () => {
+        const networkError = new Error('Network error during upload');
+        (networkError as any).status = 0;
+        reject(networkError);
+      };
+      xhr.onabort = () => reject(this.createAbortError());
+
+      xhr.send(body);
+    });
+  }
+
+  // Upload a small file in a single request through the server
+  private async uploadSingleFile(
+    file: File,
+    key: string,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal,
+    overwrite: boolean = true
+  ): Promise<void> {
+    const parts: UploadPartProgress[] = [
+      { partNumber: 1, loaded: 0, total: file.size, status: 'uploading' },
+    ];
+    onProgress?.(this.buildUploadProgress(file, parts, 'uploading'));
+
     const formData = new FormData();
-    formData.append('file', file);
     formData.append('key', key);
+    if (!overwrite) {
+      // Ask the server to reject the upload with OBJECT_EXISTS if the key is already taken
+      formData.append('ifNoneMatch', 'true');
+    }
+    formData.append('file', file);
 
-    // Simulate progress since we can't track real progress easily
-    if (onProgress) {
-      onProgress(0);
-      const progressInterval = setInterval(() => {
-        onProgress(Math.min(90, Math.random() * 90));
-      }, 100);
-
-      try {
-        const response = await fetch(`${API_BASE_URL}/upload`, {
-          method: 'POST',
-          headers: this.getAuthHeadersForUpload(),
-          body: formData,
-        });
-
-        clearInterval(progressInterval);
-
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.error || 'Upload failed');
+    try {
+      await this.sendWithProgress(
+        'POST',
+        `${API_BASE_URL}/upload`,
+        formData,
+        {},
+        (loaded) => {
+          // The form body carries a little overhead on top of the file itself
+          parts[0].loaded = Math.min(loaded, file.size);
+          onProgress?.(this.buildUploadProgress(file, parts, 'uploading'));
+        },
+        signal
+      );
+    } catch (error) {
+      parts[0].status = 'error';
+      onProgress?.(this.buildUploadProgress(file, parts, 'error'));
+      throw error;
+    }
+
+    parts[0] = { ...parts[0], loaded: file.size, status: 'completed' };
+    onProgress?.(this.buildUploadProgress(file, parts, 'completed'));
+  }
+
+  async initiateMultipartUpload(file: File, key: string, overwrite: boolean = true): Promise<MultipartUploadSession> {
+    const response = await fetch(`${API_BASE_URL}/multipart/initiate`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({
+        key,
+        contentType: file.type || 'application/octet-stream',
+        fileSize: file.size,
+        partSize: MULTIPART_PART_SIZE,
+        ifNoneMatch: !overwrite,
+      }),
+    });
+    return await this.handleResponse(response);
+  }
+
+  async presignMultipartParts(key: string, uploadId: string, partNumbers: number[]): Promise<Record<number, string>> {
+    const response = await fetch(`${API_BASE_URL}/multipart/presign`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ key, uploadId, partNumbers }),
+    });
+    const result = await this.handleResponse(response);
+    return result.urls;
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: CompletedPart[],
+    fileSize: number,
+    overwrite: boolean = true
+  ): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/multipart/complete`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ key, uploadId, parts, fileSize, ifNoneMatch: !overwrite }),
+    });
+    await this.handleResponse(response);
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/multipart/abort`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ key, uploadId }),
+    });
+    await this.handleResponse(response);
+  }
+
+  // Returns the parts S3 already holds, or null when the upload no longer exists
+  async listUploadedParts(key: string, uploadId: string): Promise<CompletedPart[] | null> {
+    const response = await fetch(
+      `${API_BASE_URL}/multipart/parts?key=${encodeURIComponent(key)}&uploadId=${encodeURIComponent(uploadId)}`,
+      { headers: JSON_HEADERS }
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const result = await this.handleResponse(response);
+    return result.parts.map((part: any) => ({ partNumber: part.partNumber, etag: part.etag }));
+  }
+
+  async listMultipartUploads(prefix: string): Promise<MultipartUploadInfo[]> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/multipart/uploads?prefix=${encodeURIComponent(prefix)}`, {
+      headers: JSON_HEADERS,
+    });
+    const uploads = await this.handleResponse(response);
+    return uploads.map((upload: any) => ({
+      ...upload,
+      initiated: new Date(upload.initiated),
+    }));
+  }
+
+  async cleanupMultipartUploads(prefix: string, olderThanHours: number = 24): Promise<MultipartCleanupResult> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/multipart/cleanup`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ prefix, olderThanHours }),
+    });
+    return await this.handleResponse(response);
+  }
+
+  // Abort an interrupted upload that the user chose not to resume
+  async discardInterruptedUpload(key: string): Promise<void> {
+    const persisted = await uploadStore.get(key);
+    if (!persisted) return;
+
+    try {
+      await this.abortMultipartUpload(key, persisted.uploadId);
+    } catch (error) {
+      // The upload may already have been cleaned up on the server
+      console.warn(`Failed to abort interrupted upload for ${persisted.fileName}:`, error);
+    }
+    await uploadStore.remove(key);
+  }
+
+  // Pick up a persisted session for this file if S3 still has it, otherwise start a new one
+  private async resumeOrInitiateMultipartUpload(
+    file: File,
+    key: string,
+    overwrite: boolean
+  ): Promise<{ session: MultipartUploadSession; completedParts: CompletedPart[] }> {
+    const persisted = await uploadStore.get(key);
+
+    if (persisted) {
+      if (uploadStore.matchesFile(persisted, file)) {
+        const uploadedParts = await this.listUploadedParts(key, persisted.uploadId);
+        if (uploadedParts) {
+          console.log(`🔁 Resuming upload of ${file.name} (${uploadedParts.length}/${persisted.partCount} parts already uploaded)`);
+          return {
+            session: {
+              uploadId: persisted.uploadId,
+              key,
+              partSize: persisted.partSize,
+              partCount: persisted.partCount,
+            },
+            completedParts: uploadedParts,
+          };
         }
+      } else {
+        // A different file now targets this key, so the old parts are useless
+        await this.abortMultipartUpload(key, persisted.uploadId).catch(error =>
+          console.warn(`Failed to abort stale upload for ${persisted.fileName}:`, error)
+        );
+      }
+      await uploadStore.remove(key);
+    }
 
-        onProgress(100);
-      } catch (error) {
-        clearInterval(progressInterval);
-        throw error;
+    const session = await this.initiateMultipartUpload(file, key, overwrite);
+    const now = new Date().toISOString();
+    await uploadStore.save({
+      key,
+      uploadId: session.uploadId,
+      fileName: file.name,
+      fileSize: file.size,
+      fileLastModified: file.lastModified,
+      partSize: session.partSize,
+      partCount: session.partCount,
+      completedParts: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { session, completedParts: [] };
+  }
+
+  // Upload a large file part by part straight to S3 using presigned part URLs.
+  // Progress is persisted after every part so an interrupted upload can be resumed later.
+  private async uploadMultipartFile(
+    file: File,
+    key: string,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal,
+    overwrite: boolean = true
+  ): Promise<void> {
+    const { session, completedParts } = await this.resumeOrInitiateMultipartUpload(file, key, overwrite);
+    this.throwIfAborted(signal);
+    const { uploadId, partSize, partCount } = session;
+    const alreadyUploaded = new Set(completedParts.map(part => part.partNumber));
+
+    const parts: UploadPartProgress[] = Array.from({ length: partCount }, (_, index) => {
+      const total = Math.min(partSize, file.size - index * partSize);
+      const isUploaded = alreadyUploaded.has(index + 1);
+      return {
+        partNumber: index + 1,
+        loaded: isUploaded ? total : 0,
+        total,
+        status: isUploaded ? 'completed' as const : 'pending' as const,
+      };
+    });
+    const pendingParts = parts.filter(part => part.status === 'pending');
+    const partUrls: Record<number, string> = {};
+    let nextPartIndex = 0;
+
+    const emitProgress = (status: UploadProgress['status'] = 'uploading') => {
+      onProgress?.(this.buildUploadProgress(file, parts, status));
+    };
+
+    const persistProgress = async () => {
+      const persisted = await uploadStore.get(key);
+      if (persisted) {
+        await uploadStore.save({ ...persisted, completedParts: [...completedParts] });
       }
-    } else {
-      const response = await fetch(`${API_BASE_URL}/upload`, {
-        method: 'POST',
-        headers: this.getAuthHeadersForUpload(),
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Upload failed');
+    };
+
+    const getPartUrl = async (index: number): Promise<string> => {
+      const partNumber = pendingParts[index].partNumber;
+      if (!partUrls[partNumber]) {
+        const batch = pendingParts
+          .slice(index, index + MULTIPART_PRESIGN_BATCH)
+          .map(part => part.partNumber)
+          .filter(n => !partUrls[n]);
+        Object.assign(partUrls, await this.presignMultipartParts(key, uploadId, batch));
       }
+      return partUrls[partNumber];
+    };
+
+    const uploadNextPart = async (): Promise<void> => {
+      while (nextPartIndex < pendingParts.length) {
+        const index = nextPartIndex++;
+        const part = pendingParts[index];
+        const start = (part.partNumber - 1) * partSize;
+        const blob = file.slice(start, start + part.total);
+
+        part.status = 'uploading';
+        emitProgress();
+
+        try {
+          const url = await getPartUrl(index);
+          const xhr = await this.sendWithProgress('PUT', url, blob, {}, (loaded) => {
+            part.loaded = loaded;
+            emitProgress();
+          }, signal);
+
+          const etag = xhr.getResponseHeader('ETag');
+          if (!etag) {
+            throw new Error('S3 did not expose the part ETag. Check that the bucket CORS configuration exposes the "ETag" header.');
+          }
+
+          part.loaded = part.total;
+          part.status = 'completed';
+          completedParts.push({ partNumber: part.partNumber, etag });
+          await persistProgress();
+          emitProgress();
+        } catch (error) {
+          part.loaded = 0;
+          part.status = 'error';
+          emitProgress('error');
+          throw error;
+        }
+      }
+    };
+
+    emitProgress();
+
+    try {
+      const workers = Array.from(
+        { length: Math.min(MULTIPART_CONCURRENCY, pendingParts.length) },
+        () => uploadNextPart()
+      );
+      await Promise.all(workers);
+    } catch (error) {
+      // Stop the remaining workers from picking up new parts. The session stays
+      // persisted (and open on S3) so the upload can be resumed from here.
+      nextPartIndex = pendingParts.length;
+      throw error;
     }
+
+    this.throwIfAborted(signal);
+    // A rejected conditional completion keeps the session, so choosing to overwrite only re-sends the completion
+    await this.completeMultipartUpload(key, uploadId, completedParts, file.size, overwrite);
+    await uploadStore.remove(key);
+
+    emitProgress('completed');
   }
 
-  async deleteFile(key: string): Promise<void> {
+  // Moves the file to the recycle bin unless `permanent` is set (admins only)
+  async deleteFile(key: string, permanent: boolean = false): Promise<TrashItem | null> {
     if (!this.isInitialized) {
       throw new Error('API service not initialized');
     }
 
     const response = await fetch(`${API_BASE_URL}/delete`, {
       method: 'DELETE',
-      headers: this.getAuthHeaders(),
-      body: JSON.stringify({ key }),
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ key, permanent }),
     });
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Delete failed');
+    const result = await this.handleResponse(response);
+    return result.trashItem ? this.parseTrashItem(result.trashItem) : null;
+  }
+
+  // Dry run: lists exactly which files a bulk delete would remove
+  async previewBulkDelete(selection: BulkDeleteSelection): Promise<BulkDeletePreview> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/delete/bulk`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ ...selection, dryRun: true }),
+    });
+    return await this.handleResponse(response);
+  }
+
+  // Fails with code SELECTION_CHANGED if the selection no longer holds `expectedCount` files
+  async bulkDeleteFiles(selection: BulkDeleteSelection, expectedCount: number, permanent: boolean = false): Promise<BulkDeleteResult> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/delete/bulk`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ ...selection, expectedCount, permanent }),
+    });
+    return await this.handleResponse(response);
+  }
+
+  // Dry run: lists the files a copy/move would transfer and those that already exist at the destination
+  async previewTransfer(request: TransferRequest): Promise<TransferPreview> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/transfer`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ ...request, dryRun: true }),
+    });
+    return await this.handleResponse(response);
+  }
+
+  // Starts a copy/move job; fails with code SELECTION_CHANGED like bulk deletes, or TARGET_EXISTS if
+  // files exist at the destination and no conflict action is given
+  async startTransfer(request: TransferRequest, expectedCount: number, conflict?: TransferConflictAction): Promise<TransferJob> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/transfer`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ ...request, expectedCount, conflict }),
+    });
+    const result = await this.handleResponse(response);
+    return this.parseTransferJob(result.job);
+  }
+
+  async getTransferJob(id: string): Promise<TransferJob> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/transfer/${encodeURIComponent(id)}`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    return this.parseTransferJob(result.job);
+  }
+
+  private parseTransferJob(job: any): TransferJob {
+    return {
+      ...job,
+      startedAt: new Date(job.startedAt),
+      finishedAt: job.finishedAt ? new Date(job.finishedAt) : null,
+    };
+  }
+
+  private parseShareLink(link: any): ShareLink {
+    return {
+      ...link,
+      createdAt: new Date(link.createdAt),
+      expiresAt: new Date(link.expiresAt),
+      lastDownloadedAt: link.lastDownloadedAt ? new Date(link.lastDownloadedAt) : null,
+      revokedAt: link.revokedAt ? new Date(link.revokedAt) : null,
+    };
+  }
+
+  async createShareLink(request: CreateShareLinkRequest): Promise<ShareLink> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/share`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify(request),
+    });
+    const result = await this.handleResponse(response);
+    return this.parseShareLink(result.link);
+  }
+
+  // The current user's links, or everyone's for admins passing `all`
+  async listShareLinks(all: boolean = false): Promise<ShareLinkListing> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/share${all ? '?all=true' : ''}`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    return {
+      ...result,
+      links: result.links.map((link: any) => this.parseShareLink(link)),
+    };
+  }
+
+  async revokeShareLink(id: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/share/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: JSON_HEADERS,
+    });
+    await this.handleResponse(response);
+  }
+
+  private parseUploadLink(link: any): UploadLink {
+    return {
+      ...link,
+      createdAt: new Date(link.createdAt),
+      expiresAt: new Date(link.expiresAt),
+      lastUploadAt: link.lastUploadAt ? new Date(link.lastUploadAt) : null,
+      revokedAt: link.revokedAt ? new Date(link.revokedAt) : null,
+    };
+  }
+
+  async createUploadLink(request: CreateUploadLinkRequest): Promise<UploadLink> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/upload-links`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify(request),
+    });
+    const result = await this.handleResponse(response);
+    return this.parseUploadLink(result.link);
+  }
+
+  async listUploadLinks(): Promise<UploadLinkListing> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/upload-links`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    return {
+      ...result,
+      links: result.links.map((link: any) => this.parseUploadLink(link)),
+    };
+  }
+
+  async revokeUploadLink(id: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/upload-links/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: JSON_HEADERS,
+    });
+    await this.handleResponse(response);
+  }
+
+  private parseApiToken(apiToken: any): ApiToken {
+    return {
+      ...apiToken,
+      createdAt: new Date(apiToken.createdAt),
+      expiresAt: new Date(apiToken.expiresAt),
+      lastUsedAt: apiToken.lastUsedAt ? new Date(apiToken.lastUsedAt) : null,
+      revokedAt: apiToken.revokedAt ? new Date(apiToken.revokedAt) : null,
+    };
+  }
+
+  // Returns the new token's details and the token itself, which the server never shows again
+  async createApiToken(request: CreateApiTokenRequest): Promise<{ apiToken: ApiToken; token: string }> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(API_TOKENS_URL, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify(request),
+    });
+    const result = await this.handleResponse(response);
+    return { apiToken: this.parseApiToken(result.apiToken), token: result.token };
+  }
+
+  // The current user's tokens, or everyone's for admins passing `all`
+  async listApiTokens(all: boolean = false): Promise<ApiTokenListing> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_TOKENS_URL}${all ? '?all=true' : ''}`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    return {
+      ...result,
+      tokens: result.tokens.map((apiToken: any) => this.parseApiToken(apiToken)),
+    };
+  }
+
+  async revokeApiToken(id: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_TOKENS_URL}/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: JSON_HEADERS,
+    });
+    await this.handleResponse(response);
+  }
+
+  private parseTrashItem(item: any): TrashItem {
+    return {
+      ...item,
+      deletedAt: new Date(item.deletedAt),
+      expiresAt: new Date(item.expiresAt),
+    };
+  }
+
+  async listTrash(prefix: string = ''): Promise<TrashListing> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/trash?prefix=${encodeURIComponent(prefix)}`, {
+      headers: JSON_HEADERS,
+    });
+    const result = await this.handleResponse(response);
+    return {
+      ...result,
+      items: result.items.map((item: any) => this.parseTrashItem(item)),
+    };
+  }
+
+  // Fails with code OBJECT_EXISTS if a file was created at the original key meanwhile, unless overwriting
+  async restoreTrashItem(id: string, overwrite: boolean = false): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
     }
+
+    const response = await fetch(`${API_BASE_URL}/trash/${encodeURIComponent(id)}/restore`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ overwrite }),
+    });
+    await this.handleResponse(response);
   }
 
-  async generatePresignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
+  async purgeTrashItem(id: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/trash/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: JSON_HEADERS,
+    });
+    await this.handleResponse(response);
+  }
+
+  async generatePresignedUrl(key: string, expiresIn: number = 3600, versionId?: string): Promise<string> {
     if (!this.isInitialized) {
       throw new Error('API service not initialized');
     }
 
     const response = await fetch(`${API_BASE_URL}/presigned`, {
       method: 'POST',
-      headers: this.getAuthHeaders(),
-      body: JSON.stringify({ key, expiresIn }),
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ key, expiresIn, versionId }),
     });
     
     if (!response.ok) {
@@ -214,185 +1135,89 @@ class ApiService {
     return result.url;
   }
 
-  // Helper method to extract folder structure from S3 key
-  private extractFolderStructure(key: string): { folderPath: string; fileName: string } {
-    const parts = key.split('/');
-    const fileName = parts.pop() || 'download';
-    
-    // Extract meaningful folder structure (skip project name, keep date and subfolder structure)
-    let folderPath = '';
-    
-    if (parts.length >= 3) {
-      // For paths like: project/inputData/2025-05-09/annotation_inputs/input_files/
-      // or: project/outputData/2025-05-09/annotation_outputs/output_files/
-      const dateIndex = parts.findIndex(part => /^\d{4}-\d{2}-\d{2}$/.test(part));
-      
-      if (dateIndex !== -1) {
-        // Include date and any subfolders after it
-        const relevantParts = parts.slice(dateIndex);
-        folderPath = relevantParts.join('/');
-      }
+  async listFileVersions(key: string): Promise<S3File[]> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
     }
-    
-    return { folderPath, fileName };
+
+    const response = await fetch(`${API_BASE_URL}/versions?key=${encodeURIComponent(key)}`, {
+      headers: JSON_HEADERS,
+    });
+    const versions = await this.handleResponse(response);
+    return versions.map((version: any) => ({
+      ...version,
+      lastModified: new Date(version.lastModified),
+    }));
   }
 
-  async bulkDownloadFiles(keys: string[], onProgress?: (completed: number, total: number, currentFile: string) => void): Promise<void> {
+  // Copy an older version over the current object; S3 keeps the replaced version in the history
+  async restoreFileVersion(key: string, versionId: string): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('API service not initialized');
     }
 
-    const total = keys.length;
-    let completed = 0;
+    const response = await fetch(`${API_BASE_URL}/versions/restore`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ key, versionId }),
+    });
+    await this.handleResponse(response);
+  }
 
-    for (const key of keys) {
-      const { folderPath, fileName } = this.extractFolderStructure(key);
-      const downloadFileName = folderPath ? `${folderPath}/${fileName}` : fileName;
-      
-      if (onProgress) {
-        onProgress(completed, total, fileName);
-      }
+  // Download the given keys (or everything under a prefix) as one ZIP archive streamed by the server.
+  // The folder structure below the deepest common folder is preserved inside the archive.
+  async downloadZip(
+    selection: { keys?: string[]; prefix?: string },
+    onProgress?: (loadedBytes: number, totalBytes: number | null) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API service not initialized');
+    }
 
-      try {
-        // Get presigned URL
-        const url = await this.generatePresignedUrl(key);
-        
-        // Try multiple download methods for better compatibility
-        let downloadSuccess = false;
-        
-        // Method 1: Blob download (most reliable)
-        try {
-          const response = await fetch(url, {
-            method: 'GET',
-            headers: {
-              'Cache-Control': 'no-cache',
-            },
-          });
-          
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-          
-          const blob = await response.blob();
-          
-          // Create download blob with proper MIME type
-          const downloadBlob = new Blob([blob], { 
-            type: 'application/octet-stream'
-          });
-          
-          const blobUrl = window.URL.createObjectURL(downloadBlob);
-          
-          // Create download link with folder structure preserved
-          const downloadLink = document.createElement('a');
-          downloadLink.href = blobUrl;
-          downloadLink.download = downloadFileName; // This preserves folder structure
-          downloadLink.style.display = 'none';
-          
-          // Set additional attributes to force download
-          downloadLink.setAttribute('download', downloadFileName);
-          downloadLink.setAttribute('target', '_blank');
-          downloadLink.setAttribute('rel', 'noopener noreferrer');
-          
-          // Add to DOM, trigger click with user interaction simulation
-          document.body.appendChild(downloadLink);
-          
-          // Simulate user interaction for better browser compatibility
-          const clickEvent = new MouseEvent('click', {
-            view: window,
-            bubbles: true,
-            cancelable: true,
-          });
-          
-          downloadLink.dispatchEvent(clickEvent);
-          
-          // Remove from DOM after a short delay
-          setTimeout(() => {
-            if (document.body.contains(downloadLink)) {
-              document.body.removeChild(downloadLink);
-            }
-            window.URL.revokeObjectURL(blobUrl);
-          }, 2000);
-          
-          downloadSuccess = true;
-          
-        } catch (blobError) {
-          console.warn(`Blob download failed for ${fileName}, trying fallback:`, blobError);
-          
-          // Method 2: Direct link fallback
-          try {
-            const fallbackLink = document.createElement('a');
-            fallbackLink.href = url;
-            fallbackLink.download = downloadFileName;
-            fallbackLink.style.display = 'none';
-            fallbackLink.setAttribute('download', downloadFileName);
-            fallbackLink.setAttribute('target', '_blank');
-            fallbackLink.setAttribute('rel', 'noopener noreferrer');
-            
-            document.body.appendChild(fallbackLink);
-            fallbackLink.click();
-            
-            setTimeout(() => {
-              if (document.body.contains(fallbackLink)) {
-                document.body.removeChild(fallbackLink);
-              }
-            }, 1000);
-            
-            downloadSuccess = true;
-            
-          } catch (fallbackError) {
-            console.error(`All download methods failed for ${fileName}:`, fallbackError);
-            const errorMessage = fallbackError instanceof Error ? fallbackError.message : 'Unknown error';
-            throw new Error(`Download failed: ${errorMessage}`);
-          }
-        }
-        
-        if (downloadSuccess) {
-          completed++;
-          
-          // Log successful download activity
-          try {
-            await this.logDownloadActivity(
-              fileName,
-              'unknown', // We don't have size info in bulk download
-              key,
-              'success',
-              `File downloaded via bulk download: ${key}`
-            );
-          } catch (logError) {
-            console.warn(`Failed to log download activity for ${fileName}:`, logError);
-            // Don't fail the download if logging fails
-          }
-          
-          // Longer delay between downloads to ensure browser processes each one
-          if (completed < total) {
-            await new Promise(resolve => setTimeout(resolve, 1500));
-          }
-        }
-        
-      } catch (error) {
-        console.error(`Failed to download ${fileName}:`, error);
-        
-        // Log failed download activity
-        try {
-          await this.logDownloadActivity(
-            fileName,
-            'unknown',
-            key,
-            'failed',
-            `Bulk download failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-          );
-        } catch (logError) {
-          console.warn(`Failed to log failed download activity for ${fileName}:`, logError);
-        }
-        
-        // Continue with next file even if one fails
-        completed++;
-      }
+    const response = await fetch(`${API_BASE_URL}/download/zip`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify(selection),
+      signal,
+    });
+
+    if (!response.ok) {
+      await this.handleResponse(response);
     }
 
-    if (onProgress) {
-      onProgress(completed, total, 'Complete');
+    const totalHeader = response.headers.get('X-Archive-Total-Bytes');
+    const totalBytes = totalHeader ? Number(totalHeader) : null;
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'download.zip';
+
+    const chunks: BlobPart[] = [];
+    let loadedBytes = 0;
+    const reader = response.body!.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loadedBytes += value.length;
+      onProgress?.(loadedBytes, totalBytes);
     }
+
+    this.saveBlob(new Blob(chunks, { type: 'application/zip' }), fileName);
+  }
+
+  // Hand a blob to the browser as a file download
+  private saveBlob(blob: Blob, fileName: string): void {
+    const blobUrl = window.URL.createObjectURL(blob);
+    const downloadLink = document.createElement('a');
+    downloadLink.href = blobUrl;
+    downloadLink.download = fileName;
+    downloadLink.style.display = 'none';
+    document.body.appendChild(downloadLink);
+    downloadLink.click();
+
+    setTimeout(() => {
+      document.body.removeChild(downloadLink);
+      window.URL.revokeObjectURL(blobUrl);
+    }, 1000);
   }
 
   formatFileSize(bytes: number): string {
@@ -412,7 +1237,7 @@ class ApiService {
 
     const response = await fetch(`${API_BASE_URL}/activities/log-download`, {
       method: 'POST',
-      headers: this.getAuthHeaders(),
+      headers: JSON_HEADERS,
       body: JSON.stringify({ 
         fileName, 
         fileSize, 
@@ -1,64 +1,112 @@
+import { AuthProviderConfig, DevIdentityOptions, ProjectGrants, ProjectPermission } from '../types';
+
+const ALL_PROJECTS = '*';
+const ALL_PERMISSIONS: ProjectPermission[] = ['read', 'upload', 'delete', 'manage'];
+
+export interface SignedInUser {
+  email: string;
+  name: string;
+  picture: string;
+  role: string;
+  projects: ProjectGrants;
+}
+
+export interface SignInResult {
+  success: boolean;
+  error?: string;
+  user?: SignedInUser;
+}
+
 // Authentication service for handling user email storage and API headers
 class AuthService {
   private userEmail: string | null = null;
   private userName: string | null = null;
   private userRole: string | null = null;
   private userPicture: string | null = null;
+  private userProjects: ProjectGrants | null = null;
+  private providerConfig: Promise<AuthProviderConfig> | null = null;
+
+  // Which sign-in the server is configured for (Google, a generic OIDC issuer or local accounts)
+  getProviderConfig(): Promise<AuthProviderConfig> {
+    if (!this.providerConfig) {
+      this.providerConfig = fetch('/api/auth/config')
+        .then(response => {
+          if (!response.ok) throw new Error(`Failed to load sign-in settings: ${response.statusText}`);
+          return response.json();
+        })
+        .catch(error => {
+          this.providerConfig = null;
+          throw error;
+        });
+    }
+    return this.providerConfig;
+  }
+
+  // Exchange a Google ID token for a server session; the server verifies the token and sets an HttpOnly cookie
+  signInWithGoogle(credential: string): Promise<SignInResult> {
+    return this.startSession('/api/auth/google', { credential });
+  }
+
+  // Sign in with a local account's email and password
+  signInWithPassword(email: string, password: string): Promise<SignInResult> {
+    return this.startSession('/api/auth/local', { email, password });
+  }
+
+  // Leave the app for the OIDC issuer's login page; it returns to /?signedIn=1 with a session cookie
+  startRedirectSignIn() {
+    window.location.assign('/api/auth/oidc/login');
+  }
 
-  // Validate user with backend before setting authentication
-  async validateAndSetUser(user: { email: string; name: string; picture?: string }): Promise<{ success: boolean; error?: string; role?: string }> {
+  // Load the user of an existing session cookie, e.g. after returning from the OIDC issuer
+  async restoreSession(): Promise<SignInResult> {
     try {
-      console.log('🔍 Validating user with backend:', user.email);
+      const response = await fetch('/api/auth/session');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        return { success: false, error: errorData.message || 'Your session could not be restored. Please sign in again.' };
+      }
+
+      const { user } = await response.json();
+      this.storeUser(user);
+      return { success: true, user };
+    } catch (error) {
+      console.error('❌ Session restore failed:', error);
+      return { success: false, error: 'Unable to reach the server. Please try again.' };
+    }
+  }
+
+  // Post credentials to a provider's sign-in route and keep the user it answers with
+  private async startSession(url: string, body: object): Promise<SignInResult> {
+    try {
+      console.log('🔍 Verifying sign-in with backend');
       
-      // Check if user is authorized with backend
-      const response = await fetch('/api/users/authorized', {
-        method: 'GET',
+      const response = await fetch(url, {
+        method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-email': user.email
-        }
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
       });
 
       if (!response.ok) {
-        if (response.status === 403) {
+        if ([400, 401, 403, 429].includes(response.status)) {
           const errorData = await response.json();
           return { 
             success: false, 
             error: errorData.message || 'Your email is not authorized to access this application. Please contact your administrator.' 
           };
         }
-        throw new Error(`Validation failed: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const currentUser = data.currentUser;
-      
-      if (!currentUser) {
-        return { 
-          success: false, 
-          error: 'User authorization could not be verified. Please contact your administrator.' 
-        };
+        throw new Error(`Sign-in failed: ${response.statusText}`);
       }
 
-      // Set authenticated user
-      this.userEmail = user.email;
-      this.userName = user.name;
-      this.userRole = currentUser.role;
-      this.userPicture = user.picture || '';
+      const { user } = await response.json();
+      this.storeUser(user);
       
-      // Store in localStorage for persistence
-      localStorage.setItem('userAuth', JSON.stringify({
-        email: user.email,
-        name: user.name,
-        role: currentUser.role,
-        picture: user.picture || ''
-      }));
-      
-      console.log('✅ User authenticated and authorized:', user.email, 'Role:', currentUser.role);
-      return { success: true, role: currentUser.role };
+      console.log('✅ User authenticated and authorized:', user.email, 'Role:', user.role);
+      return { success: true, user };
       
     } catch (error) {
-      console.error('❌ User validation failed:', error);
+      console.error('❌ Sign-in failed:', error);
       return { 
         success: false, 
         error: 'Unable to validate user authorization. Please try again or contact support.' 
@@ -66,22 +114,93 @@ class AuthService {
     }
   }
 
-  // Set user information directly (for local development)
-  setUser(user: { email: string; name: string }) {
+  // Check that the session cookie is still valid and refresh the role and project grants from it
+  async validateSession(): Promise<boolean> {
+    try {
+      const response = await fetch('/api/users/authorized', {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        this.clearAuth();
+        return false;
+      }
+      if (!response.ok) {
+        throw new Error(`Validation failed: ${response.statusText}`);
+      }
+
+      const { currentUser } = await response.json();
+      const saved = this.getUserInfo();
+      if (saved && currentUser) {
+        this.storeUser({ ...saved, role: currentUser.role, projects: currentUser.projects || {} });
+      }
+      return true;
+    } catch (error) {
+      // Keep the saved user if the backend cannot be reached; requests fail on their own
+      console.error('❌ Session validation failed:', error);
+      return true;
+    }
+  }
+
+  // End the server session and forget the user
+  async signOut(): Promise<void> {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('❌ Failed to end the server session:', error);
+    }
+    this.clearAuth();
+  }
+
+  private storeUser(user: SignedInUser) {
     this.userEmail = user.email;
     this.userName = user.name;
-    this.userRole = 'admin'; // Default to admin for local development
-    this.userPicture = '';
+    this.userRole = user.role;
+    this.userPicture = user.picture || '';
+    this.userProjects = user.projects || {};
     
     // Store in localStorage for persistence
     localStorage.setItem('userAuth', JSON.stringify({
       email: user.email,
       name: user.name,
-      role: 'admin',
-      picture: ''
+      role: user.role,
+      picture: this.userPicture,
+      projects: this.userProjects
     }));
-    
-    console.log('✅ User authenticated (local development):', user.email);
+  }
+
+  // Identities a development server can act as (only offered when the provider config has `devIdentities`)
+  async getDevIdentities(): Promise<DevIdentityOptions> {
+    const response = await fetch('/api/dev/identity');
+    if (!response.ok) throw new Error(`Failed to load dev identities: ${response.statusText}`);
+    return response.json();
+  }
+
+  // Make a development server act as a role or an authorized user, and keep the user it answers with
+  async switchDevIdentity(identity: string): Promise<SignInResult> {
+    try {
+      const response = await fetch('/api/dev/identity', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ identity })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        return { success: false, error: result.message || 'Could not switch identity.' };
+      }
+
+      this.storeUser(result.user);
+      console.log('✅ User authenticated (local development):', result.user.email, 'Role:', result.user.role);
+      return { success: true, user: result.user };
+    } catch (error) {
+      console.error('❌ Identity switch failed:', error);
+      return { success: false, error: 'Unable to reach the server. Please try again.' };
+    }
   }
 
   // Get current user email
@@ -134,11 +253,30 @@ class AuthService {
     };
   }
 
+  // Get current user's project grants (every permission on '*' for admins)
+  getUserProjects(): ProjectGrants {
+    if (this.isAdmin()) return { [ALL_PROJECTS]: [...ALL_PERMISSIONS] };
+    return this.userProjects || {};
+  }
+
   // Check if user is admin
   isAdmin(): boolean {
     return this.getUserRole() === 'admin';
   }
 
+  // Check if user holds a permission on a project ('' for files at the bucket root)
+  hasProjectPermission(project: string, permission: ProjectPermission): boolean {
+    if (this.isAdmin()) return true;
+    const grants = this.userProjects || {};
+    return [grants[project], grants[ALL_PROJECTS]].some(permissions => permissions?.includes(permission));
+  }
+
+  // Check if user holds a permission on at least one project
+  hasAnyProjectPermission(permission: ProjectPermission): boolean {
+    if (this.isAdmin()) return true;
+    return Object.values(this.userProjects || {}).some(permissions => permissions.includes(permission));
+  }
+
   // Load user data from localStorage
   private loadFromStorage(): void {
     const saved = localStorage.getItem('userAuth');
@@ -149,6 +287,7 @@ class AuthService {
         this.userName = parsed.name;
         this.userRole = parsed.role || 'user';
         this.userPicture = parsed.picture || '';
+        this.userProjects = parsed.projects || {};
       } catch (error) {
         console.error('Error parsing saved user auth:', error);
         localStorage.removeItem('userAuth');
@@ -156,25 +295,13 @@ class AuthService {
     }
   }
 
-  // Get authentication headers for API requests
-  getAuthHeaders(): Record<string, string> {
-    const email = this.getUserEmail();
-    
-    if (email) {
-      return {
-        'x-user-email': email
-      };
-    }
-    
-    return {};
-  }
-
   // Clear user authentication
   clearAuth() {
     this.userEmail = null;
     this.userName = null;
     this.userRole = null;
     this.userPicture = null;
+    this.userProjects = null;
     localStorage.removeItem('userAuth');
     console.log('✅ User authentication cleared');
   }
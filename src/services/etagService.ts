@@ -0,0 +1,60 @@
+import SparkMD5 from 'spark-md5';
+
+export type ETagComparison = 'identical' | 'different' | 'unknown';
+
+// Part size used by this app's multipart uploads (also the AWS CLI default)
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+const MAX_PARTS = 10000;
+// Files are hashed in slices so large files are never read into memory at once
+const READ_CHUNK_SIZE = 4 * 1024 * 1024;
+
+class ETagService {
+  private async md5(blob: Blob, raw: boolean = false): Promise<string> {
+    const spark = new SparkMD5.ArrayBuffer();
+    for (let offset = 0; offset < blob.size; offset += READ_CHUNK_SIZE) {
+      spark.append(await blob.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer());
+    }
+    return spark.end(raw);
+  }
+
+  // Compute the ETag S3 would report for this file, or null if the part layout cannot be reproduced.
+  // Single-part ETags are the MD5 of the body; multipart ETags are the MD5 of the part MD5s plus "-<parts>".
+  async computeETag(file: File, partCount?: number): Promise<string | null> {
+    if (!partCount) {
+      return await this.md5(file);
+    }
+
+    const partSize = Math.max(DEFAULT_PART_SIZE, Math.ceil(file.size / MAX_PARTS));
+    if (Math.ceil(file.size / partSize) !== partCount) {
+      return null;
+    }
+
+    let partDigests = '';
+    for (let index = 0; index < partCount; index++) {
+      partDigests += await this.md5(file.slice(index * partSize, (index + 1) * partSize), true);
+    }
+    return `${SparkMD5.hashBinary(partDigests)}-${partCount}`;
+  }
+
+  // Compare a local file with an existing object. Objects encrypted with SSE-KMS or
+  // uploaded with an unknown part size have ETags that cannot be reproduced locally.
+  async compare(file: File, existing: { size: number; etag?: string }): Promise<ETagComparison> {
+    if (file.size !== existing.size) {
+      return 'different';
+    }
+
+    const etag = existing.etag?.replace(/"/g, '');
+    const match = etag?.match(/^([0-9a-f]{32})(?:-(\d+))?$/);
+    if (!match) {
+      return 'unknown';
+    }
+
+    const localETag = await this.computeETag(file, match[2] ? Number(match[2]) : undefined);
+    if (!localETag) {
+      return 'unknown';
+    }
+    return localETag === etag ? 'identical' : 'different';
+  }
+}
+
+export const etagService = new ETagService();
@@ -0,0 +1,95 @@
+import { LayoutSegment, LayoutSide, ProjectLayout, ProjectLayouts } from '../types';
+
+export type PickedSegment = Extract<LayoutSegment, { type: 'date' | 'folder' }>;
+
+const LAYOUT_SIDES: LayoutSide[] = ['input', 'output'];
+
+// Same rules the server applies when creating projects and folders
+const FOLDER_NAME_PATTERN = /^[\w][\w.-]*$/;
+const DATE_FOLDER_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Same layout the server falls back to; used until the saved layouts have loaded
+export const DEFAULT_PROJECT_LAYOUT: ProjectLayout = {
+  segments: [
+    { type: 'fixed', input: 'inputData', output: 'outputData' },
+    { type: 'date', key: 'date', label: 'Date Folder' },
+    { type: 'fixed', input: 'annotation_inputs', output: '' },
+    { type: 'fixed', input: 'input_files', output: '' },
+  ],
+};
+
+class LayoutService {
+  getLayout(layouts: ProjectLayouts | undefined, project: string): ProjectLayout {
+    // Ignore inherited members, which a project named e.g. "constructor" would otherwise find
+    const saved = layouts && Object.prototype.hasOwnProperty.call(layouts.projects, project) ? layouts.projects[project] : undefined;
+    return saved || layouts?.default || DEFAULT_PROJECT_LAYOUT;
+  }
+
+  // Segments the user picks a folder for, in path order
+  getPickedSegments(layout: ProjectLayout): PickedSegment[] {
+    return layout.segments.filter((segment): segment is PickedSegment => segment.type !== 'fixed');
+  }
+
+  // `<project>/...` for one side, covering the first `segmentCount` segments (all by default).
+  // Picked segments take their folder names from `values`, in order.
+  buildPrefix(project: string, layout: ProjectLayout, side: LayoutSide, values: string[], segmentCount?: number): string {
+    const parts = [project];
+    let valueIndex = 0;
+
+    for (const segment of layout.segments.slice(0, segmentCount)) {
+      if (segment.type === 'fixed') {
+        if (segment[side]) parts.push(segment[side]);
+      } else {
+        parts.push(values[valueIndex++]);
+      }
+    }
+
+    return `${parts.join('/')}/`;
+  }
+
+  // Prefix whose subfolders are the options of the picked segment at `pickedIndex`
+  getOptionsPrefix(project: string, layout: ProjectLayout, side: LayoutSide, values: string[], pickedIndex: number): string {
+    const segmentIndex = layout.segments.indexOf(this.getPickedSegments(layout)[pickedIndex]);
+    return this.buildPrefix(project, layout, side, values, segmentIndex);
+  }
+
+  // Error message for a new project (no segment) or picked folder name, or null if it is valid
+  validateFolderName(name: string, segment?: PickedSegment): string | null {
+    if (segment?.type === 'date') {
+      const date = new Date(`${name}T00:00:00Z`);
+      return DATE_FOLDER_PATTERN.test(name) && !isNaN(date.getTime()) && date.toISOString().startsWith(name)
+        ? null
+        : 'Use a valid date in YYYY-MM-DD format';
+    }
+    return FOLDER_NAME_PATTERN.test(name) ? null : 'Use letters, digits, "_", "-" and "." only';
+  }
+
+  sortOptions(segment: PickedSegment, names: string[]): string[] {
+    const sorted = [...names].sort((a, b) => a.localeCompare(b));
+    return segment.type === 'date' ? sorted.reverse() : sorted;
+  }
+
+  // Folder path of a key below the project's leading fixed folders (e.g. "2025-05-09/annotation_inputs/input_files"),
+  // used to keep some structure in download file names; empty if the key does not follow the layout
+  getRelativeFolder(key: string, layouts: ProjectLayouts | undefined): string {
+    const [project, ...parts] = key.split('/');
+    parts.pop();
+    const layout = this.getLayout(layouts, project);
+    const firstPicked = layout.segments.findIndex(segment => segment.type !== 'fixed');
+    if (firstPicked === -1) return '';
+
+    for (const side of LAYOUT_SIDES) {
+      const leading = layout.segments
+        .slice(0, firstPicked)
+        .map(segment => (segment.type === 'fixed' ? segment[side] : ''))
+        .filter(Boolean);
+      if (parts.length > leading.length && leading.every((name, index) => parts[index] === name)) {
+        return parts.slice(leading.length).join('/');
+      }
+    }
+
+    return '';
+  }
+}
+
+export const layoutService = new LayoutService();
@@ -0,0 +1,139 @@
+import { apiService } from './apiService';
+import { FilePreview, FilePreviewKind, S3File } from '../types';
+
+// Upper bound on the bytes loaded for a preview; larger files are previewed partially
+const DEFAULT_PREVIEW_MAX_BYTES = 2 * 1024 * 1024;
+export const PREVIEW_MAX_BYTES = Number(process.env.REACT_APP_PREVIEW_MAX_BYTES) || DEFAULT_PREVIEW_MAX_BYTES;
+
+const PREVIEW_KINDS: Record<string, FilePreviewKind> = {
+  json: 'json',
+  csv: 'csv',
+  tsv: 'tsv',
+  jpg: 'image',
+  jpeg: 'image',
+  png: 'image',
+  gif: 'image',
+  bmp: 'image',
+  svg: 'image',
+  webp: 'image',
+  txt: 'text',
+  log: 'text',
+  md: 'text',
+  yaml: 'text',
+  yml: 'text',
+  xml: 'text',
+  jsonl: 'text',
+  py: 'text',
+};
+
+class PreviewService {
+  getPreviewKind(fileName: string): FilePreviewKind | null {
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+    return PREVIEW_KINDS[extension] || null;
+  }
+
+  // Loads at most `maxBytes` of the file. The Range header keeps S3 from sending more, and the
+  // body is read incrementally so a server that ignores Range still stops at the budget.
+  async loadPreview(file: S3File, maxBytes: number = PREVIEW_MAX_BYTES): Promise<FilePreview> {
+    const fileName = file.key.split('/').pop() || file.key;
+    const kind = this.getPreviewKind(fileName);
+    if (!kind) {
+      throw new Error(`Preview is not supported for ${fileName}`);
+    }
+
+    const url = await apiService.generatePresignedUrl(file.key, 3600, file.versionId);
+    const truncated = file.size > maxBytes;
+
+    if (kind === 'image') {
+      return { kind, url, truncated: false, tooLarge: truncated, maxBytes };
+    }
+
+    const response = await fetch(url, {
+      headers: truncated ? { Range: `bytes=0-${maxBytes - 1}` } : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to load preview (HTTP ${response.status})`);
+    }
+
+    const bytes = await this.readUpTo(response, maxBytes);
+    return {
+      kind,
+      url,
+      text: new TextDecoder().decode(bytes),
+      truncated,
+      tooLarge: false,
+      maxBytes,
+    };
+  }
+
+  private async readUpTo(response: Response, maxBytes: number): Promise<Uint8Array> {
+    if (!response.body) {
+      return new Uint8Array(await response.arrayBuffer()).slice(0, maxBytes);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.length;
+    }
+    await reader.cancel().catch(() => undefined);
+
+    const bytes = new Uint8Array(Math.min(received, maxBytes));
+    let offset = 0;
+    for (const chunk of chunks) {
+      const part = chunk.subarray(0, bytes.length - offset);
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return bytes;
+  }
+
+  // Split CSV/TSV text into rows, honouring quoted fields with embedded delimiters, quotes and newlines.
+  // A truncated preview drops its last, possibly incomplete, row.
+  parseDelimited(text: string, delimiter: string, truncated: boolean = false): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (!truncated && (field !== '' || row.length > 0)) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+}
+
+export const previewService = new PreviewService();
@@ -1,12 +1,11 @@
 import { 
   S3Client, 
   ListObjectsV2Command, 
-  PutObjectCommand, 
   DeleteObjectCommand,
-  GetObjectCommand
+  GetObjectCommand,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { S3File, S3Folder, S3Config } from '../types';
+import { S3File, S3Folder, S3Config, ListPage } from '../types';
 
 class S3Service {
   private client: S3Client | null = null;
@@ -34,28 +33,37 @@ class S3Service {
     }
   }
 
+  // Follows continuation tokens so folders beyond the first 1000 entries are not dropped
+  private async listCommonPrefixes(prefix: string): Promise<string[]> {
+    const prefixes: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client!.send(new ListObjectsV2Command({
+        Bucket: this.config!.bucketName,
+        Prefix: prefix || undefined,
+        Delimiter: '/',
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const commonPrefix of response.CommonPrefixes || []) {
+        if (commonPrefix.Prefix) {
+          prefixes.push(commonPrefix.Prefix);
+        }
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return prefixes;
+  }
+
   async listTopLevelFolders(): Promise<S3Folder[]> {
     this.ensureInitialized();
     
-    const command = new ListObjectsV2Command({
-      Bucket: this.config!.bucketName,
-      Delimiter: '/',
-    });
-
-    const response = await this.client!.send(command);
-    const folders: S3Folder[] = [];
-
-    if (response.CommonPrefixes) {
-      for (const prefix of response.CommonPrefixes) {
-        if (prefix.Prefix) {
-          const folderName = prefix.Prefix.replace('/', '');
-          folders.push({
-            name: folderName,
-            path: prefix.Prefix,
-          });
-        }
-      }
-    }
+    const folders = (await this.listCommonPrefixes('')).map(folderPath => ({
+      name: folderPath.replace('/', ''),
+      path: folderPath,
+    }));
 
     return folders.sort((a, b) => a.name.localeCompare(b.name));
   }
@@ -65,32 +73,15 @@ class S3Service {
     
     const normalizedPrefix = prefix.endsWith('/') ? prefix : prefix + '/';
     
-    const command = new ListObjectsV2Command({
-      Bucket: this.config!.bucketName,
-      Prefix: normalizedPrefix,
-      Delimiter: '/',
-    });
-
-    const response = await this.client!.send(command);
-    const folders: S3Folder[] = [];
-
-    if (response.CommonPrefixes) {
-      for (const folderPrefix of response.CommonPrefixes) {
-        if (folderPrefix.Prefix) {
-          const folderPath = folderPrefix.Prefix;
-          const folderName = folderPath.split('/').slice(-2, -1)[0];
-          folders.push({
-            name: folderName,
-            path: folderPath,
-          });
-        }
-      }
-    }
+    const folders = (await this.listCommonPrefixes(normalizedPrefix)).map(folderPath => ({
+      name: folderPath.split('/').slice(-2, -1)[0],
+      path: folderPath,
+    }));
 
     return folders.sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async listFiles(prefix: string = ''): Promise<S3File[]> {
+  async listFiles(prefix: string = '', cursor?: string | null, limit?: number): Promise<ListPage<S3File>> {
     this.ensureInitialized();
     
     const normalizedPrefix = prefix && !prefix.endsWith('/') ? prefix + '/' : prefix;
@@ -98,6 +89,8 @@ class S3Service {
     const command = new ListObjectsV2Command({
       Bucket: this.config!.bucketName,
       Prefix: normalizedPrefix,
+      MaxKeys: limit,
+      ContinuationToken: cursor || undefined,
     });
 
     const response = await this.client!.send(command);
@@ -116,71 +109,23 @@ class S3Service {
       }
     }
 
-    return files.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+    return {
+      items: files.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime()),
+      nextCursor: response.IsTruncated ? response.NextContinuationToken || null : null,
+    };
   }
 
   async listDateFolders(project: string, dataType: 'inputData' | 'outputData'): Promise<string[]> {
     this.ensureInitialized();
     
     const prefix = `${project}/${dataType}/`;
-    
-    const command = new ListObjectsV2Command({
-      Bucket: this.config!.bucketName,
-      Prefix: prefix,
-      Delimiter: '/',
-    });
-
-    const response = await this.client!.send(command);
-    const dateFolders: string[] = [];
-
-    if (response.CommonPrefixes) {
-      for (const folderPrefix of response.CommonPrefixes) {
-        if (folderPrefix.Prefix) {
-          const dateFolder = folderPrefix.Prefix.replace(prefix, '').replace('/', '');
-          if (dateFolder) {
-            dateFolders.push(dateFolder);
-          }
-        }
-      }
-    }
+    const dateFolders = (await this.listCommonPrefixes(prefix))
+      .map(folderPath => folderPath.replace(prefix, '').replace('/', ''))
+      .filter(Boolean);
 
     return dateFolders.sort().reverse(); // Most recent first
   }
 
-  async uploadFile(
-    file: File, 
-    key: string, 
-    onProgress?: (progress: number) => void
-  ): Promise<void> {
-    this.ensureInitialized();
-    
-    const command = new PutObjectCommand({
-      Bucket: this.config!.bucketName,
-      Key: key,
-      Body: file,
-      ContentType: file.type,
-    });
-
-    // For now, we'll simulate progress since AWS SDK doesn't provide built-in progress tracking
-    if (onProgress) {
-      onProgress(0);
-      const progressInterval = setInterval(() => {
-        onProgress(Math.min(90, Math.random() * 90));
-      }, 100);
-
-      try {
-        await this.client!.send(command);
-        clearInterval(progressInterval);
-        onProgress(100);
-      } catch (error) {
-        clearInterval(progressInterval);
-        throw error;
-      }
-    } else {
-      await this.client!.send(command);
-    }
-  }
-
   async deleteFile(key: string): Promise<void> {
     this.ensureInitialized();
     
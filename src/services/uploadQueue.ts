@@ -0,0 +1,316 @@
+import { apiService } from './apiService';
+import { UploadProgress } from '../types';
+
+export type UploadQueueStatus =
+  | 'pending'
+  | 'queued'
+  | 'uploading'
+  | 'retrying'
+  | 'paused'
+  | 'completed'
+  | 'error'
+  | 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  key: string;
+  relativePath: string;
+  status: UploadQueueStatus;
+  progress: number;
+  uploadProgress?: UploadProgress;
+  attempts: number;
+  // Without overwrite the server rejects the upload if the key already exists
+  overwrite: boolean;
+  // Set when the upload was rejected because someone else created the key meanwhile
+  conflict?: boolean;
+  error?: string;
+  nextRetryAt?: number;
+  addedAt: number;
+}
+
+export interface UploadQueueSettings {
+  concurrency: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+}
+
+export interface UploadQueueEvent {
+  type: 'completed' | 'failed';
+  item: UploadQueueItem;
+  error?: any;
+}
+
+export interface NewUploadQueueItem {
+  file: File;
+  key: string;
+  relativePath: string;
+  overwrite?: boolean;
+}
+
+const SETTINGS_STORAGE_KEY = 'uploadQueueSettings';
+const DEFAULT_SETTINGS: UploadQueueSettings = {
+  concurrency: 3,
+  maxRetries: 3,
+  retryBaseDelayMs: 1000,
+};
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+// Progress events arrive many times per second; listeners are notified at most this often
+const PROGRESS_NOTIFY_INTERVAL_MS = 150;
+
+// Statuses that still need work from the queue
+export const ACTIVE_UPLOAD_STATUSES: UploadQueueStatus[] = ['queued', 'uploading', 'retrying'];
+
+// Only transient failures (network drops, throttling and 5xx responses) are retried
+const isRetryableError = (error: any): boolean => {
+  if (!error || error.isTokenExpired || error.name === 'AbortError' || error.code === 'OBJECT_EXISTS') {
+    return false;
+  }
+  if (error instanceof TypeError) {
+    // fetch() rejects with a TypeError when the network request itself fails
+    return true;
+  }
+  const status = error.status;
+  return status === 0 || status === 429 || (typeof status === 'number' && status >= 500);
+};
+
+// App-wide upload queue. Lives outside React so uploads keep running while switching tabs.
+class UploadQueue {
+  private items: UploadQueueItem[] = [];
+  private settings: UploadQueueSettings = this.loadSettings();
+  private listeners = new Set<() => void>();
+  private eventListeners = new Set<(event: UploadQueueEvent) => void>();
+  private controllers = new Map<string, AbortController>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private loadSettings(): UploadQueueSettings {
+    try {
+      const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+    } catch (error) {
+      console.error('Error parsing saved upload queue settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  onEvent(listener: (event: UploadQueueEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  getItems = (): UploadQueueItem[] => this.items;
+
+  getSettings = (): UploadQueueSettings => this.settings;
+
+  setSettings(settings: Partial<UploadQueueSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+    this.notify();
+    this.pump();
+  }
+
+  add(newItems: NewUploadQueueItem[], start: boolean = false): string[] {
+    const now = Date.now();
+    const added = newItems.map((item, index) => ({
+      ...item,
+      overwrite: item.overwrite ?? false,
+      id: `upl_${now}_${index}_${Math.random().toString(36).substr(2, 6)}`,
+      status: (start ? 'queued' : 'pending') as UploadQueueStatus,
+      progress: 0,
+      attempts: 0,
+      addedAt: now,
+    }));
+
+    this.items = [...this.items, ...added];
+    this.notify();
+    this.pump();
+    return added.map(item => item.id);
+  }
+
+  start(ids: string[]): void {
+    this.updateWhere(item => ids.includes(item.id) && item.status === 'pending', { status: 'queued' });
+    this.pump();
+  }
+
+  pause(id: string): void {
+    const item = this.find(id);
+    if (!item || !['queued', 'uploading', 'retrying'].includes(item.status)) return;
+
+    this.clearRetryTimer(id);
+    this.update(id, { status: 'paused', nextRetryAt: undefined });
+    // Multipart sessions stay open on S3, so resuming skips the parts already uploaded
+    this.controllers.get(id)?.abort();
+  }
+
+  resume(id: string): void {
+    const item = this.find(id);
+    if (!item || !['paused', 'error'].includes(item.status)) return;
+
+    this.update(id, {
+      status: 'queued',
+      error: undefined,
+      conflict: false,
+      attempts: item.status === 'error' ? 0 : item.attempts,
+    });
+    this.pump();
+  }
+
+  // Retry an upload that was rejected because the key already exists, replacing the existing file
+  overwrite(id: string): void {
+    const item = this.find(id);
+    if (!item || !item.conflict) return;
+
+    this.update(id, { status: 'queued', overwrite: true, conflict: false, error: undefined, attempts: 0 });
+    this.pump();
+  }
+
+  cancel(id: string): void {
+    const item = this.find(id);
+    if (!item || ['completed', 'cancelled'].includes(item.status)) return;
+
+    this.clearRetryTimer(id);
+    this.update(id, { status: 'cancelled', nextRetryAt: undefined });
+    this.controllers.get(id)?.abort();
+
+    apiService.discardInterruptedUpload(item.key).catch(error =>
+      console.warn(`Failed to discard cancelled upload for ${item.relativePath}:`, error)
+    );
+  }
+
+  remove(id: string): void {
+    const item = this.find(id);
+    if (!item || ACTIVE_UPLOAD_STATUSES.includes(item.status)) return;
+
+    this.items = this.items.filter(i => i.id !== id);
+    this.notify();
+  }
+
+  clearFinished(keyPrefix: string = ''): void {
+    this.items = this.items.filter(item =>
+      !item.key.startsWith(keyPrefix) || !['completed', 'cancelled'].includes(item.status)
+    );
+    this.notify();
+  }
+
+  private find(id: string): UploadQueueItem | undefined {
+    return this.items.find(item => item.id === id);
+  }
+
+  private update(id: string, changes: Partial<UploadQueueItem>, throttle: boolean = false): void {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    if (throttle) {
+      this.scheduleNotify();
+    } else {
+      this.notify();
+    }
+  }
+
+  private updateWhere(predicate: (item: UploadQueueItem) => boolean, changes: Partial<UploadQueueItem>): void {
+    this.items = this.items.map(item => (predicate(item) ? { ...item, ...changes } : item));
+    this.notify();
+  }
+
+  private notify(): void {
+    if (this.notifyTimer) {
+      clearTimeout(this.notifyTimer);
+      this.notifyTimer = null;
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private scheduleNotify(): void {
+    if (!this.notifyTimer) {
+      this.notifyTimer = setTimeout(() => this.notify(), PROGRESS_NOTIFY_INTERVAL_MS);
+    }
+  }
+
+  private emit(event: UploadQueueEvent): void {
+    this.eventListeners.forEach(listener => listener(event));
+  }
+
+  private clearRetryTimer(id: string): void {
+    const timer = this.retryTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(id);
+    }
+  }
+
+  // Start queued uploads until the concurrency limit is reached
+  private pump(): void {
+    while (this.controllers.size < this.settings.concurrency) {
+      const next = this.items.find(item => item.status === 'queued' && !this.controllers.has(item.id));
+      if (!next) return;
+      this.run(next);
+    }
+  }
+
+  private async run(item: UploadQueueItem): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    const attempts = item.attempts + 1;
+    this.update(item.id, { status: 'uploading', attempts, error: undefined, nextRetryAt: undefined });
+
+    try {
+      await apiService.uploadFile(
+        item.file,
+        item.key,
+        (uploadProgress) => {
+          if (!controller.signal.aborted) {
+            this.update(item.id, { progress: uploadProgress.progress, uploadProgress }, true);
+          }
+        },
+        controller.signal,
+        item.overwrite
+      );
+
+      this.update(item.id, { status: 'completed', progress: 100 });
+      this.emit({ type: 'completed', item: this.find(item.id)! });
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        // Paused or cancelled; the status was already set by pause()/cancel()
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : 'Upload failed';
+
+      if (isRetryableError(error) && attempts <= this.settings.maxRetries) {
+        const delay = Math.min(
+          MAX_RETRY_DELAY_MS,
+          this.settings.retryBaseDelayMs * Math.pow(2, attempts - 1) * (0.8 + Math.random() * 0.4)
+        );
+        console.warn(`Upload of ${item.relativePath} failed (attempt ${attempts}), retrying in ${Math.round(delay)}ms:`, message);
+
+        this.update(item.id, { status: 'retrying', error: message, nextRetryAt: Date.now() + delay });
+        this.retryTimers.set(item.id, setTimeout(() => {
+          this.retryTimers.delete(item.id);
+          if (this.find(item.id)?.status === 'retrying') {
+            this.update(item.id, { status: 'queued' });
+            this.pump();
+          }
+        }, delay));
+      } else if (error?.code === 'OBJECT_EXISTS') {
+        this.update(item.id, { status: 'error', conflict: true, error: 'A file with this name was uploaded by someone else' });
+        this.emit({ type: 'failed', item: this.find(item.id)!, error });
+      } else {
+        this.update(item.id, { status: 'error', error: message });
+        this.emit({ type: 'failed', item: this.find(item.id)!, error });
+      }
+    } finally {
+      this.controllers.delete(item.id);
+      this.pump();
+    }
+  }
+}
+
+export const uploadQueue = new UploadQueue();
@@ -0,0 +1,107 @@
+import { CompletedPart } from '../types';
+
+const DB_NAME = 's3-file-manager';
+const DB_VERSION = 1;
+const STORE_NAME = 'multipartUploads';
+
+export interface PersistedUpload {
+  key: string;
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  fileLastModified: number;
+  partSize: number;
+  partCount: number;
+  completedParts: CompletedPart[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Persists multipart upload sessions in IndexedDB so they can be resumed after a reload
+class UploadStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async get(key: string): Promise<PersistedUpload | undefined> {
+    try {
+      return await this.runRequest<PersistedUpload | undefined>('readonly', store => store.get(key));
+    } catch (error) {
+      console.warn('Failed to read persisted upload:', error);
+      return undefined;
+    }
+  }
+
+  async list(prefix: string = ''): Promise<PersistedUpload[]> {
+    try {
+      const uploads = await this.runRequest<PersistedUpload[]>('readonly', store => store.getAll());
+      return uploads
+        .filter(upload => upload.key.startsWith(prefix))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (error) {
+      console.warn('Failed to list persisted uploads:', error);
+      return [];
+    }
+  }
+
+  async save(upload: PersistedUpload): Promise<void> {
+    try {
+      await this.runRequest('readwrite', store => store.put({ ...upload, updatedAt: new Date().toISOString() }));
+    } catch (error) {
+      // Persistence is best effort; the upload itself should carry on
+      console.warn('Failed to persist upload state:', error);
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await this.runRequest('readwrite', store => store.delete(key));
+    } catch (error) {
+      console.warn('Failed to remove persisted upload:', error);
+    }
+  }
+
+  // Check whether a persisted session was started for this exact file
+  matchesFile(upload: PersistedUpload, file: File): boolean {
+    return upload.fileName === file.name
+      && upload.fileSize === file.size
+      && upload.fileLastModified === file.lastModified;
+  }
+}
+
+export const uploadStore = new UploadStore();
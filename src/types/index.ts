@@ -3,6 +3,10 @@ export interface S3File {
   size: number;
   lastModified: Date;
   etag?: string;
+  // Version metadata, only present when listing the versions of a versioned object
+  versionId?: string;
+  isLatest?: boolean;
+  isDeleteMarker?: boolean;
 }
 
 export interface S3Folder {
@@ -10,11 +14,350 @@ export interface S3Folder {
   path: string;
 }
 
+// One page of a listing; pass nextCursor back to fetch the following page
+export interface ListPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface SearchFilters {
+  // Glob pattern (`*`, `**`, `?`) or plain text matched against file names, or full keys if it contains "/"
+  query: string;
+  project?: string;
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+}
+
+export interface SearchPage extends ListPage<S3File> {
+  scanned: number;
+  timedOut: boolean;
+}
+
+export interface FolderUsage {
+  totalSize: number;
+  objectCount: number;
+  // Newest file in the folder, null when it is empty
+  lastModified: Date | null;
+}
+
+export interface FolderStats extends FolderUsage {
+  input: FolderUsage;
+  output: FolderUsage;
+}
+
+export interface ProjectStats {
+  project: FolderStats;
+  // Keyed by the picked layout values joined with "/" (usually just the date), combining both sides
+  folders: Record<string, FolderStats>;
+}
+
+export type LayoutSide = 'input' | 'output';
+
+// One folder level below `<project>/`. Fixed segments have a name per side (empty skips the level on
+// that side); date and folder segments are picked by the user, dates listed newest first.
+export type LayoutSegment =
+  | { type: 'fixed'; input: string; output: string }
+  | { type: 'date' | 'folder'; key: string; label: string };
+
+export interface ProjectLayout {
+  segments: LayoutSegment[];
+}
+
+export interface ProjectLayouts {
+  default: ProjectLayout;
+  projects: Record<string, ProjectLayout>;
+}
+
+// Folders are relative to the input and output folders of the project layout;
+// patterns are file-name globs where `{id}` is the part that pairs an input with its output
+export interface ReconciliationRules {
+  inputFolder: string;
+  outputFolder: string;
+  inputPattern: string;
+  outputPattern: string;
+}
+
+export type ReconciliationStatus = 'matched' | 'missing' | 'extra' | 'mismatched';
+
+export interface ReconciliationFile {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface ReconciliationItem {
+  // null for outputs whose name does not match the output pattern
+  id: string | null;
+  status: ReconciliationStatus;
+  reason: string | null;
+  inputs: ReconciliationFile[];
+  outputs: ReconciliationFile[];
+}
+
+export interface ReconciliationReport {
+  project: string;
+  // Picked layout values joined with "/"
+  folder: string;
+  rules: ReconciliationRules;
+  inputPrefix: string;
+  outputPrefix: string;
+  summary: Record<ReconciliationStatus, number> & { inputs: number; outputs: number };
+  ignoredInputs: string[];
+  items: ReconciliationItem[];
+}
+
+export interface UploadPartProgress {
+  partNumber: number;
+  loaded: number;
+  total: number;
+  status: 'pending' | 'uploading' | 'completed' | 'error';
+}
+
 export interface UploadProgress {
   fileName: string;
   progress: number;
   status: 'uploading' | 'completed' | 'error';
   error?: string;
+  loadedBytes: number;
+  totalBytes: number;
+  parts: UploadPartProgress[];
+}
+
+export interface MultipartUploadSession {
+  uploadId: string;
+  key: string;
+  partSize: number;
+  partCount: number;
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface MultipartUploadInfo {
+  key: string;
+  uploadId: string;
+  initiated: Date;
+  initiator: string | null;
+}
+
+export interface MultipartCleanupResult {
+  success: boolean;
+  aborted: MultipartUploadInfo[];
+  failed: (MultipartUploadInfo & { error: string })[];
+  remaining: number;
+}
+
+export interface TrashItem {
+  id: string;
+  key: string;
+  size: number;
+  mode: 'prefix' | 'versions';
+  deletedAt: Date;
+  deletedBy: string;
+  deletedByName: string;
+  expiresAt: Date;
+}
+
+export interface TrashListing {
+  items: TrashItem[];
+  retentionDays: number;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+export interface ShareLink {
+  id: string;
+  key: string;
+  size: number;
+  // App-hosted address, `<base>/s/<id>`, that redirects to a fresh presigned URL
+  url: string;
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+  expiresAt: Date;
+  maxDownloads: number | null;
+  downloadCount: number;
+  lastDownloadedAt: Date | null;
+  revokedAt: Date | null;
+  hasPassword: boolean;
+  status: ShareLinkStatus;
+}
+
+export interface ShareLinkListing {
+  links: ShareLink[];
+  maxExpiryHours: number;
+}
+
+export interface CreateShareLinkRequest {
+  key: string;
+  expiresInHours: number;
+  maxDownloads?: number;
+  password?: string;
+}
+
+export type UploadLinkStatus = 'active' | 'expired' | 'revoked' | 'full';
+
+export interface UploadLink {
+  id: string;
+  // Folder the uploads go into, e.g. "project/outputData/2025-05-09/"
+  prefix: string;
+  // App-hosted upload page, `<base>/u/<id>`
+  url: string;
+  message: string | null;
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+  expiresAt: Date;
+  maxFileSize: number;
+  // The link stops taking files once uploadedSize reaches it
+  maxTotalSize: number;
+  // Lower-case extensions with their dot; empty accepts every file type
+  allowedExtensions: string[];
+  hasSchema: boolean;
+  schemaName: string | null;
+  uploadCount: number;
+  uploadedSize: number;
+  lastUploadAt: Date | null;
+  revokedAt: Date | null;
+  status: UploadLinkStatus;
+}
+
+export interface UploadLinkListing {
+  links: UploadLink[];
+  maxExpiryHours: number;
+  maxFileSize: number;
+  maxTotalSize: number;
+}
+
+export interface CreateUploadLinkRequest {
+  prefix: string;
+  expiresInHours: number;
+  maxFileSize?: number;
+  maxTotalSize?: number;
+  allowedExtensions?: string[];
+  // JSON files are validated against it before they are accepted
+  schema?: object;
+  schemaName?: string;
+  message?: string;
+}
+
+// Either explicit keys or every file under a folder prefix
+export interface BulkDeleteSelection {
+  keys?: string[];
+  prefix?: string;
+}
+
+export interface BulkDeletePreview {
+  count: number;
+  totalSize: number;
+  objects: { key: string; size: number }[];
+  missing: string[];
+}
+
+export interface BulkDeleteResult {
+  success: boolean;
+  permanent: boolean;
+  deletedCount: number;
+  deletedSize: number;
+  failed: { key: string; error: string }[];
+  missing: string[];
+}
+
+export type TransferOperation = 'copy' | 'move';
+
+// Same choices as for upload conflicts: skip the file, replace the existing one or copy under a numbered name
+export type TransferConflictAction = 'skip' | 'overwrite' | 'keepBoth';
+
+// Files of a key selection land in `destination`; the contents of a prefix selection are re-rooted there.
+// `newName` renames a single selected file.
+export interface TransferRequest extends BulkDeleteSelection {
+  operation: TransferOperation;
+  destination: string;
+  newName?: string;
+}
+
+export interface TransferPreview {
+  count: number;
+  totalSize: number;
+  files: { key: string; size: number; target: string }[];
+  conflicts: { key: string; target: string }[];
+  missing: string[];
+}
+
+export interface TransferJob {
+  id: string;
+  operation: TransferOperation;
+  label: string;
+  status: 'running' | 'completed' | 'failed';
+  total: number;
+  done: number;
+  skipped: number;
+  totalSize: number;
+  transferredSize: number;
+  // `conflict` marks files whose target was created by someone else while the job ran
+  failed: { key: string; target?: string; error: string; conflict?: boolean }[];
+  startedAt: Date;
+  finishedAt: Date | null;
+  error: string | null;
+}
+
+export type ProjectPermission = 'read' | 'upload' | 'delete' | 'manage';
+
+// Permissions per project; the project '*' covers every project and files at the bucket root
+export type ProjectGrants = Record<string, ProjectPermission[]>;
+
+export type ApiTokenStatus = 'active' | 'expired' | 'revoked';
+
+// Personal token that scripts send as `Authorization: Bearer <token>`
+export interface ApiToken {
+  id: string;
+  name: string;
+  // Last characters of the token, to tell tokens apart
+  hint: string;
+  // Permissions the token is limited to, on top of its creator's own grants
+  projects: ProjectGrants;
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  status: ApiTokenStatus;
+}
+
+export interface ApiTokenListing {
+  tokens: ApiToken[];
+  maxExpiryDays: number;
+}
+
+export interface CreateApiTokenRequest {
+  name: string;
+  projects: ProjectGrants;
+  expiresInDays: number;
+}
+
+export type AuthProviderType = 'google' | 'oidc' | 'local';
+
+// How the login screen signs users in, from GET /api/auth/config
+export interface AuthProviderConfig {
+  type: AuthProviderType;
+  label: string;
+  clientId?: string;
+  minPasswordLength?: number;
+  // Set when the server runs in development and lets you pick who to act as
+  devIdentities?: boolean;
+}
+
+// Fake identities a development server can act as, from GET /api/dev/identity
+export interface DevIdentityOptions {
+  // A role name or the email of an authorized user
+  current: string;
+  roles: string[];
+  users: { email: string; role: string }[];
 }
 
 export interface S3Config {
@@ -47,4 +390,17 @@ export interface FileOperation {
   status: 'pending' | 'in-progress' | 'completed' | 'error';
   progress?: number;
   error?: string;
-} 
\ No newline at end of file
+} 
+export type FilePreviewKind = 'json' | 'csv' | 'tsv' | 'image' | 'text';
+
+export interface FilePreview {
+  kind: FilePreviewKind;
+  url: string;
+  // Decoded content for text-based kinds; images are rendered straight from the presigned URL
+  text?: string;
+  // Only the first `maxBytes` were loaded
+  truncated: boolean;
+  // Images larger than the byte budget are not shown
+  tooLarge: boolean;
+  maxBytes: number;
+}
@@ -0,0 +1,165 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const crypto = require('crypto');
+const { startFakeS3, startServer, createSession } = require('./helpers');
+
+const admin = createSession('admin@example.com', { name: 'Ada' });
+const dana = createSession('dana@example.com', { name: 'Dana' });
+const erin = createSession('erin@example.com', { name: 'Erin' });
+
+const USERS = [
+  { email: 'admin@example.com', role: 'admin' },
+  { email: 'dana@example.com', role: 'user', projects: { alpha: ['read', 'upload'], beta: ['read', 'upload'] } },
+  { email: 'erin@example.com', role: 'user', projects: { alpha: ['read'] } },
+];
+
+let s3;
+let server;
+
+function api(path, { session, token, method = 'GET', json, form } = {}) {
+  return fetch(`${server.url}${path}`, {
+    method,
+    headers: {
+      ...(session && { Cookie: session.cookie }),
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(json && { 'Content-Type': 'application/json' }),
+    },
+    body: json ? JSON.stringify(json) : form,
+  });
+}
+
+async function createToken(session, body) {
+  const response = await api('/api/tokens', {
+    session,
+    method: 'POST',
+    json: { name: 'ci', expiresInDays: 30, ...body },
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+function upload(token, key) {
+  const form = new FormData();
+  form.append('key', key);
+  form.append('file', new Blob(['results']), key.split('/').pop());
+  return api('/api/s3/upload', { token, method: 'POST', form });
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  server = await startServer({
+    s3Endpoint: s3.endpoint,
+    data: {
+      'authorized-users': { users: USERS },
+      sessions: { sessions: [admin.record, dana.record, erin.record] },
+    },
+  });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('tokens are created with a name, an expiry and a scope within the creator\'s own access', async () => {
+  assert.strictEqual((await createToken(dana, { name: ' ', projects: { alpha: ['read'] } })).status, 400);
+  assert.strictEqual((await createToken(dana, { expiresInDays: 100000, projects: { alpha: ['read'] } })).status, 400);
+  assert.strictEqual((await createToken(dana, { projects: { alpha: [] } })).status, 400);
+
+  const beyondOwnAccess = await createToken(dana, { projects: { alpha: ['delete'] } });
+  assert.strictEqual(beyondOwnAccess.status, 403);
+  assert.strictEqual(beyondOwnAccess.body.code, 'PROJECT_ACCESS_DENIED');
+
+  const { status, body } = await createToken(dana, { projects: { alpha: ['read', 'upload'] } });
+  assert.strictEqual(status, 200);
+  assert.match(body.token, /^s3m_/);
+  assert.strictEqual(body.apiToken.tokenHash, undefined);
+
+  const stored = server.readData('api-tokens').tokens.find(apiToken => apiToken.id === body.apiToken.id);
+  assert.strictEqual(stored.tokenHash, crypto.createHash('sha256').update(body.token).digest('hex'));
+  assert.ok(!JSON.stringify(server.readData('api-tokens')).includes(body.token));
+});
+
+test('a token acts as its creator, only within its scope', async () => {
+  const { body } = await createToken(dana, { name: 'nightly', projects: { alpha: ['read', 'upload'] } });
+
+  assert.strictEqual((await upload(body.token, 'alpha/results.json')).status, 200);
+  assert.ok(s3.objects.has('alpha/results.json'));
+  const [activity] = server.readData('activity').activities;
+  assert.strictEqual(activity.userEmail, 'dana@example.com');
+  assert.strictEqual(activity.userName, 'Dana via token nightly');
+
+  // Dana may upload to beta, but the token may not
+  const outOfScope = await upload(body.token, 'beta/results.json');
+  assert.strictEqual(outOfScope.status, 403);
+  assert.ok(!s3.objects.has('beta/results.json'));
+
+  const session = await (await api('/api/auth/session', { token: body.token })).json();
+  assert.strictEqual(session.user.email, 'dana@example.com');
+});
+
+test('an admin\'s token is never an admin', async () => {
+  const { body } = await createToken(admin, { projects: { '*': ['read', 'upload', 'delete', 'manage'] } });
+  const response = await api('/api/users/authorized', {
+    token: body.token,
+    method: 'POST',
+    json: { email: 'new@example.com', role: 'admin' },
+  });
+  assert.strictEqual(response.status, 403);
+  assert.strictEqual((await response.json()).error, 'ADMIN_REQUIRED');
+});
+
+test('tokens cannot be used to manage tokens', async () => {
+  const { body } = await createToken(dana, { projects: { alpha: ['read'] } });
+  const listing = await api('/api/tokens', { token: body.token });
+  assert.strictEqual(listing.status, 403);
+  assert.strictEqual((await listing.json()).code, 'TOKEN_NOT_ALLOWED');
+  assert.strictEqual((await api('/api/tokens', { token: body.token, method: 'POST', json: {} })).status, 403);
+});
+
+test('unknown, revoked and expired tokens are refused', async () => {
+  const unknown = await api('/api/auth/session', { token: 's3m_not-a-real-token' });
+  assert.strictEqual(unknown.status, 401);
+  assert.strictEqual((await unknown.json()).error, 'INVALID_TOKEN');
+
+  const revoked = (await createToken(dana, { projects: { alpha: ['read'] } })).body;
+  // Only the creator or an admin can revoke a token
+  assert.strictEqual((await api(`/api/tokens/${revoked.apiToken.id}`, { session: erin, method: 'DELETE' })).status, 404);
+  assert.strictEqual((await api(`/api/tokens/${revoked.apiToken.id}`, { session: dana, method: 'DELETE' })).status, 200);
+  assert.strictEqual((await api('/api/auth/session', { token: revoked.token })).status, 401);
+
+  const expired = (await createToken(dana, { projects: { alpha: ['read'] } })).body;
+  const tokensData = server.readData('api-tokens');
+  tokensData.tokens.find(apiToken => apiToken.id === expired.apiToken.id).expiresAt = new Date(Date.now() - 1000).toISOString();
+  server.writeData('api-tokens', tokensData);
+  assert.strictEqual((await api('/api/auth/session', { token: expired.token })).status, 401);
+});
+
+test('tokens follow their creator\'s current access', async () => {
+  const { body } = await createToken(dana, { projects: { alpha: ['read', 'upload'] } });
+
+  server.writeData('authorized-users', {
+    users: USERS.map(user => (user.email === 'dana@example.com' ? { ...user, projects: { alpha: ['read'] } } : user)),
+  });
+  try {
+    assert.strictEqual((await upload(body.token, 'alpha/after-downgrade.json')).status, 403);
+
+    server.writeData('authorized-users', { users: USERS.filter(user => user.email !== 'dana@example.com') });
+    const removed = await api('/api/auth/session', { token: body.token });
+    assert.strictEqual(removed.status, 403);
+    assert.strictEqual((await removed.json()).error, 'ACCESS_DENIED');
+  } finally {
+    server.writeData('authorized-users', { users: USERS });
+  }
+});
+
+test('users list their own tokens; admins can list everyone\'s', async () => {
+  const own = await (await api('/api/tokens', { session: erin })).json();
+  assert.deepStrictEqual(own.tokens, []);
+
+  const all = await (await api('/api/tokens?all=true', { session: admin })).json();
+  assert.ok(all.tokens.some(apiToken => apiToken.createdBy === 'dana@example.com'));
+  assert.ok(all.tokens.every(apiToken => apiToken.tokenHash === undefined));
+
+  const notAdmin = await (await api('/api/tokens?all=true', { session: dana })).json();
+  assert.ok(notAdmin.tokens.every(apiToken => apiToken.createdBy === 'dana@example.com'));
+});
@@ -0,0 +1,132 @@
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+function bulkDelete(server, body) {
+  return fetch(`${server.url}/api/s3/delete/bulk`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('in the default recycle bin mode', () => {
+  let s3;
+  let server;
+
+  before(async () => {
+    s3 = await startFakeS3();
+    for (const name of ['a.json', 'b.json', 'nested/c.json']) {
+      s3.objects.set(`alpha/2025-05-01/${name}`, Buffer.from(name));
+    }
+    s3.objects.set('alpha/2025-05-02/keep.json', Buffer.from('keep'));
+    server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+  });
+
+  after(async () => {
+    await server?.stop();
+    await s3?.close();
+  });
+
+  test('a dry run lists the whole folder without deleting anything', async () => {
+    const response = await bulkDelete(server, { prefix: 'alpha/2025-05-01/', dryRun: true });
+    assert.strictEqual(response.status, 200);
+    const preview = await response.json();
+    assert.strictEqual(preview.count, 3);
+    assert.strictEqual(preview.totalSize, 'a.json'.length + 'b.json'.length + 'nested/c.json'.length);
+    assert.deepStrictEqual(preview.objects.map(obj => obj.key).sort(), [
+      'alpha/2025-05-01/a.json',
+      'alpha/2025-05-01/b.json',
+      'alpha/2025-05-01/nested/c.json',
+    ]);
+    assert.strictEqual(s3.objects.size, 4);
+  });
+
+  test('a selection that changed since the preview is not deleted', async () => {
+    const response = await bulkDelete(server, { prefix: 'alpha/2025-05-01/', expectedCount: 2 });
+    assert.strictEqual(response.status, 409);
+    assert.strictEqual((await response.json()).code, 'SELECTION_CHANGED');
+    assert.strictEqual(s3.objects.size, 4);
+  });
+
+  test('selected files go to the recycle bin; missing ones are reported', async () => {
+    const response = await bulkDelete(server, {
+      keys: ['alpha/2025-05-01/a.json', 'alpha/2025-05-01/gone.json'],
+      expectedCount: 1,
+    });
+    assert.strictEqual(response.status, 200);
+    const result = await response.json();
+    assert.strictEqual(result.deletedCount, 1);
+    assert.deepStrictEqual(result.missing, ['alpha/2025-05-01/gone.json']);
+    assert.ok(!s3.objects.has('alpha/2025-05-01/a.json'));
+
+    const { items } = await (await fetch(`${server.url}/api/s3/trash`)).json();
+    assert.deepStrictEqual(items.map(item => item.key), ['alpha/2025-05-01/a.json']);
+  });
+
+  test('a folder-wide delete removes everything under it and nothing else', async () => {
+    const response = await bulkDelete(server, { prefix: 'alpha/2025-05-01/', expectedCount: 2 });
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual((await response.json()).deletedCount, 2);
+    assert.deepStrictEqual([...s3.objects.keys()].filter(key => !key.startsWith('.trash/')), ['alpha/2025-05-02/keep.json']);
+  });
+
+  test('selections must name a folder or some files', async () => {
+    assert.strictEqual((await bulkDelete(server, { keys: [] })).status, 400);
+    assert.strictEqual((await bulkDelete(server, { prefix: 'alpha' })).status, 400);
+  });
+});
+
+describe('in versions mode', () => {
+  let s3;
+  let server;
+
+  before(async () => {
+    s3 = await startFakeS3({ versioning: true });
+    server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development', TRASH_MODE: 'versions' } });
+  });
+
+  after(async () => {
+    await server?.stop();
+    await s3?.close();
+  });
+
+  async function upload(key, content) {
+    const form = new FormData();
+    form.append('key', key);
+    form.append('file', new Blob([content]), key.split('/').pop());
+    const response = await fetch(`${server.url}/api/s3/upload`, { method: 'POST', body: form });
+    assert.strictEqual(response.status, 200);
+  }
+
+  test('only the files without a restorable version are left behind', async () => {
+    await upload('alpha/2025-05-01/a.json', 'a');
+    await upload('beta/2025-05-01/b.json', 'b');
+    // Written before versioning was turned on, so it has no version to come back to
+    s3.objects.set('alpha/2025-05-01/old.json', Buffer.from('old'));
+    // Outside the selection, and must not stop it
+    s3.objects.set('gamma/unrelated.json', Buffer.from('unrelated'));
+
+    const response = await bulkDelete(server, {
+      keys: ['alpha/2025-05-01/a.json', 'alpha/2025-05-01/old.json', 'beta/2025-05-01/b.json'],
+    });
+    assert.strictEqual(response.status, 200);
+    const result = await response.json();
+    assert.strictEqual(result.deletedCount, 2);
+    assert.deepStrictEqual(result.failed.map(item => item.key), ['alpha/2025-05-01/old.json']);
+    assert.match(result.failed[0].error, /versioning/);
+
+    assert.deepStrictEqual([...s3.objects.keys()].sort(), ['alpha/2025-05-01/old.json', 'gamma/unrelated.json']);
+
+    const { items } = await (await fetch(`${server.url}/api/s3/trash`)).json();
+    const restored = items.find(item => item.key === 'alpha/2025-05-01/a.json');
+    assert.ok(restored.versionId && restored.deleteMarkerVersionId);
+    const restore = await fetch(`${server.url}/api/s3/trash/${restored.id}/restore`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+    assert.strictEqual(restore.status, 200);
+    assert.strictEqual(s3.objects.get('alpha/2025-05-01/a.json').toString(), 'a');
+  });
+});
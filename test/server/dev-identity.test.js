@@ -0,0 +1,76 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startServer, createSession } = require('./helpers');
+
+const frank = createSession('frank@example.com', { name: 'Frank' });
+const stranger = createSession('stranger@example.com');
+
+let server;
+
+async function currentUser(headers = {}) {
+  const response = await fetch(`${server.url}/api/auth/session`, { headers });
+  assert.strictEqual(response.status, 200);
+  return (await response.json()).user;
+}
+
+before(async () => {
+  server = await startServer({
+    env: { NODE_ENV: 'development', DEV_IDENTITY: 'user' },
+    data: {
+      'authorized-users': { users: [{ email: 'frank@example.com', role: 'user', projects: { alpha: ['read'] } }] },
+      sessions: { sessions: [frank.record, stranger.record] },
+    },
+  });
+});
+
+after(() => server?.stop());
+
+test('without a session or a switch, requests act as DEV_IDENTITY', async () => {
+  const user = await currentUser();
+  assert.strictEqual(user.email, 'user@turing.com');
+  assert.strictEqual(user.role, 'user');
+});
+
+test('a signed-in user keeps the role and grants of their entry', async () => {
+  const user = await currentUser({ Cookie: frank.cookie });
+  assert.strictEqual(user.email, 'frank@example.com');
+  assert.strictEqual(user.role, 'user');
+  assert.deepStrictEqual(user.projects, { alpha: ['read'] });
+});
+
+test('unlisted accounts signed in with Google act as admins', async () => {
+  const user = await currentUser({ Cookie: stranger.cookie });
+  assert.strictEqual(user.email, 'stranger@example.com');
+  assert.strictEqual(user.role, 'admin');
+});
+
+test('the switcher\'s choice wins over the session', async () => {
+  const response = await fetch(`${server.url}/api/dev/identity`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ identity: 'admin' }),
+  });
+  assert.strictEqual(response.status, 200);
+  const switched = response.headers.getSetCookie().find(cookie => cookie.startsWith('s3m_dev_identity=')).split(';')[0];
+
+  const user = await currentUser({ Cookie: `${frank.cookie}; ${switched}` });
+  assert.strictEqual(user.email, 'admin@turing.com');
+  assert.strictEqual(user.role, 'admin');
+
+  const invalid = await fetch(`${server.url}/api/dev/identity`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ identity: 'nobody@example.com' }),
+  });
+  assert.strictEqual(invalid.status, 400);
+});
+
+test('production servers have no dev identities', async () => {
+  const production = await startServer();
+  try {
+    assert.strictEqual((await fetch(`${production.url}/api/dev/identity`)).status, 404);
+    assert.strictEqual((await fetch(`${production.url}/api/auth/session`)).status, 401);
+  } finally {
+    await production.stop();
+  }
+});
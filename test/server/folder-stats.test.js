@@ -0,0 +1,67 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { setTimeout: delay } = require('timers/promises');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+function seed(key, size, lastModified) {
+  s3.objects.set(key, Buffer.alloc(size));
+  s3.modified.set(key, new Date(lastModified));
+}
+
+async function stats(query = '') {
+  const response = await fetch(`${server.url}/api/s3/stats${query}`);
+  assert.strictEqual(response.status, 200);
+  return response.json();
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  seed('alpha/inputData/2025-05-01/annotation_inputs/input_files/a.json', 100, '2025-05-01T08:00:00Z');
+  seed('alpha/inputData/2025-05-01/annotation_inputs/input_files/b.json', 50, '2025-05-01T09:00:00Z');
+  seed('alpha/outputData/2025-05-01/a.json', 200, '2025-05-03T12:00:00Z');
+  seed('alpha/inputData/2025-05-02/annotation_inputs/input_files/c.json', 10, '2025-05-02T08:00:00Z');
+  // Outside the layout: counted for the project only
+  seed('alpha/README.md', 5, '2025-04-01T00:00:00Z');
+  seed('beta/inputData/2025-06-01/annotation_inputs/input_files/d.json', 1, '2025-06-01T00:00:00Z');
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('a project\'s totals are split into inputs and outputs', async () => {
+  const { project } = await stats('?project=alpha');
+  assert.deepStrictEqual(project, {
+    totalSize: 365,
+    objectCount: 5,
+    lastModified: '2025-05-03T12:00:00.000Z',
+    input: { totalSize: 160, objectCount: 3, lastModified: '2025-05-02T08:00:00.000Z' },
+    output: { totalSize: 200, objectCount: 1, lastModified: '2025-05-03T12:00:00.000Z' },
+  });
+});
+
+test('each date folder shows whether its outputs were delivered', async () => {
+  const { folders } = await stats('?project=alpha');
+  assert.deepStrictEqual(Object.keys(folders).sort(), ['2025-05-01', '2025-05-02']);
+  assert.strictEqual(folders['2025-05-01'].input.objectCount, 2);
+  assert.strictEqual(folders['2025-05-01'].output.objectCount, 1);
+  assert.strictEqual(folders['2025-05-02'].output.objectCount, 0);
+  assert.strictEqual(folders['2025-05-02'].output.lastModified, null);
+});
+
+test('without a project, every indexed project is summarized', async () => {
+  let projects = {};
+  // Projects show up once the first index sync after startup has finished
+  for (let attempt = 0; attempt < 100 && Object.keys(projects).length < 2; attempt++) {
+    ({ projects } = await stats());
+    await delay(200);
+  }
+  assert.deepStrictEqual(Object.keys(projects).sort(), ['alpha', 'beta']);
+  assert.strictEqual(projects.alpha.totalSize, 365);
+  assert.strictEqual(projects.beta.objectCount, 1);
+});
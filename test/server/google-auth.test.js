@@ -0,0 +1,158 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const crypto = require('crypto');
+const http = require('http');
+const { listen, close, startServer, createSession, getSetCookie } = require('./helpers');
+
+const CLIENT_ID = 'test-client.apps.googleusercontent.com';
+const SESSION_HOURS = 2;
+
+// Stands in for Google: serves PEM certificates keyed by key id and signs ID tokens with the matching key
+const signingKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const certServer = http.createServer((req, res) => {
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ k1: signingKey.publicKey.export({ type: 'spki', format: 'pem' }) }));
+});
+
+let issuer;
+let server;
+
+const encode = value => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function signIdToken(claims = {}, privateKey = signingKey.privateKey) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encode({ alg: 'RS256', kid: 'k1', typ: 'JWT' });
+  const payload = encode({
+    iss: issuer,
+    aud: CLIENT_ID,
+    sub: '1234',
+    email: 'alice@example.com',
+    email_verified: true,
+    name: 'Alice',
+    iat: now,
+    exp: now + 600,
+    ...claims,
+  });
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function signIn(credential) {
+  return fetch(`${server.url}/api/auth/google`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ credential }),
+  });
+}
+
+function getSession(cookie) {
+  return fetch(`${server.url}/api/auth/session`, { headers: { Cookie: cookie } });
+}
+
+before(async () => {
+  issuer = await listen(certServer);
+  server = await startServer({
+    env: {
+      AUTH_PROVIDER: 'google',
+      GOOGLE_CLIENT_ID: CLIENT_ID,
+      GOOGLE_CERTS_URL: `${issuer}/certs`,
+      GOOGLE_TOKEN_ISSUERS: issuer,
+      SESSION_HOURS: String(SESSION_HOURS),
+    },
+    data: {
+      'authorized-users': {
+        users: [
+          { email: 'alice@example.com', role: 'user', projects: { alpha: ['read'] } },
+        ],
+      },
+    },
+  });
+});
+
+after(async () => {
+  await server?.stop();
+  await close(certServer);
+});
+
+test('a valid ID token starts a session', async () => {
+  const response = await signIn(signIdToken());
+  assert.strictEqual(response.status, 200);
+
+  const { user } = await response.json();
+  assert.strictEqual(user.email, 'alice@example.com');
+  assert.strictEqual(user.role, 'user');
+  assert.deepStrictEqual(user.projects, { alpha: ['read'] });
+
+  const setCookie = response.headers.getSetCookie().find(cookie => cookie.startsWith('s3m_session='));
+  assert.match(setCookie, /HttpOnly/);
+  assert.match(setCookie, /Secure/);
+  assert.match(setCookie, new RegExp(`Max-Age=${SESSION_HOURS * 60 * 60}`));
+
+  const token = getSetCookie(response, 's3m_session');
+  const { sessions } = server.readData('sessions');
+  const stored = sessions.find(session => session.email === 'alice@example.com');
+  assert.strictEqual(stored.id, crypto.createHash('sha256').update(token).digest('hex'));
+  assert.ok(!JSON.stringify(sessions).includes(token), 'the raw cookie value must not be stored');
+
+  const session = await getSession(`s3m_session=${token}`);
+  assert.strictEqual(session.status, 200);
+  assert.strictEqual((await session.json()).user.email, 'alice@example.com');
+});
+
+test('a token signed with another key is rejected', async () => {
+  const response = await signIn(signIdToken({}, otherKey.privateKey));
+  assert.strictEqual(response.status, 401);
+  assert.strictEqual(getSetCookie(response, 's3m_session'), undefined);
+});
+
+test('a token issued for another client is rejected', async () => {
+  const response = await signIn(signIdToken({ aud: 'someone-else.apps.googleusercontent.com' }));
+  assert.strictEqual(response.status, 401);
+  assert.strictEqual(getSetCookie(response, 's3m_session'), undefined);
+});
+
+test('an expired token is rejected', async () => {
+  const now = Math.floor(Date.now() / 1000);
+  const response = await signIn(signIdToken({ iat: now - 7200, exp: now - 3600 }));
+  assert.strictEqual(response.status, 401);
+  assert.strictEqual(getSetCookie(response, 's3m_session'), undefined);
+});
+
+test('a token without a verified email is rejected', async () => {
+  const response = await signIn(signIdToken({ email_verified: false }));
+  assert.strictEqual(response.status, 401);
+});
+
+test('a valid token for an email that is not authorized gets no session', async () => {
+  const response = await signIn(signIdToken({ email: 'mallory@example.com' }));
+  assert.strictEqual(response.status, 403);
+  assert.strictEqual((await response.json()).error, 'ACCESS_DENIED');
+  assert.strictEqual(getSetCookie(response, 's3m_session'), undefined);
+});
+
+test('requests without a session or with an expired one are refused', async () => {
+  assert.strictEqual((await fetch(`${server.url}/api/auth/session`)).status, 401);
+  assert.strictEqual((await getSession('s3m_session=not-a-session')).status, 401);
+
+  const expired = createSession('alice@example.com', { hoursLeft: -1 });
+  const sessionsData = server.readData('sessions');
+  sessionsData.sessions.push(expired.record);
+  server.writeData('sessions', sessionsData);
+
+  assert.strictEqual((await getSession(expired.cookie)).status, 401);
+});
+
+test('signing out ends the session', async () => {
+  const token = getSetCookie(await signIn(signIdToken()), 's3m_session');
+  const cookie = `s3m_session=${token}`;
+  assert.strictEqual((await getSession(cookie)).status, 200);
+
+  const response = await fetch(`${server.url}/api/auth/logout`, { method: 'POST', headers: { Cookie: cookie } });
+  assert.strictEqual(response.status, 200);
+  assert.strictEqual(getSetCookie(response, 's3m_session'), '');
+
+  const hash = crypto.createHash('sha256').update(token).digest('hex');
+  assert.ok(!server.readData('sessions').sessions.some(session => session.id === hash));
+  assert.strictEqual((await getSession(cookie)).status, 401);
+});
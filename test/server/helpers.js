@@ -0,0 +1,415 @@
+// Shared setup for the server tests: each test file starts server.js as a child process with its own
+// temporary data directory, and answers the S3 calls it needs from an in-process fake bucket.
+const { spawn } = require('child_process');
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+
+const SERVER_SCRIPT = path.join(__dirname, '..', '..', 'server.js');
+const BUCKET = 'test-bucket';
+const STARTUP_TIMEOUT = 20 * 1000;
+
+// Start an HTTP server on a free local port and return its base URL
+function listen(server) {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${server.address().port}`));
+  });
+}
+
+function close(server) {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+async function getFreePort() {
+  const server = http.createServer();
+  const url = await listen(server);
+  await close(server);
+  return Number(new URL(url).port);
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// The SDK streams uploads as aws-chunked: `<hex size>\r\n<data>\r\n` chunks, then checksum trailers
+function decodeAwsChunked(body) {
+  const chunks = [];
+  let offset = 0;
+  for (;;) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    const size = parseInt(body.subarray(offset, lineEnd).toString(), 16);
+    if (!size) return Buffer.concat(chunks);
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+}
+
+const escapeXml = value => value.replace(/[&<>]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;' })[char]);
+
+const md5 = content => crypto.createHash('md5').update(content).digest('hex');
+
+function sendXml(res, xml, status = 200) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/xml');
+  res.end(`<?xml version="1.0" encoding="UTF-8"?>${xml}`);
+}
+
+function sendError(res, status, code, message = code) {
+  if (res.req.method === 'HEAD') {
+    res.statusCode = status;
+    return res.end();
+  }
+  sendXml(res, `<Error><Code>${code}</Code><Message>${message}</Message></Error>`, status);
+}
+
+// The values of every <tag> in an XML request body
+const readXmlValues = (xml, tag) => [...xml.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, 'g'))]
+  .map(match => match[1].replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&'));
+
+// Just enough of S3 for the routes under test, path-style on a single bucket: objects with conditional
+// writes and copies, listings, deletes, multipart uploads and, with `versioning`, versions and delete markers.
+// `objects` maps keys to the content of their current version and `modified` to its modification date;
+// objects put straight into `objects` count as written before versioning was turned on.
+async function startFakeS3({ versioning = false } = {}) {
+  const objects = new Map();
+  const modified = new Map();
+  // key -> versions and delete markers, newest first: { versionId, content, lastModified, deleteMarker }
+  const history = new Map();
+  const uploads = new Map();
+  // `onRequest({ method, key, headers })` runs before each request is handled, e.g. to race it with another writer
+  const fake = { objects, modified, uploads, onRequest: null };
+  let sequence = 0;
+  let clock = 0;
+
+  // Modification dates never repeat, so versions sort newest first even when written within a millisecond
+  const tick = () => new Date(clock = Math.max(clock + 1, Date.now()));
+
+  const lastModified = key => modified.get(key) || new Date(0);
+
+  // Versions of a key, including an object that was put into `objects` directly ("null" version)
+  function getVersions(key) {
+    if (!history.has(key)) {
+      history.set(key, objects.has(key)
+        ? [{ versionId: 'null', content: objects.get(key), lastModified: lastModified(key), deleteMarker: false }]
+        : []);
+    }
+    return history.get(key);
+  }
+
+  // Make the newest version the current object, or remove it if that is a delete marker
+  function syncCurrent(key) {
+    const [latest] = getVersions(key);
+    if (latest && !latest.deleteMarker) {
+      objects.set(key, latest.content);
+      modified.set(key, latest.lastModified);
+    } else {
+      objects.delete(key);
+      modified.delete(key);
+    }
+  }
+
+  // Store a new current version; answers with its version ID
+  function write(key, content) {
+    const now = tick();
+    if (!versioning) {
+      objects.set(key, content);
+      modified.set(key, now);
+      return undefined;
+    }
+    const versionId = `v${++sequence}`;
+    getVersions(key).unshift({ versionId, content, lastModified: now, deleteMarker: false });
+    syncCurrent(key);
+    return versionId;
+  }
+
+  // Delete the current version, or one version; answers with the delete marker's version ID
+  function remove(key, versionId) {
+    if (!versioning) {
+      objects.delete(key);
+      modified.delete(key);
+      return undefined;
+    }
+    const versions = getVersions(key);
+    if (versionId) {
+      const index = versions.findIndex(version => version.versionId === versionId);
+      if (index !== -1) versions.splice(index, 1);
+      syncCurrent(key);
+      return undefined;
+    }
+    const markerId = `v${++sequence}`;
+    versions.unshift({ versionId: markerId, content: Buffer.alloc(0), lastModified: tick(), deleteMarker: true });
+    syncCurrent(key);
+    return markerId;
+  }
+
+  // The content of the current version or of `versionId`; null if there is none
+  function read(key, versionId) {
+    if (!versionId) return objects.has(key) ? objects.get(key) : null;
+    const version = getVersions(key).find(item => item.versionId === versionId);
+    return version && !version.deleteMarker ? version.content : null;
+  }
+
+  function listObjects(params) {
+    const prefix = params.get('prefix') || '';
+    const delimiter = params.get('delimiter');
+    const after = params.get('continuation-token') || params.get('start-after') || '';
+    const maxKeys = Number(params.get('max-keys')) || 1000;
+
+    // Keys and folded common prefixes, in key order
+    const entries = [];
+    for (const key of [...objects.keys()].sort()) {
+      if (!key.startsWith(prefix)) continue;
+      const index = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+      const commonPrefix = index === -1 ? null : key.slice(0, index + delimiter.length);
+      if (commonPrefix) {
+        if (entries[entries.length - 1]?.commonPrefix !== commonPrefix) entries.push({ name: commonPrefix, commonPrefix });
+      } else {
+        entries.push({ name: key, key });
+      }
+    }
+    const remaining = entries.filter(entry => entry.name > after);
+    const page = remaining.slice(0, maxKeys);
+    const truncated = remaining.length > page.length;
+
+    return '<ListBucketResult>' +
+      `<Name>${BUCKET}</Name><Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount>` +
+      `<IsTruncated>${truncated}</IsTruncated>` +
+      (truncated ? `<NextContinuationToken>${escapeXml(page[page.length - 1].name)}</NextContinuationToken>` : '') +
+      page.map(entry => (entry.key
+        ? `<Contents><Key>${escapeXml(entry.key)}</Key><Size>${objects.get(entry.key).length}</Size>` +
+          `<LastModified>${lastModified(entry.key).toISOString()}</LastModified><ETag>"${md5(objects.get(entry.key))}"</ETag></Contents>`
+        : `<CommonPrefixes><Prefix>${escapeXml(entry.commonPrefix)}</Prefix></CommonPrefixes>`)).join('') +
+      '</ListBucketResult>';
+  }
+
+  function listVersions(prefix) {
+    const keys = [...new Set([...objects.keys(), ...history.keys()])].filter(key => key.startsWith(prefix)).sort();
+    const entries = keys.flatMap(key => getVersions(key).map((version, index) => {
+      const common = `<Key>${escapeXml(key)}</Key><VersionId>${version.versionId}</VersionId>` +
+        `<IsLatest>${index === 0}</IsLatest><LastModified>${version.lastModified.toISOString()}</LastModified>`;
+      return version.deleteMarker
+        ? `<DeleteMarker>${common}</DeleteMarker>`
+        : `<Version>${common}<ETag>"${md5(version.content)}"</ETag><Size>${version.content.length}</Size></Version>`;
+    }));
+    return `<ListVersionsResult><Name>${BUCKET}</Name><Prefix>${escapeXml(prefix)}</Prefix><IsTruncated>false</IsTruncated>${entries.join('')}</ListVersionsResult>`;
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    const params = url.searchParams;
+    const key = decodeURIComponent(url.pathname.slice(`/${BUCKET}/`.length));
+    const rawBody = await readBody(req);
+    const body = (req.headers['content-encoding'] || '').includes('aws-chunked') ? decodeAwsChunked(rawBody) : rawBody;
+    fake.onRequest?.({ method: req.method, key, headers: req.headers });
+    const exists = objects.has(key);
+    const preconditionFailed = req.headers['if-none-match'] === '*' && exists;
+
+    if (req.method === 'GET' && !key) {
+      if (params.get('list-type') === '2') return sendXml(res, listObjects(params));
+      if (params.has('versions')) return sendXml(res, listVersions(params.get('prefix') || ''));
+      if (params.has('uploads')) {
+        const prefix = params.get('prefix') || '';
+        const listed = [...uploads].filter(([, upload]) => upload.key.startsWith(prefix));
+        return sendXml(res, `<ListMultipartUploadsResult><Bucket>${BUCKET}</Bucket><IsTruncated>false</IsTruncated>` +
+          listed.map(([uploadId, upload]) => `<Upload><Key>${escapeXml(upload.key)}</Key><UploadId>${uploadId}</UploadId>` +
+            `<Initiated>${upload.initiated.toISOString()}</Initiated></Upload>`).join('') +
+          '</ListMultipartUploadsResult>');
+      }
+    }
+    if (req.method === 'POST' && params.has('delete')) {
+      const results = readXmlValues(body.toString(), 'Key').map(deletedKey => {
+        const markerId = remove(deletedKey);
+        return `<Deleted><Key>${escapeXml(deletedKey)}</Key>` +
+          (markerId ? `<DeleteMarker>true</DeleteMarker><DeleteMarkerVersionId>${markerId}</DeleteMarkerVersionId>` : '') +
+          '</Deleted>';
+      });
+      return sendXml(res, `<DeleteResult>${results.join('')}</DeleteResult>`);
+    }
+
+    // Multipart uploads
+    if (req.method === 'POST' && params.has('uploads')) {
+      const uploadId = `upload-${++sequence}`;
+      uploads.set(uploadId, { key, initiated: new Date(), parts: new Map() });
+      return sendXml(res, `<InitiateMultipartUploadResult><Bucket>${BUCKET}</Bucket><Key>${escapeXml(key)}</Key><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`);
+    }
+    if (params.has('uploadId')) {
+      const upload = uploads.get(params.get('uploadId'));
+      if (!upload || upload.key !== key) return sendError(res, 404, 'NoSuchUpload');
+      if (req.method === 'PUT') {
+        const etag = `"${md5(body)}"`;
+        upload.parts.set(Number(params.get('partNumber')), { content: body, etag, lastModified: new Date() });
+        res.setHeader('ETag', etag);
+        return res.end();
+      }
+      if (req.method === 'GET') {
+        const parts = [...upload.parts].sort(([a], [b]) => a - b);
+        return sendXml(res, `<ListPartsResult><Bucket>${BUCKET}</Bucket><Key>${escapeXml(key)}</Key><UploadId>${params.get('uploadId')}</UploadId><IsTruncated>false</IsTruncated>` +
+          parts.map(([partNumber, part]) => `<Part><PartNumber>${partNumber}</PartNumber><ETag>${escapeXml(part.etag)}</ETag>` +
+            `<Size>${part.content.length}</Size><LastModified>${part.lastModified.toISOString()}</LastModified></Part>`).join('') +
+          '</ListPartsResult>');
+      }
+      if (req.method === 'DELETE') {
+        uploads.delete(params.get('uploadId'));
+        res.statusCode = 204;
+        return res.end();
+      }
+      if (req.method === 'POST') {
+        if (preconditionFailed) return sendError(res, 412, 'PreconditionFailed');
+        const partNumbers = readXmlValues(body.toString(), 'PartNumber').map(Number);
+        const etags = readXmlValues(body.toString(), 'ETag');
+        if (partNumbers.some((partNumber, index) => upload.parts.get(partNumber)?.etag.replace(/"/g, '') !== etags[index].replace(/"/g, ''))) {
+          return sendError(res, 400, 'InvalidPart');
+        }
+        const content = Buffer.concat(partNumbers.map(partNumber => upload.parts.get(partNumber).content));
+        uploads.delete(params.get('uploadId'));
+        const versionId = write(key, content);
+        if (versionId) res.setHeader('x-amz-version-id', versionId);
+        return sendXml(res, `<CompleteMultipartUploadResult><Bucket>${BUCKET}</Bucket><Key>${escapeXml(key)}</Key><ETag>"${md5(content)}-${partNumbers.length}"</ETag></CompleteMultipartUploadResult>`);
+      }
+    }
+
+    // Single objects
+    if (req.method === 'PUT' && req.headers['x-amz-copy-source']) {
+      const source = new URL(decodeURIComponent(req.headers['x-amz-copy-source']).replace(/^\/?/, 'http://localhost/'));
+      const content = read(source.pathname.slice(`/${BUCKET}/`.length), source.searchParams.get('versionId'));
+      if (!content) return sendError(res, 404, 'NoSuchKey');
+      if (preconditionFailed) return sendError(res, 412, 'PreconditionFailed');
+      const versionId = write(key, content);
+      if (versionId) res.setHeader('x-amz-version-id', versionId);
+      return sendXml(res, `<CopyObjectResult><ETag>"${md5(content)}"</ETag><LastModified>${lastModified(key).toISOString()}</LastModified></CopyObjectResult>`);
+    }
+    if (req.method === 'PUT') {
+      if (preconditionFailed) return sendError(res, 412, 'PreconditionFailed', 'At least one of the pre-conditions you specified did not hold');
+      const versionId = write(key, body);
+      if (versionId) res.setHeader('x-amz-version-id', versionId);
+      res.setHeader('ETag', `"${md5(body)}"`);
+      return res.end();
+    }
+    if (req.method === 'DELETE') {
+      const markerId = remove(key, params.get('versionId'));
+      if (markerId) {
+        res.setHeader('x-amz-delete-marker', 'true');
+        res.setHeader('x-amz-version-id', markerId);
+      }
+      res.statusCode = 204;
+      return res.end();
+    }
+    if (req.method === 'HEAD' || req.method === 'GET') {
+      const versionId = params.get('versionId');
+      const content = read(key, versionId);
+      if (!content) return sendError(res, 404, 'NoSuchKey');
+      const version = versioning && (versionId || getVersions(key)[0].versionId);
+      res.setHeader('Content-Length', content.length);
+      res.setHeader('Last-Modified', (versionId ? getVersions(key).find(item => item.versionId === versionId).lastModified : lastModified(key)).toUTCString());
+      res.setHeader('ETag', `"${md5(content)}"`);
+      if (version) res.setHeader('x-amz-version-id', version);
+      return res.end(req.method === 'GET' ? content : undefined);
+    }
+
+    sendError(res, 501, 'NotImplemented');
+  });
+
+  fake.endpoint = await listen(server);
+  fake.close = () => close(server);
+  return fake;
+}
+
+// Run server.js against a fresh data directory seeded with `data` ({ 'authorized-users': {...}, ... }).
+// `env` adds to or overrides the defaults; the server runs in production mode unless told otherwise.
+async function startServer({ env = {}, data = {}, s3Endpoint } = {}) {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 's3m-test-'));
+  for (const [name, content] of Object.entries(data)) {
+    fs.writeFileSync(path.join(dataDir, `${name}.json`), JSON.stringify(content, null, 2));
+  }
+
+  const port = await getFreePort();
+  const url = `http://127.0.0.1:${port}`;
+  const child = spawn(process.execPath, [SERVER_SCRIPT], {
+    cwd: dataDir,
+    env: {
+      PATH: process.env.PATH,
+      NODE_ENV: 'production',
+      PORT: String(port),
+      DATA_DIR: dataDir,
+      AWS_ACCESS_KEY_ID: 'test-access-key',
+      AWS_SECRET_ACCESS_KEY: 'test-secret-key',
+      AWS_S3_BUCKET_NAME: BUCKET,
+      // Nothing listens on port 9 (discard), so S3 calls fail fast when a test has no fake bucket
+      AWS_ENDPOINT_URL_S3: s3Endpoint || 'http://127.0.0.1:9',
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let output = '';
+  child.stdout.on('data', chunk => { output += chunk; });
+  child.stderr.on('data', chunk => { output += chunk; });
+  const exited = new Promise(resolve => child.once('exit', resolve));
+
+  const stop = async () => {
+    if (child.exitCode === null) {
+      child.kill();
+      await exited;
+    }
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  };
+
+  const startedAt = Date.now();
+  for (;;) {
+    if (child.exitCode !== null) {
+      await stop();
+      throw new Error(`server.js exited during startup:\n${output}`);
+    }
+    try {
+      await fetch(`${url}/health`);
+      break;
+    } catch {
+      if (Date.now() - startedAt > STARTUP_TIMEOUT) {
+        await stop();
+        throw new Error(`server.js did not start listening:\n${output}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  return {
+    url,
+    dataDir,
+    readData: name => JSON.parse(fs.readFileSync(path.join(dataDir, `${name}.json`), 'utf8')),
+    writeData: (name, content) => fs.writeFileSync(path.join(dataDir, `${name}.json`), JSON.stringify(content, null, 2)),
+    stop,
+  };
+}
+
+// A session the server accepts, as it stores them: only the hash of the cookie value is kept
+function createSession(email, { name = email, hoursLeft = 12 } = {}) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  return {
+    cookie: `s3m_session=${token}`,
+    record: {
+      id: crypto.createHash('sha256').update(token).digest('hex'),
+      email,
+      name,
+      picture: '',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + hoursLeft * 60 * 60 * 1000).toISOString(),
+    },
+  };
+}
+
+// The value a response sets for a cookie, or undefined
+function getSetCookie(response, name) {
+  const header = response.headers.getSetCookie().find(cookie => cookie.startsWith(`${name}=`));
+  return header && header.slice(name.length + 1).split(';')[0];
+}
+
+module.exports = { BUCKET, listen, close, startFakeS3, startServer, createSession, getSetCookie };
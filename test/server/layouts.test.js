@@ -0,0 +1,89 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+function api(path, { method = 'GET', json } = {}) {
+  return fetch(`${server.url}${path}`, {
+    method,
+    headers: json ? { 'Content-Type': 'application/json' } : {},
+    body: json ? JSON.stringify(json) : undefined,
+  });
+}
+
+const saveLayout = (project, segments) => api(`/api/s3/layouts/${project}`, { method: 'PUT', json: { segments } });
+const folderNames = async project => Object.keys((await (await api(`/api/s3/stats?project=${project}`)).json()).folders).sort();
+
+before(async () => {
+  s3 = await startFakeS3();
+  s3.objects.set('alpha/in/b1/2025-05-01/a.json', Buffer.from('a'));
+  s3.objects.set('alpha/in/b2/2025-05-02/b.json', Buffer.from('b'));
+  s3.objects.set('alpha/out/b1/2025-05-01/a.json', Buffer.from('a'));
+  s3.objects.set('beta/inputData/2025-06-01/annotation_inputs/input_files/c.json', Buffer.from('c'));
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('projects without a saved layout use the default one', async () => {
+  const layouts = await (await api('/api/s3/layouts')).json();
+  assert.deepStrictEqual(layouts.projects, {});
+  assert.deepStrictEqual(layouts.default.segments.map(segment => segment.type), ['fixed', 'date', 'fixed', 'fixed']);
+  assert.deepStrictEqual(await folderNames('beta'), ['2025-06-01']);
+  assert.deepStrictEqual(await folderNames('alpha'), []);
+});
+
+test('layouts that could not be resolved to folders are refused', async () => {
+  const invalid = [
+    undefined,
+    [null],
+    [{ type: 'fixed', input: 'in/data', output: 'out' }],
+    [{ type: 'fixed', input: ' ', output: '' }],
+    [{ type: 'folder', key: '1st', label: 'Batch' }],
+    [{ type: 'folder', key: 'batch', label: 'Batch' }, { type: 'date', key: 'batch', label: 'Date' }],
+    [{ type: 'date', key: 'date', label: '' }],
+    [{ type: 'shelf', key: 'shelf', label: 'Shelf' }],
+  ];
+  for (const segments of invalid) {
+    assert.strictEqual((await saveLayout('alpha', segments)).status, 400, JSON.stringify(segments));
+  }
+  assert.deepStrictEqual((await (await api('/api/s3/layouts')).json()).projects, {});
+});
+
+test('a saved layout decides how the project\'s folders are grouped', async () => {
+  const response = await saveLayout('alpha', [
+    { type: 'fixed', input: ' in ', output: 'out' },
+    { type: 'folder', key: 'batch', label: ' Batch ' },
+    { type: 'date', key: 'date', label: 'Date Folder', extra: true },
+  ]);
+  assert.strictEqual(response.status, 200);
+  const { layout } = await response.json();
+  assert.deepStrictEqual(layout.segments, [
+    { type: 'fixed', input: 'in', output: 'out' },
+    { type: 'folder', key: 'batch', label: 'Batch' },
+    { type: 'date', key: 'date', label: 'Date Folder' },
+  ]);
+  assert.strictEqual(layout.updatedBy, 'admin@turing.com');
+
+  const { folders } = await (await api('/api/s3/stats?project=alpha')).json();
+  assert.deepStrictEqual(Object.keys(folders).sort(), ['b1/2025-05-01', 'b2/2025-05-02']);
+  assert.strictEqual(folders['b1/2025-05-01'].output.objectCount, 1);
+  assert.strictEqual(folders['b2/2025-05-02'].output.objectCount, 0);
+
+  // Other projects keep the default
+  assert.deepStrictEqual(Object.keys((await (await api('/api/s3/layouts')).json()).projects), ['alpha']);
+  assert.deepStrictEqual(await folderNames('beta'), ['2025-06-01']);
+});
+
+test('deleting a layout puts the project back on the default', async () => {
+  const response = await api('/api/s3/layouts/alpha', { method: 'DELETE' });
+  assert.strictEqual(response.status, 200);
+  assert.strictEqual((await response.json()).layout.segments.length, 4);
+  assert.deepStrictEqual((await (await api('/api/s3/layouts')).json()).projects, {});
+  assert.deepStrictEqual(await folderNames('alpha'), []);
+});
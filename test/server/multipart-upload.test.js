@@ -0,0 +1,87 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+const MB = 1024 * 1024;
+
+let s3;
+let server;
+
+async function api(path, json) {
+  const response = await fetch(`${server.url}/api/s3/multipart/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(json),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+// Upload parts straight to S3 through their presigned URLs, the way the browser does
+async function uploadParts(key, uploadId, contents) {
+  const partNumbers = contents.map((_, index) => index + 1);
+  const { body } = await api('presign', { key, uploadId, partNumbers });
+  const parts = [];
+  for (const partNumber of partNumbers) {
+    const response = await fetch(body.urls[partNumber], { method: 'PUT', body: contents[partNumber - 1] });
+    assert.strictEqual(response.status, 200);
+    parts.push({ partNumber, etag: response.headers.get('etag') });
+  }
+  return parts;
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('part sizes stay within what S3 accepts', async () => {
+  const small = await api('initiate', { key: 'alpha/small.bin', fileSize: 12 * MB, partSize: 1 });
+  assert.strictEqual(small.status, 200);
+  assert.strictEqual(small.body.partSize, 5 * MB);
+  assert.strictEqual(small.body.partCount, 3);
+
+  // 10,000 parts at most, so very large files get bigger parts
+  const large = await api('initiate', { key: 'alpha/large.bin', fileSize: 100 * 1024 * MB });
+  assert.ok(large.body.partSize * 10000 >= 100 * 1024 * MB);
+
+  const tooLarge = await api('initiate', { key: 'alpha/huge.bin', fileSize: 6 * 1024 * 1024 * MB });
+  assert.strictEqual(tooLarge.status, 400);
+});
+
+test('parts uploaded through presigned URLs are joined into the file', async () => {
+  const { body: upload } = await api('initiate', { key: 'alpha/data.csv', contentType: 'text/csv', fileSize: 11 });
+  const parts = await uploadParts('alpha/data.csv', upload.uploadId, ['id,', 'value\n', '1,2']);
+
+  // The order the parts are reported in does not matter
+  const completed = await api('complete', { key: 'alpha/data.csv', uploadId: upload.uploadId, parts: parts.reverse(), fileSize: 13 });
+  assert.strictEqual(completed.status, 200);
+  assert.strictEqual(s3.objects.get('alpha/data.csv').toString(), 'id,value\n1,2');
+  assert.strictEqual(s3.uploads.size, 2);
+
+  const [activity] = server.readData('activity').activities;
+  assert.strictEqual(activity.action, 'upload');
+  assert.match(activity.details, /multipart, 3 parts/);
+});
+
+test('part numbers outside 1 to 10,000 are refused', async () => {
+  const { body: upload } = await api('initiate', { key: 'alpha/parts.bin', fileSize: 1 });
+  for (const partNumber of [0, 10001, 1.5]) {
+    const response = await api('presign', { key: 'alpha/parts.bin', uploadId: upload.uploadId, partNumbers: [partNumber] });
+    assert.strictEqual(response.status, 400);
+  }
+  assert.strictEqual((await api('complete', { key: 'alpha/parts.bin', uploadId: upload.uploadId, parts: [] })).status, 400);
+});
+
+test('an aborted upload discards its parts', async () => {
+  const { body: upload } = await api('initiate', { key: 'alpha/aborted.bin', fileSize: 4 });
+  await uploadParts('alpha/aborted.bin', upload.uploadId, ['data']);
+
+  assert.strictEqual((await api('abort', { key: 'alpha/aborted.bin', uploadId: upload.uploadId })).status, 200);
+  assert.ok(!s3.uploads.has(upload.uploadId));
+  assert.ok(!s3.objects.has('alpha/aborted.bin'));
+});
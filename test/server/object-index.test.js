@@ -0,0 +1,73 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { setTimeout: delay } = require('timers/promises');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+function api(path, { method = 'GET', json } = {}) {
+  return fetch(`${server.url}${path}`, {
+    method,
+    headers: json ? { 'Content-Type': 'application/json' } : {},
+    body: json ? JSON.stringify(json) : undefined,
+  });
+}
+
+async function search(q) {
+  const response = await api(`/api/s3/search?q=${encodeURIComponent(q)}`);
+  assert.strictEqual(response.status, 200);
+  return (await response.json()).files.map(file => file.key);
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  s3.objects.set('alpha/2025-05-01/report.csv', Buffer.from('alpha'));
+  s3.objects.set('beta/report.csv', Buffer.from('beta'));
+  s3.objects.set('report.csv', Buffer.from('root'));
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+
+  // The first sync runs a few seconds after startup
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const { projects } = await (await api('/api/s3/index/status')).json();
+    if (projects.length === 2 && projects.every(project => project.ready)) return;
+    await delay(200);
+  }
+  throw new Error('The object index was not built');
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('every project is indexed and scheduled for its own next re-sync', async () => {
+  const status = await (await api('/api/s3/index/status')).json();
+  assert.deepStrictEqual(status.projects.map(project => [project.project, project.objectCount]), [['alpha', 1], ['beta', 1]]);
+  for (const project of status.projects) {
+    assert.ok(new Date(project.nextRefreshAt) > new Date(project.refreshedAt));
+  }
+  assert.strictEqual(status.maxRefreshIntervalMinutes, status.refreshIntervalMinutes * 8);
+});
+
+test('searches across projects include the files at the bucket root', async () => {
+  assert.deepStrictEqual(await search('report.csv'), ['alpha/2025-05-01/report.csv', 'beta/report.csv', 'report.csv']);
+
+  // Root files are listed from S3 on every search, so new ones show up right away
+  s3.objects.set('aardvark.csv', Buffer.from('root'));
+  assert.deepStrictEqual(await search('*.csv'), [
+    'aardvark.csv',
+    'alpha/2025-05-01/report.csv',
+    'beta/report.csv',
+    'report.csv',
+  ]);
+});
+
+test('files changed outside the app show up once their folder is re-synced', async () => {
+  s3.objects.set('alpha/2025-05-01/late.csv', Buffer.from('late'));
+  assert.deepStrictEqual(await search('late.csv'), []);
+
+  const refresh = await (await api('/api/s3/index/refresh', { method: 'POST', json: { prefix: 'alpha/2025-05-01/' } })).json();
+  assert.strictEqual(refresh.changes, 1);
+  assert.deepStrictEqual(await search('late.csv'), ['alpha/2025-05-01/late.csv']);
+});
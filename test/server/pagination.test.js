@@ -0,0 +1,61 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+// Follow `nextCursor` until the listing is complete; returns every page
+async function readAllPages(path, limit) {
+  const pages = [];
+  let cursor = '';
+  do {
+    const response = await fetch(`${server.url}${path}&limit=${limit}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`);
+    assert.strictEqual(response.status, 200);
+    const page = await response.json();
+    pages.push(page);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  for (let i = 1; i <= 7; i++) {
+    s3.objects.set(`alpha/2025-05-01/file-${i}.json`, Buffer.from(`${i}`));
+  }
+  // A folder marker is not a file
+  s3.objects.set('alpha/2025-05-01/', Buffer.alloc(0));
+  for (const project of ['alpha', 'beta', 'gamma', 'delta', 'epsilon']) {
+    s3.objects.set(`${project}/readme.txt`, Buffer.from(project));
+  }
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('file listings come in pages that together cover the folder once', async () => {
+  const pages = await readAllPages('/api/s3/files?prefix=alpha/2025-05-01/', 3);
+  // Folder markers take up room in a page without being listed, so pages can come out short
+  assert.ok(pages.length >= 3);
+  assert.ok(pages.every(page => page.files.length <= 3));
+
+  const keys = pages.flatMap(page => page.files.map(file => file.key));
+  assert.deepStrictEqual(keys, [1, 2, 3, 4, 5, 6, 7].map(i => `alpha/2025-05-01/file-${i}.json`));
+});
+
+test('folder listings come in pages too', async () => {
+  const pages = await readAllPages('/api/s3/folders?prefix=', 2);
+  assert.ok(pages.length >= 3);
+  const names = pages.flatMap(page => page.folders.map(folder => folder.name));
+  assert.deepStrictEqual(names.sort(), ['alpha', 'beta', 'delta', 'epsilon', 'gamma']);
+});
+
+test('page sizes are capped and default to the largest page', async () => {
+  const [page] = await readAllPages('/api/s3/files?prefix=alpha/2025-05-01/', 'not-a-number');
+  assert.strictEqual(page.files.length, 7);
+  assert.strictEqual(page.nextCursor, null);
+});
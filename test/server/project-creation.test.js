@@ -0,0 +1,73 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+function post(path, json) {
+  return fetch(`${server.url}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(json),
+  });
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  s3.objects.set('alpha/README.md', Buffer.from('alpha'));
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('a new project starts with the fixed folders of its layout on both sides', async () => {
+  const response = await post('/api/s3/projects', { name: ' gamma ' });
+  assert.strictEqual(response.status, 200);
+  const { project, folders } = await response.json();
+  assert.strictEqual(project, 'gamma');
+  assert.deepStrictEqual(folders, ['gamma/inputData/', 'gamma/outputData/']);
+  for (const folder of folders) {
+    assert.strictEqual(s3.objects.get(folder).length, 0);
+  }
+
+  const [activity] = server.readData('activity').activities;
+  assert.strictEqual(activity.action, 'create');
+  assert.strictEqual(activity.fileName, 'gamma/');
+});
+
+test('project names must be new and usable as a folder name', async () => {
+  assert.strictEqual((await post('/api/s3/projects', { name: 'alpha' })).status, 409);
+  for (const name of ['', '../alpha', 'a/b', '.trash', 42]) {
+    assert.strictEqual((await post('/api/s3/projects', { name })).status, 400, String(name));
+  }
+});
+
+test('a new date folder gets the fixed folders below it on each side', async () => {
+  const response = await post('/api/s3/projects/gamma/folders', { values: ['2025-05-01'] });
+  assert.strictEqual(response.status, 200);
+  assert.deepStrictEqual((await response.json()).folders, [
+    'gamma/inputData/2025-05-01/annotation_inputs/input_files/',
+    'gamma/outputData/2025-05-01/',
+  ]);
+  assert.ok(s3.objects.has('gamma/outputData/2025-05-01/'));
+
+  assert.strictEqual((await post('/api/s3/projects/gamma/folders', { values: ['2025-05-01'] })).status, 409);
+});
+
+test('date folders must be real dates in YYYY-MM-DD format', async () => {
+  for (const values of [[], ['2025-5-1'], ['2025-02-30'], ['yesterday'], ['2025-05-02', 'extra']]) {
+    const response = await post('/api/s3/projects/gamma/folders', { values });
+    assert.strictEqual(response.status, 400, JSON.stringify(values));
+  }
+  assert.ok(!s3.objects.has('gamma/outputData/2025-02-30/'));
+});
+
+test('folders are only created in projects that exist', async () => {
+  const response = await post('/api/s3/projects/delta/folders', { values: ['2025-05-01'] });
+  assert.strictEqual(response.status, 404);
+  assert.ok(![...s3.objects.keys()].some(key => key.startsWith('delta/')));
+});
@@ -0,0 +1,174 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer, createSession } = require('./helpers');
+
+const admin = createSession('admin@example.com');
+const reader = createSession('reader@example.com');
+const uploader = createSession('uploader@example.com');
+const editor = createSession('editor@example.com');
+const everywhere = createSession('everywhere@example.com');
+
+let s3;
+let server;
+
+function api(path, session, { method = 'GET', json, form } = {}) {
+  return fetch(`${server.url}${path}`, {
+    method,
+    headers: {
+      ...(session && { Cookie: session.cookie }),
+      ...(json && { 'Content-Type': 'application/json' }),
+    },
+    body: json ? JSON.stringify(json) : form,
+  });
+}
+
+function upload(session, key, content, fields = {}) {
+  const form = new FormData();
+  form.append('key', key);
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  form.append('file', new Blob([content], { type: 'text/plain' }), key.split('/').pop());
+  return api('/api/s3/upload', session, { method: 'POST', form });
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  s3.objects.set('alpha/data.txt', Buffer.from('original'));
+  s3.objects.set('beta/secret.txt', Buffer.from('beta only'));
+  server = await startServer({
+    s3Endpoint: s3.endpoint,
+    data: {
+      'authorized-users': {
+        users: [
+          { email: 'admin@example.com', role: 'admin' },
+          { email: 'reader@example.com', role: 'user', projects: { alpha: ['read'] } },
+          { email: 'uploader@example.com', role: 'user', projects: { alpha: ['read', 'upload'] } },
+          { email: 'editor@example.com', role: 'user', projects: { alpha: ['read', 'upload', 'delete'] } },
+          { email: 'everywhere@example.com', role: 'user', projects: { '*': ['read', 'upload', 'delete'] } },
+        ],
+      },
+      sessions: { sessions: [admin.record, reader.record, uploader.record, editor.record, everywhere.record] },
+    },
+  });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('the connection test needs a session and lists only readable projects', async () => {
+  assert.strictEqual((await api('/api/s3/test')).status, 401);
+
+  const asReader = await (await api('/api/s3/test', reader)).json();
+  assert.deepStrictEqual(asReader.folders.map(folder => folder.name), ['alpha']);
+
+  const asAdmin = await (await api('/api/s3/test', admin)).json();
+  assert.deepStrictEqual(asAdmin.folders.map(folder => folder.name), ['alpha', 'beta']);
+});
+
+test('schema validation needs a session', async () => {
+  assert.strictEqual((await api('/api/schema/validate', null, { method: 'POST', form: new FormData() })).status, 401);
+});
+
+test('listing a project needs read access to it', async () => {
+  const allowed = await api('/api/s3/files?prefix=alpha/', reader);
+  assert.strictEqual(allowed.status, 200);
+  assert.deepStrictEqual((await allowed.json()).files.map(file => file.key), ['alpha/data.txt']);
+
+  const denied = await api('/api/s3/files?prefix=beta/', reader);
+  assert.strictEqual(denied.status, 403);
+  assert.strictEqual((await denied.json()).code, 'PROJECT_ACCESS_DENIED');
+});
+
+test('uploading needs upload access', async () => {
+  const response = await upload(reader, 'alpha/new-from-reader.txt', 'x');
+  assert.strictEqual(response.status, 403);
+  assert.ok(!s3.objects.has('alpha/new-from-reader.txt'));
+});
+
+test('upload access creates new files but cannot replace existing ones', async () => {
+  assert.strictEqual((await upload(uploader, 'alpha/fresh.txt', 'fresh')).status, 200);
+  assert.strictEqual(s3.objects.get('alpha/fresh.txt').toString(), 'fresh');
+
+  const response = await upload(uploader, 'alpha/data.txt', 'replaced');
+  assert.strictEqual(response.status, 403);
+  assert.match((await response.json()).error, /needs delete access/);
+  assert.strictEqual(s3.objects.get('alpha/data.txt').toString(), 'original');
+});
+
+test('delete access allows overwriting, unless the upload asks to keep existing files', async () => {
+  const conflict = await upload(editor, 'alpha/data.txt', 'replaced', { ifNoneMatch: 'true' });
+  assert.strictEqual(conflict.status, 409);
+  assert.strictEqual((await conflict.json()).code, 'OBJECT_EXISTS');
+
+  assert.strictEqual((await upload(editor, 'alpha/data.txt', 'replaced')).status, 200);
+  assert.strictEqual(s3.objects.get('alpha/data.txt').toString(), 'replaced');
+});
+
+test('multipart uploads and version restores need delete access to replace a file', async () => {
+  const initiate = await api('/api/s3/multipart/initiate', uploader, {
+    method: 'POST',
+    json: { key: 'alpha/data.txt', fileSize: 10 * 1024 * 1024 },
+  });
+  assert.strictEqual(initiate.status, 403);
+
+  const conflict = await api('/api/s3/multipart/initiate', editor, {
+    method: 'POST',
+    json: { key: 'alpha/data.txt', fileSize: 10 * 1024 * 1024, ifNoneMatch: true },
+  });
+  assert.strictEqual(conflict.status, 409);
+
+  const restore = await api('/api/s3/versions/restore', uploader, {
+    method: 'POST',
+    json: { key: 'alpha/data.txt', versionId: 'v1' },
+  });
+  assert.strictEqual(restore.status, 403);
+});
+
+test('requests without a usable key are refused before any check', async () => {
+  const form = new FormData();
+  form.append('file', new Blob(['x']), 'x.txt');
+  const missing = await api('/api/s3/upload', editor, { method: 'POST', form });
+  assert.strictEqual(missing.status, 400);
+  assert.strictEqual((await missing.json()).code, 'INVALID_KEY');
+
+  for (const key of [['alpha/data.txt'], 42, '']) {
+    const response = await api('/api/s3/delete', editor, { method: 'DELETE', json: { key } });
+    assert.strictEqual(response.status, 400);
+  }
+  assert.ok(s3.objects.has('alpha/data.txt'));
+});
+
+test('deleting needs delete access', async () => {
+  const response = await api('/api/s3/delete', uploader, { method: 'DELETE', json: { key: 'alpha/data.txt' } });
+  assert.strictEqual(response.status, 403);
+  assert.ok(s3.objects.has('alpha/data.txt'));
+});
+
+test('grants on every project still do not reach the recycle bin copies', async () => {
+  s3.objects.set('gamma/notes.txt', Buffer.from('notes'));
+  const deleted = await api('/api/s3/delete', everywhere, { method: 'DELETE', json: { key: 'gamma/notes.txt' } });
+  const { trashItem } = await deleted.json();
+  assert.ok(s3.objects.has(trashItem.trashKey));
+
+  assert.strictEqual((await api('/api/s3/files?prefix=.trash/', everywhere)).status, 403);
+  const presigned = await api('/api/s3/presigned', everywhere, { method: 'POST', json: { key: trashItem.trashKey } });
+  assert.strictEqual(presigned.status, 403);
+  const search = await (await api('/api/s3/search?q=notes.txt', everywhere)).json();
+  assert.deepStrictEqual(search.files.map(file => file.key), []);
+
+  // The recycle bin itself lists the deleted file under its original key
+  const { items } = await (await api('/api/s3/trash', everywhere)).json();
+  assert.deepStrictEqual(items.map(item => item.key), ['gamma/notes.txt']);
+  const asReader = await (await api('/api/s3/trash', reader)).json();
+  assert.deepStrictEqual(asReader.items, []);
+});
+
+test('only admins manage users', async () => {
+  const response = await api('/api/users/authorized', editor, {
+    method: 'POST',
+    json: { email: 'new@example.com', role: 'admin' },
+  });
+  assert.strictEqual(response.status, 403);
+  assert.strictEqual((await response.json()).error, 'ADMIN_REQUIRED');
+});
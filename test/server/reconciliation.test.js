@@ -0,0 +1,90 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+const INPUTS = 'alpha/inputData/2025-05-01/annotation_inputs/input_files/';
+const OUTPUTS = 'alpha/outputData/2025-05-01/';
+
+let s3;
+let server;
+
+function seed(key, content, lastModified) {
+  s3.objects.set(key, Buffer.from(content));
+  s3.modified.set(key, new Date(lastModified));
+}
+
+function api(path, { method = 'GET', json } = {}) {
+  return fetch(`${server.url}${path}`, {
+    method,
+    headers: json ? { 'Content-Type': 'application/json' } : {},
+    body: json ? JSON.stringify(json) : undefined,
+  });
+}
+
+const reconcile = async (query = 'project=alpha&folder=2025-05-01') => (await api(`/api/s3/reconciliation?${query}`)).json();
+
+before(async () => {
+  s3 = await startFakeS3();
+  for (const id of ['w1', 'w2', 'w3', 'w4']) {
+    seed(`${INPUTS}${id}.json`, 'input', '2025-05-01T08:00:00Z');
+  }
+  seed(`${OUTPUTS}w1.json`, 'output', '2025-05-02T08:00:00Z');
+  seed(`${OUTPUTS}w2.json`, '', '2025-05-02T08:00:00Z');
+  seed(`${OUTPUTS}w4.json`, 'output', '2025-04-30T08:00:00Z');
+  seed(`${OUTPUTS}w5.json`, 'output', '2025-05-02T08:00:00Z');
+  seed(`${OUTPUTS}README`, 'notes', '2025-05-02T08:00:00Z');
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('inputs are paired with the outputs of the same id', async () => {
+  const report = await reconcile();
+  assert.strictEqual(report.inputPrefix, INPUTS);
+  assert.strictEqual(report.outputPrefix, OUTPUTS);
+  assert.deepStrictEqual(report.summary, { inputs: 4, outputs: 5, matched: 1, missing: 1, extra: 2, mismatched: 2 });
+  assert.deepStrictEqual(report.items.map(item => [item.id, item.status, item.reason]), [
+    ['w1', 'matched', null],
+    ['w2', 'mismatched', 'Output is empty'],
+    ['w3', 'missing', 'No output found'],
+    ['w4', 'mismatched', 'Output is older than its input'],
+    ['w5', 'extra', 'No matching input'],
+    [null, 'extra', 'Name does not match the output pattern'],
+  ]);
+});
+
+test('the report downloads as CSV', async () => {
+  const response = await api('/api/s3/reconciliation?project=alpha&folder=2025-05-01&format=csv');
+  assert.strictEqual(response.headers.get('content-disposition'), 'attachment; filename="reconciliation_alpha_2025-05-01.csv"');
+  const rows = (await response.text()).trim().split('\r\n');
+  assert.strictEqual(rows[0], 'id,status,reason,input_keys,input_bytes,output_keys,output_bytes');
+  assert.strictEqual(rows[1], `w1,matched,,${INPUTS}w1.json,5,${OUTPUTS}w1.json,6`);
+});
+
+test('each project can name its inputs and outputs its own way', async () => {
+  seed(`${INPUTS}results/w1_task.json`, 'input', '2025-05-01T08:00:00Z');
+  seed(`${OUTPUTS}w1_done.csv`, 'output', '2025-05-02T08:00:00Z');
+
+  const invalid = await api('/api/s3/reconciliation/rules/alpha', { method: 'PUT', json: { inputPattern: '*.json', outputPattern: '{id}.*' } });
+  assert.strictEqual(invalid.status, 400);
+
+  const saved = await api('/api/s3/reconciliation/rules/alpha', {
+    method: 'PUT',
+    json: { inputFolder: 'results', inputPattern: '{id}_task.json', outputPattern: '{id}_done.*' },
+  });
+  assert.strictEqual(saved.status, 200);
+  assert.strictEqual((await saved.json()).rules.inputFolder, 'results/');
+
+  const report = await reconcile();
+  assert.strictEqual(report.inputPrefix, `${INPUTS}results/`);
+  assert.deepStrictEqual(report.items.filter(item => item.id).map(item => [item.id, item.status]), [['w1', 'matched']]);
+});
+
+test('the folder must fill every picked segment of the layout', async () => {
+  assert.strictEqual((await api('/api/s3/reconciliation?project=alpha')).status, 400);
+  assert.strictEqual((await api('/api/s3/reconciliation?project=alpha&folder=2025-05-01/extra')).status, 400);
+  assert.strictEqual((await api('/api/s3/reconciliation?folder=2025-05-01')).status, 400);
+});
@@ -0,0 +1,96 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+function api(path, { method = 'GET', json } = {}) {
+  return fetch(`${server.url}${path}`, {
+    method,
+    headers: json ? { 'Content-Type': 'application/json' } : {},
+    body: json ? JSON.stringify(json) : undefined,
+  });
+}
+
+async function deleteFile(key) {
+  const response = await api('/api/s3/delete', { method: 'DELETE', json: { key } });
+  assert.strictEqual(response.status, 200);
+  return (await response.json()).trashItem;
+}
+
+const trashKeys = () => [...s3.objects.keys()].filter(key => key.startsWith('.trash/'));
+
+before(async () => {
+  s3 = await startFakeS3();
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('deleting a file moves it into the recycle bin', async () => {
+  s3.objects.set('alpha/2025-05-01/report.csv', Buffer.from('report'));
+  const entry = await deleteFile('alpha/2025-05-01/report.csv');
+
+  assert.ok(!s3.objects.has('alpha/2025-05-01/report.csv'));
+  assert.strictEqual(entry.trashKey, `.trash/${entry.id}/alpha/2025-05-01/report.csv`);
+  assert.strictEqual(s3.objects.get(entry.trashKey).toString(), 'report');
+
+  const { items, mode } = await (await api('/api/s3/trash?prefix=alpha/')).json();
+  assert.strictEqual(mode, 'prefix');
+  assert.deepStrictEqual(items.map(item => item.key), ['alpha/2025-05-01/report.csv']);
+  assert.strictEqual(items[0].deletedBy, 'admin@turing.com');
+  assert.strictEqual(items[0].size, 6);
+});
+
+test('recycle bin copies never show up in the file listings', async () => {
+  s3.objects.set('alpha/visible.txt', Buffer.from('stays'));
+  await deleteFile('alpha/visible.txt');
+  s3.objects.set('alpha/visible.txt', Buffer.from('stays'));
+
+  const root = await (await api('/api/s3/files?prefix=')).json();
+  assert.ok(root.files.every(file => !file.key.startsWith('.trash/')));
+  const folders = await (await api('/api/s3/folders')).json();
+  assert.ok(folders.folders.every(folder => folder.path !== '.trash/'));
+
+  // Not even admins browse the recycle bin through the file routes
+  const listing = await api('/api/s3/files?prefix=.trash/');
+  assert.strictEqual(listing.status, 403);
+});
+
+test('restoring puts the file back, unless that would replace a newer one', async () => {
+  s3.objects.set('alpha/restore-me.json', Buffer.from('{"v":1}'));
+  const entry = await deleteFile('alpha/restore-me.json');
+
+  s3.objects.set('alpha/restore-me.json', Buffer.from('{"v":2}'));
+  const conflict = await api(`/api/s3/trash/${entry.id}/restore`, { method: 'POST', json: {} });
+  assert.strictEqual(conflict.status, 409);
+  assert.strictEqual((await conflict.json()).code, 'OBJECT_EXISTS');
+  assert.strictEqual(s3.objects.get('alpha/restore-me.json').toString(), '{"v":2}');
+
+  s3.objects.delete('alpha/restore-me.json');
+  assert.strictEqual((await api(`/api/s3/trash/${entry.id}/restore`, { method: 'POST', json: {} })).status, 200);
+  assert.strictEqual(s3.objects.get('alpha/restore-me.json').toString(), '{"v":1}');
+  assert.ok(!s3.objects.has(entry.trashKey));
+
+  const { items } = await (await api('/api/s3/trash')).json();
+  assert.ok(items.every(item => item.id !== entry.id));
+  assert.strictEqual((await api(`/api/s3/trash/${entry.id}/restore`, { method: 'POST', json: {} })).status, 404);
+});
+
+test('purging removes the recycle bin copy for good', async () => {
+  s3.objects.set('alpha/purge-me.txt', Buffer.from('bye'));
+  const entry = await deleteFile('alpha/purge-me.txt');
+  const trashedBefore = trashKeys().length;
+
+  assert.strictEqual((await api(`/api/s3/trash/${entry.id}`, { method: 'DELETE' })).status, 200);
+  assert.ok(!s3.objects.has(entry.trashKey));
+  assert.strictEqual(trashKeys().length, trashedBefore - 1);
+  assert.ok(!s3.objects.has('alpha/purge-me.txt'));
+
+  const { items } = await (await api('/api/s3/trash')).json();
+  assert.ok(items.every(item => item.id !== entry.id));
+});
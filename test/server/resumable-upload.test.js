@@ -0,0 +1,71 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+async function api(path, { json, query } = {}) {
+  const response = await fetch(`${server.url}/api/s3/multipart/${path}${query ? `?${new URLSearchParams(query)}` : ''}`, json && {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(json),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function uploadPart(key, uploadId, partNumber, content) {
+  const { body } = await api('presign', { json: { key, uploadId, partNumbers: [partNumber] } });
+  const response = await fetch(body.urls[partNumber], { method: 'PUT', body: content });
+  return { partNumber, etag: response.headers.get('etag') };
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('an interrupted upload picks up from the parts S3 already holds', async () => {
+  const { body: upload } = await api('initiate', { json: { key: 'alpha/resume.csv', fileSize: 10 } });
+  const first = await uploadPart('alpha/resume.csv', upload.uploadId, 1, 'first,');
+
+  // After a reload the client looks for its upload and the parts that made it
+  const { body: open } = await api('uploads', { query: { prefix: 'alpha/' } });
+  assert.deepStrictEqual(open.map(item => [item.key, item.uploadId]), [['alpha/resume.csv', upload.uploadId]]);
+  const { body: listed } = await api('parts', { query: { key: 'alpha/resume.csv', uploadId: upload.uploadId } });
+  assert.deepStrictEqual(listed.parts, [{ partNumber: 1, etag: first.etag, size: 6 }]);
+
+  const second = await uploadPart('alpha/resume.csv', upload.uploadId, 2, 'last');
+  const completed = await api('complete', { json: { key: 'alpha/resume.csv', uploadId: upload.uploadId, parts: [first, second], fileSize: 10 } });
+  assert.strictEqual(completed.status, 200);
+  assert.strictEqual(s3.objects.get('alpha/resume.csv').toString(), 'first,last');
+});
+
+test('an upload that no longer exists is reported so the client starts over', async () => {
+  const response = await api('parts', { query: { key: 'alpha/resume.csv', uploadId: 'gone' } });
+  assert.strictEqual(response.status, 404);
+  assert.strictEqual(response.body.error, 'NO_SUCH_UPLOAD');
+});
+
+test('cleanup aborts the uploads under a project that were left behind', async () => {
+  const { body: stale } = await api('initiate', { json: { key: 'alpha/stale.bin', fileSize: 1 } });
+  const { body: other } = await api('initiate', { json: { key: 'beta/other.bin', fileSize: 1 } });
+
+  assert.strictEqual((await api('cleanup', { json: { olderThanHours: 0 } })).status, 400);
+
+  // Nothing is old enough yet
+  const recent = await api('cleanup', { json: { prefix: 'alpha/', olderThanHours: 1 } });
+  assert.deepStrictEqual(recent.body.aborted, []);
+
+  const cleanup = await api('cleanup', { json: { prefix: 'alpha/', olderThanHours: 0 } });
+  assert.strictEqual(cleanup.status, 200);
+  assert.deepStrictEqual(cleanup.body.aborted.map(item => item.uploadId), [stale.uploadId]);
+  assert.strictEqual(cleanup.body.remaining, 0);
+  assert.ok(!s3.uploads.has(stale.uploadId));
+  assert.ok(s3.uploads.has(other.uploadId));
+});
@@ -0,0 +1,80 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+async function search(query) {
+  const response = await fetch(`${server.url}/api/s3/search?${new URLSearchParams(query)}`);
+  assert.strictEqual(response.status, 200);
+  return response.json();
+}
+
+const keysOf = result => result.files.map(file => file.key);
+
+function seed(key, content, lastModified) {
+  s3.objects.set(key, Buffer.from(content));
+  s3.modified.set(key, new Date(lastModified));
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  seed('alpha/2025-05-01/Report-May.csv', 'x'.repeat(10), '2025-05-01T10:00:00Z');
+  seed('alpha/2025-06-01/report-june.csv', 'x'.repeat(1000), '2025-06-01T10:00:00Z');
+  seed('alpha/2025-06-01/notes.txt', 'notes', '2025-06-01T10:00:00Z');
+  seed('beta/archive/2024/report-old.csv', 'x'.repeat(100), '2024-01-01T10:00:00Z');
+  for (let i = 0; i < 205; i++) {
+    seed(`gamma/bulk/item-${String(i).padStart(3, '0')}.json`, '{}', '2025-01-01T00:00:00Z');
+  }
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('plain text matches anywhere in the file name, ignoring case', async () => {
+  assert.deepStrictEqual(keysOf(await search({ q: 'report' })), [
+    'alpha/2025-05-01/Report-May.csv',
+    'alpha/2025-06-01/report-june.csv',
+    'beta/archive/2024/report-old.csv',
+  ]);
+  // Folder names are not file names
+  assert.deepStrictEqual(keysOf(await search({ q: 'archive' })), []);
+});
+
+test('wildcards: * stays within a folder, ** crosses folders', async () => {
+  assert.deepStrictEqual(keysOf(await search({ q: '*.txt' })), ['alpha/2025-06-01/notes.txt']);
+  assert.deepStrictEqual(keysOf(await search({ q: 'beta/*/report-*' })), []);
+  assert.deepStrictEqual(keysOf(await search({ q: 'beta/**/report-*' })), ['beta/archive/2024/report-old.csv']);
+  assert.deepStrictEqual(keysOf(await search({ q: 'report-???.csv' })), [
+    'alpha/2025-05-01/Report-May.csv',
+    'beta/archive/2024/report-old.csv',
+  ]);
+});
+
+test('results narrow to a project, a size range and a date range', async () => {
+  assert.deepStrictEqual(keysOf(await search({ q: 'report', project: 'beta' })), ['beta/archive/2024/report-old.csv']);
+  assert.deepStrictEqual(keysOf(await search({ q: 'report', minSize: '50', maxSize: '500' })), ['beta/archive/2024/report-old.csv']);
+  assert.deepStrictEqual(keysOf(await search({ q: '*.csv', modifiedAfter: '2025-05-15', modifiedBefore: '2025-12-31' })), [
+    'alpha/2025-06-01/report-june.csv',
+  ]);
+});
+
+test('large result sets come in pages', async () => {
+  const first = await search({ q: 'item-*' });
+  assert.strictEqual(first.files.length, 200);
+  assert.ok(first.nextCursor);
+
+  const second = await search({ q: 'item-*', cursor: first.nextCursor });
+  assert.deepStrictEqual(keysOf(second), ['gamma/bulk/item-200.json', 'gamma/bulk/item-201.json', 'gamma/bulk/item-202.json',
+    'gamma/bulk/item-203.json', 'gamma/bulk/item-204.json']);
+  assert.strictEqual(second.nextCursor, null);
+});
+
+test('a search needs a pattern', async () => {
+  const response = await fetch(`${server.url}/api/s3/search?q=%20`);
+  assert.strictEqual(response.status, 400);
+});
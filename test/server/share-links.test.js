@@ -0,0 +1,142 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer, createSession } = require('./helpers');
+
+const owner = createSession('owner@example.com');
+const outsider = createSession('outsider@example.com');
+
+const USERS = [
+  { email: 'owner@example.com', role: 'user', projects: { alpha: ['read', 'upload'] } },
+  { email: 'outsider@example.com', role: 'user', projects: { beta: ['read'] } },
+];
+
+let s3;
+let server;
+
+async function createLink(body, session = owner) {
+  const response = await fetch(`${server.url}/api/s3/share`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Cookie: session.cookie },
+    body: JSON.stringify({ key: 'alpha/report.csv', expiresInHours: 24, ...body }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+function download(id, { password, clientIp } = {}) {
+  return fetch(`${server.url}/s/${id}`, {
+    method: 'POST',
+    redirect: 'manual',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...(clientIp && { 'X-Forwarded-For': clientIp }),
+    },
+    body: new URLSearchParams(password === undefined ? {} : { password }).toString(),
+  });
+}
+
+const storedLink = id => server.readData('share-links').links.find(link => link.id === id);
+
+before(async () => {
+  s3 = await startFakeS3();
+  s3.objects.set('alpha/report.csv', Buffer.from('id,value\n1,2\n'));
+  server = await startServer({
+    s3Endpoint: s3.endpoint,
+    data: {
+      'authorized-users': { users: USERS },
+      sessions: { sessions: [owner.record, outsider.record] },
+    },
+  });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('only users who can read the file may share it', async () => {
+  const { status } = await createLink({}, outsider);
+  assert.strictEqual(status, 403);
+});
+
+test('share link passwords need at least 8 characters', async () => {
+  const { status, body } = await createLink({ password: 'short' });
+  assert.strictEqual(status, 400);
+  assert.match(body.error, /at least 8 characters/);
+});
+
+test('opening a link shows a download page without counting a download', async () => {
+  const { status, body } = await createLink({});
+  assert.strictEqual(status, 200);
+  assert.strictEqual(body.link.hasPassword, false);
+
+  for (let i = 0; i < 3; i++) {
+    const page = await fetch(`${server.url}/s/${body.link.id}`);
+    assert.strictEqual(page.status, 200);
+    assert.match(await page.text(), /<form method="post">/);
+  }
+  assert.strictEqual(storedLink(body.link.id).downloadCount, 0);
+
+  const response = await download(body.link.id);
+  assert.strictEqual(response.status, 302);
+  const location = new URL(response.headers.get('location'));
+  assert.strictEqual(location.origin, s3.endpoint);
+  assert.strictEqual(location.pathname, '/test-bucket/alpha/report.csv');
+  assert.strictEqual(storedLink(body.link.id).downloadCount, 1);
+});
+
+test('a link stops working once its download limit is reached', async () => {
+  const { body } = await createLink({ maxDownloads: 1 });
+  assert.strictEqual((await download(body.link.id)).status, 302);
+  assert.strictEqual((await download(body.link.id)).status, 410);
+  assert.strictEqual((await fetch(`${server.url}/s/${body.link.id}`)).status, 410);
+});
+
+test('wrong passwords are throttled per link and client address', async () => {
+  const { body } = await createLink({ password: 'correct horse' });
+  const { id } = body.link;
+
+  assert.match(await (await fetch(`${server.url}/s/${id}`)).text(), /type="password"/);
+  assert.strictEqual((await download(id, { clientIp: '203.0.113.7' })).status, 401);
+
+  for (let attempt = 2; attempt <= 5; attempt++) {
+    assert.strictEqual((await download(id, { password: 'wrong guess', clientIp: '203.0.113.7' })).status, 401);
+  }
+  // Locked for this address, even with the right password
+  assert.strictEqual((await download(id, { password: 'correct horse', clientIp: '203.0.113.7' })).status, 429);
+  assert.strictEqual(storedLink(id).downloadCount, 0);
+
+  // Other addresses are not affected
+  assert.strictEqual((await download(id, { password: 'correct horse', clientIp: '198.51.100.2' })).status, 302);
+  assert.strictEqual(storedLink(id).downloadCount, 1);
+});
+
+test('revoked and unknown links are refused', async () => {
+  const { body } = await createLink({});
+  const revoke = await fetch(`${server.url}/api/s3/share/${body.link.id}`, {
+    method: 'DELETE',
+    headers: { Cookie: owner.cookie },
+  });
+  assert.strictEqual(revoke.status, 200);
+
+  assert.strictEqual((await fetch(`${server.url}/s/${body.link.id}`)).status, 410);
+  assert.strictEqual((await download(body.link.id)).status, 410);
+  assert.strictEqual((await fetch(`${server.url}/s/does-not-exist`)).status, 404);
+});
+
+test('links stop working when their creator loses access to the file', async () => {
+  const { body } = await createLink({});
+  assert.strictEqual((await fetch(`${server.url}/s/${body.link.id}`)).status, 200);
+
+  server.writeData('authorized-users', {
+    users: USERS.map(user => (user.email === 'owner@example.com' ? { ...user, projects: { beta: ['read'] } } : user)),
+  });
+  try {
+    const page = await fetch(`${server.url}/s/${body.link.id}`);
+    assert.strictEqual(page.status, 410);
+    assert.match(await page.text(), /can no longer access it/);
+    assert.strictEqual((await download(body.link.id)).status, 410);
+    assert.strictEqual(storedLink(body.link.id).downloadCount, 0);
+  } finally {
+    server.writeData('authorized-users', { users: USERS });
+  }
+});
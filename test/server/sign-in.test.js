@@ -0,0 +1,230 @@
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert');
+const crypto = require('crypto');
+const http = require('http');
+const { listen, close, startServer, getSetCookie } = require('./helpers');
+
+const ADMIN_PASSWORD = 'first admin password';
+
+describe('local accounts', () => {
+  let server;
+
+  function signIn(email, password, clientIp) {
+    return fetch(`${server.url}/api/auth/local`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(clientIp && { 'X-Forwarded-For': clientIp }) },
+      body: JSON.stringify({ email, password }),
+    });
+  }
+
+  async function signInAsAdmin() {
+    const response = await signIn('admin@example.com', ADMIN_PASSWORD, '192.0.2.1');
+    assert.strictEqual(response.status, 200);
+    return `s3m_session=${getSetCookie(response, 's3m_session')}`;
+  }
+
+  before(async () => {
+    server = await startServer({
+      env: { AUTH_PROVIDER: 'local', LOCAL_ADMIN_PASSWORD: ADMIN_PASSWORD },
+      data: { 'authorized-users': { users: [{ email: 'admin@example.com', role: 'admin' }] } },
+    });
+  });
+
+  after(() => server?.stop());
+
+  test('LOCAL_ADMIN_PASSWORD lets the first admin sign in', async () => {
+    const config = await (await fetch(`${server.url}/api/auth/config`)).json();
+    assert.strictEqual(config.type, 'local');
+    assert.strictEqual(config.minPasswordLength, 8);
+
+    const response = await signIn('Admin@Example.com', ADMIN_PASSWORD);
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual((await response.json()).user.role, 'admin');
+    assert.ok(getSetCookie(response, 's3m_session'));
+  });
+
+  test('admins set passwords of at least 8 characters, stored only as hashes', async () => {
+    const cookie = await signInAsAdmin();
+    const addUser = password => fetch(`${server.url}/api/users/authorized`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ email: 'bob@example.com', role: 'user', projects: { alpha: ['read'] }, password }),
+    });
+
+    const tooShort = await addUser('short');
+    assert.strictEqual(tooShort.status, 400);
+    assert.strictEqual((await tooShort.json()).error, 'INVALID_PASSWORD');
+
+    assert.strictEqual((await addUser('bobs password')).status, 200);
+    const stored = server.readData('authorized-users').users.find(user => user.email === 'bob@example.com');
+    assert.ok(stored.passwordHash && stored.passwordSalt);
+    assert.ok(!JSON.stringify(stored).includes('bobs password'));
+
+    const listing = await (await fetch(`${server.url}/api/users/authorized`, { headers: { Cookie: cookie } })).json();
+    const listed = listing.users.find(user => user.email === 'bob@example.com');
+    assert.strictEqual(listed.hasPassword, true);
+    assert.strictEqual(listed.passwordHash, undefined);
+    assert.strictEqual(listed.passwordSalt, undefined);
+
+    const response = await signIn('bob@example.com', 'bobs password');
+    assert.strictEqual(response.status, 200);
+    assert.deepStrictEqual((await response.json()).user.projects, { alpha: ['read'] });
+  });
+
+  test('wrong passwords and unknown emails are refused alike', async () => {
+    const wrong = await signIn('admin@example.com', 'not the password', '192.0.2.50');
+    const unknown = await signIn('nobody@example.com', 'not the password', '192.0.2.50');
+    assert.strictEqual(wrong.status, 401);
+    assert.strictEqual(unknown.status, 401);
+    assert.deepStrictEqual(await wrong.json(), await unknown.json());
+    assert.strictEqual(getSetCookie(wrong, 's3m_session'), undefined);
+  });
+
+  test('repeated failures lock the email only for the address they came from', async () => {
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      assert.strictEqual((await signIn('admin@example.com', 'guess', '203.0.113.9')).status, 401);
+    }
+    const locked = await signIn('admin@example.com', ADMIN_PASSWORD, '203.0.113.9');
+    assert.strictEqual(locked.status, 429);
+    assert.strictEqual((await locked.json()).error, 'TOO_MANY_ATTEMPTS');
+
+    // The real admin, elsewhere, can still sign in
+    assert.strictEqual((await signIn('admin@example.com', ADMIN_PASSWORD, '198.51.100.20')).status, 200);
+  });
+});
+
+describe('OpenID Connect', () => {
+  const CLIENT_ID = 'file-manager';
+  const CLIENT_SECRET = 'client secret';
+
+  // Stands in for the identity provider: discovery, JWKS and a token endpoint that checks the client and PKCE
+  const signingKey = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const otherKey = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const codes = new Map();
+  let issuer;
+  let server;
+
+  const encode = value => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  function signIdToken(claims, privateKey = signingKey.privateKey) {
+    const header = encode({ alg: 'ES256', kid: 'e1', typ: 'JWT' });
+    const payload = encode(claims);
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    return `${header}.${payload}.${signature.toString('base64url')}`;
+  }
+
+  const identityProvider = http.createServer((req, res) => {
+    const url = new URL(req.url, issuer);
+    res.setHeader('Content-Type', 'application/json');
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return res.end(JSON.stringify({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      }));
+    }
+    if (url.pathname === '/jwks') {
+      return res.end(JSON.stringify({ keys: [{ ...signingKey.publicKey.export({ format: 'jwk' }), kid: 'e1', alg: 'ES256' }] }));
+    }
+    if (url.pathname === '/token') {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        const pending = codes.get(params.get('code'));
+        const credentials = Buffer.from((req.headers.authorization || '').replace(/^Basic /, ''), 'base64').toString();
+        const challenge = crypto.createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+        if (credentials !== `${CLIENT_ID}:${encodeURIComponent(CLIENT_SECRET)}` || !pending || challenge !== pending.codeChallenge) {
+          res.statusCode = 400;
+          return res.end(JSON.stringify({ error: 'invalid_grant' }));
+        }
+        res.end(JSON.stringify({ id_token: pending.idToken }));
+      });
+      return;
+    }
+    res.statusCode = 404;
+    res.end('{}');
+  });
+
+  // Start a sign-in, let the provider issue a code whose ID token has `claims`, and return the callback's answer
+  async function signIn(claims = {}, { privateKey, tamperState = false } = {}) {
+    const login = await fetch(`${server.url}/api/auth/oidc/login`, { redirect: 'manual' });
+    assert.strictEqual(login.status, 302);
+    const authorizeUrl = new URL(login.headers.get('location'));
+    assert.strictEqual(authorizeUrl.origin + authorizeUrl.pathname, `${issuer}/authorize`);
+    assert.strictEqual(authorizeUrl.searchParams.get('code_challenge_method'), 'S256');
+
+    const now = Math.floor(Date.now() / 1000);
+    const code = crypto.randomBytes(8).toString('hex');
+    codes.set(code, {
+      codeChallenge: authorizeUrl.searchParams.get('code_challenge'),
+      idToken: signIdToken({
+        iss: issuer,
+        aud: CLIENT_ID,
+        sub: 'carol',
+        email: 'carol@example.com',
+        name: 'Carol',
+        nonce: authorizeUrl.searchParams.get('nonce'),
+        iat: now,
+        exp: now + 300,
+        ...claims,
+      }, privateKey),
+    });
+
+    const state = tamperState ? 'forged' : authorizeUrl.searchParams.get('state');
+    const stateCookie = getSetCookie(login, 's3m_oidc_state');
+    return fetch(`${server.url}/api/auth/oidc/callback?code=${code}&state=${state}`, {
+      redirect: 'manual',
+      headers: { Cookie: `s3m_oidc_state=${stateCookie}` },
+    });
+  }
+
+  function assertRefused(response) {
+    assert.strictEqual(response.status, 302);
+    assert.match(response.headers.get('location'), /^\/\?authError=/);
+    assert.strictEqual(getSetCookie(response, 's3m_session'), undefined);
+  }
+
+  before(async () => {
+    issuer = await listen(identityProvider);
+    server = await startServer({
+      env: { AUTH_PROVIDER: 'oidc', OIDC_ISSUER: issuer, OIDC_CLIENT_ID: CLIENT_ID, OIDC_CLIENT_SECRET: CLIENT_SECRET },
+      data: { 'authorized-users': { users: [{ email: 'carol@example.com', role: 'user', projects: { alpha: ['read'] } }] } },
+    });
+  });
+
+  after(async () => {
+    await server?.stop();
+    await close(identityProvider);
+  });
+
+  test('a verified ID token starts a session', async () => {
+    const response = await signIn();
+    assert.strictEqual(response.status, 302);
+    assert.strictEqual(response.headers.get('location'), '/?signedIn=1');
+
+    const cookie = `s3m_session=${getSetCookie(response, 's3m_session')}`;
+    const session = await fetch(`${server.url}/api/auth/session`, { headers: { Cookie: cookie } });
+    assert.strictEqual(session.status, 200);
+    const { user } = await session.json();
+    assert.strictEqual(user.email, 'carol@example.com');
+    assert.strictEqual(user.role, 'user');
+  });
+
+  test('a callback whose state does not match the browser is refused', async () => {
+    assertRefused(await signIn({}, { tamperState: true }));
+  });
+
+  test('ID tokens with a bad signature, audience, nonce or expiry are refused', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    assertRefused(await signIn({}, { privateKey: otherKey.privateKey }));
+    assertRefused(await signIn({ aud: 'another-client' }));
+    assertRefused(await signIn({ nonce: 'replayed' }));
+    assertRefused(await signIn({ iat: now - 3600, exp: now - 600 }));
+  });
+
+  test('accounts missing from the authorized users are refused', async () => {
+    assertRefused(await signIn({ email: 'mallory@example.com' }));
+  });
+});
@@ -0,0 +1,117 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { setTimeout: delay } = require('timers/promises');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+function transfer(body) {
+  return fetch(`${server.url}/api/s3/transfer`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// Start a job and wait for it to finish
+async function runTransfer(body) {
+  const response = await transfer(body);
+  assert.strictEqual(response.status, 202);
+  let { job } = await response.json();
+  while (job.status === 'running') {
+    await delay(50);
+    ({ job } = await (await fetch(`${server.url}/api/s3/transfer/${job.id}`)).json());
+  }
+  return job;
+}
+
+const content = key => s3.objects.get(key)?.toString();
+
+before(async () => {
+  s3 = await startFakeS3();
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('a dry run lists the targets and the files already at the destination', async () => {
+  s3.objects.set('alpha/in/a.csv', Buffer.from('a'));
+  s3.objects.set('alpha/in/b.csv', Buffer.from('b'));
+  s3.objects.set('alpha/out/a.csv', Buffer.from('old a'));
+
+  const response = await transfer({ operation: 'copy', keys: ['alpha/in/a.csv', 'alpha/in/b.csv'], destination: 'alpha/out/', dryRun: true });
+  assert.strictEqual(response.status, 200);
+  const preview = await response.json();
+  assert.deepStrictEqual(preview.files.map(file => file.target), ['alpha/out/a.csv', 'alpha/out/b.csv']);
+  assert.deepStrictEqual(preview.conflicts, [{ key: 'alpha/in/a.csv', target: 'alpha/out/a.csv' }]);
+  assert.ok(!s3.objects.has('alpha/out/b.csv'));
+});
+
+test('existing files need an explicit choice', async () => {
+  const response = await transfer({ operation: 'copy', keys: ['alpha/in/a.csv'], destination: 'alpha/out/' });
+  assert.strictEqual(response.status, 409);
+  assert.strictEqual((await response.json()).code, 'TARGET_EXISTS');
+
+  const invalid = await transfer({ operation: 'copy', keys: ['alpha/in/a.csv'], destination: 'alpha/out/', conflict: 'replace' });
+  assert.strictEqual(invalid.status, 400);
+});
+
+test('skip leaves existing files alone and copies the rest', async () => {
+  const job = await runTransfer({ operation: 'copy', keys: ['alpha/in/a.csv', 'alpha/in/b.csv'], destination: 'alpha/out/', conflict: 'skip' });
+  assert.strictEqual(job.status, 'completed');
+  assert.strictEqual(job.skipped, 1);
+  assert.strictEqual(content('alpha/out/a.csv'), 'old a');
+  assert.strictEqual(content('alpha/out/b.csv'), 'b');
+});
+
+test('keepBoth gives the copies numbered names', async () => {
+  s3.objects.set('alpha/out/a (1).csv', Buffer.from('taken'));
+  const job = await runTransfer({ operation: 'copy', keys: ['alpha/in/a.csv'], destination: 'alpha/out/', conflict: 'keepBoth' });
+  assert.deepStrictEqual(job.failed, []);
+  assert.strictEqual(content('alpha/out/a.csv'), 'old a');
+  assert.strictEqual(content('alpha/out/a (1).csv'), 'taken');
+  assert.strictEqual(content('alpha/out/a (2).csv'), 'a');
+});
+
+test('overwrite replaces the existing files', async () => {
+  const job = await runTransfer({ operation: 'copy', keys: ['alpha/in/a.csv'], destination: 'alpha/out/', conflict: 'overwrite' });
+  assert.deepStrictEqual(job.failed, []);
+  assert.strictEqual(content('alpha/out/a.csv'), 'a');
+});
+
+test('moving a folder re-roots its files and removes the originals', async () => {
+  s3.objects.set('alpha/batch/one.json', Buffer.from('1'));
+  s3.objects.set('alpha/batch/nested/two.json', Buffer.from('2'));
+
+  const job = await runTransfer({ operation: 'move', prefix: 'alpha/batch/', destination: 'beta/archive/' });
+  assert.strictEqual(job.total, 2);
+  assert.strictEqual(content('beta/archive/one.json'), '1');
+  assert.strictEqual(content('beta/archive/nested/two.json'), '2');
+  assert.ok(![...s3.objects.keys()].some(key => key.startsWith('alpha/batch/')));
+
+  const intoItself = await transfer({ operation: 'move', prefix: 'beta/archive/', destination: 'beta/archive/nested/' });
+  assert.strictEqual(intoItself.status, 400);
+});
+
+test('a file created at the destination while the job runs is reported, not overwritten', async () => {
+  s3.objects.set('alpha/race/report.csv', Buffer.from('ours'));
+  s3.onRequest = ({ method, key, headers }) => {
+    if (method === 'PUT' && headers['x-amz-copy-source'] && key === 'gamma/report.csv') {
+      s3.objects.set(key, Buffer.from('theirs'));
+    }
+  };
+  try {
+    const job = await runTransfer({ operation: 'move', keys: ['alpha/race/report.csv'], destination: 'gamma/' });
+    assert.strictEqual(job.failed.length, 1);
+    assert.strictEqual(job.failed[0].conflict, true);
+    assert.strictEqual(content('gamma/report.csv'), 'theirs');
+    // A move whose copy did not happen keeps its source
+    assert.strictEqual(content('alpha/race/report.csv'), 'ours');
+  } finally {
+    s3.onRequest = null;
+  }
+});
@@ -0,0 +1,75 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+function upload(key, content, fields = {}) {
+  const form = new FormData();
+  form.append('key', key);
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  form.append('file', new Blob([content]), key.split('/').pop());
+  return fetch(`${server.url}/api/s3/upload`, { method: 'POST', body: form });
+}
+
+async function multipart(path, json) {
+  const response = await fetch(`${server.url}/api/s3/multipart/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(json),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  s3.objects.set('alpha/existing.csv', Buffer.from('original'));
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('only-if-new uploads never replace an existing file', async () => {
+  const response = await upload('alpha/existing.csv', 'replacement', { ifNoneMatch: 'true' });
+  assert.strictEqual(response.status, 409);
+  assert.strictEqual((await response.json()).code, 'OBJECT_EXISTS');
+  assert.strictEqual(s3.objects.get('alpha/existing.csv').toString(), 'original');
+
+  const [activity] = server.readData('activity').activities;
+  assert.strictEqual(activity.status, 'failed');
+  assert.strictEqual(activity.details, 'Upload rejected: file already exists');
+
+  assert.strictEqual((await upload('alpha/new.csv', 'new', { ifNoneMatch: 'true' })).status, 200);
+  assert.strictEqual(s3.objects.get('alpha/new.csv').toString(), 'new');
+});
+
+test('a plain upload is an explicit overwrite', async () => {
+  assert.strictEqual((await upload('alpha/existing.csv', 'replacement')).status, 200);
+  assert.strictEqual(s3.objects.get('alpha/existing.csv').toString(), 'replacement');
+});
+
+test('multipart uploads check before the first part and again on completion', async () => {
+  const early = await multipart('initiate', { key: 'alpha/existing.csv', fileSize: 4, ifNoneMatch: true });
+  assert.strictEqual(early.status, 409);
+  assert.strictEqual(early.body.code, 'OBJECT_EXISTS');
+
+  const { body: started } = await multipart('initiate', { key: 'alpha/late.csv', fileSize: 4, ifNoneMatch: true });
+  const { body: presigned } = await multipart('presign', { key: 'alpha/late.csv', uploadId: started.uploadId, partNumbers: [1] });
+  const put = await fetch(presigned.urls[1], { method: 'PUT', body: 'ours' });
+  const parts = [{ partNumber: 1, etag: put.headers.get('etag') }];
+
+  // Someone else creates the file while the parts are uploading
+  s3.objects.set('alpha/late.csv', Buffer.from('theirs'));
+  const rejected = await multipart('complete', { key: 'alpha/late.csv', uploadId: started.uploadId, parts, ifNoneMatch: true });
+  assert.strictEqual(rejected.status, 409);
+  assert.strictEqual(s3.objects.get('alpha/late.csv').toString(), 'theirs');
+
+  // The upload stays open, so choosing to overwrite does not upload the parts again
+  const overwritten = await multipart('complete', { key: 'alpha/late.csv', uploadId: started.uploadId, parts });
+  assert.strictEqual(overwritten.status, 200);
+  assert.strictEqual(s3.objects.get('alpha/late.csv').toString(), 'ours');
+});
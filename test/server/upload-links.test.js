@@ -0,0 +1,152 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer, createSession } = require('./helpers');
+
+const admin = createSession('admin@example.com', { name: 'Ada' });
+const member = createSession('member@example.com');
+
+const USERS = [
+  { email: 'admin@example.com', role: 'admin' },
+  { email: 'member@example.com', role: 'user', projects: { alpha: ['read', 'upload'] } },
+];
+
+let s3;
+let server;
+
+async function createLink(body, session = admin) {
+  const response = await fetch(`${server.url}/api/s3/upload-links`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Cookie: session.cookie },
+    body: JSON.stringify({ prefix: 'alpha/inbox', expiresInHours: 24, ...body }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+// Post files to a link the way its upload page does
+function uploadThroughLink(id, files) {
+  const form = new FormData();
+  for (const [name, content] of Object.entries(files)) {
+    form.append('files', new Blob([content]), name);
+  }
+  return fetch(`${server.url}/u/${id}`, { method: 'POST', body: form });
+}
+
+const storedLink = id => server.readData('upload-links').links.find(link => link.id === id);
+
+before(async () => {
+  s3 = await startFakeS3();
+  s3.objects.set('alpha/inbox/existing.csv', Buffer.from('already here'));
+  server = await startServer({
+    s3Endpoint: s3.endpoint,
+    data: {
+      'authorized-users': { users: USERS },
+      sessions: { sessions: [admin.record, member.record] },
+    },
+  });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('only admins create upload links, for a real folder', async () => {
+  assert.strictEqual((await createLink({}, member)).status, 403);
+  assert.strictEqual((await createLink({ prefix: '../' })).status, 400);
+  assert.strictEqual((await createLink({ maxTotalSize: 0 })).status, 400);
+
+  const { status, body } = await createLink({ allowedExtensions: ['CSV'] });
+  assert.strictEqual(status, 200);
+  assert.strictEqual(body.link.prefix, 'alpha/inbox/');
+  assert.deepStrictEqual(body.link.allowedExtensions, ['.csv']);
+  assert.strictEqual(body.link.maxFileSize, 100 * 1024 * 1024);
+  assert.strictEqual(body.link.status, 'active');
+  assert.match(body.link.url, new RegExp(`/u/${body.link.id}$`));
+});
+
+test('anyone with the link uploads new files into its folder, within its rules', async () => {
+  const { body } = await createLink({ allowedExtensions: ['.csv'] });
+
+  const page = await fetch(body.link.url.replace(/^.*\/u\//, `${server.url}/u/`));
+  assert.strictEqual(page.status, 200);
+  assert.match(await page.text(), /enctype="multipart\/form-data"/);
+
+  const response = await uploadThroughLink(body.link.id, {
+    'results.csv': 'id\n1\n',
+    'notes.txt': 'not accepted',
+    'existing.csv': 'would overwrite',
+  });
+  assert.strictEqual(response.status, 200);
+  const summary = await response.text();
+  assert.match(summary, /1 of 3 files uploaded/);
+  assert.match(summary, /Only \.csv files are accepted/);
+  assert.match(summary, /A file with this name already exists/);
+
+  assert.strictEqual(s3.objects.get('alpha/inbox/results.csv').toString(), 'id\n1\n');
+  assert.ok(!s3.objects.has('alpha/inbox/notes.txt'));
+  assert.strictEqual(s3.objects.get('alpha/inbox/existing.csv').toString(), 'already here');
+  assert.strictEqual(storedLink(body.link.id).uploadCount, 1);
+  assert.strictEqual(storedLink(body.link.id).uploadedSize, 5);
+});
+
+test('uploads over what is left of the link\'s total are refused before they are stored', async () => {
+  const { body } = await createLink({ maxTotalSize: 1024 });
+
+  const tooLarge = await uploadThroughLink(body.link.id, { 'large.bin': Buffer.alloc(2048) });
+  assert.strictEqual(tooLarge.status, 413);
+  assert.ok(!s3.objects.has('alpha/inbox/large.bin'));
+
+  assert.strictEqual((await uploadThroughLink(body.link.id, { 'small.bin': Buffer.alloc(700) })).status, 200);
+  assert.strictEqual(storedLink(body.link.id).uploadedSize, 700);
+
+  // 324 bytes are left
+  assert.strictEqual((await uploadThroughLink(body.link.id, { 'rest.bin': Buffer.alloc(400) })).status, 413);
+
+  const links = await (await fetch(`${server.url}/api/s3/upload-links`, { headers: { Cookie: admin.cookie } })).json();
+  assert.strictEqual(links.links.find(link => link.id === body.link.id).status, 'active');
+  const linksData = server.readData('upload-links');
+  linksData.links.find(link => link.id === body.link.id).uploadedSize = 1024;
+  server.writeData('upload-links', linksData);
+  assert.strictEqual((await fetch(`${server.url}/u/${body.link.id}`)).status, 410);
+});
+
+test('files larger than the link allows are refused', async () => {
+  const { body } = await createLink({ maxFileSize: 100 });
+  const response = await uploadThroughLink(body.link.id, { 'big.csv': Buffer.alloc(200) });
+  assert.strictEqual(response.status, 400);
+  assert.match(await response.text(), /Files can be at most/);
+  assert.ok(!s3.objects.has('alpha/inbox/big.csv'));
+});
+
+test('links stop working once revoked', async () => {
+  const { body } = await createLink({});
+  const revoke = await fetch(`${server.url}/api/s3/upload-links/${body.link.id}`, {
+    method: 'DELETE',
+    headers: { Cookie: admin.cookie },
+  });
+  assert.strictEqual((await revoke.json()).link.status, 'revoked');
+
+  const response = await uploadThroughLink(body.link.id, { 'late.csv': 'late' });
+  assert.strictEqual(response.status, 410);
+  assert.ok(!s3.objects.has('alpha/inbox/late.csv'));
+  assert.strictEqual((await fetch(`${server.url}/u/unknown-link`)).status, 404);
+});
+
+test('links stop working when their creator is demoted or removed', async () => {
+  const { body } = await createLink({});
+  try {
+    server.writeData('authorized-users', {
+      users: USERS.map(user => (user.email === 'admin@example.com' ? { ...user, role: 'user', projects: { alpha: ['read'] } } : user)),
+    });
+    const demoted = await uploadThroughLink(body.link.id, { 'after-demotion.csv': 'x' });
+    assert.strictEqual(demoted.status, 410);
+    assert.match(await demoted.text(), /can no longer receive them/);
+
+    server.writeData('authorized-users', { users: USERS.filter(user => user.email !== 'admin@example.com') });
+    assert.strictEqual((await fetch(`${server.url}/u/${body.link.id}`)).status, 410);
+    assert.ok(!s3.objects.has('alpha/inbox/after-demotion.csv'));
+  } finally {
+    server.writeData('authorized-users', { users: USERS });
+  }
+  assert.strictEqual((await fetch(`${server.url}/u/${body.link.id}`)).status, 200);
+});
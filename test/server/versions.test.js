@@ -0,0 +1,75 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+function api(path, { method = 'GET', json } = {}) {
+  return fetch(`${server.url}${path}`, {
+    method,
+    headers: json ? { 'Content-Type': 'application/json' } : {},
+    body: json ? JSON.stringify(json) : undefined,
+  });
+}
+
+async function upload(key, content) {
+  const form = new FormData();
+  form.append('key', key);
+  form.append('file', new Blob([content]), key.split('/').pop());
+  const response = await fetch(`${server.url}/api/s3/upload`, { method: 'POST', body: form });
+  assert.strictEqual(response.status, 200);
+}
+
+const listVersions = async key => (await api(`/api/s3/versions?key=${encodeURIComponent(key)}`)).json();
+
+before(async () => {
+  s3 = await startFakeS3({ versioning: true });
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+  await upload('alpha/config.json', '{"v":1}');
+  await upload('alpha/config.json', '{"v":2}');
+  // Shares the prefix, but is another file
+  await upload('alpha/config.json.bak', '{"backup":true}');
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('versions of a file are listed newest first', async () => {
+  const versions = await listVersions('alpha/config.json');
+  assert.deepStrictEqual(versions.map(version => [version.size, version.isLatest]), [[7, true], [7, false]]);
+  assert.ok(versions.every(version => version.key === 'alpha/config.json'));
+
+  assert.strictEqual((await api('/api/s3/versions')).status, 400);
+});
+
+test('an older version can be downloaded', async () => {
+  const [, oldest] = await listVersions('alpha/config.json');
+  const { url } = await (await api('/api/s3/presigned', { method: 'POST', json: { key: 'alpha/config.json', versionId: oldest.versionId } })).json();
+  assert.strictEqual(await (await fetch(url)).text(), '{"v":1}');
+});
+
+test('restoring copies an older version on top as the new current version', async () => {
+  const [, oldest] = await listVersions('alpha/config.json');
+  const response = await api('/api/s3/versions/restore', { method: 'POST', json: { key: 'alpha/config.json', versionId: oldest.versionId } });
+  assert.strictEqual(response.status, 200);
+  assert.strictEqual(s3.objects.get('alpha/config.json').toString(), '{"v":1}');
+
+  const versions = await listVersions('alpha/config.json');
+  assert.strictEqual(versions.length, 3);
+  assert.strictEqual(versions[0].versionId, (await response.json()).versionId);
+});
+
+test('delete markers show up in the history of a deleted file', async () => {
+  assert.strictEqual((await api('/api/s3/delete', { method: 'DELETE', json: { key: 'alpha/config.json.bak', permanent: true } })).status, 200);
+  const [marker, version] = await listVersions('alpha/config.json.bak');
+  assert.strictEqual(marker.isDeleteMarker, true);
+  assert.strictEqual(marker.isLatest, true);
+  assert.strictEqual(version.isDeleteMarker, false);
+
+  // Bring it back from before the delete
+  await api('/api/s3/versions/restore', { method: 'POST', json: { key: 'alpha/config.json.bak', versionId: version.versionId } });
+  assert.strictEqual(s3.objects.get('alpha/config.json.bak').toString(), '{"backup":true}');
+});
@@ -0,0 +1,91 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { setTimeout: delay } = require('timers/promises');
+const { startFakeS3, startServer } = require('./helpers');
+
+let s3;
+let server;
+
+// Name -> content of every entry in a stored (uncompressed) ZIP, read from its central directory
+function readZipEntries(zip) {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const entries = {};
+  for (let i = 0; i < count; i++) {
+    const size = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.subarray(offset + 46, offset + 46 + nameLength).toString();
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    entries[name] = zip.subarray(dataStart, dataStart + size).toString();
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function downloadZip(body) {
+  return fetch(`${server.url}/api/s3/download/zip`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+before(async () => {
+  s3 = await startFakeS3();
+  s3.objects.set('alpha/2025-05-01/a.json', Buffer.from('{"a":1}'));
+  s3.objects.set('alpha/2025-05-01/nested/b.json', Buffer.from('{"b":2}'));
+  s3.objects.set('alpha/2025-05-02/c.json', Buffer.from('{"c":3}'));
+  server = await startServer({ s3Endpoint: s3.endpoint, env: { NODE_ENV: 'development' } });
+});
+
+after(async () => {
+  await server?.stop();
+  await s3?.close();
+});
+
+test('a folder downloads as one archive named after it, keeping its structure', async () => {
+  const response = await downloadZip({ prefix: 'alpha/2025-05-01' });
+  assert.strictEqual(response.status, 200);
+  assert.strictEqual(response.headers.get('content-type'), 'application/zip');
+  assert.strictEqual(response.headers.get('content-disposition'), 'attachment; filename="2025-05-01.zip"');
+  assert.strictEqual(response.headers.get('x-archive-total-bytes'), '14');
+
+  const entries = readZipEntries(Buffer.from(await response.arrayBuffer()));
+  assert.deepStrictEqual(entries, { 'a.json': '{"a":1}', 'nested/b.json': '{"b":2}' });
+});
+
+test('selected files are archived relative to the folder they share', async () => {
+  const response = await downloadZip({ keys: ['alpha/2025-05-01/a.json', 'alpha/2025-05-02/c.json'] });
+  assert.strictEqual(response.headers.get('content-disposition'), 'attachment; filename="alpha.zip"');
+
+  const entries = readZipEntries(Buffer.from(await response.arrayBuffer()));
+  assert.deepStrictEqual(Object.keys(entries).sort(), ['2025-05-01/a.json', '2025-05-02/c.json']);
+});
+
+test('files that disappeared are listed inside the archive instead of failing it', async () => {
+  const response = await downloadZip({ keys: ['alpha/2025-05-01/a.json', 'alpha/2025-05-01/gone.json'] });
+  assert.strictEqual(response.status, 200);
+
+  const entries = readZipEntries(Buffer.from(await response.arrayBuffer()));
+  assert.strictEqual(entries['a.json'], '{"a":1}');
+  assert.match(entries['_download_errors.txt'], /alpha\/2025-05-01\/gone\.json/);
+
+  // The download is logged once the archive has been sent
+  let activities = [];
+  for (let attempt = 0; attempt < 50 && activities.length < 3; attempt++) {
+    await delay(20);
+    activities = server.readData('activity').activities;
+  }
+  const [activity] = activities;
+  assert.strictEqual(activity.status, 'failed');
+  assert.match(activity.details, /1\/2 files/);
+});
+
+test('an empty selection or folder has nothing to download', async () => {
+  assert.strictEqual((await downloadZip({ keys: [] })).status, 400);
+  assert.strictEqual((await downloadZip({ prefix: 'alpha/2030-01-01/' })).status, 404);
+});